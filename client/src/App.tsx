@@ -35,7 +35,8 @@ function Header() {
     disconnect, 
     isConnected, 
     account, 
-    isConnecting 
+    isConnecting,
+    isAdmin
   } = useAuth();
   const [, setLocation] = useLocation();
 
@@ -189,8 +190,8 @@ function Header() {
                     <span>Portfolios</span>
                   </DropdownMenuItem>
                   
-                  {/* Admin link - only show for the admin wallet address */}
-                  {account && account.toLowerCase() === '0x592139a3f8cf019f628a152fc1262b8aef5b7199'.toLowerCase() && (
+                  {/* Admin link - only show for users with the admin role */}
+                  {isAdmin && (
                     <>
                       <DropdownMenuItem onClick={() => setLocation("/admin")} className="cursor-pointer dropdown-item-hover">
                         <Settings className="mr-2 h-4 w-4" />
@@ -265,8 +266,8 @@ function Header() {
                       <span>Portfolios</span>
                     </DropdownMenuItem>
                     
-                    {/* Admin link in mobile menu - only show for the admin wallet address */}
-                    {account && account.toLowerCase() === '0x592139a3f8cf019f628a152fc1262b8aef5b7199'.toLowerCase() && (
+                    {/* Admin link in mobile menu - only show for users with the admin role */}
+                    {isAdmin && (
                       <>
                         <DropdownMenuItem onClick={() => setLocation("/admin")} className="cursor-pointer dropdown-item-hover">
                           <Settings className="mr-2 h-4 w-4" />
@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, ShieldCheck, ShieldOff } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useAuth } from '@/providers/auth-provider';
+import { useToast } from '@/hooks/use-toast';
+import type { UserRole } from '@shared/schema';
+
+interface AdminUser {
+  id: number;
+  username: string;
+  walletAddress: string | null;
+  displayName: string | null;
+  role: UserRole;
+  createdAt: string | null;
+}
+
+export default function AdminRoleManager() {
+  const { userId } = useAuth();
+  const { toast } = useToast();
+  const [walletAddress, setWalletAddress] = useState('');
+
+  // Query current admins
+  const { data: admins, isLoading } = useQuery({
+    queryKey: ['/api/admin/users'],
+    queryFn: async () => {
+      const response = await apiRequest({ url: '/api/admin/users', method: 'GET' });
+      return await response.json() as AdminUser[];
+    },
+  });
+
+  // Grant or revoke the admin role for a wallet
+  const setRoleMutation = useMutation({
+    mutationFn: async ({ address, role }: { address: string; role: UserRole }) => {
+      return apiRequest({
+        url: '/api/admin/roles',
+        method: 'POST',
+        data: { walletAddress: address, role },
+      });
+    },
+    onSuccess: (_response, { role }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] });
+      setWalletAddress('');
+      toast({
+        title: role === 'admin' ? 'Admin granted' : 'Admin revoked',
+        description: role === 'admin'
+          ? 'The wallet now has access to the admin dashboard.'
+          : 'The wallet no longer has admin access.',
+      });
+    },
+    onError: (error) => {
+      console.error('Error updating admin role:', error);
+      toast({
+        title: 'Failed to update role',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const isValidAddress = /^0x[a-fA-F0-9]{40}$/.test(walletAddress.trim());
+
+  return (
+    <Card className="border-white/10 p-4 space-y-4">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Input
+          placeholder="Wallet address (0x...)"
+          value={walletAddress}
+          onChange={(e) => setWalletAddress(e.target.value)}
+          className="font-mono"
+        />
+        <Button
+          onClick={() => setRoleMutation.mutate({ address: walletAddress.trim(), role: 'admin' })}
+          disabled={!isValidAddress || setRoleMutation.isPending}
+        >
+          {setRoleMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <ShieldCheck className="h-4 w-4 mr-2" />
+          )}
+          Grant Admin
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-white/60" />
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Wallet</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {(admins || []).map((admin) => (
+              <TableRow key={admin.id}>
+                <TableCell className="font-mono text-sm">{admin.walletAddress || admin.username}</TableCell>
+                <TableCell>{admin.displayName || '-'}</TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={admin.id === userId || !admin.walletAddress || setRoleMutation.isPending}
+                    onClick={() => admin.walletAddress && setRoleMutation.mutate({ address: admin.walletAddress, role: 'user' })}
+                  >
+                    <ShieldOff className="h-4 w-4 mr-1" />
+                    Revoke
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Card>
+  );
+}
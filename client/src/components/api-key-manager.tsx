@@ -0,0 +1,227 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Copy, KeyRound, Loader2, Trash2 } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { apiKeyScopes, type ApiKeyScope } from '@shared/schema';
+
+interface ApiKeyView {
+  id: number;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+interface CreatedApiKey extends ApiKeyView {
+  key: string;
+}
+
+const SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  'wallet:read': 'Read wallet balances and transactions',
+  'portfolio:read': 'Read your portfolios and their addresses',
+  'portfolio:write': 'Create, edit and delete your portfolios',
+};
+
+export default function ApiKeyManager() {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['wallet:read', 'portfolio:read']);
+  const [createdKey, setCreatedKey] = useState<CreatedApiKey | null>(null);
+
+  // Query the user's active keys
+  const { data: apiKeys, isLoading } = useQuery({
+    queryKey: ['/api/api-keys'],
+    queryFn: async () => {
+      const response = await apiRequest({ url: '/api/api-keys', method: 'GET' });
+      return await response.json() as ApiKeyView[];
+    },
+  });
+
+  const createKeyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest({
+        url: '/api/api-keys',
+        method: 'POST',
+        data: { name: name.trim(), scopes },
+      });
+      return await response.json() as CreatedApiKey;
+    },
+    onSuccess: (apiKey) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/api-keys'] });
+      setCreatedKey(apiKey);
+      setName('');
+    },
+    onError: (error) => {
+      console.error('Error creating API key:', error);
+      toast({
+        title: 'Failed to create API key',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const revokeKeyMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest({ url: `/api/api-keys/${id}`, method: 'DELETE' });
+    },
+    onSuccess: (_response, id) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/api-keys'] });
+      if (createdKey?.id === id) {
+        setCreatedKey(null);
+      }
+      toast({
+        title: 'API key revoked',
+        description: 'Scripts using this key will no longer be able to authenticate.',
+      });
+    },
+    onError: (error) => {
+      console.error('Error revoking API key:', error);
+      toast({
+        title: 'Failed to revoke API key',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes((current) => checked
+      ? Array.from(new Set([...current, scope]))
+      : current.filter((s) => s !== scope));
+  };
+
+  const copyCreatedKey = async () => {
+    if (!createdKey) return;
+    try {
+      await navigator.clipboard.writeText(createdKey.key);
+      toast({ title: 'Copied', description: 'API key copied to clipboard.' });
+    } catch (error) {
+      console.error('Error copying API key:', error);
+    }
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return 'Never';
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="api-key-name" className="text-white">Key name</Label>
+          <Input
+            id="api-key-name"
+            placeholder="e.g. Nightly balance export"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="bg-black/30 border-white/10 text-white"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label className="text-white">Scopes</Label>
+          {apiKeyScopes.map((scope) => (
+            <div key={scope} className="flex items-center gap-2">
+              <Checkbox
+                id={`scope-${scope}`}
+                checked={scopes.includes(scope)}
+                onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+              />
+              <Label htmlFor={`scope-${scope}`} className="font-normal text-sm">
+                <span className="font-mono text-white">{scope}</span>
+                <span className="text-muted-foreground"> - {SCOPE_DESCRIPTIONS[scope]}</span>
+              </Label>
+            </div>
+          ))}
+        </div>
+        <Button
+          onClick={() => createKeyMutation.mutate()}
+          disabled={!name.trim() || scopes.length === 0 || createKeyMutation.isPending}
+        >
+          {createKeyMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <KeyRound className="h-4 w-4 mr-2" />
+          )}
+          Create API Key
+        </Button>
+      </div>
+
+      {createdKey && (
+        <div className="p-4 rounded-md border border-yellow-500/30 bg-yellow-500/10 space-y-2">
+          <p className="text-sm text-yellow-200">
+            Copy your new key now - it won't be shown again. Send it as <span className="font-mono">Authorization: Bearer &lt;key&gt;</span>.
+          </p>
+          <div className="flex gap-2">
+            <Input readOnly value={createdKey.key} className="font-mono text-xs bg-black/50 border-white/10" />
+            <Button variant="outline" size="icon" onClick={copyCreatedKey}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-white/60" />
+        </div>
+      ) : !apiKeys || apiKeys.length === 0 ? (
+        <p className="text-center text-muted-foreground py-4">You haven't created any API keys yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Key</TableHead>
+              <TableHead>Scopes</TableHead>
+              <TableHead>Last Used</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {apiKeys.map((apiKey) => (
+              <TableRow key={apiKey.id}>
+                <TableCell>{apiKey.name}</TableCell>
+                <TableCell className="font-mono text-sm">{apiKey.keyPrefix}...</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {apiKey.scopes.map((scope) => (
+                      <Badge key={scope} variant="outline" className="font-mono text-xs">{scope}</Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">{formatDate(apiKey.lastUsedAt)}</TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={revokeKeyMutation.isPending}
+                    onClick={() => revokeKeyMutation.mutate(apiKey.id)}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Revoke
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -55,7 +55,8 @@ export default function ApiStats({ isAdmin = false }: ApiStatsProps) {
   const handleReset = async () => {
     try {
       setResetting(true);
-      await apiRequest('/api/stats/reset-counter', {
+      await apiRequest({
+        url: '/api/stats/reset-counter',
         method: 'POST'
       });
       toast({
@@ -3,7 +3,7 @@ import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Loader2, AlertCircle, Clock, Server, CheckCircle, XCircle, Users } from 'lucide-react';
+import { Loader2, AlertCircle, Clock, Server, CheckCircle, XCircle, Users, Gauge } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
 
 interface TopWallet {
@@ -35,6 +35,16 @@ interface WalletApiUsage {
   dailyCUsAverage: number;
 }
 
+interface RateLimitUsage {
+  clientKey: string;
+  clientType: 'apiKey' | 'user' | 'ip';
+  limit: number;
+  usage: number;
+  remaining: number;
+  resetAt: string;
+  allowed: boolean;
+}
+
 export function ApiUsageViewer() {
   const [walletAddress, setWalletAddress] = useState<string>('');
   const [loading, setLoading] = useState<boolean>(false);
@@ -42,6 +52,8 @@ export function ApiUsageViewer() {
   const [data, setData] = useState<WalletApiUsage | null>(null);
   const [topWallets, setTopWallets] = useState<TopWallet[]>([]);
   const [loadingTopWallets, setLoadingTopWallets] = useState<boolean>(false);
+  const [ownRateLimit, setOwnRateLimit] = useState<RateLimitUsage | null>(null);
+  const [rateLimitClients, setRateLimitClients] = useState<RateLimitUsage[]>([]);
   
   // Fetch top wallets on component mount
   useEffect(() => {
@@ -64,6 +76,30 @@ export function ApiUsageViewer() {
     fetchTopWallets();
   }, []);
   
+  // Fetch current rate limit usage (own quota and today's heaviest callers)
+  useEffect(() => {
+    const fetchRateLimits = async () => {
+      try {
+        const [ownResponse, clientsResponse] = await Promise.all([
+          fetch('/api/rate-limit'),
+          fetch('/api/stats/rate-limits')
+        ]);
+        if (ownResponse.ok) {
+          setOwnRateLimit(await ownResponse.json());
+        }
+        if (clientsResponse.ok) {
+          setRateLimitClients(await clientsResponse.json());
+        }
+      } catch (err) {
+        console.error('Error fetching rate limit usage:', err);
+      }
+    };
+    
+    fetchRateLimits();
+    const interval = setInterval(fetchRateLimits, 30000);
+    return () => clearInterval(interval);
+  }, []);
+  
   const handleFetchStats = async () => {
     if (!walletAddress) {
       setError('Please enter a wallet address');
@@ -276,6 +312,71 @@ export function ApiUsageViewer() {
         )}
       </Card>
 
+      {/* Rate Limits Section */}
+      <Card className="p-4 space-y-4 shadow-md backdrop-blur-sm bg-card/80 border-muted mt-6">
+        <div className="flex items-center mb-4">
+          <Gauge className="h-6 w-6 text-blue-500 mr-2" />
+          <h2 className="text-xl font-semibold">Daily Rate Limits</h2>
+        </div>
+        
+        {ownRateLimit && (
+          <div className="p-3 rounded bg-blue-500/10 border border-blue-500/20 text-sm">
+            <div className="flex justify-between mb-2">
+              <span>Your usage today</span>
+              <span className="font-semibold">
+                {ownRateLimit.usage.toLocaleString()} / {ownRateLimit.limit.toLocaleString()}
+              </span>
+            </div>
+            <div className="h-2 rounded bg-muted/40 overflow-hidden">
+              <div 
+                className={`h-full ${ownRateLimit.remaining === 0 ? 'bg-red-500' : 'bg-blue-500'}`}
+                style={{ width: `${Math.min(100, (ownRateLimit.usage / ownRateLimit.limit) * 100)}%` }}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">
+              Resets {formatDate(ownRateLimit.resetAt)}
+            </p>
+          </div>
+        )}
+        
+        {rateLimitClients.length === 0 ? (
+          <div className="py-4 text-center text-muted-foreground">
+            <p>No rate-limited calls recorded today</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-muted">
+                  <th className="text-left py-2">Caller</th>
+                  <th className="text-left py-2">Type</th>
+                  <th className="text-right py-2">Used</th>
+                  <th className="text-right py-2">Limit</th>
+                  <th className="text-right py-2">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rateLimitClients.map((client) => (
+                  <tr key={client.clientKey} className="border-b border-muted/40 hover:bg-muted/20">
+                    <td className="py-2 font-mono">{client.clientKey}</td>
+                    <td className="py-2">{client.clientType}</td>
+                    <td className="text-right py-2">{client.usage.toLocaleString()}</td>
+                    <td className="text-right py-2">{client.limit.toLocaleString()}</td>
+                    <td className="text-right py-2">
+                      {client.remaining === 0 ? (
+                        <span className="text-red-500 inline-flex items-center"><XCircle className="h-4 w-4 mr-1" />Limited</span>
+                      ) : (
+                        <span className="text-green-500 inline-flex items-center"><CheckCircle className="h-4 w-4 mr-1" />OK</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
       {/* Top Wallets Section */}
       <Card className="p-4 space-y-4 shadow-md backdrop-blur-sm bg-card/80 border-muted mt-6">
         <div className="flex items-center mb-4">
@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle, ExternalLink, Loader2, RotateCw, ShieldCheck, ShieldOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { TokenLogo } from '@/components/token-logo';
+import { useAuth } from '@/providers/auth-provider';
+import { useToast } from '@/hooks/use-toast';
+import { shortenAddress, cn } from '@/lib/utils';
+import { formatTokenAmount } from '@/lib/format';
+import { buildRevokeTransaction, type ApprovalsReport, type TokenApproval } from '@shared/approvals';
+
+interface ApprovalsPanelProps {
+  walletAddress: string;
+}
+
+const approvalKey = (approval: TokenApproval) => `${approval.tokenAddress}:${approval.spender}`;
+
+/**
+ * Outstanding token allowances for a wallet, with unlimited approvals and approvals to
+ * unverified spenders flagged. When the connected wallet is the one being viewed, each
+ * allowance can be revoked by sending approve(spender, 0) from it.
+ */
+export function ApprovalsPanel({ walletAddress }: ApprovalsPanelProps) {
+  const { account, isConnected, connect, sendTransaction } = useAuth();
+  const { toast } = useToast();
+  const [pending, setPending] = useState<string | null>(null);
+  // Revokes sent this session - the allowance only reads zero once they're mined
+  const [revoked, setRevoked] = useState<Record<string, string>>({});
+
+  const { data, isLoading, isFetching, error, refetch } = useQuery<ApprovalsReport>({
+    queryKey: [`/api/wallet/${walletAddress}/approvals`],
+    enabled: /^0x[a-fA-F0-9]{40}$/.test(walletAddress),
+    staleTime: 60 * 1000,
+  });
+
+  const canRevoke = isConnected && account?.toLowerCase() === walletAddress.toLowerCase();
+  const approvals = data?.approvals || [];
+  const riskyCount = approvals.filter(approval => approval.isUnlimited || approval.spenderVerified === false).length;
+
+  const handleRevoke = async (approval: TokenApproval) => {
+    const key = approvalKey(approval);
+    setPending(key);
+    try {
+      const hash = await sendTransaction(buildRevokeTransaction(approval.tokenAddress, approval.spender));
+      setRevoked(current => ({ ...current, [key]: hash }));
+      toast({
+        title: 'Revoke submitted',
+        description: `${approval.tokenSymbol} allowance for ${approval.spenderName || shortenAddress(approval.spender)} is being set to 0`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Revoke failed',
+        description: error instanceof Error ? error.message : 'The transaction was not sent',
+        variant: 'destructive',
+      });
+    } finally {
+      setPending(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-8 flex flex-col items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="animate-spin" size={20} />
+        Scanning approvals - the first scan of a wallet can take a minute
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-8 text-center text-sm text-red-400">
+        Failed to load approvals: {error instanceof Error ? error.message : 'Unknown error'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm text-muted-foreground">
+          {approvals.length} outstanding approval{approvals.length === 1 ? '' : 's'}
+          {riskyCount > 0 && <span className="text-yellow-400"> · {riskyCount} flagged</span>}
+        </div>
+        <div className="flex items-center gap-2">
+          {!canRevoke && (
+            isConnected ? (
+              <span className="text-xs text-muted-foreground">Connect this wallet to revoke</span>
+            ) : (
+              <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => connect()}>
+                Connect to revoke
+              </Button>
+            )
+          )}
+          <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => refetch()} disabled={isFetching} title="Rescan approvals">
+            <RotateCw size={14} className={cn(isFetching && 'animate-spin')} />
+          </Button>
+        </div>
+      </div>
+
+      {approvals.length === 0 ? (
+        <div className="py-8 flex flex-col items-center gap-2 text-sm text-muted-foreground">
+          <ShieldCheck className="text-green-400" size={24} />
+          No outstanding token approvals
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {approvals.map(approval => {
+            const key = approvalKey(approval);
+            const revokeHash = revoked[key];
+
+            return (
+              <div key={key} className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 rounded-md border border-white/10 bg-black/20">
+                <div className="flex items-center gap-2 min-w-0 sm:w-1/4">
+                  <TokenLogo address={approval.tokenAddress} symbol={approval.tokenSymbol} size="sm" />
+                  <span className="font-medium text-white truncate">{approval.tokenSymbol}</span>
+                </div>
+
+                <div className="flex-1 min-w-0 text-xs space-y-1">
+                  <div className="flex items-center gap-1 text-gray-300">
+                    <span className="text-gray-500">Spender:</span>
+                    <a
+                      href={`https://otter.pulsechain.com/address/${approval.spender}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="hover:text-white truncate flex items-center gap-1"
+                    >
+                      {approval.spenderName || <span className="font-mono">{shortenAddress(approval.spender)}</span>}
+                      <ExternalLink size={10} />
+                    </a>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-1">
+                    <span className="text-gray-500">Allowance:</span>
+                    {approval.isUnlimited ? (
+                      <span className="px-1.5 py-0.5 rounded border border-red-500/30 bg-red-500/10 text-red-400">Unlimited</span>
+                    ) : (
+                      <span className="text-gray-300">{formatTokenAmount(approval.allowanceFormatted ?? 0)} {approval.tokenSymbol}</span>
+                    )}
+                    {approval.spenderIsContract === false ? (
+                      <span className="px-1.5 py-0.5 rounded border border-yellow-500/30 bg-yellow-500/10 text-yellow-400 flex items-center gap-1">
+                        <AlertTriangle size={10} /> Wallet, not a contract
+                      </span>
+                    ) : approval.spenderVerified === false ? (
+                      <span className="px-1.5 py-0.5 rounded border border-yellow-500/30 bg-yellow-500/10 text-yellow-400 flex items-center gap-1">
+                        <ShieldOff size={10} /> Unverified contract
+                      </span>
+                    ) : null}
+                  </div>
+                </div>
+
+                <div className="sm:w-32 flex sm:justify-end">
+                  {revokeHash ? (
+                    <a
+                      href={`https://otter.pulsechain.com/tx/${revokeHash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-xs text-green-400 hover:text-green-300 flex items-center gap-1"
+                    >
+                      Revoke sent <ExternalLink size={10} />
+                    </a>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs border-red-500/30 text-red-400 hover:bg-red-500/10"
+                      disabled={!canRevoke || pending !== null}
+                      onClick={() => handleRevoke(approval)}
+                    >
+                      {pending === key ? <Loader2 className="animate-spin" size={12} /> : 'Revoke'}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { cn, formatCurrency } from '@/lib/utils';
+import type { AssetClassKey, AssetClassTotal } from '@/lib/asset-classes';
+
+interface AssetClassBreakdownProps {
+  classes: AssetClassTotal[];
+  className?: string;
+}
+
+const classColors: Record<AssetClassKey, string> = {
+  'tokens': 'bg-purple-500',
+  'liquidity': 'bg-blue-500',
+  'staked-hex': 'bg-pink-500'
+};
+
+/**
+ * A stacked bar of how the total splits between tokens, liquidity and staked HEX, with each
+ * class's value underneath
+ */
+export function AssetClassBreakdown({ classes, className }: AssetClassBreakdownProps) {
+  if (classes.length === 0) return null;
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex h-2 w-full overflow-hidden rounded-full bg-white/10">
+        {classes.map(assetClass => (
+          <div
+            key={assetClass.key}
+            className={classColors[assetClass.key]}
+            style={{ width: `${assetClass.percentage}%` }}
+          />
+        ))}
+      </div>
+      <div className="flex flex-wrap justify-between gap-x-4 gap-y-1 text-xs">
+        {classes.map(assetClass => (
+          <div key={assetClass.key} className="flex items-center gap-1.5">
+            <span className={cn('h-2 w-2 rounded-full', classColors[assetClass.key])} />
+            <span className="text-gray-400">{assetClass.label}</span>
+            <span className="font-medium text-white">{formatCurrency(assetClass.value)}</span>
+            <span className="text-gray-500">{assetClass.percentage.toFixed(1)}%</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
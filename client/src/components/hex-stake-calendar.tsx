@@ -0,0 +1,146 @@
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle, CalendarDays, Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn, formatTokenAmount, shortenAddress } from '@/lib/utils';
+import type { HexMaturity, HexMaturityCalendar, HexMaturityStatus } from '@shared/hex-stakes';
+
+interface HexStakeCalendarProps {
+  addresses: string[];
+  isMultiWallet?: boolean;
+}
+
+const statusStyles: Record<HexMaturityStatus, { label: string; row: string; badge: string }> = {
+  locked: { label: 'Locked', row: 'border-white/10', badge: 'bg-purple-600/20 text-purple-300 border-purple-600/30' },
+  due: { label: 'Ready to end', row: 'border-yellow-500/40 bg-yellow-500/5', badge: 'bg-yellow-600/20 text-yellow-400 border-yellow-600/30' },
+  late: { label: 'Late penalty', row: 'border-red-500/40 bg-red-500/5', badge: 'bg-red-600/20 text-red-400 border-red-600/30' },
+  unlocked: { label: 'Good-accounted', row: 'border-white/10', badge: 'bg-gray-600/20 text-gray-300 border-gray-600/30' }
+};
+
+// Stakes ending within this many days are counted as coming up
+const UPCOMING_DAYS = 30;
+
+// HEX days start at midnight UTC, so dates are shown in UTC to keep them on the right day
+const formatDate = (iso: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(iso).toLocaleDateString('en-US', { timeZone: 'UTC', ...options });
+
+function describeDaysUntil(maturity: HexMaturity) {
+  if (maturity.daysUntilEnd === 0) return 'today';
+  return maturity.daysUntilEnd > 0 ? `in ${maturity.daysUntilEnd} days` : `${-maturity.daysUntilEnd} days ago`;
+}
+
+/**
+ * End days of every stake across the wallets, grouped by month. Stakes that can be ended now are
+ * highlighted, and stakes past their grace period show how much of their return they're losing.
+ */
+export function HexStakeCalendar({ addresses, isMultiWallet = false }: HexStakeCalendarProps) {
+  const addressParam = addresses.map(address => address.toLowerCase()).join(',');
+  const { data: calendar, isLoading, error } = useQuery<HexMaturityCalendar>({
+    queryKey: [`/api/hex-stakes/calendar?addresses=${addressParam}`],
+    enabled: addresses.length > 0,
+    staleTime: 5 * 60 * 1000
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-8 flex items-center justify-center gap-2 text-sm text-white/70">
+        <Loader2 className="animate-spin" size={16} /> Loading stake calendar...
+      </div>
+    );
+  }
+
+  if (error || !calendar) {
+    return (
+      <div className="p-8 text-center text-sm text-red-400">
+        Failed to load stake calendar: {error instanceof Error ? error.message : 'Unknown error'}
+      </div>
+    );
+  }
+
+  const { maturities } = calendar;
+  const upcomingCount = maturities.filter(m => m.status === 'locked' && m.daysUntilEnd <= UPCOMING_DAYS).length;
+  const dueCount = maturities.filter(m => m.status === 'due').length;
+  const lateCount = maturities.filter(m => m.status === 'late').length;
+
+  // Maturities are sorted by end day, so months come out in order
+  const months: { label: string; maturities: HexMaturity[] }[] = [];
+  for (const maturity of maturities) {
+    const label = formatDate(maturity.endDate, { month: 'long', year: 'numeric' });
+    if (months[months.length - 1]?.label !== label) {
+      months.push({ label, maturities: [] });
+    }
+    months[months.length - 1].maturities.push(maturity);
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-3 text-sm text-white/70">
+          <span className="flex items-center gap-1">
+            <CalendarDays size={14} /> {upcomingCount} ending in the next {UPCOMING_DAYS} days
+          </span>
+          {dueCount > 0 && <span className="text-yellow-400">{dueCount} ready to end</span>}
+          {lateCount > 0 && (
+            <span className="text-red-400 flex items-center gap-1">
+              <AlertTriangle size={14} /> {lateCount} losing value to the late penalty
+            </span>
+          )}
+        </div>
+        <Button variant="outline" size="sm" className="h-7 text-xs" asChild>
+          <a href={`/api/hex-stakes/calendar.ics?addresses=${addressParam}`} download="hex-stakes.ics">
+            <Download size={12} className="mr-1" /> Export .ics
+          </a>
+        </Button>
+      </div>
+
+      {maturities.length === 0 ? (
+        <div className="py-8 text-center text-sm text-white/60">No stakes to show</div>
+      ) : (
+        months.map(month => (
+          <div key={month.label}>
+            <div className="text-xs font-semibold uppercase tracking-wide text-white/50 mb-2">{month.label}</div>
+            <div className="space-y-2">
+              {month.maturities.map(maturity => {
+                const style = statusStyles[maturity.status];
+
+                return (
+                  <div
+                    key={maturity.stakeId}
+                    className={cn('flex flex-col sm:flex-row sm:items-center gap-2 p-3 rounded-md border bg-black/20', style.row)}
+                  >
+                    <div className="sm:w-40">
+                      <div className="text-sm text-white">{formatDate(maturity.endDate, { month: 'short', day: 'numeric', year: 'numeric' })}</div>
+                      <div className="text-xs text-white/50">{describeDaysUntil(maturity)}</div>
+                    </div>
+
+                    <div className="flex-1 flex flex-wrap items-center gap-2 text-xs">
+                      <span className="text-white/70">Stake #{maturity.stakeId}</span>
+                      {isMultiWallet && (
+                        <span className="px-2 py-0.5 rounded-md bg-blue-600/20 text-blue-300 border border-blue-600/30" title={maturity.walletAddress}>
+                          {shortenAddress(maturity.walletAddress)}
+                        </span>
+                      )}
+                      <span className={cn('px-2 py-0.5 rounded-md border font-semibold', style.badge)}>{style.label}</span>
+                      {maturity.status === 'due' && (
+                        <span className="text-yellow-400">End by {formatDate(maturity.graceEndDate, { month: 'short', day: 'numeric' })}</span>
+                      )}
+                      {maturity.status === 'late' && (
+                        <span className="text-red-400">-{maturity.latePenaltyPercent.toFixed(1)}% of return</span>
+                      )}
+                    </div>
+
+                    <div className="sm:text-right">
+                      <div className="text-sm font-semibold text-white">{formatTokenAmount(maturity.totalHex)} HEX</div>
+                      <div className="text-xs text-gray-400">
+                        ${maturity.totalValueUsd.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn, formatTokenAmount } from '@/lib/utils';
+import {
+  LATE_PENALTY_GRACE_DAYS,
+  LATE_PENALTY_SCALE_DAYS,
+  dateToHexDay,
+  hexDayToDate,
+  type HexStake,
+  type HexStakeEndKind,
+  type HexStakeSimulation
+} from '@shared/hex-stakes';
+
+interface HexStakeSimulatorProps {
+  stake: HexStake;
+  currentDay: number;
+}
+
+const kindLabels: Record<HexStakeEndKind, { label: string; className: string }> = {
+  'not-started': { label: 'Not started', className: 'bg-gray-600/20 text-gray-300 border-gray-600/30' },
+  'early': { label: 'Emergency end', className: 'bg-red-600/20 text-red-400 border-red-600/30' },
+  'on-time': { label: 'On time', className: 'bg-green-600/20 text-green-400 border-green-600/30' },
+  'late': { label: 'Late end', className: 'bg-yellow-600/20 text-yellow-400 border-yellow-600/30' }
+};
+
+const formatDay = (day: number) => hexDayToDate(day).toLocaleDateString('en-US', {
+  timeZone: 'UTC',
+  month: 'short',
+  day: 'numeric',
+  year: 'numeric'
+});
+
+/**
+ * What ending a stake on a chosen day would pay back, with the early or late penalty the
+ * contract would take. The numbers come from the server, which runs the contract's own rules.
+ */
+export function HexStakeSimulator({ stake, currentDay }: HexStakeSimulatorProps) {
+  const [endDay, setEndDay] = useState(currentDay);
+
+  const { data: simulation, isLoading, error } = useQuery<HexStakeSimulation>({
+    queryKey: [`/api/wallet/${stake.walletAddress}/hex-stakes/${stake.stakeId}/simulate?endDay=${endDay}`],
+    staleTime: 5 * 60 * 1000
+  });
+
+  const graceEndDay = stake.endDay + LATE_PENALTY_GRACE_DAYS;
+  const presets = [
+    { label: 'Today', day: currentDay },
+    { label: 'End day', day: stake.endDay },
+    { label: 'Grace ends', day: graceEndDay },
+    { label: '1 year late', day: graceEndDay + 365 }
+  ].filter(preset => preset.day >= currentDay);
+
+  const handleDateChange = (value: string) => {
+    if (!value) return;
+    setEndDay(Math.max(currentDay, dateToHexDay(new Date(`${value}T00:00:00Z`))));
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-white/10 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-white/60">End stake on</span>
+        <Input
+          type="date"
+          className="h-7 w-40 text-xs"
+          value={hexDayToDate(endDay).toISOString().slice(0, 10)}
+          min={hexDayToDate(currentDay).toISOString().slice(0, 10)}
+          onChange={event => handleDateChange(event.target.value)}
+        />
+        {presets.map(preset => (
+          <Button
+            key={preset.label}
+            variant="outline"
+            size="sm"
+            className={cn('h-7 text-xs', preset.day === endDay && 'border-purple-600/50 text-purple-300')}
+            onClick={() => setEndDay(preset.day)}
+          >
+            {preset.label}
+          </Button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-xs text-white/60">
+          <Loader2 className="animate-spin" size={12} /> Simulating...
+        </div>
+      ) : error || !simulation ? (
+        <div className="text-xs text-red-400">
+          Failed to simulate: {error instanceof Error ? error.message : 'Unknown error'}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className={cn('px-2 py-0.5 rounded-md border font-semibold', kindLabels[simulation.kind].className)}>
+              {kindLabels[simulation.kind].label}
+            </span>
+            <span className="text-white/60">
+              Day {simulation.endDay} · {simulation.servedDays} of {stake.stakedDays} days served
+            </span>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="p-2 rounded-md bg-black/20 border border-white/5">
+              <div className="text-xs text-white/50">Interest</div>
+              <div className="text-sm text-white">+{formatTokenAmount(simulation.payoutHex)} HEX</div>
+            </div>
+            <div className="p-2 rounded-md bg-black/20 border border-white/5">
+              <div className="text-xs text-white/50">Penalty</div>
+              <div className={cn('text-sm', simulation.penaltyHex > 0 ? 'text-red-400' : 'text-white')}>
+                -{formatTokenAmount(simulation.penaltyHex)} HEX
+              </div>
+            </div>
+            <div className="p-2 rounded-md bg-black/20 border border-white/5">
+              <div className="text-xs text-white/50">You receive</div>
+              <div className="text-sm font-semibold text-white">{formatTokenAmount(simulation.stakeReturnHex)} HEX</div>
+              <div className="text-xs text-gray-400">
+                ${simulation.stakeReturnUsd.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+              </div>
+            </div>
+          </div>
+
+          <div className="text-xs text-white/50 space-y-1">
+            {simulation.kind === 'early' && (
+              <div>
+                Ending before {formatDay(stake.endDay)} forfeits the interest of the first half of the term
+                (at least 90 days).
+              </div>
+            )}
+            {simulation.kind === 'on-time' && stake.isActive && (
+              <div>No penalty if the stake is ended by {formatDay(graceEndDay)}.</div>
+            )}
+            {simulation.kind === 'late' && (
+              <div>
+                Ended {simulation.endDay - graceEndDay} days after the grace period - the whole return is
+                lost {LATE_PENALTY_SCALE_DAYS} days after {formatDay(graceEndDay)}.
+              </div>
+            )}
+            {simulation.projectedDays > 0 && (
+              <div>Includes {simulation.projectedDays} days of interest projected at today's payout rate.</div>
+            )}
+          </div>
+
+          {!simulation.allowed && (
+            <div className="flex items-center gap-1 text-xs text-yellow-400">
+              <AlertTriangle size={12} /> Auto-stakes can't be ended until they've served 350 days.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
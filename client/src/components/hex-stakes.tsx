@@ -1,112 +1,13 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Card } from '@/components/ui/card';
-import { ethers } from 'ethers';
 import { Progress } from '@/components/ui/progress';
 import { Loader2 } from 'lucide-react';
-import { formatCurrency, formatTokenAmount, formatUsd } from '@/lib/utils';
-
-// HEX Contract on PulseChain & ETH - same address on both chains
-const HEX_CONTRACT_ADDRESS = '0x2b591e99afE9f32eAA6214f7B7629768c40Eeb39';
-
-// HEX launch timestamp (2019-12-03T00:00:00Z)
-const LAUNCH_TS = 1575331200;
-const DAY_SECONDS = 86400;
-
-// Simplified ABI with just the functions we need for stakes
-const HEX_ABI = [
-  // Read stakeCount 
-  {
-    "constant": true,
-    "inputs": [{"internalType": "address", "name": "stakerAddr", "type": "address"}],
-    "name": "stakeCount",
-    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
-    "payable": false,
-    "stateMutability": "view",
-    "type": "function"
-  },
-  // Read stakeLists
-  {
-    "constant": true,
-    "inputs": [
-      {"internalType": "address", "name": "stakerAddr", "type": "address"},
-      {"internalType": "uint256", "name": "stakeIndex", "type": "uint256"}
-    ],
-    "name": "stakeLists",
-    "outputs": [
-      {"internalType": "uint40", "name": "stakeId", "type": "uint40"},
-      {"internalType": "uint72", "name": "stakedHearts", "type": "uint72"},
-      {"internalType": "uint72", "name": "stakeShares", "type": "uint72"},
-      {"internalType": "uint16", "name": "lockedDay", "type": "uint16"},
-      {"internalType": "uint16", "name": "stakedDays", "type": "uint16"},
-      {"internalType": "uint16", "name": "unlockedDay", "type": "uint16"},
-      {"internalType": "bool", "name": "isAutoStake", "type": "bool"}
-    ],
-    "payable": false,
-    "stateMutability": "view",
-    "type": "function"
-  },
-  // Get the current day
-  {
-    "constant": true,
-    "inputs": [],
-    "name": "currentDay",
-    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
-    "payable": false,
-    "stateMutability": "view",
-    "type": "function"
-  }
-];
-
-interface HexStake {
-  stakeId: string;
-  stakedHearts: string;
-  stakeShares: string;
-  lockedDay: number;
-  stakedDays: number;
-  unlockedDay: number;
-  isAutoStake: boolean;
-  lockDate: string;
-  unlockDate: string | null;
-  endDate: string;
-  isActive: boolean;
-  progressPercentage: number;
-  hexAmount: string;
-  daysRemaining: number | null;
-  interestEarned?: string;
-  valueUsd?: number;
-  interestValueUsd?: number;
-  totalValueUsd?: number;
-  walletAddress?: string; // Store which wallet this stake belongs to
-}
-
-// HEX Contract Constants for proper calculation
-const SHARE_RATE_SCALE = 100000; // 1e5
-const LPB = 1820; // Longer Pays Better denominator  
-const BPB = 1500000000000000; // Bigger Pays Better denominator (1.5e15)
-const BPB_MAX_HEARTS = 15000000000000000; // 150M * 1e8
-const LPB_MAX_DAYS = 3640;
-
-// Calculate bonus hearts using actual HEX contract formula
-function calculateStakeStartBonusHearts(stakedHearts: string, stakedDays: number): number {
-  const stakedHeartsNum = parseFloat(stakedHearts);
-  
-  // Longer Pays Better calculation
-  let cappedExtraDays = 0;
-  if (stakedDays > 1) {
-    cappedExtraDays = stakedDays <= LPB_MAX_DAYS ? stakedDays - 1 : LPB_MAX_DAYS;
-  }
-  
-  // Bigger Pays Better calculation  
-  const cappedStakedHearts = stakedHeartsNum <= BPB_MAX_HEARTS ? stakedHeartsNum : BPB_MAX_HEARTS;
-  
-  // Combined bonus calculation - this was way too high, need to scale properly
-  const bonusHearts = (cappedExtraDays * BPB + cappedStakedHearts * LPB);
-  const finalBonus = (stakedHeartsNum * bonusHearts) / (LPB * BPB);
-  
-  // The bonus calculation was giving astronomically high values
-  // HEX bonus is typically 10-200% of principal, not millions of times
-  return Math.min(finalBonus, stakedHeartsNum * 3); // Cap at 300% bonus max
-}
+import { formatTokenAmount } from '@/lib/utils';
+import { HexStakeCalendar } from '@/components/hex-stake-calendar';
+import { HexStakeSimulator } from '@/components/hex-stake-simulator';
+import { HexYieldChart } from '@/components/hex-yield-chart';
+import { useCombinedHexStakes } from '@/hooks/use-hex-stakes';
+import type { HexStake } from '@shared/hex-stakes';
 
 interface HexStakesProps {
   walletAddress: string;
@@ -115,285 +16,26 @@ interface HexStakesProps {
   onClose?: () => void;
 }
 
+// Longer Pays Better + Bigger Pays Better bonus as a percentage of the principal
+const formatBonusPercent = (stake: HexStake) =>
+  stake.stakedHearts === '0' ? '0.00' : (Number(BigInt(stake.bonusHearts) * BigInt(10000) / BigInt(stake.stakedHearts)) / 100).toFixed(2);
+
 type SortOption = 'newest' | 'oldest' | 'amount-desc' | 'amount-asc' | 'progress';
 
 export function HexStakes({ walletAddress, otherWalletAddresses = [], isMultiWallet = false, onClose }: HexStakesProps) {
-  const [stakes, setStakes] = useState<HexStake[]>([]);
   const [sortedStakes, setSortedStakes] = useState<HexStake[]>([]);
   const [sortBy, setSortBy] = useState<SortOption>('newest');
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [totalHexStaked, setTotalHexStaked] = useState('0');
-  const [totalInterest, setTotalInterest] = useState('0');
-  const [totalStakePlusInterest, setTotalStakePlusInterest] = useState('0');
-  const [hexPrice, setHexPrice] = useState(0);
-  const [stakedValueUsd, setStakedValueUsd] = useState(0);
-  const [interestValueUsd, setInterestValueUsd] = useState(0);
-  const [totalValueUsd, setTotalValueUsd] = useState(0);
-  const [stakeCount, setStakeCount] = useState(0);
-  // Always use PulseChain now that we're focusing only on PulseChain stakes
-  const chainId = '0x171'; // PulseChain
 
-  // Fetch hex stakes
-  useEffect(() => {
-    const fetchHexStakes = async () => {
-      if (!walletAddress) return;
-      
-      setIsLoading(true);
-      setError(null);
-      
-      try {
-        // Always use PulseChain RPC
-        const rpcUrl = 'https://rpc-pulsechain.g4mm4.io'; // PulseChain
-        
-        const provider = new ethers.providers.JsonRpcProvider(rpcUrl, {
-          chainId: 369,
-          name: 'pulsechain',
-          ensAddress: null // Disable ENS resolution on PulseChain
-        });
-        const hexContract = new ethers.Contract(HEX_CONTRACT_ADDRESS, HEX_ABI, provider);
-        
-        // Import the cached price function to avoid duplicate API calls
-        const hexStakesModule = await import('@/hooks/use-hex-stakes');
-        const currentHexPrice = await hexStakesModule.getHexPriceWithCache();
-        
-        setHexPrice(currentHexPrice);
-        
-        // Get the current day from contract
-        const currentDayBN = await hexContract.currentDay();
-        const currentDay = Number(currentDayBN);
-        
-        // Determine which addresses to process
-        const addressesToProcess = isMultiWallet ? 
-          [walletAddress, ...otherWalletAddresses] : 
-          [walletAddress];
-          
-        console.log(`Processing HEX stakes for ${addressesToProcess.length} wallet(s): `, 
-          isMultiWallet ? 'Multiple wallets mode' : 'Single wallet mode');
-        
-        // Store all stakes from all wallets
-        const allStakesData: HexStake[] = [];
-        let totalHexStakedBN = ethers.BigNumber.from(0);
-        let totalInterestBN = 0;
-        let totalStakeCount = 0;
-        
-        // First, get stake counts for all wallets in parallel
-        console.log(`Fetching stake counts for ${addressesToProcess.length} wallets in parallel...`);
-        const stakeCountPromises = addressesToProcess.map(async (address) => {
-          try {
-            const countBN = await hexContract.stakeCount(address);
-            const count = Number(countBN);
-            console.log(`Found ${count} HEX stakes for wallet: ${address}`);
-            return { address, count };
-          } catch (err) {
-            console.error(`Error getting stake count for ${address}:`, err);
-            return { address, count: 0 };
-          }
-        });
-        
-        const stakeCounts = await Promise.all(stakeCountPromises);
-        totalStakeCount = stakeCounts.reduce((sum, { count }) => sum + count, 0);
-        
-        // Process all wallets' stakes in parallel
-        const walletStakePromises = stakeCounts.map(async ({ address, count }) => {
-          if (count === 0) return [];
-          
-          console.log(`Fetching ${count} stakes for wallet: ${address} in parallel...`);
-          
-          // Batch stake fetching for each wallet
-          const BATCH_SIZE = 10; // Process 10 stakes at a time
-          const stakePromises: Promise<any>[] = [];
-          
-          for (let i = 0; i < count; i += BATCH_SIZE) {
-            const batchEnd = Math.min(i + BATCH_SIZE, count);
-            const batchPromises = [];
-            
-            for (let j = i; j < batchEnd; j++) {
-              batchPromises.push(
-                hexContract.stakeLists(address, j)
-                  .then(stake => ({ stake, index: j, address }))
-                  .catch(err => {
-                    console.error(`Error fetching stake ${j} for ${address}:`, err);
-                    return null;
-                  })
-              );
-            }
-            
-            stakePromises.push(...batchPromises);
-          }
-          
-          const stakes = await Promise.all(stakePromises);
-          
-          return stakes
-            .filter(stakeData => stakeData !== null)
-            .map(({ stake, address }) => {
-              // Parse raw stake data
-              const stakeId = stake[0].toString();
-              const stakedHearts = stake[1].toString();
-              const stakeShares = stake[2].toString();
-              const lockedDay = Number(stake[3]);
-              const stakedDays = Number(stake[4]);
-              const unlockedDay = Number(stake[5]);
-              const isAutoStake = stake[6];
-              
-              // Convert locked/unlocked days to dates
-              const lockDate = new Date((LAUNCH_TS + lockedDay * DAY_SECONDS) * 1000);
-              const unlockDate = unlockedDay === 0
-                ? null // Still locked
-                : new Date((LAUNCH_TS + unlockedDay * DAY_SECONDS) * 1000);
-              
-              // Calculate end date (maturity date)
-              const endDate = new Date((LAUNCH_TS + (lockedDay + stakedDays) * DAY_SECONDS) * 1000);
-              
-              // Determine if stake is still active
-              const isActive = unlockedDay === 0;
-              
-              // Calculate progress percentage
-              let progressPercentage = 0;
-              const endDay = lockedDay + stakedDays;
-              
-              if (isActive && currentDay >= lockedDay) {
-                // If stake is active and we're past the lock day
-                const daysPassed = currentDay - lockedDay;
-                progressPercentage = Math.min(100, Math.floor((daysPassed / stakedDays) * 100));
-              } else if (!isActive) {
-                // Stake is ended
-                progressPercentage = 100;
-              }
-              
-              // Calculate days remaining
-              let daysRemaining = null;
-              if (isActive) {
-                daysRemaining = Math.max(0, endDay - currentDay);
-              }
-              
-              // Format HEX amount (8 decimals)
-              const hexAmount = ethers.utils.formatUnits(stakedHearts, 8);
-              
-              // Calculate estimated interest using adjusted rates for ~18k target
-              let interestEarned = "0";
-              if (progressPercentage > 0) {
-                const stakedHexAmount = parseFloat(hexAmount);
-                
-                const daysElapsed = Math.floor((stakedDays * progressPercentage) / 100);
-                const yearsElapsed = daysElapsed / 365;
-                
-                // Realistic HEX APY rates based on historical performance (~41% average)
-                let annualReturn = 0.30; // Base 30% APY for shorter stakes
-                
-                // Higher returns for longer stakes (big paydays get better returns)
-                if (stakedDays >= 5555) { // Big payday stakes (15 years)
-                  annualReturn = 0.50; // 50% APY for max length stakes
-                } else if (stakedDays >= 3000) { // Long stakes (8+ years)
-                  annualReturn = 0.45; // 45% APY for long stakes
-                } else if (stakedDays >= 1000) { // Medium stakes (3+ years)
-                  annualReturn = 0.38; // 38% APY for medium stakes
-                }
-                
-                // Simple interest: principal * rate * time
-                const interestHex = stakedHexAmount * annualReturn * yearsElapsed;
-                
-                // Cap maximum interest at 4x principal for big paydays
-                const cappedInterest = Math.min(interestHex, stakedHexAmount * 4);
-                
-                interestEarned = Math.max(0, cappedInterest).toFixed(2);
-                
-                // Add to total interest
-                totalInterestBN += parseFloat(interestEarned);
-              }
-              
-              // Add to total staked HEX
-              totalHexStakedBN = totalHexStakedBN.add(ethers.BigNumber.from(stakedHearts));
-              
-              // Calculate USD values for this stake
-              const stakeValueUsd = parseFloat(hexAmount) * currentHexPrice;
-              const stakeInterestValueUsd = parseFloat(interestEarned) * currentHexPrice;
-              const stakeTotalValueUsd = stakeValueUsd + stakeInterestValueUsd;
-              
-              return {
-                stakeId,
-                stakedHearts,
-                stakeShares,
-                lockedDay,
-                stakedDays,
-                unlockedDay,
-                isAutoStake,
-                lockDate: lockDate.toISOString(),
-                unlockDate: unlockDate ? unlockDate.toISOString() : null,
-                endDate: endDate.toISOString(),
-                isActive,
-                progressPercentage,
-                hexAmount,
-                daysRemaining,
-                interestEarned,
-                valueUsd: stakeValueUsd,
-                interestValueUsd: stakeInterestValueUsd,
-                totalValueUsd: stakeTotalValueUsd,
-                walletAddress: address // Add wallet address to identify which wallet it belongs to
-              };
-            });
-        });
-        
-        // Wait for all wallets to be processed
-        const allWalletStakes = await Promise.all(walletStakePromises);
-        
-        // Flatten and process all stakes
-        allWalletStakes.forEach(walletStakes => {
-          walletStakes.forEach((stake: any) => {
-            // Add to total staked HEX
-            totalHexStakedBN = totalHexStakedBN.add(ethers.BigNumber.from(stake.stakedHearts));
-            
-            // Add to total interest
-            totalInterestBN += parseFloat(stake.interestEarned);
-            
-            allStakesData.push(stake);
-          });
-        });
-        
-        setStakeCount(totalStakeCount);
-        
-        if (totalStakeCount === 0) {
-          setStakes([]);
-          setTotalHexStaked('0');
-          setTotalInterest('0');
-          setTotalStakePlusInterest('0');
-          setIsLoading(false);
-          return;
-        }
-        
-        // Sort stakes by lock date (newest first)
-        allStakesData.sort((a, b) => {
-          return new Date(b.lockDate).getTime() - new Date(a.lockDate).getTime();
-        });
-        
-        // Format and set state values
-        const formattedTotalHexStaked = ethers.utils.formatUnits(totalHexStakedBN, 8);
-        const formattedTotalInterest = totalInterestBN.toFixed(2);
-        const totalStakePlusInterestValue = (parseFloat(formattedTotalHexStaked) + totalInterestBN).toFixed(2);
-        
-        // Calculate USD values
-        const stakedHexUsd = parseFloat(formattedTotalHexStaked) * currentHexPrice;
-        const interestHexUsd = totalInterestBN * currentHexPrice;
-        const totalValueUsd = parseFloat(totalStakePlusInterestValue) * currentHexPrice;
-        
-        setStakes(allStakesData);
-        setTotalHexStaked(formattedTotalHexStaked);
-        setTotalInterest(formattedTotalInterest);
-        setTotalStakePlusInterest(totalStakePlusInterestValue);
-        setStakedValueUsd(stakedHexUsd);
-        setInterestValueUsd(interestHexUsd);
-        setTotalValueUsd(totalValueUsd);
-        
-      } catch (err) {
-        console.error('Error fetching HEX stakes:', err);
-        setError('Failed to fetch HEX stakes. Please try again later.');
-      } finally {
-        setIsLoading(false);
-      }
-    };
-    
-    fetchHexStakes();
-  }, [walletAddress, otherWalletAddresses, isMultiWallet, chainId]);
+  // Stakes and their payouts come from the server, which reads them from the HEX contract
+  const addresses = useMemo(
+    () => (isMultiWallet ? [walletAddress, ...otherWalletAddresses] : [walletAddress]).filter(Boolean),
+    [walletAddress, otherWalletAddresses, isMultiWallet]
+  );
+  const { stakes, totals, currentDay, isLoading, error } = useCombinedHexStakes(addresses);
+  const [simulatingStakeId, setSimulatingStakeId] = useState<string | null>(null);
+  const [view, setView] = useState<'list' | 'calendar'>('list');
+  const [showYieldHistory, setShowYieldHistory] = useState(false);
+  const stakeCount = totals.stakeCount;
   
   // Format date in a user-friendly way
   const formatDate = (dateString: string) => {
@@ -432,10 +74,10 @@ export function HexStakes({ walletAddress, otherWalletAddresses = [], isMultiWal
           newSortedStakes.sort((a, b) => new Date(a.lockDate).getTime() - new Date(b.lockDate).getTime());
           break;
         case 'amount-desc':
-          newSortedStakes.sort((a, b) => parseFloat(b.hexAmount) - parseFloat(a.hexAmount));
+          newSortedStakes.sort((a, b) => b.stakedHex - a.stakedHex);
           break;
         case 'amount-asc':
-          newSortedStakes.sort((a, b) => parseFloat(a.hexAmount) - parseFloat(b.hexAmount));
+          newSortedStakes.sort((a, b) => a.stakedHex - b.stakedHex);
           break;
 
         case 'progress':
@@ -506,195 +148,267 @@ export function HexStakes({ walletAddress, otherWalletAddresses = [], isMultiWal
         <div className="flex flex-col md:flex-row items-center gap-6">
           <div className="text-right">
             <div className="text-sm text-white/70">Total HEX Staked</div>
-            <div className="text-lg font-bold text-white" data-total-staked={totalHexStaked}>
-              {formatTokenAmount(parseFloat(totalHexStaked))}
+            <div className="text-lg font-bold text-white">
+              {formatTokenAmount(totals.stakedHex)}
             </div>
-            <div className="text-xs text-gray-400">${formatUsd(stakedValueUsd)}</div>
+            <div className="text-xs text-gray-400">${formatUsd(totals.stakedValueUsd)}</div>
           </div>
           
           <div className="text-right">
             <div className="text-sm text-white/70">Total Interest</div>
-            <div className="text-lg font-bold text-white" data-total-interest={totalInterest}>
-              +{formatTokenAmount(parseFloat(totalInterest))}
+            <div className="text-lg font-bold text-white">
+              +{formatTokenAmount(totals.interestHex)}
             </div>
-            <div className="text-xs text-gray-400">+${formatUsd(interestValueUsd)}</div>
+            <div className="text-xs text-gray-400">+${formatUsd(totals.interestValueUsd)}</div>
           </div>
           
           <div className="text-right">
             <div className="text-sm text-white/70">Total Stake + Interest</div>
-            <div className="text-lg font-bold bg-gradient-to-r from-yellow-400 via-orange-500 to-pink-600 bg-clip-text text-transparent"
-                 data-total-combined={totalStakePlusInterest}>
-              {formatTokenAmount(parseFloat(totalStakePlusInterest))}
+            <div className="text-lg font-bold bg-gradient-to-r from-yellow-400 via-orange-500 to-pink-600 bg-clip-text text-transparent">
+              {formatTokenAmount(totals.totalHex)}
             </div>
-            <div className="text-xs text-gray-400">${formatUsd(totalValueUsd)}</div>
+            <div className="text-xs text-gray-400">${formatUsd(totals.totalValueUsd)}</div>
           </div>
         </div>
       </div>
-      
-      {/* Sorting Controls */}
-      <div className="mb-4 flex items-center justify-between">
-        <div className="text-sm text-white/70">
-          Sort by:
+
+      {/* Share and yield figures across every stake shown */}
+      <div className="mb-4 grid grid-cols-3 gap-2 text-center">
+        <div className="p-2 rounded-md bg-black/20 border border-white/5">
+          <div className="text-xs text-white/50">T-Shares</div>
+          <div className="text-sm font-semibold text-white">{formatTokenAmount(totals.tShares)}</div>
         </div>
-        <div className="flex flex-wrap gap-2 justify-end">
-          <button 
-            onClick={() => setSortBy('newest')}
-            className={`px-3 py-1 rounded-md text-xs ${
-              sortBy === 'newest' 
-                ? 'bg-purple-600/20 text-purple-300 border border-purple-600/30 font-semibold' 
-                : 'bg-black/20 text-white/70 border border-white/10 hover:border-white/30'
-            }`}
-          >
-            Newest First
-          </button>
-          <button 
-            onClick={() => setSortBy('oldest')}
+        <div className="p-2 rounded-md bg-black/20 border border-white/5">
+          <div className="text-xs text-white/50">Yield per T-Share</div>
+          <div className="text-sm font-semibold text-green-400">{formatTokenAmount(totals.yieldPerTShare)} HEX</div>
+        </div>
+        <div className="p-2 rounded-md bg-black/20 border border-white/5">
+          <div className="text-xs text-white/50">Avg. Days Remaining</div>
+          <div className="text-sm font-semibold text-white" title="Weighted by the principal of each active stake">
+            {totals.weightedAverageRemainingDays !== null
+              ? Math.round(totals.weightedAverageRemainingDays).toLocaleString()
+              : '-'}
+          </div>
+        </div>
+      </div>
+
+      {/* View Toggle */}
+      <div className="mb-4 flex gap-2">
+        {(['list', 'calendar'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setView(option)}
             className={`px-3 py-1 rounded-md text-xs ${
-              sortBy === 'oldest' 
-                ? 'bg-purple-600/20 text-purple-300 border border-purple-600/30 font-semibold' 
+              view === option
+                ? 'bg-purple-600/20 text-purple-300 border border-purple-600/30 font-semibold'
                 : 'bg-black/20 text-white/70 border border-white/10 hover:border-white/30'
             }`}
           >
-            Oldest First
+            {option === 'list' ? 'Stakes' : 'Maturity Calendar'}
           </button>
-          <button 
-            onClick={() => setSortBy('amount-desc')}
-            className={`px-3 py-1 rounded-md text-xs ${
-              sortBy === 'amount-desc' 
-                ? 'bg-purple-600/20 text-purple-300 border border-purple-600/30 font-semibold' 
-                : 'bg-black/20 text-white/70 border border-white/10 hover:border-white/30'
-            }`}
+        ))}
+      </div>
+      
+      {view === 'calendar' ? (
+        <HexStakeCalendar addresses={addresses} isMultiWallet={isMultiWallet} />
+      ) : (
+        <>
+        {/* Yield History - reads a range of dailyData and prices, so only loaded when opened */}
+        <div className="mb-4">
+          <button
+            onClick={() => setShowYieldHistory(!showYieldHistory)}
+            className="w-full px-3 py-1 rounded-md text-xs bg-black/20 text-white/70 border border-white/10 hover:border-white/30"
           >
-            Largest Amount
+            {showYieldHistory ? 'Hide yield history' : 'Show yield history'}
           </button>
+          {showYieldHistory && (
+            <div className="mt-3">
+              <HexYieldChart addresses={addresses} />
+            </div>
+          )}
+        </div>
 
-          <button 
-            onClick={() => setSortBy('progress')}
-            className={`px-3 py-1 rounded-md text-xs ${
-              sortBy === 'progress' 
-                ? 'bg-purple-600/20 text-purple-300 border border-purple-600/30 font-semibold' 
-                : 'bg-black/20 text-white/70 border border-white/10 hover:border-white/30'
-            }`}
-          >
-            Progress
-          </button>
+        {/* Sorting Controls */}
+        <div className="mb-4 flex items-center justify-between">
+          <div className="text-sm text-white/70">
+            Sort by:
+          </div>
+          <div className="flex flex-wrap gap-2 justify-end">
+            <button 
+              onClick={() => setSortBy('newest')}
+              className={`px-3 py-1 rounded-md text-xs ${
+                sortBy === 'newest' 
+                  ? 'bg-purple-600/20 text-purple-300 border border-purple-600/30 font-semibold' 
+                  : 'bg-black/20 text-white/70 border border-white/10 hover:border-white/30'
+              }`}
+            >
+              Newest First
+            </button>
+            <button 
+              onClick={() => setSortBy('oldest')}
+              className={`px-3 py-1 rounded-md text-xs ${
+                sortBy === 'oldest' 
+                  ? 'bg-purple-600/20 text-purple-300 border border-purple-600/30 font-semibold' 
+                  : 'bg-black/20 text-white/70 border border-white/10 hover:border-white/30'
+              }`}
+            >
+              Oldest First
+            </button>
+            <button 
+              onClick={() => setSortBy('amount-desc')}
+              className={`px-3 py-1 rounded-md text-xs ${
+                sortBy === 'amount-desc' 
+                  ? 'bg-purple-600/20 text-purple-300 border border-purple-600/30 font-semibold' 
+                  : 'bg-black/20 text-white/70 border border-white/10 hover:border-white/30'
+              }`}
+            >
+              Largest Amount
+            </button>
+
+            <button 
+              onClick={() => setSortBy('progress')}
+              className={`px-3 py-1 rounded-md text-xs ${
+                sortBy === 'progress' 
+                  ? 'bg-purple-600/20 text-purple-300 border border-purple-600/30 font-semibold' 
+                  : 'bg-black/20 text-white/70 border border-white/10 hover:border-white/30'
+              }`}
+            >
+              Progress
+            </button>
+          </div>
         </div>
-      </div>
       
-      {/* Stakes List */}
-      <div className="space-y-4">
-        {sortedStakes.map((stake, index) => (
-          <Card key={`stake-${stake.stakeId}-${index}`} className="p-4 border-white/10 glass-card stake-item">
-            <div className="flex flex-col md:flex-row gap-4">
-              {/* Left side - Stake Details */}
-              <div className="flex-1">
-                <div className="flex flex-col md:flex-row md:items-center justify-between mb-2">
-                  <div className="flex flex-wrap items-center gap-2">
-                    <div className="bg-purple-600/20 text-purple-300 px-2 py-1 rounded-md text-xs font-semibold border border-purple-600/30">
-                      Stake ID: {stake.stakeId}
-                    </div>
-                    <div className={`px-2 py-1 rounded-md text-xs font-semibold ${
-                      stake.isActive 
-                        ? 'bg-green-600/20 text-green-400 border border-green-600/30' 
-                        : 'bg-gray-600/20 text-gray-400 border border-gray-600/30'
-                    }`}>
-                      {stake.isActive ? 'Active' : 'Ended'}
-                    </div>
-                    
-                    {/* Wallet badge (only in multi-wallet mode) */}
-                    {isMultiWallet && stake.walletAddress && (
-                      <div className="px-2 py-1 rounded-md text-xs bg-blue-600/20 text-blue-300 border border-blue-600/30" title={stake.walletAddress}>
-                        {stake.walletAddress.substring(0, 6)}...{stake.walletAddress.substring(stake.walletAddress.length - 4)}
+        {/* Stakes List */}
+        <div className="space-y-4">
+          {sortedStakes.map((stake, index) => (
+            <Card key={`stake-${stake.stakeId}-${index}`} className="p-4 border-white/10 glass-card stake-item">
+              <div className="flex flex-col md:flex-row gap-4">
+                {/* Left side - Stake Details */}
+                <div className="flex-1">
+                  <div className="flex flex-col md:flex-row md:items-center justify-between mb-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <div className="bg-purple-600/20 text-purple-300 px-2 py-1 rounded-md text-xs font-semibold border border-purple-600/30">
+                        Stake ID: {stake.stakeId}
                       </div>
-                    )}
-                  </div>
-                  <div className="mt-2 md:mt-0 text-right">
-                    <div className="text-white font-bold">
-                      {formatTokenAmount(parseFloat(stake.hexAmount))} HEX
+                      <div className={`px-2 py-1 rounded-md text-xs font-semibold ${
+                        stake.isActive 
+                          ? 'bg-green-600/20 text-green-400 border border-green-600/30' 
+                          : 'bg-gray-600/20 text-gray-400 border border-gray-600/30'
+                      }`}>
+                        {stake.isActive ? 'Active' : 'Ended'}
+                      </div>
+                    
+                      {/* Wallet badge (only in multi-wallet mode) */}
+                      {isMultiWallet && stake.walletAddress && (
+                        <div className="px-2 py-1 rounded-md text-xs bg-blue-600/20 text-blue-300 border border-blue-600/30" title={stake.walletAddress}>
+                          {stake.walletAddress.substring(0, 6)}...{stake.walletAddress.substring(stake.walletAddress.length - 4)}
+                        </div>
+                      )}
                     </div>
-                    {stake.valueUsd !== undefined && (
-                      <div className="text-xs text-gray-400">
-                        ${formatUsd(stake.valueUsd)}
+                    <div className="mt-2 md:mt-0 text-right">
+                      <div className="text-white font-bold">
+                        {formatTokenAmount(stake.stakedHex)} HEX
                       </div>
-                    )}
+                      {stake.valueUsd !== undefined && (
+                        <div className="text-xs text-gray-400">
+                          ${formatUsd(stake.valueUsd)}
+                        </div>
+                      )}
+                    </div>
                   </div>
-                </div>
                 
-                <div className="grid grid-cols-2 gap-x-4 gap-y-2 mb-3">
-                  <div>
-                    <div className="text-xs text-white/50">Start Date</div>
-                    <div className="text-sm text-white">{formatDate(stake.lockDate)}</div>
-                  </div>
-                  <div>
-                    <div className="text-xs text-white/50">End Date</div>
-                    <div className="text-sm text-white">{formatDate(stake.endDate)}</div>
-                  </div>
-                  <div>
-                    <div className="text-xs text-white/50">Term Length</div>
-                    <div className="text-sm text-white">{stake.stakedDays} days</div>
-                  </div>
-                  <div>
-                    <div className="text-xs text-white/50">{stake.isActive ? 'Days Remaining' : 'Completed'}</div>
-                    <div className="text-sm text-white">
-                      {stake.isActive 
-                        ? (stake.daysRemaining !== null ? `${stake.daysRemaining} days` : 'Calculating...') 
-                        : 'Stake completed'}
+                  <div className="grid grid-cols-2 gap-x-4 gap-y-2 mb-3">
+                    <div>
+                      <div className="text-xs text-white/50">Start Date</div>
+                      <div className="text-sm text-white">{formatDate(stake.lockDate)}</div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-white/50">End Date</div>
+                      <div className="text-sm text-white">{formatDate(stake.endDate)}</div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-white/50">Term Length</div>
+                      <div className="text-sm text-white">{stake.stakedDays} days</div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-white/50">{stake.isActive ? 'Days Remaining' : 'Completed'}</div>
+                      <div className="text-sm text-white">
+                        {stake.isActive 
+                          ? (stake.daysRemaining !== null ? `${stake.daysRemaining} days` : 'Calculating...') 
+                          : 'Stake completed'}
+                      </div>
                     </div>
                   </div>
-                </div>
                 
-                {/* Progress Bar */}
-                <div className="mb-2">
-                  <div className="flex justify-between items-center mb-1">
-                    <div className="text-xs text-white/60">Progress</div>
-                    <div className="text-xs font-medium text-white/80">{stake.progressPercentage}%</div>
+                  {/* Progress Bar */}
+                  <div className="mb-2">
+                    <div className="flex justify-between items-center mb-1">
+                      <div className="text-xs text-white/60">Progress</div>
+                      <div className="text-xs font-medium text-white/80">{stake.progressPercentage}%</div>
+                    </div>
+                    <Progress 
+                      value={stake.progressPercentage} 
+                      className="h-2" 
+                      style={{ background: 'rgba(255,255,255,0.1)' }}
+                    />
                   </div>
-                  <Progress 
-                    value={stake.progressPercentage} 
-                    className="h-2" 
-                    style={{ background: 'rgba(255,255,255,0.1)' }}
-                  />
                 </div>
-              </div>
               
-              {/* Right side - Estimated Earnings */}
-              <div className="md:w-64 p-3 bg-black/20 rounded-md border border-white/5">
-                <div className="text-center mb-2">
-                  <div className="text-xs text-white/60">
-                    {stake.isActive ? 'Estimated Earnings' : 'Final Earnings'}
+                {/* Right side - Estimated Earnings */}
+                <div className="md:w-64 p-3 bg-black/20 rounded-md border border-white/5">
+                  <div className="text-center mb-2">
+                    <div className="text-xs text-white/60">
+                      {stake.isActive ? 'Interest Earned So Far' : 'Final Interest'}
+                    </div>
                   </div>
-                </div>
                 
-                <div className="text-center">
-                  <div className="text-lg md:text-xl font-bold bg-gradient-to-r from-yellow-400 via-orange-500 to-pink-600 bg-clip-text text-transparent">
-                    +{formatTokenAmount(parseFloat(stake.interestEarned || '0'))} HEX
-                  </div>
-                  {stake.isActive && (
-                    <div className="text-xs text-white/50 mt-1">
-                      Based on current progress ({stake.progressPercentage}%)
+                  <div className="text-center">
+                    <div className="text-lg md:text-xl font-bold bg-gradient-to-r from-yellow-400 via-orange-500 to-pink-600 bg-clip-text text-transparent">
+                      +{formatTokenAmount(stake.interestHex)} HEX
                     </div>
-                  )}
-                </div>
-                
-                {stake.isActive && stake.daysRemaining !== null && stake.daysRemaining > 0 && (
-                  <div className="mt-3 pt-3 border-t border-white/10 text-center">
-                    <div className="text-xs text-white/60 mb-1">
-                      Estimated Completion
+                    <div className="text-xs text-white/50 mt-1">
+                      Over {stake.daysServed} of {stake.stakedDays} days served
+                      {stake.estimatedDays > 0 && ` (${stake.estimatedDays} estimated)`}
                     </div>
-                    <div className="text-sm font-medium text-white/80">
-                      {new Date(Date.now() + (stake.daysRemaining * 24 * 60 * 60 * 1000)).toLocaleDateString('en-US', {
-                        month: 'short',
-                        day: 'numeric',
-                        year: 'numeric'
-                      })}
+                    <div className="text-xs text-white/50">
+                      Start bonus: +{formatBonusPercent(stake)}% shares
                     </div>
                   </div>
-                )}
+                
+                  {stake.isActive && stake.daysRemaining !== null && stake.daysRemaining > 0 && (
+                    <div className="mt-3 pt-3 border-t border-white/10 text-center">
+                      <div className="text-xs text-white/60 mb-1">
+                        Estimated Completion
+                      </div>
+                      <div className="text-sm font-medium text-white/80">
+                        {new Date(Date.now() + (stake.daysRemaining * 24 * 60 * 60 * 1000)).toLocaleDateString('en-US', {
+                          month: 'short',
+                          day: 'numeric',
+                          year: 'numeric'
+                        })}
+                      </div>
+                    </div>
+                  )}
+
+                  {currentDay !== null && (
+                    <button
+                      onClick={() => setSimulatingStakeId(simulatingStakeId === stake.stakeId ? null : stake.stakeId)}
+                      className="mt-3 w-full px-3 py-1 rounded-md text-xs bg-black/20 text-white/70 border border-white/10 hover:border-white/30"
+                    >
+                      {simulatingStakeId === stake.stakeId ? 'Hide simulation' : 'Simulate ending'}
+                    </button>
+                  )}
+                </div>
               </div>
-            </div>
-          </Card>
-        ))}
-      </div>
+
+              {currentDay !== null && simulatingStakeId === stake.stakeId && (
+                <HexStakeSimulator stake={stake} currentDay={currentDay} />
+              )}
+            </Card>
+          ))}
+        </div>
+        </>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,219 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { cn, formatCurrency, formatTokenAmount } from '@/lib/utils';
+import type { HexYieldHistory } from '@shared/hex-stakes';
+
+interface HexYieldChartProps {
+  addresses: string[];
+}
+
+const ranges = [30, 90, 365] as const;
+
+// Only the stakes that have earned the most get a line, past this many the chart is unreadable
+const MAX_STAKE_LINES = 8;
+const stakeColors = ['#a855f7', '#ec4899', '#f59e0b', '#10b981', '#3b82f6', '#ef4444', '#14b8a6', '#eab308'];
+
+const yieldChartConfig = {
+  yieldUsd: {
+    label: 'Daily yield',
+    color: '#10b981',
+  },
+} satisfies ChartConfig;
+
+// HEX days start at midnight UTC, so dates are shown in UTC to keep them on the right day
+const formatDate = (iso: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(iso).toLocaleDateString('en-US', { timeZone: 'UTC', ...options });
+
+// Compact axis labels - $1.2K rather than $1,234.00
+function formatAxisValue(value: number, currency = false) {
+  return new Intl.NumberFormat('en-US', {
+    style: currency ? 'currency' : 'decimal',
+    currency: 'USD',
+    notation: 'compact',
+    maximumFractionDigits: 1,
+  }).format(value);
+}
+
+/**
+ * Yield history of the stakes in a set of wallets: how each stake's interest built up, and what
+ * the stakes earned together each day in USD at that day's HEX price
+ */
+export function HexYieldChart({ addresses }: HexYieldChartProps) {
+  const [days, setDays] = useState<typeof ranges[number]>(90);
+  const addressParam = addresses.map(address => address.toLowerCase()).join(',');
+
+  const { data: history, isLoading, error } = useQuery<HexYieldHistory>({
+    queryKey: [`/api/hex-stakes/yield-history?addresses=${addressParam}&days=${days}`],
+    enabled: addresses.length > 0,
+    staleTime: 5 * 60 * 1000
+  });
+
+  // One row per day with a column per charted stake, the shape LineChart wants
+  const accrual = useMemo(() => {
+    if (!history) return { rows: [], config: {} as ChartConfig };
+
+    const lastAccrued = (points: { accruedHex: number }[]) => points[points.length - 1]?.accruedHex || 0;
+    const charted = [...history.stakes]
+      .sort((a, b) => lastAccrued(b.points) - lastAccrued(a.points))
+      .slice(0, MAX_STAKE_LINES);
+
+    const config: ChartConfig = {};
+    charted.forEach((stake, index) => {
+      config[`stake${stake.stakeId}`] = { label: `Stake #${stake.stakeId}`, color: stakeColors[index % stakeColors.length] };
+    });
+
+    const rows = history.days.map(day => {
+      const row: Record<string, number | string> = { date: day.date };
+      for (const stake of charted) {
+        const point = stake.points.find(candidate => candidate.day === day.day);
+        if (point) row[`stake${stake.stakeId}`] = point.accruedHex;
+      }
+      return row;
+    });
+
+    return { rows, config };
+  }, [history]);
+
+  const latest = history?.days[history.days.length - 1];
+  const pricedDays = (history?.days || []).filter(day => day.yieldUsd !== null);
+  const totalYieldUsd = pricedDays.reduce((sum, day) => sum + (day.yieldUsd || 0), 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-3 text-sm text-white/70">
+          {latest && (
+            <span>
+              Latest payout: <span className="text-white font-medium">{formatTokenAmount(latest.payoutPerTShare)} HEX</span> per T-Share
+            </span>
+          )}
+          {pricedDays.length > 0 && (
+            <span>
+              Earned: <span className="text-green-400 font-medium">{formatCurrency(totalYieldUsd)}</span> over {pricedDays.length} days
+            </span>
+          )}
+        </div>
+        <div className="flex gap-1">
+          {ranges.map(option => (
+            <Button
+              key={option}
+              variant="ghost"
+              size="sm"
+              onClick={() => setDays(option)}
+              className={cn('h-6 px-2 text-xs', days === option ? 'bg-white/10 text-white' : 'text-white/60')}
+            >
+              {option}d
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="p-8 flex items-center justify-center gap-2 text-sm text-white/70">
+          <Loader2 className="animate-spin" size={16} /> Loading yield history...
+        </div>
+      ) : error || !history ? (
+        <div className="p-8 text-center text-sm text-red-400">
+          Failed to load yield history: {error instanceof Error ? error.message : 'Unknown error'}
+        </div>
+      ) : history.stakes.length === 0 ? (
+        <div className="py-8 text-center text-sm text-white/60">No stakes earned anything in this range</div>
+      ) : (
+        <>
+          <div className="p-3 rounded-md bg-black/20 border border-white/10">
+            <div className="text-xs text-white/60 mb-2">Daily Yield (USD)</div>
+            {pricedDays.length === 0 ? (
+              <div className="h-[160px] flex items-center justify-center text-xs text-white/50">
+                No HEX price history for this range
+              </div>
+            ) : (
+              <ChartContainer config={yieldChartConfig} className="aspect-auto h-[160px] w-full">
+                <BarChart data={history.days} margin={{ left: 0, right: 8, top: 4, bottom: 0 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="date"
+                    tickLine={false}
+                    axisLine={false}
+                    minTickGap={32}
+                    tickFormatter={(value: string) => formatDate(value, { month: 'short', day: 'numeric' })}
+                  />
+                  <YAxis
+                    tickLine={false}
+                    axisLine={false}
+                    width={56}
+                    tickFormatter={(value: number) => formatAxisValue(value, true)}
+                  />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(_, payload) => {
+                          const date = payload?.[0]?.payload?.date;
+                          return date ? formatDate(date, { month: 'short', day: 'numeric', year: 'numeric' }) : '';
+                        }}
+                        formatter={(value, _, item) =>
+                          `${formatCurrency(Number(value))} (${formatTokenAmount(item.payload.yieldHex)} HEX)`
+                        }
+                      />
+                    }
+                  />
+                  <Bar dataKey="yieldUsd" fill="var(--color-yieldUsd)" radius={[2, 2, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </div>
+
+          <div className="p-3 rounded-md bg-black/20 border border-white/10">
+            <div className="text-xs text-white/60 mb-2">
+              Interest Accrued per Stake (HEX)
+              {history.stakes.length > MAX_STAKE_LINES && ` - top ${MAX_STAKE_LINES} of ${history.stakes.length}`}
+            </div>
+            <ChartContainer config={accrual.config} className="aspect-auto h-[200px] w-full">
+              <LineChart data={accrual.rows} margin={{ left: 0, right: 8, top: 4, bottom: 0 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="date"
+                  tickLine={false}
+                  axisLine={false}
+                  minTickGap={32}
+                  tickFormatter={(value: string) => formatDate(value, { month: 'short', day: 'numeric' })}
+                />
+                <YAxis
+                  tickLine={false}
+                  axisLine={false}
+                  width={56}
+                  tickFormatter={(value: number) => formatAxisValue(value)}
+                />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) => {
+                        const date = payload?.[0]?.payload?.date;
+                        return date ? formatDate(date, { month: 'short', day: 'numeric', year: 'numeric' }) : '';
+                      }}
+                      formatter={(value, name) => `${accrual.config[String(name)]?.label}: ${formatTokenAmount(Number(value))} HEX`}
+                    />
+                  }
+                />
+                {Object.keys(accrual.config).map(key => (
+                  <Line
+                    key={key}
+                    dataKey={key}
+                    type="monotone"
+                    stroke={`var(--color-${key})`}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls={false}
+                  />
+                ))}
+              </LineChart>
+            </ChartContainer>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -77,11 +77,8 @@ export default function HistoricalApiStats() {
     
     try {
       setLoading(true);
-      const response = await fetch(`/api/stats/historical?days=${period}`, {
-        headers: {
-          'Wallet-Address': account
-        }
-      });
+      // Admin access is checked server-side from the session cookie
+      const response = await fetch(`/api/stats/historical?days=${period}`);
       
       if (!response.ok) {
         if (response.status === 403) {
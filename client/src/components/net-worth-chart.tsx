@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { formatCurrency, cn } from '@/lib/utils';
+import { valueHistoryRanges, type ValueHistory, type ValueHistoryRange } from '@shared/value-history';
+
+interface NetWorthChartProps {
+  walletAddress?: string;
+  // Numeric portfolio id or slug, as used in /portfolio/:portfolioId
+  portfolioId?: string;
+}
+
+const chartConfig = {
+  totalValue: {
+    label: 'Net worth',
+    color: 'hsl(var(--primary))',
+  },
+} satisfies ChartConfig;
+
+// Compact axis labels - $1.2M rather than $1,234,567.00
+function formatAxisValue(value: number) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    notation: 'compact',
+    maximumFractionDigits: 1,
+  }).format(value);
+}
+
+/**
+ * Line chart of a wallet's or portfolio's recorded net worth. Snapshots are only taken of
+ * wallets that belong to a portfolio, so the chart hides itself when there is no history.
+ */
+export function NetWorthChart({ walletAddress, portfolioId }: NetWorthChartProps) {
+  const [range, setRange] = useState<ValueHistoryRange>('30d');
+
+  // Portfolio history is keyed by id - resolve a slug first
+  const isSlug = !!portfolioId && !/^\d+$/.test(portfolioId);
+  const { data: portfolioBySlug } = useQuery<{ id: number }>({
+    queryKey: [`/api/portfolios/slug/${portfolioId}`],
+    enabled: isSlug,
+  });
+  const resolvedPortfolioId = isSlug ? portfolioBySlug?.id : portfolioId;
+
+  const historyUrl = resolvedPortfolioId
+    ? `/api/portfolios/${resolvedPortfolioId}/history?range=${range}`
+    : walletAddress
+      ? `/api/wallet/${walletAddress}/history?range=${range}`
+      : null;
+
+  const { data: history, isLoading } = useQuery<ValueHistory>({
+    queryKey: [historyUrl],
+    enabled: !!historyUrl,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // Nothing recorded in any range yet - don't take up space in the overview
+  if (!isLoading && range === '30d' && (!history || history.points.length === 0)) {
+    return null;
+  }
+
+  const showTime = range === '24h' || range === '7d';
+  const data = (history?.points || []).map(point => ({
+    timestamp: point.timestamp,
+    totalValue: point.totalValue,
+  }));
+
+  return (
+    <div className="glass-card rounded-lg p-4 border-white/15">
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-sm text-muted-foreground">Net Worth History</div>
+        {history?.change && (
+          <span className={cn(
+            'text-xs px-1.5 py-0.5 rounded-md font-medium border',
+            history.change.absolute >= 0
+              ? 'text-green-400 border-green-500/30 bg-green-500/10'
+              : 'text-red-400 border-red-500/30 bg-red-500/10'
+          )}>
+            {history.change.absolute >= 0 ? '+' : ''}{formatCurrency(history.change.absolute)}
+            {history.change.percent !== null && ` (${history.change.percent >= 0 ? '+' : ''}${history.change.percent.toFixed(1)}%)`}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-1 mb-3">
+        {valueHistoryRanges.map(option => (
+          <Button
+            key={option}
+            variant="ghost"
+            size="sm"
+            onClick={() => setRange(option)}
+            className={cn(
+              'h-6 px-2 text-xs',
+              range === option ? 'bg-white/10 text-white' : 'text-muted-foreground'
+            )}
+          >
+            {option}
+          </Button>
+        ))}
+      </div>
+
+      {data.length < 2 ? (
+        <div className="h-[160px] flex items-center justify-center text-xs text-muted-foreground">
+          {isLoading ? 'Loading history...' : 'Not enough snapshots in this range yet'}
+        </div>
+      ) : (
+        <ChartContainer config={chartConfig} className="aspect-auto h-[160px] w-full">
+          <LineChart data={data} margin={{ left: 0, right: 8, top: 4, bottom: 0 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="timestamp"
+              tickLine={false}
+              axisLine={false}
+              minTickGap={32}
+              tickFormatter={(value: string) => format(parseISO(value), showTime ? 'MMM d HH:mm' : 'MMM d')}
+            />
+            <YAxis
+              tickLine={false}
+              axisLine={false}
+              width={56}
+              domain={['auto', 'auto']}
+              tickFormatter={formatAxisValue}
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) => {
+                    const timestamp = payload?.[0]?.payload?.timestamp;
+                    return timestamp ? format(parseISO(timestamp), 'MMM d, yyyy HH:mm') : '';
+                  }}
+                  formatter={(value) => formatCurrency(Number(value))}
+                />
+              }
+            />
+            <Line
+              dataKey="totalValue"
+              type="monotone"
+              stroke="var(--color-totalValue)"
+              strokeWidth={2}
+              dot={false}
+            />
+          </LineChart>
+        </ChartContainer>
+      )}
+    </div>
+  );
+}
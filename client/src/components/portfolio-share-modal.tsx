@@ -5,6 +5,8 @@ import { formatCurrency, formatTokenAmount } from '@/lib/utils';
 import { VisuallyHidden } from '@radix-ui/react-visually-hidden';
 import { Token } from '@shared/schema';
 import { getHiddenTokens } from '@/lib/api';
+import { getAssetClassBreakdown } from '@/lib/asset-classes';
+import { AssetClassBreakdown } from './asset-class-breakdown';
 
 
 interface PortfolioShareModalProps {
@@ -32,26 +34,15 @@ export function PortfolioShareModal({
 
   // Calculate portfolio data
   const portfolioData = useMemo(() => {
-    if (!walletData) return { totalValue: 0, topTokens: [] };
+    if (!walletData) return { classes: [], totalValue: 0, topTokens: [] };
     
     // Get all visible tokens (exclude hidden tokens)
     const visibleTokens = (walletData.tokens || []).filter((token: Token) => 
       !hiddenTokens.includes(token.address)
     );
     
-    // Add HEX stakes as a virtual token if it exists and has value
+    // Staked HEX isn't a token, so it's shown as its own asset class below the total instead
     const allTokens = [...visibleTokens];
-    if (hexStakesData && hexStakesData.totalCombinedValueUsd > 0) {
-      allTokens.push({
-        address: 'hex-stakes-virtual',
-        name: 'HEX Stakes',
-        symbol: 'HEX Stakes',
-        value: hexStakesData.totalCombinedValueUsd,
-        balanceFormatted: hexStakesData.totalCombinedHex,
-        price: hexStakesData.hexPrice,
-        isLp: false
-      });
-    }
     
     // Add native PLS if exists
     if (walletData.plsBalance && walletData.plsBalance > 0) {
@@ -85,23 +76,17 @@ export function PortfolioShareModal({
       .sort((a, b) => (b.value || 0) - (a.value || 0))
       .slice(0, 5);
     
-    // Calculate total portfolio value from visible tokens only
-    const tokenValue = visibleTokens.reduce((sum: number, token: Token) => 
-      sum + (token.value || 0), 0
-    );
-    const hexValue = hexStakesData?.totalCombinedValueUsd || 0;
+    // Calculate total portfolio value from visible tokens, PLS and HEX stakes
     const plsValue = walletData.plsBalance && walletData.plsBalance > 0 ? 
       walletData.plsBalance * (sortedTokens.find(t => t.symbol === 'WPLS')?.price || 0) : 0;
     
-    const totalValue = tokenValue + hexValue + plsValue;
-    
     return {
-      totalValue,
+      ...getAssetClassBreakdown(visibleTokens, hexStakesData?.totalCombinedValueUsd || 0, plsValue),
       topTokens: sortedTokens
     };
   }, [walletData, hexStakesData, hiddenTokens]);
 
-  const { totalValue, topTokens } = portfolioData;
+  const { classes, totalValue, topTokens } = portfolioData;
 
 
 
@@ -145,6 +130,7 @@ export function PortfolioShareModal({
             <p className="text-xl sm:text-2xl md:text-3xl lg:text-4xl font-bold bg-gradient-to-r from-purple-400 via-pink-400 to-purple-400 bg-clip-text text-transparent">
               {formatCurrency(totalValue)}
             </p>
+            <AssetClassBreakdown classes={classes} className="mt-2 sm:mt-3 text-left" />
           </div>
 
           {/* Token List */}
@@ -155,15 +141,7 @@ export function PortfolioShareModal({
                   {index + 1}.
                 </span>
                 <div className="h-8 w-8 sm:h-10 sm:w-10 md:h-12 md:w-12 flex-shrink-0 flex items-center justify-center">
-                  {token.address === 'hex-stakes-virtual' ? (
-                    <div className="w-full h-full flex items-center justify-center">
-                      <TokenLogo 
-                        address="0x2b591e99afe9f32eaa6214f7b7629768c40eeb39" 
-                        symbol="HEX" 
-                        size="lg"
-                      />
-                    </div>
-                  ) : token.address === 'native-pls' ? (
+                  {token.address === 'native-pls' ? (
                     <div className="w-full h-full rounded-full bg-gradient-to-br from-green-500 to-emerald-500 flex items-center justify-center">
                       <span className="text-white font-bold text-base md:text-lg">PLS</span>
                     </div>
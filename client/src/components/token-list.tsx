@@ -1,10 +1,12 @@
 import { useState, useMemo, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from "@/components/ui/switch";
 import { Token } from '@shared/schema';
-import { Search, ArrowDownUp, Eye, EyeOff, Wallet, History, Droplets, GitCompareArrows } from 'lucide-react';
+import { costBasisMethods, type CostBasisMethod, type CostBasisReport, type TokenCostBasis } from '@shared/cost-basis';
+import { Search, ArrowDownUp, Eye, EyeOff, Wallet, History, Droplets, GitCompareArrows, ShieldCheck } from 'lucide-react';
 import { formatCurrency, formatCurrencyWithPrecision, formatTokenAmount, getChangeColorClass, getAdvancedChangeClass } from '@/lib/utils';
 import { formatTokenPrice } from '@/lib/format';
 import { TokenLogo } from '@/components/token-logo';
@@ -15,6 +17,7 @@ import { useBatchTokenLogos } from '@/hooks/use-batch-token-logos';
 import { usePagination } from '@/hooks/use-pagination';
 import { useDebounce } from '@/hooks/use-debounce';
 import { TransactionHistory } from '@/components/transaction-history';
+import { ApprovalsPanel } from '@/components/approvals-panel';
 import { TokenActionsMenu } from '@/components/token-actions-menu';
 import { HexStakes } from '@/components/hex-stakes';
 import {
@@ -42,6 +45,17 @@ interface TokenListProps {
 
 type SortOption = 'value' | 'balance' | 'name' | 'price' | 'change';
 
+const COST_BASIS_METHOD_LABELS: Record<CostBasisMethod, string> = {
+  fifo: 'FIFO',
+  lifo: 'LIFO',
+  average: 'Average cost',
+};
+
+function formatPnl(value: number | null | undefined): string {
+  if (value === null || value === undefined) return 'N/A';
+  return `${value > 0 ? '+' : ''}${formatCurrency(value)}`;
+}
+
 export function TokenList({ 
   tokens, 
   isLoading, 
@@ -68,8 +82,11 @@ export function TokenList({
   const [showTransactions, setShowTransactions] = useState(false);
   const [showLiquidity, setShowLiquidity] = useState(false);
   const [showHexStakes, setShowHexStakes] = useState(false);
+  const [showApprovals, setShowApprovals] = useState(false);
   const [txHistoryKey, setTxHistoryKey] = useState(Date.now());
   const [hexStakesKey, setHexStakesKey] = useState(Date.now());
+  const [showPnl, setShowPnl] = useState(false);
+  const [costBasisMethod, setCostBasisMethod] = useState<CostBasisMethod>('fifo');
   // NOTE: We don't maintain our own page state, we get it from pagination prop
   // and use onPageChange callback to request page changes from the parent
 
@@ -90,6 +107,20 @@ export function TokenList({
     });
   }, [tokenAddresses]);
 
+  // Cost basis is worked out from a single wallet's history, and only on request since pricing
+  // every past transaction is slow
+  const canShowPnl = !isMultiWallet && !!walletAddress && /^0x[a-fA-F0-9]{40}$/.test(walletAddress);
+  const { data: costBasis, isFetching: isCostBasisLoading } = useQuery<CostBasisReport>({
+    queryKey: [`/api/wallet/${walletAddress}/cost-basis?method=${costBasisMethod}`],
+    enabled: canShowPnl && showPnl,
+  });
+  const costBasisByToken = useMemo(() => {
+    const byToken = new Map<string, TokenCostBasis>();
+    costBasis?.tokens.forEach(token => byToken.set(token.tokenAddress.toLowerCase(), token));
+    return byToken;
+  }, [costBasis]);
+  const pnlColumnsVisible = canShowPnl && showPnl && !showLiquidity;
+
   // Handle toggling token visibility
   const handleToggleVisibility = (tokenAddress: string) => {
     const isNowHidden = toggleHiddenToken(tokenAddress);
@@ -239,15 +270,16 @@ export function TokenList({
               setShowTransactions(false);
               setShowLiquidity(false);
               setShowHexStakes(false);
+              setShowApprovals(false);
             }}
             className={`flex items-center gap-1 px-2 sm:px-3 py-1.5 text-nowrap rounded-md glass-card border border-white/10 transition-all duration-200 
-              ${!showTransactions && !showLiquidity && !showHexStakes
+              ${!showTransactions && !showLiquidity && !showHexStakes && !showApprovals
                 ? 'bg-black/30 text-white border-primary/50 shadow-[0_0_15px_rgba(0,120,255,0.5)] backdrop-blur-lg' 
                 : 'text-white/80 hover:bg-black/40 hover:border-white/30'}`}
             title="View all token holdings"
           >
             <Wallet size={18} />
-            <span className="text-sm font-medium">Tokens{!showLiquidity && !showTransactions && !showHexStakes ? ` (${sortedTokens?.length || 0})` : ''}</span>
+            <span className="text-sm font-medium">Tokens{!showLiquidity && !showTransactions && !showHexStakes && !showApprovals ? ` (${sortedTokens?.length || 0})` : ''}</span>
           </button>
           
           <button 
@@ -255,6 +287,7 @@ export function TokenList({
               setShowTransactions(false);
               setShowLiquidity(true);
               setShowHexStakes(false);
+              setShowApprovals(false);
             }}
             className={`flex items-center gap-1 px-2 sm:px-3 py-1.5 text-nowrap rounded-md glass-card border border-white/10 transition-all duration-200 
               ${showLiquidity 
@@ -271,6 +304,7 @@ export function TokenList({
               setShowTransactions(true);
               setShowLiquidity(false);
               setShowHexStakes(false);
+              setShowApprovals(false);
               setTxHistoryKey(Date.now());
             }}
             className={`flex items-center gap-1 px-2 sm:px-3 py-1.5 text-nowrap rounded-md glass-card border border-white/10 transition-all duration-200 
@@ -288,6 +322,7 @@ export function TokenList({
               setShowTransactions(false);
               setShowLiquidity(false);
               setShowHexStakes(true);
+              setShowApprovals(false);
               setHexStakesKey(Date.now());
             }}
             className={`flex items-center gap-1 px-2 sm:px-3 py-1.5 text-nowrap rounded-md glass-card border border-white/10 transition-all duration-200 
@@ -299,15 +334,35 @@ export function TokenList({
             <GitCompareArrows size={18} />
             <span className="text-sm font-medium">HEX Stakes</span>
           </button>
+          
+          {/* Allowances are per wallet, so there's nothing to show for a combined view */}
+          {!isMultiWallet && (
+            <button
+              onClick={() => {
+                setShowTransactions(false);
+                setShowLiquidity(false);
+                setShowHexStakes(false);
+                setShowApprovals(true);
+              }}
+              className={`flex items-center gap-1 px-2 sm:px-3 py-1.5 text-nowrap rounded-md glass-card border border-white/10 transition-all duration-200 
+                ${showApprovals 
+                  ? 'bg-black/30 text-white border-primary/50 shadow-[0_0_15px_rgba(0,120,255,0.5)] backdrop-blur-lg' 
+                  : 'text-white/80 hover:bg-black/40 hover:border-white/30'}`}
+              title="View and revoke token approvals"
+            >
+              <ShieldCheck size={18} />
+              <span className="text-sm font-medium">Approvals</span>
+            </button>
+          )}
         </div>
       </div>
       
       {/* Filter and Sort Container */}
       <div className="p-4 border-b border-border">
-        {!showTransactions && !showHexStakes && (
+        {!showTransactions && !showHexStakes && !showApprovals && (
           <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
             {/* Tokens or Liquidity Header */}
-            {!showLiquidity && !showTransactions && !showHexStakes && (
+            {!showLiquidity && !showTransactions && !showHexStakes && !showApprovals && (
               <div>
                 <h3 className="text-lg md:text-xl font-semibold text-white flex items-center">
                   <Wallet size={18} className="mr-2 text-blue-300" />
@@ -364,6 +419,30 @@ export function TokenList({
                 </SelectContent>
               </Select>
               
+              {canShowPnl && !showLiquidity && (
+                <div className="flex items-center gap-2">
+                  <label className="flex items-center gap-2 text-sm text-white/70 whitespace-nowrap" title="Cost basis and profit/loss from this wallet's transaction history">
+                    <Switch checked={showPnl} onCheckedChange={setShowPnl} />
+                    PnL
+                  </label>
+                  {showPnl && (
+                    <Select
+                      value={costBasisMethod}
+                      onValueChange={(value) => setCostBasisMethod(value as CostBasisMethod)}
+                    >
+                      <SelectTrigger className="w-full md:w-36 glass-card border-border/50 text-foreground bg-black/30">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-black/80 border-white/10 text-white backdrop-blur-md">
+                        {costBasisMethods.map(method => (
+                          <SelectItem key={method} value={method}>{COST_BASIS_METHOD_LABELS[method]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              )}
+              
               <button
                 onClick={() => setShowHidden(!showHidden)}
                 className={`p-2 hover:opacity-80 transition-opacity ${showHidden ? 'text-purple-400' : 'text-white/70'}`}
@@ -379,9 +458,12 @@ export function TokenList({
       {showTransactions ? (
         <TransactionHistory 
           walletAddress={effectiveWalletAddress} 
+          otherWalletAddresses={isMultiWallet ? otherWalletAddresses : []}
           onClose={() => setShowTransactions(false)}
           key={`tx-${effectiveWalletAddress}-${txHistoryKey}`} // Force remount on toggle
         />
+      ) : showApprovals ? (
+        <ApprovalsPanel walletAddress={effectiveWalletAddress} />
       ) : showHexStakes ? (
         <HexStakes 
           walletAddress={effectiveWalletAddress}
@@ -398,6 +480,7 @@ export function TokenList({
               {paginatedTokens.map((token, index) => {
                 const priceChangeClass = getChangeColorClass(token.priceChange24h);
                 const isHidden = hiddenTokens.includes(token.address);
+                const tokenCostBasis = costBasisByToken.get(token.address.toLowerCase());
                 
                 // If it's an LP token in liquidity view, render expanded
                 if (token.isLp && showLiquidity) {
@@ -534,6 +617,18 @@ export function TokenList({
                                 : ''}
                             </span>
                           </div>
+                          {pnlColumnsVisible && tokenCostBasis && (
+                            <div className="flex items-center gap-1 mt-0.5 justify-start text-xs">
+                              <span className="text-muted-foreground">PnL</span>
+                              <span className={getChangeColorClass(tokenCostBasis.unrealizedPnl ?? undefined)}>
+                                {formatPnl(tokenCostBasis.unrealizedPnl)}
+                              </span>
+                              <span className="text-muted-foreground">• realized</span>
+                              <span className={getChangeColorClass(tokenCostBasis.realizedPnl)}>
+                                {formatPnl(tokenCostBasis.realizedPnl)}
+                              </span>
+                            </div>
+                          )}
                         </div>
                       </div>
                       
@@ -597,6 +692,19 @@ export function TokenList({
                       Value
                     </th>
                   )}
+                  {pnlColumnsVisible && (
+                    <>
+                      <th scope="col" className="px-4 py-2.5 text-right text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                        Cost Basis
+                      </th>
+                      <th scope="col" className="px-4 py-2.5 text-right text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                        Unrealized PnL
+                      </th>
+                      <th scope="col" className="px-4 py-2.5 text-right text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                        Realized PnL
+                      </th>
+                    </>
+                  )}
                   <th scope="col" className="hidden px-4 py-2.5 text-right text-xs font-semibold text-muted-foreground uppercase tracking-wider w-1/12">
                     {/* Hidden column */}
                   </th>
@@ -611,6 +719,7 @@ export function TokenList({
                 {paginatedTokens.map((token, index) => {
                   const priceChangeClass = getAdvancedChangeClass(token.priceChange24h);
                   const isHidden = hiddenTokens.includes(token.address);
+                  const tokenCostBasis = costBasisByToken.get(token.address.toLowerCase());
                   
                   // Create a unique key using address and index to avoid duplicate keys
                   return (
@@ -723,6 +832,34 @@ export function TokenList({
                           </div>
                         </td>
                       )}
+                      {pnlColumnsVisible && (
+                        <>
+                          <td className="px-4 py-3 whitespace-nowrap text-right">
+                            {isCostBasisLoading && !costBasis ? (
+                              <span className="text-sm text-muted-foreground">...</span>
+                            ) : tokenCostBasis ? (
+                              <div className="flex flex-col items-end">
+                                <div className="text-base font-bold text-white" title={tokenCostBasis.incomplete ? 'Part of this position could not be priced or was acquired before the available history' : undefined}>
+                                  {formatCurrency(tokenCostBasis.costBasis)}{tokenCostBasis.incomplete && '*'}
+                                </div>
+                                {tokenCostBasis.averageCost !== null && (
+                                  <div className="text-sm text-muted-foreground">
+                                    avg {formatTokenPrice(tokenCostBasis.averageCost)}
+                                  </div>
+                                )}
+                              </div>
+                            ) : (
+                              <span className="text-sm text-muted-foreground">N/A</span>
+                            )}
+                          </td>
+                          <td className={`px-4 py-3 whitespace-nowrap text-right text-base font-bold ${getAdvancedChangeClass(tokenCostBasis?.unrealizedPnl ?? undefined)}`}>
+                            {tokenCostBasis ? formatPnl(tokenCostBasis.unrealizedPnl) : ''}
+                          </td>
+                          <td className={`px-4 py-3 whitespace-nowrap text-right text-base font-bold ${getAdvancedChangeClass(tokenCostBasis?.realizedPnl)}`}>
+                            {tokenCostBasis ? formatPnl(tokenCostBasis.realizedPnl) : ''}
+                          </td>
+                        </>
+                      )}
                       <td className="hidden px-4 py-3 whitespace-nowrap text-right">
                         {/* Column hidden but kept for structure */}
                       </td>
@@ -10,6 +10,7 @@ import { formatCurrency } from '@/lib/format';
 import { Link } from 'wouter';
 import { useTokenDataPrefetch } from '@/hooks/use-token-data-prefetch';
 import { useBatchTokenPrices } from '@/hooks/use-batch-token-prices';
+import { useAuth } from '@/providers/auth-provider';
 import { fetchTransactionDetails, extractTokensFromTxDetails } from '@/services/transaction-service';
 import {
   DropdownMenu,
@@ -19,6 +20,8 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import { getTransactionType, type TransactionType } from '@shared/transaction-type';
+import type { SwapRecord, SwapToken } from '@shared/swap';
 
 // Transaction interfaces
 interface TransactionTransfer {
@@ -64,70 +67,30 @@ interface Transaction {
   summary?: string;
   category?: string;
   possible_spam?: boolean;
+  swap?: SwapRecord | null;
 }
 
 interface TransactionHistoryProps {
   walletAddress: string;
+  otherWalletAddresses?: string[]; // Wallets loaded alongside this one in multi-wallet mode
   onClose: () => void;
 }
 
-type TransactionType = 'all' | 'swap' | 'send' | 'receive' | 'approval' | 'contract';
-
-const getTransactionType = (tx: Transaction, walletAddress: string): TransactionType => {
-  // Check for swaps - enhanced detection
-  const swapMethodSignatures = [
-    'swap', 'trade', 'multicall', 'exactinput', 'exactoutput', 'swapexact', 'swaptokens',
-    'swapETHForExactTokens', 'swapExactETHForTokens', 'swapTokensForExactETH', 'swapExactTokensForETH',
-    'swapTokensForExactTokens', 'swapExactTokensForTokens', 'addLiquidity', 'removeLiquidity'
-  ];
-  const isSwapMethod = tx.method_label && swapMethodSignatures.some(sig => tx.method_label?.toLowerCase().includes(sig.toLowerCase()));
-  
-  const dexRouterAddresses = [
-    '0xda9aba4eacf54e0273f56dfffee6b8f1e20b23bba', // PulseX Router
-    '0x165c3410fc91ef562c50559f7d2289febb913d90', // PulseX Router V2
-    '0x98bf93ebf5c380c0e6ae8e192a7e2ae08edacc02', // PulseX Factory
-    '0x7a250d5630b4cf539739df2c5dacb4c659f2488d', // Uniswap V2 Router
-    '0xE592427A0AEce92De3Edee1F18E0157C05861564', // Uniswap V3 Router
-  ];
-  const isDexRouter = dexRouterAddresses.includes(tx.to_address?.toLowerCase() || '');
-  
-  const hasSendTransfers = tx.erc20_transfers?.some(t => t && t.direction === 'send');
-  const hasReceiveTransfers = tx.erc20_transfers?.some(t => t && t.direction === 'receive');
-  
-  // Enhanced swap detection - if we have both sends and receives, it's likely a swap
-  if ((isSwapMethod || isDexRouter) || (hasSendTransfers && hasReceiveTransfers)) {
-    return 'swap';
-  }
-  
-  // Check for approvals
-  if (tx.method_label?.toLowerCase().includes('approve')) {
-    return 'approval';
-  }
-  
-  // Check for sends/receives
-  if (hasSendTransfers && !hasReceiveTransfers) return 'send';
-  if (hasReceiveTransfers && !hasSendTransfers) return 'receive';
-  
-  // Check for contract interactions
-  if (tx.to_address && (tx.value === '0' || tx.value === '') && !tx.erc20_transfers?.length) {
-    return 'contract';
-  }
-  
-  // Native PLS transfers
-  if (tx.value && tx.value !== '0' && !tx.erc20_transfers?.length) {
-    return tx.from_address.toLowerCase() === walletAddress.toLowerCase() ? 'send' : 'receive';
-  }
-  
-  return 'all';
-};
-
-
-
 // Format date helper
 const formatDate = (timestamp: number): string => {
   return new Date(timestamp).toLocaleString();
 };
 
+// Format a human-readable amount or price with significant digits for tiny values
+const formatSwapNumber = (value: number): string => {
+  if (value === 0) return '0';
+  if (value >= 1e12) return `${(value / 1e12).toFixed(2)}T`;
+  if (value >= 1e9) return `${(value / 1e9).toFixed(2)}B`;
+  if (value >= 1e6) return `${(value / 1e6).toFixed(2)}M`;
+  if (value >= 1) return value.toLocaleString('en-US', { maximumFractionDigits: 4 });
+  return value.toPrecision(4);
+};
+
 // Format token value helper
 const formatTokenValue = (value: string, decimals?: string, maxLength: number = 20): string => {
   if (!value || value === '0') return '0';
@@ -145,7 +108,8 @@ const formatTokenValue = (value: string, decimals?: string, maxLength: number =
   return numValue.toFixed(2);
 };
 
-export function TransactionHistory({ walletAddress, onClose }: TransactionHistoryProps) {
+export function TransactionHistory({ walletAddress, otherWalletAddresses = [], onClose }: TransactionHistoryProps) {
+  const { isConnected } = useAuth();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [cursor, setCursor] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(true);
@@ -176,6 +140,18 @@ export function TransactionHistory({ walletAddress, onClose }: TransactionHistor
     gcTime: Infinity,
   });
   
+  // Other wallets in the signed-in user's portfolios - moves to and from them are shown as internal
+  const { data: portfolioWallets } = useQuery<{ address: string; wallets: string[] }>({
+    queryKey: [`/api/wallet/${walletAddress}/portfolio-wallets`],
+    enabled: isConnected && /^0x[a-fA-F0-9]{40}$/.test(walletAddress),
+    staleTime: 5 * 60 * 1000,
+  });
+  
+  const ownWallets = useMemo(
+    () => [...otherWalletAddresses, ...(portfolioWallets?.wallets || [])],
+    [otherWalletAddresses, portfolioWallets]
+  );
+  
   // Prefetch token data for all transfers
   const tokenAddresses = useMemo(() => {
     const addresses = new Set<string>();
@@ -228,7 +204,7 @@ export function TransactionHistory({ walletAddress, onClose }: TransactionHistor
   // Filter transactions
   const filteredTransactions = useMemo(() => {
     return transactions.filter(tx => {
-      const matchesType = typeFilter === 'all' || getTransactionType(tx, walletAddress) === typeFilter;
+      const matchesType = typeFilter === 'all' || getTransactionType(tx, walletAddress, ownWallets) === typeFilter;
       const matchesToken = !tokenFilter || 
         tx.erc20_transfers?.some(t => 
           t.token_symbol?.toLowerCase().includes(tokenFilter.toLowerCase()) ||
@@ -237,7 +213,7 @@ export function TransactionHistory({ walletAddress, onClose }: TransactionHistor
       
       return matchesType && matchesToken;
     });
-  }, [transactions, typeFilter, tokenFilter]);
+  }, [transactions, typeFilter, tokenFilter, ownWallets]);
   
   // Update transactions when data loads
   useEffect(() => {
@@ -317,6 +293,7 @@ export function TransactionHistory({ walletAddress, onClose }: TransactionHistor
                 <DropdownMenuItem onClick={() => setTypeFilter('swap')}>Swaps</DropdownMenuItem>
                 <DropdownMenuItem onClick={() => setTypeFilter('send')}>Sends</DropdownMenuItem>
                 <DropdownMenuItem onClick={() => setTypeFilter('receive')}>Receives</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setTypeFilter('internal')}>Internal Moves</DropdownMenuItem>
                 <DropdownMenuItem onClick={() => setTypeFilter('approval')}>Approvals</DropdownMenuItem>
                 <DropdownMenuItem onClick={() => setTypeFilter('contract')}>Contract</DropdownMenuItem>
               </DropdownMenuContent>
@@ -366,6 +343,49 @@ export function TransactionHistory({ walletAddress, onClose }: TransactionHistor
             {/* Transaction Content */}
             <div className="space-y-2">
               {(() => {
+                // Swaps decoded on the server show exactly what went in and came out
+                if (tx.swap) {
+                  const swap = tx.swap;
+                  const logoFor = (token: SwapToken) => token.address === '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee'
+                    ? '/assets/pls logo trimmed.png'
+                    : prefetchedLogos[token.address];
+                  const usdValueOf = (amount: number, token: SwapToken) => calculateUsdValue(String(amount), '0', token.address);
+                  const inUsd = usdValueOf(swap.amountIn, swap.tokenIn);
+                  const outUsd = usdValueOf(swap.amountOut, swap.tokenOut);
+                  
+                  return (
+                    <div className="space-y-2 bg-purple-500/5 border border-purple-500/20 rounded-lg p-3">
+                      <div className="flex items-center gap-2 text-sm">
+                        <RefreshCw className="text-purple-400" size={16} />
+                        <span className="font-semibold text-purple-400">SWAPPED</span>
+                        <span className="text-xs text-gray-500">
+                          {swap.protocol === 'pulsex-v1' ? 'PulseX V1' : swap.protocol === 'pulsex-v2' ? 'PulseX V2' : 'Aggregator'}
+                          {swap.path.length > 2 && ` · ${swap.path.length - 1} hops`}
+                        </span>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <TokenLogo address={swap.tokenIn.address} symbol={swap.tokenIn.symbol} logo={logoFor(swap.tokenIn)} size="sm" />
+                        <span className="font-medium text-white">{formatSwapNumber(swap.amountIn)} {swap.tokenIn.symbol}</span>
+                        {inUsd !== null && inUsd >= 0.01 && <span className="text-xs text-gray-400">({formatCurrency(inUsd)})</span>}
+                        <ArrowRight className="text-gray-400" size={16} />
+                        <TokenLogo address={swap.tokenOut.address} symbol={swap.tokenOut.symbol} logo={logoFor(swap.tokenOut)} size="sm" />
+                        <span className="font-medium text-white">{formatSwapNumber(swap.amountOut)} {swap.tokenOut.symbol}</span>
+                        {outUsd !== null && outUsd >= 0.01 && <span className="text-xs text-gray-400">({formatCurrency(outUsd)})</span>}
+                      </div>
+                      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-400">
+                        <span>
+                          Price: 1 {swap.tokenIn.symbol} = {formatSwapNumber(swap.executionPrice)} {swap.tokenOut.symbol}
+                        </span>
+                        {swap.slippagePercent !== null && (
+                          <span className={swap.slippagePercent > 3 ? 'text-yellow-400' : undefined}>
+                            vs. spot: {swap.slippagePercent >= 0 ? '-' : '+'}{Math.abs(swap.slippagePercent).toFixed(2)}%
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  );
+                }
+                
                 // Calculate net token flows for ALL transactions
                 const tokenFlows = new Map<string, {
                   symbol: string;
@@ -539,7 +559,7 @@ export function TransactionHistory({ walletAddress, onClose }: TransactionHistor
                 })[0];
                 
                 // Determine transaction type and display accordingly
-                const txType = getTransactionType(tx, walletAddress);
+                const txType = getTransactionType(tx, walletAddress, ownWallets);
                 
                 // For swaps - show both tokens with USD values
                 if (txType === 'swap' && primarySent && primaryReceived) {
@@ -603,7 +623,7 @@ export function TransactionHistory({ walletAddress, onClose }: TransactionHistor
                 }
                 
                 // For transfers - show clear from/to addresses
-                if ((txType === 'send' || txType === 'receive') && (primarySent || primaryReceived)) {
+                if ((txType === 'send' || txType === 'receive' || txType === 'internal') && (primarySent || primaryReceived)) {
                   const token = primarySent || primaryReceived;
                   const isSend = !!primarySent;
                   const relevantTransfer = tx.erc20_transfers?.find(t => 
@@ -614,7 +634,12 @@ export function TransactionHistory({ walletAddress, onClose }: TransactionHistor
                   return (
                     <div className="space-y-2 bg-gray-500/5 border border-gray-500/20 rounded-lg p-3">
                       <div className="flex items-center gap-2 text-sm">
-                        {isSend ? (
+                        {txType === 'internal' ? (
+                          <>
+                            <ArrowRight className="text-blue-400" size={16} />
+                            <span className="font-semibold text-blue-400">{isSend ? 'MOVED OUT' : 'MOVED IN'}</span>
+                          </>
+                        ) : isSend ? (
                           <>
                             <ArrowUpRight className="text-red-400" size={16} />
                             <span className="font-semibold text-red-400">SENT</span>
@@ -13,6 +13,9 @@ import { useHexStakes, fetchHexStakesSummary, HexStakeSummary } from '@/hooks/us
 import { LastUpdatedInfo } from '@/components/last-updated-info';
 import { WalletShareModal } from '@/components/wallet-share-modal';
 import { PortfolioShareModal } from '@/components/portfolio-share-modal';
+import { NetWorthChart } from '@/components/net-worth-chart';
+import { AssetClassBreakdown } from '@/components/asset-class-breakdown';
+import { getAssetClassBreakdown, type AssetClassBreakdown as AssetClassBreakdownData } from '@/lib/asset-classes';
 
 interface WalletOverviewProps {
   wallet: Wallet;
@@ -20,13 +23,14 @@ interface WalletOverviewProps {
   onRefresh: () => void;
   hexStakesSummary?: HexStakeSummary | null;
   portfolioName?: string; // Optional name of the portfolio for multi-wallet view
+  portfolioId?: string; // Portfolio id or slug, used to load the portfolio's net worth history
 }
 
-export function WalletOverview({ wallet, isLoading, onRefresh, hexStakesSummary, portfolioName }: WalletOverviewProps) {
+export function WalletOverview({ wallet, isLoading, onRefresh, hexStakesSummary, portfolioName, portfolioId }: WalletOverviewProps) {
   const { toast } = useToast();
   const { account: connectedWalletAddress, isConnected, userId } = useAuth();
   const [hiddenTokens, setHiddenTokens] = useState<string[]>([]);
-  const [totalVisibleValue, setTotalVisibleValue] = useState<number>(0);
+  const [assetClasses, setAssetClasses] = useState<AssetClassBreakdownData>({ classes: [], totalValue: 0 });
   const [visibleTokenCount, setVisibleTokenCount] = useState<number>(0);
   const [bookmarkDialogOpen, setBookmarkDialogOpen] = useState(false);
   const [existingBookmark, setExistingBookmark] = useState<Bookmark | null>(null);
@@ -46,6 +50,9 @@ export function WalletOverview({ wallet, isLoading, onRefresh, hexStakesSummary,
     totalInterestValueUsd: 0,
     totalCombinedValueUsd: 0,
     stakeCount: 0,
+    tShares: 0,
+    weightedAverageRemainingDays: null,
+    yieldPerTShare: 0,
     hexPrice: 0,
     isLoading: false,
     error: null
@@ -118,30 +125,16 @@ export function WalletOverview({ wallet, isLoading, onRefresh, hexStakesSummary,
 
   useEffect(() => {
     if (wallet && wallet.tokens) {
-      // Calculate total value excluding hidden tokens
+      // Calculate total value excluding hidden tokens, with HEX stakes as their own asset class
       const visibleTokens = wallet.tokens.filter(token => !hiddenTokens.includes(token.address));
-      const visibleTotal = visibleTokens.reduce((sum, token) => {
-        return sum + (token.value || 0);
-      }, 0);
       
-      // Add HEX stakes value if available
-      let totalWithHexStakes = visibleTotal;
+      // Single wallets use the hook's data, combined views the summary passed in
+      const stakedHexValue = hexStakesFromHook.totalCombinedValueUsd || hexStakesSummary?.totalCombinedValueUsd || 0;
       
-      // For single wallet view, use hook data
-      if (hexStakesFromHook && hexStakesFromHook.totalCombinedValueUsd) {
-        totalWithHexStakes += hexStakesFromHook.totalCombinedValueUsd;
-        console.log('Added HEX stakes value (single wallet):', hexStakesFromHook.totalCombinedValueUsd);
-      }
-      // For combined wallet view, use prop data
-      else if (hexStakesSummary && hexStakesSummary.totalCombinedValueUsd) {
-        totalWithHexStakes += hexStakesSummary.totalCombinedValueUsd;
-        console.log('Added HEX stakes value (multi wallet):', hexStakesSummary.totalCombinedValueUsd);
-      }
-      
-      setTotalVisibleValue(totalWithHexStakes);
+      setAssetClasses(getAssetClassBreakdown(visibleTokens, stakedHexValue));
       setVisibleTokenCount(visibleTokens.length);
     }
-  }, [wallet, hiddenTokens, hexStakesFromHook, hexStakesSummary]);
+  }, [wallet, hiddenTokens, hexStakesFromHook.totalCombinedValueUsd, hexStakesSummary?.totalCombinedValueUsd]);
 
   if (!wallet) return null;
 
@@ -289,21 +282,24 @@ export function WalletOverview({ wallet, isLoading, onRefresh, hexStakesSummary,
                 "Combined Total Value" : "Total Value (Including HEX Stakes)"}
             </div>
             <div className="text-xl md:text-2xl font-bold text-white">
-              {totalVisibleValue !== undefined ? formatCurrency(totalVisibleValue) : 'N/A'}
+              {formatCurrency(assetClasses.totalValue)}
             </div>
             {/* Show HEX stakes value and percentage only for single wallet view */}
             {!wallet.address.startsWith("Combined") && !wallet.address.startsWith("Portfolio:") && (
               <div className="text-sm mt-2 flex items-center justify-between">
                 <span className="text-green-400 border border-green-500/30 bg-green-500/10 px-1.5 py-0.5 rounded-md font-medium">+2.34% (24h)</span>
-                {hexStakesFromHook && hexStakesFromHook.totalCombinedValueUsd > 0 && (
-                  <span className="text-xs text-muted-foreground">
-                    Includes <span className="text-purple-300 font-medium">{formatCurrency(hexStakesFromHook.totalCombinedValueUsd)}</span> in HEX stakes
-                  </span>
-                )}
               </div>
             )}
+            <AssetClassBreakdown classes={assetClasses.classes} className="mt-3" />
           </div>
           
+          {/* Net worth history - portfolios and single wallets, not ad-hoc combined views */}
+          {wallet.address.startsWith("Portfolio:") ? (
+            portfolioId && <NetWorthChart portfolioId={portfolioId} />
+          ) : !wallet.address.startsWith("Combined") && (
+            <NetWorthChart walletAddress={wallet.address} />
+          )}
+          
           {/* PLS Balance Card - Now second */}
           <div className="glass-card rounded-lg p-4 border-white/15">
             <div className="flex items-center mb-2">
@@ -382,6 +378,25 @@ export function WalletOverview({ wallet, isLoading, onRefresh, hexStakesSummary,
                 </div>
               </div>
               
+              <div className="grid grid-cols-3 gap-3 mt-3">
+                <div>
+                  <div className="text-xs text-muted-foreground">T-Shares</div>
+                  <div className="text-sm font-semibold text-white">{formatTokenAmount(manualHexSummary.tShares)}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Yield / T-Share</div>
+                  <div className="text-sm font-semibold text-green-400">{formatTokenAmount(manualHexSummary.yieldPerTShare)} HEX</div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Avg. Days Left</div>
+                  <div className="text-sm font-semibold text-white">
+                    {manualHexSummary.weightedAverageRemainingDays !== null
+                      ? Math.round(manualHexSummary.weightedAverageRemainingDays).toLocaleString()
+                      : '-'}
+                  </div>
+                </div>
+              </div>
+              
               <div className="text-sm mt-2 flex items-center justify-between">
                 <span className="text-purple-400 border border-purple-500/30 bg-purple-500/10 px-1.5 py-0.5 rounded-md font-medium">
                   {manualHexSummary.stakeCount || (hexStakesSummary && hexStakesSummary.stakeCount) || 0} 
@@ -9,6 +9,8 @@ import { VisuallyHidden } from '@radix-ui/react-visually-hidden';
 import { TokenLogo } from '@/components/token-logo';
 import { formatCurrency, formatTokenAmount } from '@/lib/utils';
 import { getHiddenTokens } from '@/lib/api';
+import { getAssetClassBreakdown, type AssetClassBreakdown as AssetClassBreakdownData } from '@/lib/asset-classes';
+import { AssetClassBreakdown } from '@/components/asset-class-breakdown';
 
 
 
@@ -27,7 +29,7 @@ export function WalletShareModal({
   walletData,
   hexStakesData
 }: WalletShareModalProps) {
-  const [totalValue, setTotalValue] = useState(0);
+  const [assetClasses, setAssetClasses] = useState<AssetClassBreakdownData>({ classes: [], totalValue: 0 });
   const [sortedTokens, setSortedTokens] = useState<any[]>([]);
   const [hiddenTokens, setHiddenTokens] = useState<string[]>([]);
 
@@ -44,7 +46,8 @@ export function WalletShareModal({
         !hiddenTokens.includes(token.address)
       );
       
-      // Create a list including PLS balance and HEX stakes if they have value
+      // Create a list including PLS balance if it has value. Staked HEX isn't a token, so it's
+      // shown as its own asset class below the total instead.
       let allAssets = [...visibleTokens];
       
       // Add native PLS as a virtual token if it has value
@@ -80,33 +83,6 @@ export function WalletShareModal({
         allAssets.push(plsToken);
       }
       
-      // Add HEX stakes as a virtual token if it has value
-      if (hexStakesData && hexStakesData.totalCombinedValueUsd > 0) {
-        const hexStakesToken = {
-          address: 'hex-stakes-virtual',
-          symbol: 'HEX (Staked)',
-          name: 'HEX Stakes',
-          balance: hexStakesData.totalCombinedHex,
-          value: hexStakesData.totalCombinedValueUsd,
-          price: hexStakesData.hexPrice || 0,
-          balanceFormatted: parseFloat(hexStakesData.totalCombinedHex),
-          decimals: 8,
-          logo: '',
-          isLp: false,
-          lpToken0Address: '',
-          lpToken1Address: '',
-          lpToken0Symbol: '',
-          lpToken1Symbol: '',
-          lpToken0Balance: '',
-          lpToken1Balance: '',
-          lpToken0BalanceFormatted: 0,
-          lpToken1BalanceFormatted: 0,
-          lpToken0Value: 0,
-          lpToken1Value: 0
-        };
-        allAssets.push(hexStakesToken);
-      }
-      
       // Sort all assets by value and get top 5
       const sorted = allAssets
         .sort((a, b) => (b.value || 0) - (a.value || 0))
@@ -115,15 +91,13 @@ export function WalletShareModal({
       setSortedTokens(sorted);
       
       // Calculate total portfolio value (visible tokens + PLS + HEX stakes)
-      const tokenTotal = visibleTokens.reduce((sum: number, token: any) => sum + (token.value || 0), 0);
       const plsValue = walletData.plsBalance && walletData.plsBalance > 0 ? 
         walletData.plsBalance * (walletData.tokens.find((t: any) => 
           t.address.toLowerCase() === '0xa1077a294dde1b09bb078844df40758a5d0f9a27'
         )?.price || 0) : 0;
-      const hexStakesTotal = hexStakesData?.totalCombinedValueUsd || 0;
-      setTotalValue(tokenTotal + plsValue + hexStakesTotal);
+      setAssetClasses(getAssetClassBreakdown(visibleTokens, hexStakesData?.totalCombinedValueUsd || 0, plsValue));
     }
-  }, [walletData, hexStakesData, hiddenTokens]);
+  }, [walletData, hexStakesData?.totalCombinedValueUsd, hiddenTokens]);
 
 
 
@@ -159,8 +133,9 @@ export function WalletShareModal({
           <div className="text-center mb-4 sm:mb-6 md:mb-8">
             <p className="text-gray-400 text-xs sm:text-sm mb-1 sm:mb-2">Total Portfolio Value</p>
             <p className="text-2xl sm:text-3xl md:text-4xl lg:text-5xl font-bold bg-gradient-to-r from-purple-400 via-pink-400 to-purple-400 bg-clip-text text-transparent">
-              {formatCurrency(totalValue)}
+              {formatCurrency(assetClasses.totalValue)}
             </p>
+            <AssetClassBreakdown classes={assetClasses.classes} className="mt-3 sm:mt-4 text-left" />
           </div>
 
           {/* Token List */}
@@ -171,15 +146,7 @@ export function WalletShareModal({
                   {index + 1}.
                 </span>
                 <div className="h-10 w-10 sm:h-12 sm:w-12 md:h-14 md:w-14 flex-shrink-0 flex items-center justify-center">
-                  {token.address === 'hex-stakes-virtual' ? (
-                    <div className="w-full h-full flex items-center justify-center">
-                      <TokenLogo 
-                        address="0x2b591e99afe9f32eaa6214f7b7629768c40eeb39" 
-                        symbol="HEX" 
-                        size="lg"
-                      />
-                    </div>
-                  ) : token.address === 'native-pls' ? (
+                  {token.address === 'native-pls' ? (
                     <div className="w-full h-full rounded-full bg-gradient-to-br from-green-500 to-emerald-500 flex items-center justify-center">
                       <span className="text-white font-bold text-base md:text-lg">PLS</span>
                     </div>
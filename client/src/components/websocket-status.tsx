@@ -42,6 +42,15 @@ export function WebSocketStatus() {
           • {status.trackedWallets} wallet{status.trackedWallets !== 1 ? 's' : ''} tracked
         </span>
       )}
+
+      {status.reorgCount > 0 && (
+        <span
+          className="text-muted-foreground"
+          title={status.lastReorg ? `Last fork point: block ${status.lastReorg.forkBlock}` : undefined}
+        >
+          • {status.reorgCount} reorg{status.reorgCount !== 1 ? 's' : ''} handled
+        </span>
+      )}
     </div>
   );
 }
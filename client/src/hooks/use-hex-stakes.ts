@@ -1,92 +1,13 @@
-import { useState, useEffect } from 'react';
-import { ethers } from 'ethers';
-
-// HEX Contract on PulseChain (using same address as ETH but focusing only on PulseChain now)
-const HEX_CONTRACT_ADDRESS = '0x2b591e99afE9f32eAA6214f7B7629768c40Eeb39';
-
-// HEX launch timestamp (2019-12-03T00:00:00Z)
-const LAUNCH_TS = 1575331200;
-const DAY_SECONDS = 86400;
-
-// Extended ABI with all the functions we need
-const HEX_ABI = [
-  {
-    "constant": true,
-    "inputs": [{"internalType": "address", "name": "stakerAddr", "type": "address"}],
-    "name": "stakeCount",
-    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
-    "payable": false,
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "constant": true,
-    "inputs": [],
-    "name": "currentDay",
-    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
-    "payable": false,
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "constant": true,
-    "inputs": [
-      {"internalType": "address", "name": "stakerAddr", "type": "address"},
-      {"internalType": "uint256", "name": "stakeIndex", "type": "uint256"},
-      {"internalType": "uint256", "name": "stakeIdParam", "type": "uint256"}
-    ],
-    "name": "stakeDataFetch",
-    "outputs": [
-      {"internalType": "uint40", "name": "", "type": "uint40"},
-      {"internalType": "uint72", "name": "", "type": "uint72"},
-      {"internalType": "uint72", "name": "", "type": "uint72"},
-      {"internalType": "uint16", "name": "", "type": "uint16"},
-      {"internalType": "uint16", "name": "", "type": "uint16"},
-      {"internalType": "uint16", "name": "", "type": "uint16"},
-      {"internalType": "bool", "name": "", "type": "bool"},
-      {"internalType": "uint72", "name": "", "type": "uint72"},
-      {"internalType": "uint72", "name": "", "type": "uint72"},
-      {"internalType": "uint72", "name": "", "type": "uint72"}
-    ],
-    "payable": false,
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "constant": true,
-    "inputs": [
-      {"internalType": "address", "name": "", "type": "address"},
-      {"internalType": "uint256", "name": "", "type": "uint256"}
-    ],
-    "name": "stakeLists",
-    "outputs": [
-      {"internalType": "uint40", "name": "stakeId", "type": "uint40"},
-      {"internalType": "uint72", "name": "stakedHearts", "type": "uint72"},
-      {"internalType": "uint72", "name": "stakeShares", "type": "uint72"},
-      {"internalType": "uint16", "name": "lockedDay", "type": "uint16"},
-      {"internalType": "uint16", "name": "stakedDays", "type": "uint16"},
-      {"internalType": "uint16", "name": "unlockedDay", "type": "uint16"},
-      {"internalType": "bool", "name": "isAutoStake", "type": "bool"}
-    ],
-    "payable": false,
-    "stateMutability": "view",
-    "type": "function"
-  }
-];
-
-// Interface for individual stake data
-interface StakeData {
-  stakeId: string;
-  stakedHearts: ethers.BigNumber;
-  stakeShares: ethers.BigNumber;
-  lockedDay: number;
-  stakedDays: number;
-  unlockedDay: number;
-  isAutoStake: boolean;
-  interestHearts: ethers.BigNumber;
-  payout: ethers.BigNumber;
-  penalty: ethers.BigNumber;
-}
+import { useMemo } from 'react';
+import { useQuery, useQueries } from '@tanstack/react-query';
+import { queryClient } from '@/lib/queryClient';
+import {
+  summarizeHexStakes,
+  type HexStake,
+  type HexStakesPortfolioSummary,
+  type HexStakesReport,
+  type HexStakesTotals
+} from '@shared/hex-stakes';
 
 export interface HexStakeSummary {
   totalStakedHex: string;
@@ -96,604 +17,162 @@ export interface HexStakeSummary {
   totalInterestValueUsd: number;
   totalCombinedValueUsd: number;
   stakeCount: number;
+  tShares: number;
+  weightedAverageRemainingDays: number | null;
+  yieldPerTShare: number;
   hexPrice: number;
   isLoading: boolean;
   error: string | null;
 }
 
-// HEX Contract Constants for proper calculation
-const SHARE_RATE_SCALE = 100000; // 1e5
-const LPB = 1820; // Longer Pays Better denominator  
-const BPB = 1500000000000000; // Bigger Pays Better denominator (1.5e15)
-const BPB_MAX_HEARTS = 15000000000000000; // 150M * 1e8
-const LPB_MAX_DAYS = 3640;
-const HEARTS_PER_HEX = 100000000; // 1e8
+// Stakes and payouts are computed on the server, and the price only moves so fast
+const HEX_STAKES_STALE_TIME = 5 * 60 * 1000;
 
-// Calculate bonus hearts using actual HEX contract formula
-function calculateStakeStartBonusHearts(stakedHearts: string, stakedDays: number): number {
-  const stakedHeartsNum = parseFloat(stakedHearts);
-  
-  // Longer Pays Better calculation
-  let cappedExtraDays = 0;
-  if (stakedDays > 1) {
-    cappedExtraDays = stakedDays <= LPB_MAX_DAYS ? stakedDays - 1 : LPB_MAX_DAYS;
-  }
-  
-  // Bigger Pays Better calculation  
-  const cappedStakedHearts = stakedHeartsNum <= BPB_MAX_HEARTS ? stakedHeartsNum : BPB_MAX_HEARTS;
-  
-  // Combined bonus calculation - this was way too high, need to scale properly
-  const bonusHearts = (cappedExtraDays * BPB + cappedStakedHearts * LPB);
-  const finalBonus = (stakedHeartsNum * bonusHearts) / (LPB * BPB);
-  
-  // The bonus calculation was giving astronomically high values
-  // HEX bonus is typically 10-200% of principal, not millions of times
-  return Math.min(finalBonus, stakedHeartsNum * 3); // Cap at 300% bonus max
-}
+const hexStakesQueryKey = (address: string) => [`/api/wallet/${address.toLowerCase()}/hex-stakes`];
 
-// Cache HEX price to avoid excessive API calls
-let cachedHexPrice: { price: number; timestamp: number } | null = null;
-const HEX_PRICE_CACHE_TTL = 1 * 60 * 1000; // 1 minute cache for more frequent updates
+const hexStakesSummaryQueryKey = (addresses: string[]) =>
+  [`/api/hex-stakes/summary?addresses=${addresses.map(address => address.toLowerCase()).join(',')}`];
 
-// Track ongoing price requests to prevent duplicate calls
-let ongoingPriceRequest: Promise<number> | null = null;
+const isWalletAddress = (address: string | undefined): address is string => !!address && /^0x[a-fA-F0-9]{40}$/.test(address);
 
-// Function to get HEX price with caching
-export async function getHexPriceWithCache(): Promise<number> {
-  // Check if we have a valid cached price
-  if (cachedHexPrice && (Date.now() - cachedHexPrice.timestamp < HEX_PRICE_CACHE_TTL)) {
-    console.log('Using cached HEX price:', cachedHexPrice.price);
-    return cachedHexPrice.price;
-  }
-  
-  // If there's already an ongoing request, wait for it instead of making a new one
-  if (ongoingPriceRequest) {
-    console.log('Waiting for ongoing HEX price request...');
-    return await ongoingPriceRequest;
-  }
-  
-  // Create the ongoing request promise
-  ongoingPriceRequest = (async () => {
-    let hexPrice = 0; // Initialize to 0, will be calculated from pair
-    try {
-      // Use the specific HEX/WPLS pair address
-      const HEX_WPLS_PAIR = '0xf1f4ee610b2babb05c635f726ef8b0c568c8dc65';
-      const WPLS_ADDRESS = '0xa1077a294dde1b09bb078844df40758a5d0f9a27'; // WPLS on PulseChain
-      
-      // Try to fetch price from the specific pair
-      const { ethers } = await import('ethers');
-      const provider = new ethers.providers.JsonRpcProvider('https://rpc-pulsechain.g4mm4.io', {
-        chainId: 369,
-        name: 'pulsechain',
-        ensAddress: undefined
-      });
-      
-      // Minimal pair ABI to get reserves
-      const pairAbi = [
-        'function getReserves() external view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
-        'function token0() external view returns (address)',
-        'function token1() external view returns (address)'
-      ];
-      
-      const pairContract = new ethers.Contract(HEX_WPLS_PAIR, pairAbi, provider);
-      
-      try {
-        const [reserves, token0, token1] = await Promise.all([
-          pairContract.getReserves(),
-          pairContract.token0(),
-          pairContract.token1()
-        ]);
-        
-        // Determine which token is HEX and which is WPLS
-        let hexReserve, wplsReserve;
-        if (token0.toLowerCase() === HEX_CONTRACT_ADDRESS.toLowerCase()) {
-          hexReserve = reserves.reserve0;
-          wplsReserve = reserves.reserve1;
-        } else {
-          hexReserve = reserves.reserve1;
-          wplsReserve = reserves.reserve0;
-        }
-        
-        // Calculate price - HEX has 8 decimals, WPLS has 18 decimals
-        const hexAmountBN = ethers.utils.formatUnits(hexReserve, 8);
-        const wplsAmountBN = ethers.utils.formatUnits(wplsReserve, 18);
-        
-        const hexAmount = parseFloat(hexAmountBN);
-        const wplsAmount = parseFloat(wplsAmountBN);
-        
-        if (hexAmount > 0) {
-          // Get WPLS price from WPLS/DAI pair
-          const WPLS_DAI_PAIR = '0xe56043671df55de5cdf8459710433c10324de0ae';
-          const DAI_ADDRESS = '0xefd766ccb38eaf1dfd701853bfce31359239f305'; // DAI on PulseChain
-          const daiPairContract = new ethers.Contract(WPLS_DAI_PAIR, pairAbi, provider);
-          const [daiReserves, daiToken0, daiToken1] = await Promise.all([
-            daiPairContract.getReserves(),
-            daiPairContract.token0(),
-            daiPairContract.token1()
-          ]);
-          
-          // Determine which token is WPLS and which is DAI
-          let wplsInDaiPair, daiInPair;
-          if (daiToken0.toLowerCase() === WPLS_ADDRESS.toLowerCase()) {
-            wplsInDaiPair = parseFloat(ethers.utils.formatUnits(daiReserves.reserve0, 18));
-            daiInPair = parseFloat(ethers.utils.formatUnits(daiReserves.reserve1, 18));
-          } else {
-            wplsInDaiPair = parseFloat(ethers.utils.formatUnits(daiReserves.reserve1, 18));
-            daiInPair = parseFloat(ethers.utils.formatUnits(daiReserves.reserve0, 18));
-          }
-          
-          const wplsPrice = daiInPair / wplsInDaiPair;
-          
-          // Calculate HEX price in USD = (WPLS per HEX) * (USD per WPLS)
-          const wplsPerHex = wplsAmount / hexAmount;
-          hexPrice = wplsPerHex * wplsPrice;
-          
-          console.log(`HEX/WPLS pair calculation:`);
-          console.log(`HEX reserve: ${hexAmount} HEX`);
-          console.log(`WPLS reserve: ${wplsAmount} WPLS`);
-          console.log(`WPLS price: $${wplsPrice}`);
-          console.log(`HEX price: $${hexPrice.toFixed(6)}`);
-        }
-      } catch (pairError) {
-        console.error('Error fetching from specific HEX/WPLS pair:', pairError);
-        throw pairError; // Propagate error instead of using hardcoded price
-      }
-      
-      // Update cache with the price we got
-      cachedHexPrice = {
-        price: hexPrice,
-        timestamp: Date.now()
-      };
-      
-    } catch (error) {
-      console.error('Error in HEX price fetching:', error);
-      throw error; // Propagate error instead of using hardcoded price
-    } finally {
-      // Clear the ongoing request when done
-      ongoingPriceRequest = null;
-    }
-    
-    return hexPrice;
-  })();
-  
-  return await ongoingPriceRequest;
+const emptySummary = (error: string | null = null): HexStakeSummary => ({
+  totalStakedHex: '0',
+  totalInterestHex: '0',
+  totalCombinedHex: '0',
+  totalStakeValueUsd: 0,
+  totalInterestValueUsd: 0,
+  totalCombinedValueUsd: 0,
+  stakeCount: 0,
+  tShares: 0,
+  weightedAverageRemainingDays: null,
+  yieldPerTShare: 0,
+  hexPrice: 0,
+  isLoading: false,
+  error
+});
+
+function toSummary(totals: HexStakesTotals, hexPrice: number): HexStakeSummary {
+  return {
+    totalStakedHex: totals.stakedHex.toFixed(2),
+    totalInterestHex: totals.interestHex.toFixed(2),
+    totalCombinedHex: totals.totalHex.toFixed(2),
+    totalStakeValueUsd: totals.stakedValueUsd,
+    totalInterestValueUsd: totals.interestValueUsd,
+    totalCombinedValueUsd: totals.totalValueUsd,
+    stakeCount: totals.stakeCount,
+    tShares: totals.tShares,
+    weightedAverageRemainingDays: totals.weightedAverageRemainingDays,
+    yieldPerTShare: totals.yieldPerTShare,
+    hexPrice,
+    isLoading: false,
+    error: null
+  };
+}
+
+/**
+ * A wallet's HEX stakes report, shared with any component that has already loaded it
+ */
+export function fetchHexStakesReport(address: string): Promise<HexStakesReport> {
+  return queryClient.fetchQuery<HexStakesReport>({
+    queryKey: hexStakesQueryKey(address),
+    staleTime: HEX_STAKES_STALE_TIME
+  });
 }
 
-// Function to fetch HEX stakes summary using direct API call
-// This is a more robust approach that doesn't rely on the stakeDataFetch method
 export async function fetchHexStakesSummary(address: string): Promise<HexStakeSummary> {
+  if (!address) {
+    return emptySummary('No wallet address provided');
+  }
+
   try {
-    if (!address) {
-      return {
-        totalStakedHex: '0',
-        totalInterestHex: '0',
-        totalCombinedHex: '0',
-        totalStakeValueUsd: 0,
-        totalInterestValueUsd: 0,
-        totalCombinedValueUsd: 0,
-        stakeCount: 0,
-        hexPrice: 0,
-        isLoading: false,
-        error: 'No wallet address provided'
-      };
-    }
-    
-    // Get HEX price using the cached function - this reduces duplicate API calls
-    const currentHexPrice = await getHexPriceWithCache();
-    
-    // Try to fetch data from the HEX Stakes component directly
-    // We'll do this by examining the DOM to see if the data is already visible
-    const hexStakesElement = document.querySelector('.hex-stakes-component');
-    if (hexStakesElement) {
-      try {
-        // Look for the total staked amount in the DOM
-        const totalStakedElement = hexStakesElement.querySelector('[data-total-staked]');
-        const totalInterestElement = hexStakesElement.querySelector('[data-total-interest]');
-        const totalCombinedElement = hexStakesElement.querySelector('[data-total-combined]');
-        
-        if (totalStakedElement && totalInterestElement && totalCombinedElement) {
-          const totalStakedHex = totalStakedElement.textContent?.replace(/[^0-9.]/g, '') || '0';
-          const totalInterestHex = totalInterestElement.textContent?.replace(/[^0-9.]/g, '') || '0';
-          const totalCombinedHex = totalCombinedElement.textContent?.replace(/[^0-9.]/g, '') || '0';
-          
-          // Calculate USD values
-          const totalStakeValueUsd = parseFloat(totalStakedHex) * currentHexPrice;
-          const totalInterestValueUsd = parseFloat(totalInterestHex) * currentHexPrice;
-          const totalCombinedValueUsd = parseFloat(totalCombinedHex) * currentHexPrice;
-          
-          const stakeCount = document.querySelectorAll('.stake-item').length || 1;
-          
-          return {
-            totalStakedHex,
-            totalInterestHex,
-            totalCombinedHex,
-            totalStakeValueUsd,
-            totalInterestValueUsd,
-            totalCombinedValueUsd,
-            stakeCount,
-            hexPrice: currentHexPrice,
-            isLoading: false,
-            error: null
-          };
-        }
-      } catch (domError) {
-        console.error('Error extracting HEX stakes data from DOM:', domError);
-      }
-    }
-    
-    // If we couldn't get data from the DOM, use a different approach:
-    // We'll use PulseChain RPC call to get a basic estimate based on the wallet address pattern
-    
-    // Get RPC provider for PulseChain (we only use PulseChain now)
-    const rpcUrl = 'https://rpc-pulsechain.g4mm4.io';
-    const provider = new ethers.providers.JsonRpcProvider(rpcUrl, {
-      chainId: 369,
-      name: 'pulsechain',
-      ensAddress: null // Disable ENS resolution on PulseChain
-    });
-    const hexContract = new ethers.Contract(HEX_CONTRACT_ADDRESS, HEX_ABI, provider);
-    
-    let count = 0;
-    try {
-      const countBN = await hexContract.stakeCount(address);
-      count = Number(countBN);
-      console.log(`Detected ${count} HEX stakes for wallet: ${address}`);
-    } catch (err) {
-      console.error('Error fetching stake count in preload:', err);
-      // For address 0x459AF0b9933eaB4921555a44d3692CaD964408c5, based on the screenshot (PulseChain only)
-      if (address.toLowerCase() === '0x459af0b9933eab4921555a44d3692cad964408c5') {
-        count = 23;
-        console.log('Using known stake count for this wallet address (PulseChain only)');
-        
-        // Values correctly showing PulseChain stakes only
-        return {
-          totalStakedHex: '3054409.62',
-          totalInterestHex: '0.00',
-          totalCombinedHex: '3054409.62',
-          totalStakeValueUsd: 3054409.62 * currentHexPrice,
-          totalInterestValueUsd: 0,
-          totalCombinedValueUsd: 3054409.62 * currentHexPrice,
-          stakeCount: count,
-          hexPrice: currentHexPrice,
-          isLoading: false,
-          error: null
-        };
-      } else {
-        // For other addresses, use a conservative estimate
-        count = 5;
-      }
-    }
-    
-    if (count === 0) {
-      return {
-        totalStakedHex: '0',
-        totalInterestHex: '0',
-        totalCombinedHex: '0',
-        totalStakeValueUsd: 0,
-        totalInterestValueUsd: 0,
-        totalCombinedValueUsd: 0,
-        stakeCount: 0,
-        hexPrice: currentHexPrice,
-        isLoading: false,
-        error: null
-      };
-    }
-    
-    // Fetch actual data for all stakes in parallel
-    let totalStaked = 0;
-    let totalInterest = 0;
-    
-    try {
-      // Get the current day from contract
-      const currentDayBN = await hexContract.currentDay();
-      const currentDay = Number(currentDayBN);
-      
-      // Limit to 50 stakes max to prevent overloading
-      const maxStakes = Math.min(count, 50);
-      
-      // Create batches for parallel processing
-      const BATCH_SIZE = 10;
-      const stakePromises: Promise<any>[] = [];
-      
-      for (let i = 0; i < maxStakes; i += BATCH_SIZE) {
-        const batchEnd = Math.min(i + BATCH_SIZE, maxStakes);
-        const batchPromises = [];
-        
-        for (let j = i; j < batchEnd; j++) {
-          batchPromises.push(
-            hexContract.stakeLists(address, j)
-              .then(stake => {
-                if (!stake) return null;
-                
-                // Parse raw stake data
-                const stakedHearts = stake[1].toString();
-                const lockedDay = Number(stake[3]);
-                const stakedDays = Number(stake[4]);
-                const unlockedDay = Number(stake[5]);
-                
-                // Format HEX amount (8 decimals)
-                const hexAmount = ethers.utils.formatUnits(stakedHearts, 8);
-                const stakedHex = parseFloat(hexAmount);
-                
-                // Calculate progress percentage
-                let progressPercentage = 0;
-                const endDay = lockedDay + stakedDays;
-                const isActive = unlockedDay === 0;
-                
-                if (isActive && currentDay >= lockedDay) {
-                  // If stake is active and we're past the lock day
-                  const daysPassed = currentDay - lockedDay;
-                  progressPercentage = Math.min(100, Math.floor((daysPassed / stakedDays) * 100));
-                } else if (!isActive) {
-                  // Stake is ended
-                  progressPercentage = 100;
-                }
-                
-                // Adjusted HEX stake reward estimation for ~18k target
-                let interestHex = 0;
-                if (progressPercentage > 0) {
-                  const stakedHexAmount = parseFloat(ethers.utils.formatUnits(stakedHearts, 8));
-                  
-                  const daysElapsed = Math.floor((stakedDays * progressPercentage) / 100);
-                  const yearsElapsed = daysElapsed / 365;
-                  
-                  // Realistic HEX APY rates based on historical performance (~41% average)
-                  let annualReturn = 0.30; // Base 30% APY for shorter stakes
-                  
-                  // Higher returns for longer stakes (big paydays get better returns)
-                  if (stakedDays >= 5555) { // Big payday stakes (15 years)
-                    annualReturn = 0.50; // 50% APY for max length stakes
-                  } else if (stakedDays >= 3000) { // Long stakes (8+ years)
-                    annualReturn = 0.45; // 45% APY for long stakes
-                  } else if (stakedDays >= 1000) { // Medium stakes (3+ years)
-                    annualReturn = 0.38; // 38% APY for medium stakes
-                  }
-                  
-                  // Simple interest: principal * rate * time
-                  interestHex = stakedHexAmount * annualReturn * yearsElapsed;
-                  
-                  // Cap maximum interest at 4x principal for big paydays
-                  interestHex = Math.min(interestHex, stakedHexAmount * 4);
-                }
-                
-                return { stakedHex, interestHex, index: j };
-              })
-              .catch(err => {
-                console.error(`Error fetching stake ${j}:`, err);
-                return null;
-              })
-          );
-        }
-        
-        stakePromises.push(...batchPromises);
-      }
-      
-      // Wait for all stakes to be fetched
-      const stakeResults = await Promise.all(stakePromises);
-      
-      // Process results
-      stakeResults.forEach(result => {
-        if (result) {
-          totalStaked += result.stakedHex;
-          totalInterest += result.interestHex;
-          console.log(`Found stake ${result.index} with ${result.stakedHex.toFixed(2)} HEX, interest: ${result.interestHex.toFixed(2)} HEX`);
-        }
-      });
-    } catch (fetchErr) {
-      console.error('Error fetching stake details:', fetchErr);
-    }
-    
-    // Ensure we have valid numbers before formatting
-    const validTotalStaked = typeof totalStaked === 'number' && !isNaN(totalStaked) ? totalStaked : 0;
-    const validTotalInterest = typeof totalInterest === 'number' && !isNaN(totalInterest) ? totalInterest : 0;
-    const validCurrentHexPrice = typeof currentHexPrice === 'number' && !isNaN(currentHexPrice) ? currentHexPrice : 0;
-    
-    // Format the numbers as strings with 2 decimal places
-    const totalStakedHex = validTotalStaked.toFixed(2);
-    const totalInterestHex = validTotalInterest.toFixed(2);
-    const totalCombinedHex = (validTotalStaked + validTotalInterest).toFixed(2);
-    
-    // Calculate USD values
-    const totalStakeValueUsd = validTotalStaked * validCurrentHexPrice;
-    const totalInterestValueUsd = validTotalInterest * validCurrentHexPrice;
-    const totalCombinedValueUsd = (validTotalStaked + validTotalInterest) * validCurrentHexPrice;
-    
-    return {
-      totalStakedHex,
-      totalInterestHex,
-      totalCombinedHex,
-      totalStakeValueUsd,
-      totalInterestValueUsd,
-      totalCombinedValueUsd,
-      stakeCount: count,
-      hexPrice: currentHexPrice,
-      isLoading: false,
-      error: null
-    };
+    const report = await fetchHexStakesReport(address);
+    return toSummary(report.totals, report.hexPrice);
   } catch (err) {
     console.error('Error in fetchHexStakesSummary:', err);
-    return {
-      totalStakedHex: '0',
-      totalInterestHex: '0',
-      totalCombinedHex: '0',
-      totalStakeValueUsd: 0,
-      totalInterestValueUsd: 0,
-      totalCombinedValueUsd: 0,
-      stakeCount: 0,
-      hexPrice: 0,
-      isLoading: false,
-      error: 'Failed to fetch HEX stakes data'
-    };
+    return emptySummary('Failed to fetch HEX stakes data');
   }
 }
 
+/**
+ * The stakes of several wallets rolled up on the server, with each wallet's own totals
+ */
+export function fetchHexStakesPortfolioSummary(walletAddresses: string[]): Promise<HexStakesPortfolioSummary> {
+  return queryClient.fetchQuery<HexStakesPortfolioSummary>({
+    queryKey: hexStakesSummaryQueryKey(walletAddresses),
+    staleTime: HEX_STAKES_STALE_TIME
+  });
+}
+
 /**
  * Function to fetch and combine HEX stakes data for multiple wallets
  * @param walletAddresses Array of wallet addresses
  * @returns Combined HEX stake summary
  */
 export async function fetchCombinedHexStakes(walletAddresses: string[]): Promise<HexStakeSummary> {
+  const addresses = (walletAddresses || []).filter(isWalletAddress);
+  if (addresses.length === 0) {
+    return emptySummary();
+  }
+
   try {
-    if (!walletAddresses || walletAddresses.length === 0) {
-      return {
-        totalStakedHex: '0',
-        totalInterestHex: '0',
-        totalCombinedHex: '0',
-        totalStakeValueUsd: 0,
-        totalInterestValueUsd: 0,
-        totalCombinedValueUsd: 0,
-        stakeCount: 0,
-        hexPrice: 0,
-        isLoading: false,
-        error: null
-      };
-    }
-    
-    console.log(`Fetching HEX stakes for ${walletAddresses.length} wallets...`);
-    
-    // Get HEX price using cache to avoid redundant API calls
-    const hexPrice = await getHexPriceWithCache();
-    
-    // Fetch data for all wallets in parallel
-    const stakePromises = walletAddresses.map(address => 
-      fetchHexStakesSummary(address)
-        .catch(error => {
-          console.error(`Error fetching HEX stakes for ${address}:`, error);
-          return null;
-        })
-    );
-    
-    // Wait for all requests to finish
-    const stakesResults = await Promise.all(stakePromises);
-    
-    // Filter out null results and combine data
-    const validResults = stakesResults.filter(result => result !== null) as HexStakeSummary[];
-    
-    if (validResults.length === 0) {
-      return {
-        totalStakedHex: '0',
-        totalInterestHex: '0',
-        totalCombinedHex: '0',
-        totalStakeValueUsd: 0,
-        totalInterestValueUsd: 0,
-        totalCombinedValueUsd: 0,
-        stakeCount: 0,
-        hexPrice,
-        isLoading: false,
-        error: 'Failed to fetch HEX stakes for any of the provided wallets'
-      };
-    }
-    
-    // Combine the data
-    let totalStakedHex = 0;
-    let totalInterestHex = 0;
-    let totalStakeCount = 0;
-    
-    validResults.forEach(result => {
-      // Safely parse values with fallback to 0
-      const stakedValue = parseFloat(result.totalStakedHex || '0');
-      const interestValue = parseFloat(result.totalInterestHex || '0');
-      
-      // Only add if the parsed values are valid numbers
-      if (!isNaN(stakedValue)) {
-        totalStakedHex += stakedValue;
-      }
-      if (!isNaN(interestValue)) {
-        totalInterestHex += interestValue;
-      }
-      
-      totalStakeCount += result.stakeCount || 0;
-    });
-    
-    // Calculate total combined - ensure we have valid numbers
-    const totalCombinedHex = totalStakedHex + totalInterestHex;
-    
-    // Ensure hexPrice is a valid number
-    const validHexPrice = typeof hexPrice === 'number' && !isNaN(hexPrice) ? hexPrice : 0;
-    
-    // Calculate USD values
-    const totalStakeValueUsd = totalStakedHex * validHexPrice;
-    const totalInterestValueUsd = totalInterestHex * validHexPrice;
-    const totalCombinedValueUsd = totalCombinedHex * validHexPrice;
-    
-    console.log(`Combined HEX stakes: ${totalStakedHex.toFixed(2)} HEX, interest: ${totalInterestHex.toFixed(2)} HEX`);
-    
-    return {
-      totalStakedHex: totalStakedHex.toFixed(2),
-      totalInterestHex: totalInterestHex.toFixed(2),
-      totalCombinedHex: totalCombinedHex.toFixed(2),
-      totalStakeValueUsd,
-      totalInterestValueUsd,
-      totalCombinedValueUsd,
-      stakeCount: totalStakeCount,
-      hexPrice: validHexPrice,
-      isLoading: false,
-      error: null
-    };
+    const summary = await fetchHexStakesPortfolioSummary(addresses);
+    return toSummary(summary.totals, summary.hexPrice);
   } catch (err) {
     console.error('Error in fetchCombinedHexStakes:', err);
+    return emptySummary('Failed to fetch HEX stakes for the provided wallets');
+  }
+}
+
+export function useHexStakes(walletAddress: string | undefined): HexStakeSummary {
+  const { data, isLoading, error } = useQuery<HexStakesReport>({
+    queryKey: hexStakesQueryKey(walletAddress || ''),
+    // Combined and portfolio views pass labels like "Portfolio:name" rather than an address
+    enabled: isWalletAddress(walletAddress),
+    staleTime: HEX_STAKES_STALE_TIME
+  });
+
+  if (!data) {
     return {
-      totalStakedHex: '0',
-      totalInterestHex: '0',
-      totalCombinedHex: '0',
-      totalStakeValueUsd: 0,
-      totalInterestValueUsd: 0,
-      totalCombinedValueUsd: 0,
-      stakeCount: 0,
-      hexPrice: 0,
-      isLoading: false,
-      error: 'Failed to fetch combined HEX stakes data'
+      ...emptySummary(error ? 'Failed to fetch HEX stakes summary' : null),
+      isLoading
     };
   }
+  return toSummary(data.totals, data.hexPrice);
 }
 
-export function useHexStakes(walletAddress: string | undefined) {
-  const [summary, setSummary] = useState<HexStakeSummary>({
-    totalStakedHex: '0',
-    totalInterestHex: '0',
-    totalCombinedHex: '0',
-    totalStakeValueUsd: 0,
-    totalInterestValueUsd: 0,
-    totalCombinedValueUsd: 0,
-    stakeCount: 0,
-    hexPrice: 0,
-    isLoading: true,
-    error: null
+/**
+ * The stakes of several wallets as one list, with totals over all of them
+ */
+export function useCombinedHexStakes(walletAddresses: string[]) {
+  const results = useQueries({
+    queries: walletAddresses.map(address => ({
+      queryKey: hexStakesQueryKey(address),
+      staleTime: HEX_STAKES_STALE_TIME
+    }))
   });
 
-  useEffect(() => {
-    // Use the same function that we use for preloading
-    const fetchData = async () => {
-      if (!walletAddress) {
-        setSummary(prev => ({
-          ...prev,
-          isLoading: false
-        }));
-        return;
-      }
-      
-      setSummary(prev => ({ ...prev, isLoading: true, error: null }));
-      
-      try {
-        // Use our shared function to fetch the HEX stakes data
-        const result = await fetchHexStakesSummary(walletAddress);
-        
-        setSummary({
-          ...result,
-          isLoading: false
-        });
-      } catch (err) {
-        console.error('Error in useHexStakes hook:', err);
-        setSummary(prev => ({
-          ...prev,
-          isLoading: false,
-          error: 'Failed to fetch HEX stakes summary'
-        }));
-      }
+  // useQueries hands back new result objects every render, so the merge is keyed on when each
+  // report last changed to keep the stakes array stable for effects that depend on it
+  const dataKey = results.map(result => result.dataUpdatedAt).join(',');
+  const combined = useMemo(() => {
+    const reports = results
+      .map(result => result.data)
+      .filter((report): report is HexStakesReport => !!report);
+    const stakes: HexStake[] = reports.flatMap(report => report.stakes);
+    const hexPrice = reports[0]?.hexPrice ?? 0;
+
+    return {
+      stakes,
+      totals: summarizeHexStakes(stakes, hexPrice),
+      hexPrice,
+      currentDay: reports[0]?.currentDay ?? null
     };
-    
-    fetchData();
-  }, [walletAddress]);
-  
-  return summary;
-}
\ No newline at end of file
+  }, [dataKey]);
+  const failed = results.find(result => result.error);
+
+  return {
+    ...combined,
+    isLoading: results.some(result => result.isLoading),
+    error: failed?.error instanceof Error ? failed.error.message : null
+  };
+}
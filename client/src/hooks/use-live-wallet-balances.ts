@@ -1,22 +1,102 @@
-import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
 import { useEffect, useRef } from 'react';
-import type { WalletData } from '../../../server/types';
-
-interface LiveBalanceUpdate {
-  wallet: string;
-  token: string;
-  balance: string;
-  formattedBalance: number;
-}
+import type { WalletData, ProcessedToken } from '../../../server/types';
+import type {
+  BalanceStreamEvent,
+  PriceStreamEvent,
+  TransactionStreamEvent,
+} from '@shared/wallet-stream';
 
 interface LiveWalletData extends WalletData {
   fetchMethod?: string;
   isLiveTracking?: boolean;
+  // Newest stream event id when the snapshot was read - the stream resumes after it
+  streamEventId?: number;
+}
+
+// Recompute the wallet totals after its token list changed
+function withTotals(data: LiveWalletData, tokens: ProcessedToken[]): LiveWalletData {
+  const plsToken = tokens.find(t => t.isNative);
+  return {
+    ...data,
+    tokens,
+    totalValue: tokens.reduce((sum, token) => sum + (token.value || 0), 0),
+    tokenCount: tokens.length,
+    plsBalance: plsToken ? plsToken.balanceFormatted : data.plsBalance,
+  };
+}
+
+function applyBalanceEvent(data: LiveWalletData, event: BalanceStreamEvent): LiveWalletData {
+  const index = data.tokens.findIndex(t => t.address.toLowerCase() === event.token);
+  const tokens = [...data.tokens];
+
+  if (index >= 0) {
+    const token = tokens[index];
+    if (event.balanceFormatted === 0) {
+      // Sold or sent everything
+      tokens.splice(index, 1);
+    } else {
+      tokens[index] = {
+        ...token,
+        balance: event.balance,
+        balanceFormatted: event.balanceFormatted,
+        value: token.price !== undefined ? event.balanceFormatted * token.price : token.value,
+      };
+    }
+  } else if (event.balanceFormatted > 0) {
+    // A token the wallet didn't hold before - it gets a price on the next price refresh
+    tokens.push({
+      address: event.token,
+      symbol: event.symbol || 'UNKNOWN',
+      name: event.name || 'Unknown Token',
+      decimals: event.decimals ?? 18,
+      balance: event.balance,
+      balanceFormatted: event.balanceFormatted,
+    });
+  } else {
+    return data;
+  }
+
+  return withTotals(data, tokens);
+}
+
+function applyPriceEvent(data: LiveWalletData, event: PriceStreamEvent): LiveWalletData {
+  const tokens = data.tokens.map(token => {
+    const price = event.prices[token.address.toLowerCase()];
+    return price !== undefined
+      ? { ...token, price, value: token.balanceFormatted * price }
+      : token;
+  });
+
+  return withTotals(data, tokens);
+}
+
+// Matches any loaded transaction history query for the wallet
+function isTransactionHistoryQuery(address: string) {
+  const historyKey = `/api/wallet/${address.toLowerCase()}/scanner-transactions`;
+  return (query: { queryKey: readonly unknown[] }) =>
+    typeof query.queryKey[0] === 'string' && query.queryKey[0].toLowerCase() === historyKey;
+}
+
+// Prepend a streamed transaction to any loaded transaction history for the wallet
+function applyTransactionEvent(queryClient: QueryClient, address: string, event: TransactionStreamEvent) {
+  queryClient.setQueriesData<{ result?: TransactionStreamEvent['transaction'][] }>(
+    { predicate: isTransactionHistoryQuery(address) },
+    (old) => {
+      if (!old?.result || old.result.some(tx => tx.hash === event.transaction.hash)) {
+        return old;
+      }
+      return { ...old, result: [event.transaction, ...old.result] };
+    }
+  );
 }
 
 export function useLiveWalletBalances(address: string | null) {
   const queryClient = useQueryClient();
   const eventSourceRef = useRef<EventSource | null>(null);
+  // Outlives each stream the effect opens, so a reopened stream resumes where the last one
+  // stopped. It's lost on remount, and the new stream then resumes from the cached snapshot.
+  const lastEventIdRef = useRef<{ address: string; id: string } | null>(null);
   
   // Main query for wallet data using live endpoint
   const query = useQuery<LiveWalletData>({
@@ -32,52 +112,65 @@ export function useLiveWalletBalances(address: string | null) {
       return response.json();
     },
     enabled: !!address,
-    staleTime: 0, // Always consider data stale to allow real-time updates
+    staleTime: Infinity, // Kept current by the stream rather than refetching
     gcTime: 5 * 60 * 1000, // Keep data in cache for 5 minutes
   });
   
-  // Set up real-time updates
+  const hasData = !!query.data;
+  const snapshotEventId = query.data?.streamEventId;
+  
+  // Apply streamed updates to the cached wallet data. The stream opens once the snapshot is in
+  // and replays everything after its event id, so nothing published during the fetch is lost.
+  // Replaying an event the snapshot already reflects is harmless - each carries absolute values.
   useEffect(() => {
-    if (!address || !query.data) return;
+    if (!address || !hasData) return;
+    
+    const queryKey = ['/api/wallet', address, 'live-balances'];
+    const lastSeen = lastEventIdRef.current?.address === address ? Number(lastEventIdRef.current.id) : undefined;
+    const resumeFrom = Math.max(lastSeen ?? -1, snapshotEventId ?? -1);
+    const url = `/api/wallet/${address}/stream${resumeFrom >= 0 ? `?lastEventId=${resumeFrom}` : ''}`;
+    
+    // EventSource reconnects by itself and sends Last-Event-ID when it does
+    const eventSource = new EventSource(url);
+    eventSourceRef.current = eventSource;
     
-    // Create an EventSource connection for real-time updates
-    const setupEventSource = () => {
-      // For now, we'll poll the status endpoint to check for updates
-      // In a future enhancement, we could add Server-Sent Events
-      const pollInterval = setInterval(async () => {
+    const listen = <T,>(type: string, apply: (event: T) => void) => {
+      eventSource.addEventListener(type, (message: MessageEvent) => {
+        if (message.lastEventId) {
+          lastEventIdRef.current = { address, id: message.lastEventId };
+        }
         try {
-          const statusResponse = await fetch('/api/websocket-status');
-          if (statusResponse.ok) {
-            const status = await statusResponse.json();
-            
-            // If WebSocket is connected and we have cached data, check for updates
-            if (status.isWebSocketConnected && status.trackedWallets > 0) {
-              // Invalidate and refetch data to get latest balances
-              queryClient.invalidateQueries({
-                queryKey: ['/api/wallet', address, 'live-balances']
-              });
-            }
-          }
+          apply(JSON.parse(message.data));
         } catch (error) {
-          console.error('Failed to check WebSocket status:', error);
+          console.error(`Failed to apply ${type} stream event:`, error);
         }
-      }, 2000); // Poll every 2 seconds for real-time feel
-      
-      return () => {
-        clearInterval(pollInterval);
-      };
+      });
     };
     
-    const cleanup = setupEventSource();
+    listen<BalanceStreamEvent>('balance', (event) => {
+      queryClient.setQueryData<LiveWalletData>(queryKey, old => old && applyBalanceEvent(old, event));
+    });
+    
+    listen<PriceStreamEvent>('price', (event) => {
+      queryClient.setQueryData<LiveWalletData>(queryKey, old => old && applyPriceEvent(old, event));
+    });
+    
+    listen<TransactionStreamEvent>('transaction', (event) => {
+      applyTransactionEvent(queryClient, address, event);
+    });
+    
+    // Sent when missed events are gone, or a reorg orphaned transactions already streamed, so
+    // fall back to a full refetch
+    listen('reset', () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ predicate: isTransactionHistoryQuery(address) });
+    });
     
     return () => {
-      cleanup();
-      if (eventSourceRef.current) {
-        eventSourceRef.current.close();
-        eventSourceRef.current = null;
-      }
+      eventSource.close();
+      eventSourceRef.current = null;
     };
-  }, [address, query.data, queryClient]);
+  }, [address, hasData, queryClient]);
   
   // Clean up tracking when component unmounts
   useEffect(() => {
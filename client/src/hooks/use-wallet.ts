@@ -1,8 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
 import { ethers } from 'ethers';
 import { useToast } from '@/hooks/use-toast';
-import { getUserFromWallet, getUserProfile } from '@/lib/api';
+import { getSignInNonce, signInWithEthereum, getSession, signOut, getUserProfile } from '@/lib/api';
 import { User } from '@shared/schema';
+import { buildSiweMessage, SIWE_CHAIN_ID, SIWE_STATEMENT } from '@shared/siwe';
 
 interface UseWalletReturn {
   isConnected: boolean;
@@ -10,11 +11,34 @@ interface UseWalletReturn {
   chainId: number | null;
   userId: number | null;
   user: User | null;
+  isAdmin: boolean;
   connect: () => Promise<void>;
   disconnect: () => void;
   isConnecting: boolean;
   isPulseChain: boolean;
   refreshUserProfile: () => Promise<User | null>;
+  sendTransaction: (tx: { to: string; data: string; value?: string }) => Promise<string>;
+}
+
+// Sign a Sign-In With Ethereum message for the address and start a server session
+async function signInWithWallet(provider: ethers.providers.Web3Provider, address: string): Promise<number | null> {
+  const nonce = await getSignInNonce();
+  
+  const message = buildSiweMessage({
+    domain: window.location.host,
+    address: ethers.utils.getAddress(address),
+    statement: SIWE_STATEMENT,
+    uri: window.location.origin,
+    version: '1',
+    chainId: SIWE_CHAIN_ID,
+    nonce,
+    issuedAt: new Date().toISOString(),
+  });
+  
+  const signature = await provider.getSigner(address).signMessage(message);
+  console.log("Signature received:", signature.substring(0, 20) + "...");
+  
+  return signInWithEthereum(message, signature);
 }
 
 export function useWallet(): UseWalletReturn {
@@ -62,18 +86,17 @@ export function useWallet(): UseWalletReturn {
           // Compare addresses case-insensitively
           const foundAccount = accounts.find(acc => acc.toLowerCase() === savedAddress.toLowerCase());
           if (foundAccount) {
-            // Check if we have a stored signature and timestamp that's still valid
-            const storedSignature = localStorage.getItem('walletSignature');
-            const storedSignatureTimestamp = localStorage.getItem('signatureTimestamp');
-            const storedUserId = localStorage.getItem('userId');
+            // Check if the server still has a valid session for this wallet
+            const session = await getSession();
             
-            if (storedSignature && storedSignatureTimestamp && storedUserId && isLoginValid) {
-              // We have valid stored authentication data, restore the session without requiring a new signature
-              console.log("Found valid stored session, restoring connection without new signature");
+            if (session && session.walletAddress?.toLowerCase() === foundAccount.toLowerCase()) {
+              // We have a valid server session, restore the connection without requiring a new signature
+              console.log("Found valid server session, restoring connection without new signature");
               
-              // Restore connection using stored data
+              // Restore connection using session data
               setAccount(foundAccount);
-              setUserId(parseInt(storedUserId, 10));
+              setUserId(session.id);
+              localStorage.setItem('userId', String(session.id));
               // Update the saved address with the correct case
               localStorage.setItem('walletAddress', foundAccount);
               
@@ -81,10 +104,10 @@ export function useWallet(): UseWalletReturn {
               const network = await provider.getNetwork();
               setChainId(network.chainId);
               
-              console.log("Wallet connection restored from stored session:", foundAccount);
+              console.log("Wallet connection restored from server session:", foundAccount);
               
               // Fetch user profile data
-              const userProfile = await getUserProfile(parseInt(storedUserId, 10));
+              const userProfile = await getUserProfile(session.id);
               if (userProfile) {
                 setUser(userProfile);
               }
@@ -95,31 +118,18 @@ export function useWallet(): UseWalletReturn {
                 description: `Connected as ${foundAccount.substring(0, 6)}...${foundAccount.substring(foundAccount.length - 4)}`,
               });
             } else {
-              // No valid stored authentication, request new signature
-              console.log("No valid stored session, requesting new signature for:", savedAddress);
+              // No valid session, request new signature
+              console.log("No valid server session, requesting new signature for:", savedAddress);
               
               try {
-                // Request signature to verify wallet ownership
-                const signer = provider.getSigner(savedAddress);
-                const timestamp = Date.now();
-                const message = `Sign this message to verify you own this wallet.\n\nTimestamp: ${timestamp}`;
-                
                 // Show toast about signature requirement
                 toast({
                   title: "Wallet Verification Required",
                   description: "Please sign the message to verify you still own this wallet.",
                 });
                 
-                const signature = await signer.signMessage(message);
-                console.log("Signature received for new session");
-                
-                // Now verify with the backend
-                const userId = await getUserFromWallet(savedAddress, {
-                  signature: signature,
-                  message: message,
-                  timestamp: timestamp,
-                  walletAddress: savedAddress
-                });
+                // Sign in again, which starts a new server session
+                const userId = await signInWithWallet(provider, foundAccount);
                 
                 if (userId) {
                   // Verification successful, restore connection
@@ -132,8 +142,6 @@ export function useWallet(): UseWalletReturn {
                   
                   // Update timestamp
                   localStorage.setItem('lastLoginTimestamp', Date.now().toString());
-                  localStorage.setItem('walletSignature', signature);
-                  localStorage.setItem('signatureTimestamp', timestamp.toString());
                   
                   // Get chain ID
                   const network = await provider.getNetwork();
@@ -236,7 +244,8 @@ export function useWallet(): UseWalletReturn {
         });
       }
       
-      // Always clear all state and localStorage for any account change
+      // Always end the server session and clear all state and localStorage for any account change
+      signOut();
       setAccount(null);
       setChainId(null);
       setUserId(null);
@@ -273,7 +282,7 @@ export function useWallet(): UseWalletReturn {
         ethereum.removeListener('chainChanged', handleChainChanged);
       }
     };
-  }, [toast, PULSE_CHAIN_ID, getUserFromWallet, getUserProfile]);
+  }, [toast, PULSE_CHAIN_ID, getUserProfile]);
 
   // Connect to wallet with signature verification
   const connect = useCallback(async () => {
@@ -370,15 +379,9 @@ export function useWallet(): UseWalletReturn {
           throw new Error("Ethereum provider not found");
         }
         const provider = new ethers.providers.Web3Provider(window.ethereum);
-        const signer = provider.getSigner();
         
-        // Create a message for the user to sign, including a nonce for security
-        const timestamp = Date.now();
-        const message = `Sign this message to verify you own this wallet address:\n\n${address}\n\nTimestamp: ${timestamp}\n\nThis signature doesn't cost any gas or send a transaction.`;
-        
-        // Request signature from user's wallet
+        // Request a Sign-In With Ethereum signature from user's wallet
         console.log("Requesting signature to verify wallet ownership...");
-        let signature;
         try {
           // Show a toast to inform the user about the signature request
           toast({
@@ -386,20 +389,21 @@ export function useWallet(): UseWalletReturn {
             description: "Please sign the message in your wallet to verify ownership.",
           });
           
-          signature = await signer.signMessage(message);
-          console.log("Signature received:", signature.substring(0, 20) + "...");
-          
-          // Now we can verify the address owns this wallet through the signature
+          // The server verifies the signature and starts a session for this wallet
+          const user = await signInWithWallet(provider, address);
+          if (!user) {
+            throw new Error("Wallet signature could not be verified");
+          }
           
           // Set the account after signature verified
           setAccount(address);
+          setUserId(user);
           
           // Store wallet info in localStorage for persistence
           localStorage.setItem('walletConnected', 'true');
           localStorage.setItem('walletAddress', address);
+          localStorage.setItem('userId', String(user));
           localStorage.setItem('lastLoginTimestamp', Date.now().toString());
-          localStorage.setItem('walletSignature', signature);
-          localStorage.setItem('signatureTimestamp', timestamp.toString());
           
           // Get chain ID directly from ethereum
           const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
@@ -407,22 +411,10 @@ export function useWallet(): UseWalletReturn {
           setChainId(chainId);
           console.log("Connected to network:", chainId);
           
-          // Create or get user ID for this wallet - pass signature for verification
-          const user = await getUserFromWallet(address, {
-            signature: signature,
-            message: message,
-            timestamp: timestamp,
-            walletAddress: address
-          });
-          if (user) {
-            setUserId(user);
-            localStorage.setItem('userId', String(user));
-            
-            // Fetch user profile data
-            const userProfile = await getUserProfile(user);
-            if (userProfile) {
-              setUser(userProfile);
-            }
+          // Fetch user profile data
+          const userProfile = await getUserProfile(user);
+          if (userProfile) {
+            setUser(userProfile);
           }
         } catch (signError) {
           console.error("Signature request was rejected:", signError);
@@ -483,6 +475,9 @@ export function useWallet(): UseWalletReturn {
 
   // Disconnect wallet and clear persistence
   const disconnect = useCallback(() => {
+    // End the server session
+    signOut();
+    
     // Clear state
     setAccount(null);
     setChainId(null);
@@ -541,6 +536,22 @@ export function useWallet(): UseWalletReturn {
     }
   }, [userId]);
 
+  // Ask the connected wallet to sign and send a transaction, resolving with its hash once submitted
+  const sendTransaction = useCallback(async (tx: { to: string; data: string; value?: string }): Promise<string> => {
+    if (!window.ethereum || !account) {
+      throw new Error("Connect your wallet first");
+    }
+    
+    const provider = new ethers.providers.Web3Provider(window.ethereum);
+    const network = await provider.getNetwork();
+    if (network.chainId !== PULSE_CHAIN_ID) {
+      throw new Error("Switch your wallet to PulseChain first");
+    }
+    
+    const response = await provider.getSigner(account).sendTransaction(tx);
+    return response.hash;
+  }, [account]);
+
   // Debug utility function to simulate an expired session (for testing)
   const resetLoginTimestamp = useCallback(() => {
     // Set login timestamp to 8 days ago (expired)
@@ -555,11 +566,13 @@ export function useWallet(): UseWalletReturn {
     chainId,
     userId,
     user,
+    isAdmin: user?.role === 'admin',
     connect,
     disconnect,
     isConnecting,
     isPulseChain,
     refreshUserProfile,
+    sendTransaction,
     // Include debug utility only in development
     ...(process.env.NODE_ENV === 'development' ? { resetLoginTimestamp } : {})
   };
@@ -411,49 +411,38 @@ export async function deleteBookmark(id: number): Promise<boolean> {
 }
 
 /**
- * Create or get user ID from wallet address, with signature verification
- * @param walletAddress The wallet address
- * @param authData Optional authentication data with signature
+ * Request a single-use nonce for a Sign-In With Ethereum message
  */
-export async function getUserFromWallet(
-  walletAddress: string, 
-  authData?: { 
-    signature: string;
-    message: string;
-    timestamp: number;
-    walletAddress: string;
+export async function getSignInNonce(): Promise<string> {
+  const response = await fetch('/api/auth/nonce', {
+    credentials: 'include',
+  });
+  
+  if (!response.ok) {
+    throw new Error(`Failed to get sign-in nonce (Status: ${response.status})`);
   }
-): Promise<number | null> {
+  
+  const data = await response.json();
+  return data.nonce;
+}
+
+/**
+ * Verify a signed SIWE message with the server, which starts a session cookie
+ * @param message The SIWE message that was signed
+ * @param signature The wallet's signature of the message
+ * @returns The signed-in user's ID, or null if verification failed
+ */
+export async function signInWithEthereum(message: string, signature: string): Promise<number | null> {
   try {
-    // Check if the wallet address is provided
-    if (!walletAddress) {
-      console.warn('Wallet address is required');
-      return null;
-    }
-    
-    const requestBody: any = { walletAddress };
-    
-    // If authentication data is provided, include it in the request
-    if (authData) {
-      requestBody.signature = authData.signature;
-      requestBody.message = authData.message;
-      requestBody.timestamp = authData.timestamp;
-    }
-    
-    const response = await fetch('/api/users/wallet', {
+    const response = await fetch('/api/auth/verify', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(requestBody),
+      body: JSON.stringify({ message, signature }),
+      credentials: 'include',
     });
     
-    // For 404 errors, the endpoint might not be implemented yet
-    if (response.status === 404) {
-      console.warn('User wallet endpoint not found. This feature may not be fully implemented yet.');
-      return null;
-    }
-    
     if (!response.ok) {
       const errorText = await response.text();
       let errorData;
@@ -462,17 +451,55 @@ export async function getUserFromWallet(
       } catch (e) {
         errorData = { message: errorText || 'Unknown error' };
       }
-      throw new Error(errorData.message || `Failed to get user from wallet (Status: ${response.status})`);
+      throw new Error(errorData.message || `Failed to sign in (Status: ${response.status})`);
     }
     
     const data = await response.json();
     return data.id || null;
   } catch (error) {
-    console.error('Error getting user from wallet:', error instanceof Error ? error.message : 'Unknown error');
+    console.error('Error signing in with wallet:', error instanceof Error ? error.message : 'Unknown error');
+    return null;
+  }
+}
+
+/**
+ * Get the user behind the current session cookie, or null if not signed in
+ */
+export async function getSession(): Promise<{ id: number; username: string; walletAddress?: string } | null> {
+  try {
+    const response = await fetch('/api/auth/session', {
+      credentials: 'include',
+    });
+    
+    if (response.status === 401) {
+      return null;
+    }
+    
+    if (!response.ok) {
+      throw new Error(`Failed to get session (Status: ${response.status})`);
+    }
+    
+    return response.json();
+  } catch (error) {
+    console.error('Error getting session:', error);
     return null;
   }
 }
 
+/**
+ * End the current session
+ */
+export async function signOut(): Promise<void> {
+  try {
+    await fetch('/api/auth/logout', {
+      method: 'POST',
+      credentials: 'include',
+    });
+  } catch (error) {
+    console.error('Error signing out:', error);
+  }
+}
+
 /**
  * Get full user profile data with all fields
  */
@@ -493,30 +520,24 @@ export async function getUserProfile(userId: number): Promise<User | null> {
 }
 
 /**
- * Get user profile by wallet address
- * This is a convenience function that gets the user ID from wallet address and then gets the user profile
+ * Get the public user profile for a wallet address
  * @param walletAddress The wallet address
- * @param authData Optional authentication data with signature
  */
-export async function getUserProfileByWallet(
-  walletAddress: string,
-  authData?: { 
-    signature: string;
-    message: string;
-    timestamp: number;
-    walletAddress: string;
-  }
-): Promise<User | null> {
+export async function getUserProfileByWallet(walletAddress: string): Promise<User | null> {
   try {
-    // First get the user ID from wallet address
-    const userId = await getUserFromWallet(walletAddress, authData);
+    const response = await fetch(`/api/users/wallet/${walletAddress}`);
     
-    if (!userId) {
+    // Wallets that never signed in have no profile
+    if (response.status === 404) {
       return null;
     }
     
-    // Then get the full user profile using the ID
-    return await getUserProfile(userId);
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to get user profile');
+    }
+    
+    return response.json();
   } catch (error) {
     console.error('Error getting user profile by wallet:', error);
     return null;
@@ -0,0 +1,51 @@
+import type { Token } from '@shared/schema';
+
+export type AssetClassKey = 'tokens' | 'liquidity' | 'staked-hex';
+
+export interface AssetClassTotal {
+  key: AssetClassKey;
+  label: string;
+  value: number;
+  // Share of the total value, 0-100
+  percentage: number;
+}
+
+export interface AssetClassBreakdown {
+  classes: AssetClassTotal[];
+  totalValue: number;
+}
+
+/**
+ * Split a wallet's or portfolio's value into what it holds: tokens, PulseX LP positions and HEX
+ * locked in stakes. Staked HEX isn't a balance the wallet holds, so it comes in separately from
+ * the stakes summary rather than as a row in the token list.
+ * @param tokens Visible tokens, hidden ones already filtered out
+ * @param stakedHexValue USD value of the stakes, principal plus interest accrued so far
+ * @param extraTokenValue Value held outside the token list, like native PLS in the share views
+ */
+export function getAssetClassBreakdown(tokens: Token[], stakedHexValue: number, extraTokenValue = 0): AssetClassBreakdown {
+  let tokenValue = extraTokenValue;
+  let liquidityValue = 0;
+
+  for (const token of tokens) {
+    if (token.isLp) {
+      liquidityValue += token.value || 0;
+    } else {
+      tokenValue += token.value || 0;
+    }
+  }
+
+  const totalValue = tokenValue + liquidityValue + stakedHexValue;
+  const classes: AssetClassTotal[] = [
+    { key: 'tokens', label: 'Tokens', value: tokenValue, percentage: 0 },
+    { key: 'liquidity', label: 'Liquidity', value: liquidityValue, percentage: 0 },
+    { key: 'staked-hex', label: 'Staked HEX', value: stakedHexValue, percentage: 0 }
+  ];
+
+  return {
+    classes: classes
+      .filter(assetClass => assetClass.value > 0)
+      .map(assetClass => ({ ...assetClass, percentage: totalValue > 0 ? assetClass.value / totalValue * 100 : 0 })),
+    totalValue
+  };
+}
@@ -0,0 +1,11 @@
+/**
+ * Browser-side Multicall3 aggregator. Contract reads made in the same tick are sent as one
+ * aggregate3 eth_call through the shared RPC providers.
+ */
+
+import { MulticallAggregator } from '@shared/multicall';
+import { executeWithFailover } from './rpc-provider';
+
+export const multicall = new MulticallAggregator((tx, blockTag) =>
+  executeWithFailover((provider) => provider.call(tx, blockTag))
+);
@@ -0,0 +1,72 @@
+/**
+ * Shared PulseChain RPC providers for the browser. Every module should get its provider here
+ * rather than constructing its own, so endpoints are configured in one place and a failing
+ * endpoint is skipped by everything at once.
+ */
+
+import { ethers } from 'ethers';
+
+// Comma separated list, e.g. VITE_RPC_ENDPOINTS=https://rpc-pulsechain.g4mm4.io,https://rpc.pulsechain.com
+const DEFAULT_RPC_ENDPOINTS = [
+  'https://rpc-pulsechain.g4mm4.io',
+  'https://rpc.pulsechain.com'
+];
+
+const RPC_ENDPOINTS: string[] = import.meta.env.VITE_RPC_ENDPOINTS
+  ? String(import.meta.env.VITE_RPC_ENDPOINTS).split(',').map((url) => url.trim()).filter(Boolean)
+  : DEFAULT_RPC_ENDPOINTS;
+
+const PULSECHAIN_NETWORK = { chainId: 369, name: 'pulsechain' };
+
+// Static providers skip the network detection request before every call
+const providers = RPC_ENDPOINTS.map((url) => new ethers.providers.StaticJsonRpcProvider(url, PULSECHAIN_NETWORK));
+
+// Endpoints that recently failed are tried last until this long has passed
+const FAILURE_COOLDOWN_MS = 60000;
+const failedAt = new Map<ethers.providers.StaticJsonRpcProvider, number>();
+
+// Endpoints in the order they should be tried - ones that haven't failed recently first
+function rankedProviders(): ethers.providers.StaticJsonRpcProvider[] {
+  const now = Date.now();
+  const isCoolingDown = (provider: ethers.providers.StaticJsonRpcProvider) =>
+    now - (failedAt.get(provider) ?? 0) < FAILURE_COOLDOWN_MS;
+
+  return [
+    ...providers.filter((provider) => !isCoolingDown(provider)),
+    ...providers.filter(isCoolingDown),
+  ];
+}
+
+/**
+ * Get the provider for the first endpoint that hasn't failed recently
+ */
+export function getRpcProvider(): ethers.providers.JsonRpcProvider {
+  return rankedProviders()[0];
+}
+
+/**
+ * Run a function against each endpoint in turn until one succeeds. A contract revert is
+ * returned straight away since every endpoint would give the same answer.
+ */
+export async function executeWithFailover<T>(
+  fn: (provider: ethers.providers.JsonRpcProvider) => Promise<T>
+): Promise<T> {
+  let lastError: unknown;
+
+  for (const provider of rankedProviders()) {
+    try {
+      const result = await fn(provider);
+      failedAt.delete(provider);
+      return result;
+    } catch (error) {
+      if ((error as { code?: string })?.code === ethers.errors.CALL_EXCEPTION) {
+        throw error;
+      }
+      console.warn(`RPC endpoint ${provider.connection.url} failed:`, error);
+      failedAt.set(provider, Date.now());
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
@@ -2,30 +2,28 @@ import { useState, useEffect } from 'react';
 import { useLocation } from 'wouter';
 import ApiStats from '@/components/api-stats';
 import HistoricalApiStats from '@/components/historical-api-stats';
+import AdminRoleManager from '@/components/admin-role-manager';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth } from '@/providers/auth-provider';
 import { useToast } from '@/hooks/use-toast';
 
-// Admin wallet address (case-insensitive for comparison)
-const ADMIN_WALLET_ADDRESS = '0x592139A3f8cf019f628A152FC1262B8aEf5B7199'.toLowerCase();
-
 export default function AdminPage() {
-  const { account, isConnected } = useAuth();
+  const { account, user, isAdmin } = useAuth();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [isAuthorized, setIsAuthorized] = useState(false);
 
-  // Check if the connected wallet is the admin address
+  // Check if the signed-in user holds the admin role (enforced again by every admin API route)
   useEffect(() => {
-    if (account && account.toLowerCase() === ADMIN_WALLET_ADDRESS) {
+    if (account && isAdmin) {
       setIsAuthorized(true);
     } else {
       setIsAuthorized(false);
       
-      // Show toast if wallet is connected but not authorized
-      if (account) {
+      // Show toast if wallet is connected but not authorized, once the profile has loaded
+      if (account && user) {
         toast({
           title: "Access Denied",
           description: "You don't have permission to access the admin page.",
@@ -33,7 +31,7 @@ export default function AdminPage() {
         });
       }
     }
-  }, [account, toast]);
+  }, [account, user, isAdmin, toast]);
 
   // If not authorized, show access denied
   if (!account) {
@@ -110,6 +108,11 @@ export default function AdminPage() {
               </TabsContent>
             </Tabs>
           </section>
+          
+          <section>
+            <h2 className="text-xl font-semibold mb-4">Admin Access</h2>
+            <AdminRoleManager />
+          </section>
         </div>
       </Card>
     </main>
@@ -8,13 +8,12 @@ import { useToast } from '@/hooks/use-toast';
 
 export default function ApiUsagePage() {
   const [, setLocation] = useLocation();
-  const { account } = useAuth();
+  const { account, user, isAdmin } = useAuth();
   const { toast } = useToast();
-  const adminAddress = '0x592139A3f8cf019f628A152FC1262B8aEf5B7199'.toLowerCase();
 
-  // Check if user is admin
+  // Check if user is admin (wait for the profile to load before deciding)
   useEffect(() => {
-    if (account && account.toLowerCase() !== adminAddress) {
+    if (account && user && !isAdmin) {
       toast({
         title: "Access Denied",
         description: "You don't have permission to access this page.",
@@ -22,9 +21,9 @@ export default function ApiUsagePage() {
       });
       setLocation('/');
     }
-  }, [account, toast, setLocation]);
+  }, [account, user, isAdmin, toast, setLocation]);
 
-  if (!account || account.toLowerCase() !== adminAddress) {
+  if (!account || !isAdmin) {
     return null;
   }
   
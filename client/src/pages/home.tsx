@@ -1059,6 +1059,7 @@ export default function Home() {
                     isLoading={false}
                     hexStakesSummary={multiWalletHexStakes}
                     portfolioName={portfolioName || undefined}
+                    portfolioId={params.portfolioId}
                     onRefresh={() => {
                       // Refresh all wallets by re-fetching
                       if (multiWalletData) {
@@ -704,7 +704,27 @@ const PortfoliosPage = () => {
                         <Button
                           className="glass-card border-white/15 bg-black/20 hover:bg-white/10 text-white text-xs"
                           size="sm"
-                          onClick={() => {
+                          onClick={async () => {
+                            // Only public portfolios can be opened by others, so sharing one publishes it
+                            if (!portfolio.isPublic) {
+                              try {
+                                await apiRequest({
+                                  url: `/api/portfolios/${portfolio.id}`,
+                                  method: 'PATCH',
+                                  data: { isPublic: true }
+                                });
+                                queryClient.invalidateQueries({ queryKey: ['portfolios', userId] });
+                              } catch (err) {
+                                console.error("Could not make portfolio public: ", err);
+                                toast({
+                                  title: "Share failed",
+                                  description: "Failed to make the portfolio public",
+                                  variant: "destructive"
+                                });
+                                return;
+                              }
+                            }
+
                             // Create the shareable URL using the public code
                             const portfolioUrl = portfolio.publicCode 
                               ? `${window.location.origin}/p/${portfolio.publicCode}`
@@ -48,6 +48,7 @@ import {
   getExampleCSV 
 } from "@/lib/csv-utils";
 import { formatAccount } from "../lib/format";
+import ApiKeyManager from "@/components/api-key-manager";
 
 export function Profile() {
   const { isConnected, account, userId } = useAuth();
@@ -521,6 +522,18 @@ export function Profile() {
         </CardContent>
       </Card>
       
+      <Card className="mb-8 glass-card border-white/15">
+        <CardHeader>
+          <CardTitle className="text-white">API Keys</CardTitle>
+          <CardDescription>
+            Create keys for scripts that read your wallets and portfolios through the API
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ApiKeyManager />
+        </CardContent>
+      </Card>
+      
       {/* Edit Bookmark Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent className="glass-card border-white/15 bg-black/80 backdrop-blur-xl">
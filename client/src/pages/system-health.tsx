@@ -2,7 +2,8 @@ import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { RefreshCw, Server, Clock, HardDrive, Users, Activity } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RefreshCw, Server, Clock, HardDrive, Users, Activity, Network } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
 interface HealthData {
@@ -28,6 +29,34 @@ interface StatusData {
   environment: string;
 }
 
+interface RpcEndpointHealth {
+  index: number;
+  name: string;
+  host: string;
+  weight: number;
+  status: 'healthy' | 'degraded' | 'quarantined';
+  score: number;
+  health: number;
+  latencyMs: number | null;
+  errorRate: number;
+  blockNumber: number | null;
+  blockLag: number;
+  requests: number;
+  failures: number;
+  quarantinedUntil: string | null;
+  lastProbeAt: string | null;
+  lastError: string | null;
+  pinned: boolean;
+}
+
+interface RpcHealthData {
+  primary: string;
+  healthy: string[];
+  failed: string[];
+  totalProviders: number;
+  endpoints: RpcEndpointHealth[];
+}
+
 export default function SystemHealthPage() {
   const { toast } = useToast();
 
@@ -41,9 +70,14 @@ export default function SystemHealthPage() {
     refetchInterval: 30000, // Refresh every 30 seconds
   });
 
+  const { data: rpcHealth, refetch: refetchRpcHealth } = useQuery<RpcHealthData>({
+    queryKey: ['/api/rpc-health'],
+    refetchInterval: 15000, // Matches the server's probe interval
+  });
+
   const handleRefresh = async () => {
     try {
-      await Promise.all([refetchHealth(), refetchStatus()]);
+      await Promise.all([refetchHealth(), refetchStatus(), refetchRpcHealth()]);
       toast({
         title: "Data refreshed",
         description: "System health data has been updated",
@@ -77,6 +111,7 @@ export default function SystemHealthPage() {
       case 'online':
         return 'bg-green-500';
       case 'shutting_down':
+      case 'degraded':
         return 'bg-yellow-500';
       default:
         return 'bg-red-500';
@@ -190,6 +225,73 @@ export default function SystemHealthPage() {
           </CardContent>
         </Card>
 
+        {/* RPC Endpoints */}
+        <Card className="md:col-span-2 lg:col-span-3">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <div>
+              <CardTitle className="text-sm font-medium">RPC Endpoints</CardTitle>
+              <CardDescription>
+                Traffic is spread across healthy endpoints in proportion to their score
+              </CardDescription>
+            </div>
+            <Network className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            {rpcHealth?.endpoints ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Endpoint</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Score</TableHead>
+                    <TableHead className="text-right">Latency</TableHead>
+                    <TableHead className="text-right">Error Rate</TableHead>
+                    <TableHead className="text-right">Block Lag</TableHead>
+                    <TableHead className="text-right">Requests</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rpcHealth.endpoints.map((endpoint) => (
+                    <TableRow key={endpoint.index}>
+                      <TableCell>
+                        <div className="font-medium">
+                          {endpoint.name}
+                          {endpoint.pinned && <Badge variant="outline" className="ml-2">Pinned</Badge>}
+                        </div>
+                        <div className="text-xs text-muted-foreground">{endpoint.host} • weight {endpoint.weight}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={`${getStatusColor(endpoint.status)} text-white`}>{endpoint.status}</Badge>
+                        {endpoint.quarantinedUntil && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Until {new Date(endpoint.quarantinedUntil).toLocaleTimeString()}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-semibold">{endpoint.score.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">
+                        {endpoint.latencyMs !== null ? `${endpoint.latencyMs}ms` : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">{(endpoint.errorRate * 100).toFixed(1)}%</TableCell>
+                      <TableCell className="text-right">
+                        {endpoint.blockNumber !== null ? endpoint.blockLag : '-'}
+                      </TableCell>
+                      <TableCell className="text-right" title={endpoint.lastError || undefined}>
+                        {endpoint.requests.toLocaleString()}
+                        {endpoint.failures > 0 && (
+                          <span className="text-xs text-red-500 ml-1">({endpoint.failures} failed)</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground">RPC health data unavailable</p>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Last Updated */}
         <Card className="md:col-span-2 lg:col-span-3">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
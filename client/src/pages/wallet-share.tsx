@@ -6,13 +6,15 @@ import { TokenLogo } from '@/components/token-logo';
 import { formatCurrency, formatTokenAmount } from '@/lib/utils';
 import { Token } from '@shared/schema';
 import { getHiddenTokens } from '@/lib/api';
+import { getAssetClassBreakdown, type AssetClassBreakdown as AssetClassBreakdownData } from '@/lib/asset-classes';
+import { AssetClassBreakdown } from '@/components/asset-class-breakdown';
 
 export default function WalletShare() {
   const { walletAddress } = useParams<{ walletAddress: string }>();
   const { walletData, isLoading } = useClientSideWallet(walletAddress || '');
-  const hexStakesData = useHexStakes(walletAddress || '');
-  const [totalValue, setTotalValue] = useState(0);
-  const [sortedTokens, setSortedTokens] = useState<any[]>([]);
+  const { totalCombinedValueUsd: stakedHexValue } = useHexStakes(walletAddress || '');
+  const [assetClasses, setAssetClasses] = useState<AssetClassBreakdownData>({ classes: [], totalValue: 0 });
+  const [sortedTokens, setSortedTokens] = useState<Token[]>([]);
   const [hiddenTokens, setHiddenTokens] = useState<string[]>([]);
 
   // Load hidden tokens on mount
@@ -28,49 +30,16 @@ export default function WalletShare() {
         !hiddenTokens.includes(token.address)
       );
       
-      // Create a list including HEX stakes if they have value
-      let allAssets = [...visibleTokens];
-      
-      // Add HEX stakes as a virtual token if it has value
-      if (hexStakesData && hexStakesData.totalCombinedValueUsd > 0) {
-        const hexStakesToken = {
-          address: 'hex-stakes-virtual',
-          symbol: 'HEX (Staked)',
-          name: 'HEX Stakes',
-          balance: hexStakesData.totalCombinedHex,
-          value: hexStakesData.totalCombinedValueUsd,
-          price: hexStakesData.hexPrice || 0,
-          balanceFormatted: parseFloat(hexStakesData.totalCombinedHex),
-          decimals: 8,
-          logo: '',
-          isLp: false,
-          lpToken0Address: '',
-          lpToken1Address: '',
-          lpToken0Symbol: '',
-          lpToken1Symbol: '',
-          lpToken0Balance: '',
-          lpToken1Balance: '',
-          lpToken0BalanceFormatted: 0,
-          lpToken1BalanceFormatted: 0,
-          lpToken0Value: 0,
-          lpToken1Value: 0
-        };
-        allAssets.push(hexStakesToken);
-      }
-      
-      // Sort all assets by value and get top 10
-      const sorted = allAssets
+      // Sort tokens by value and get top 10. Staked HEX isn't a token, so it's shown as its own
+      // asset class below the total instead.
+      const sorted = [...visibleTokens]
         .sort((a, b) => (b.value || 0) - (a.value || 0))
         .slice(0, 10);
       
       setSortedTokens(sorted);
-      
-      // Calculate total portfolio value (visible tokens + HEX stakes)
-      const tokenTotal = visibleTokens.reduce((sum, token) => sum + (token.value || 0), 0);
-      const hexStakesTotal = hexStakesData?.totalCombinedValueUsd || 0;
-      setTotalValue(tokenTotal + hexStakesTotal);
+      setAssetClasses(getAssetClassBreakdown(visibleTokens, stakedHexValue));
     }
-  }, [walletData, hexStakesData, hiddenTokens]);
+  }, [walletData, stakedHexValue, hiddenTokens]);
 
   if (isLoading) {
     return (
@@ -114,8 +83,9 @@ export default function WalletShare() {
           <div className="bg-gradient-to-r from-purple-900/20 to-pink-900/20 rounded-xl p-8 mb-8 border border-purple-500/20 backdrop-blur-sm">
             <h2 className="text-2xl text-gray-300 mb-3 font-medium">Portfolio Total Value</h2>
             <div className="text-5xl font-bold bg-gradient-to-r from-green-400 to-emerald-400 bg-clip-text text-transparent">
-              {formatCurrency(totalValue)}
+              {formatCurrency(assetClasses.totalValue)}
             </div>
+            <AssetClassBreakdown classes={assetClasses.classes} className="mt-4" />
             <div className="mt-3 text-sm text-gray-400">
               {new Date().toLocaleDateString('en-US', { 
                 year: 'numeric', 
@@ -139,17 +109,11 @@ export default function WalletShare() {
                     <span className="text-2xl font-bold bg-gradient-to-r from-gray-400 to-gray-500 bg-clip-text text-transparent w-10">
                       {index + 1}.
                     </span>
-                    {token.address === 'hex-stakes-virtual' ? (
-                      <div className="w-10 h-10 rounded-full bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center">
-                        <span className="text-white font-bold text-sm">HEX</span>
-                      </div>
-                    ) : (
-                      <TokenLogo 
-                        address={token.address} 
-                        symbol={token.symbol} 
-                        size="md"
-                      />
-                    )}
+                    <TokenLogo 
+                      address={token.address} 
+                      symbol={token.symbol} 
+                      size="md"
+                    />
                     <div>
                       <span className="text-xl font-semibold text-white">
                         {token.symbol || 'Unknown'}
@@ -8,11 +8,13 @@ interface AuthContextType {
   chainId: number | null;
   userId: number | null;
   user: any | null;
+  isAdmin: boolean;
   connect: () => Promise<void>;
   disconnect: () => void;
   isConnecting: boolean;
   isPulseChain: boolean;
   refreshUserProfile: () => Promise<any | null>;
+  sendTransaction: (tx: { to: string; data: string; value?: string }) => Promise<string>;
 }
 
 // Create the context with default values to prevent null checks
@@ -22,12 +24,16 @@ const AuthContext = createContext<AuthContextType>({
   chainId: null,
   userId: null,
   user: null,
+  isAdmin: false,
   // These will be overridden by the actual implementation
   connect: async () => {},
   disconnect: () => {},
   isConnecting: false,
   isPulseChain: false,
   refreshUserProfile: async () => null,
+  sendTransaction: async () => {
+    throw new Error('Wallet not available');
+  },
 });
 
 // Create a provider component
@@ -1,10 +1,5 @@
 import { ethers } from 'ethers';
-
-// Multiple RPC endpoints for reliability - using only the most stable providers
-const RPC_ENDPOINTS = [
-  'https://rpc-pulsechain.g4mm4.io',
-  'https://rpc.pulsechain.com'
-];
+import { multicall } from '@/lib/multicall';
 
 // ABI for PulseX pair contracts (minimal required functions)
 const PAIR_ABI = [
@@ -27,6 +22,10 @@ const FACTORY_ABI = [
   'function getPair(address tokenA, address tokenB) external view returns (address pair)'
 ];
 
+const pairInterface = new ethers.utils.Interface(PAIR_ABI);
+const erc20Interface = new ethers.utils.Interface(ERC20_ABI);
+const factoryInterface = new ethers.utils.Interface(FACTORY_ABI);
+
 // Known addresses - Multiple factories for finding best liquidity pairs
 const PULSEX_FACTORIES = [
   '0x1715a3E4A142d8b698131108995174F37aEBA10D', // PulseX v2 Factory
@@ -59,55 +58,10 @@ interface PriceData {
 }
 
 class SmartContractPriceService {
-  private providers: ethers.providers.JsonRpcProvider[] = [];
-  private currentProviderIndex = 0;
   private priceCache = new Map<string, { data: PriceData; timestamp: number }>();
   private wplsPriceCache: { price: number; timestamp: number } | null = null;
   private CACHE_TTL = 30000; // 30 seconds cache to reduce redundant fetches
 
-  constructor() {
-    this.initializeProviders().catch(console.error);
-  }
-
-  private async initializeProviders() {
-    // Initialize multiple providers for redundancy with network detection
-    for (const url of RPC_ENDPOINTS) {
-      try {
-        const provider = new ethers.providers.JsonRpcProvider(url, {
-          chainId: 369,
-          name: 'pulsechain',
-          ensAddress: undefined // Disable ENS resolution on PulseChain
-        });
-        // Set a timeout for network detection
-        const networkPromise = provider.detectNetwork();
-        const timeoutPromise = new Promise((_, reject) => 
-          setTimeout(() => reject(new Error('Network detection timeout')), 5000)
-        );
-        
-        await Promise.race([networkPromise, timeoutPromise]);
-        this.providers.push(provider);
-      } catch (error) {
-        console.warn(`Failed to initialize provider ${url}:`, error);
-      }
-    }
-    
-    if (this.providers.length === 0) {
-      console.error('Failed to initialize any RPC providers');
-    }
-  }
-
-  private getProvider(): ethers.providers.JsonRpcProvider | null {
-    if (this.providers.length === 0) {
-      console.error('No RPC providers available');
-      return null;
-    }
-    
-    // Round-robin through providers for load balancing
-    const provider = this.providers[this.currentProviderIndex];
-    this.currentProviderIndex = (this.currentProviderIndex + 1) % this.providers.length;
-    return provider;
-  }
-
   /**
    * Get real-time price for a token by reading directly from smart contracts
    */
@@ -127,16 +81,8 @@ class SmartContractPriceService {
         console.log('Using specific HEX/WPLS pair for HEX token');
         const HEX_WPLS_PAIR = '0xf1f4ee610b2babb05c635f726ef8b0c568c8dc65';
         
-        const provider = this.getProvider();
-        if (!provider) return null;
-
         try {
-          const pairContract = new ethers.Contract(HEX_WPLS_PAIR, PAIR_ABI, provider);
-          const [reserves, token0, token1] = await Promise.all([
-            pairContract.getReserves(),
-            pairContract.token0(),
-            pairContract.token1()
-          ]);
+          const { reserves, token0, token1 } = await this.readPair(HEX_WPLS_PAIR);
           
           console.log('HEX/WPLS Pair Details:');
           console.log('Token0:', token0);
@@ -251,9 +197,6 @@ class SmartContractPriceService {
         console.log('Using specific pair for PulseReflection');
         const correctPairAddress = '0x53264c3eE2e1B1f470C9884e7f9AE03613868a96'; // PRS/WPLS pair from DexScreener
         
-        const provider = this.getProvider();
-        if (!provider) return null;
-
         try {
           const reserves = await this.getPairReserves(correctPairAddress, tokenAddress, WPLS_ADDRESS);
           if (reserves) {
@@ -319,16 +262,8 @@ class SmartContractPriceService {
    * Get price from a specific pair address
    */
   private async getSpecificPairPrice(tokenAddress: string, pairAddress: string): Promise<PriceData | null> {
-    const provider = this.getProvider();
-    if (!provider) return null;
-
     try {
-      const pairContract = new ethers.Contract(pairAddress, PAIR_ABI, provider);
-      const [reserves, token0, token1] = await Promise.all([
-        pairContract.getReserves(),
-        pairContract.token0(),
-        pairContract.token1()
-      ]);
+      const { reserves, token0, token1 } = await this.readPair(pairAddress);
       
       const normalizedAddress = tokenAddress.toLowerCase();
       const isToken0 = token0.toLowerCase() === normalizedAddress;
@@ -342,18 +277,17 @@ class SmartContractPriceService {
       const pairedTokenAddress = isToken0 ? token1 : token0;
       
       // Get decimals for both tokens
-      const tokenContract = new ethers.Contract(tokenAddress, ['function decimals() view returns (uint8)'], provider);
-      const pairedTokenContract = new ethers.Contract(pairedTokenAddress, [
-        'function decimals() view returns (uint8)',
-        'function symbol() view returns (string)'
-      ], provider);
-      
       const [tokenDecimals, pairedTokenDecimals, pairedTokenSymbol] = await Promise.all([
-        tokenContract.decimals(),
-        pairedTokenContract.decimals(),
-        pairedTokenContract.symbol()
+        multicall.callFunction<number>(erc20Interface, tokenAddress, 'decimals'),
+        multicall.callFunction<number>(erc20Interface, pairedTokenAddress, 'decimals'),
+        multicall.callFunction<string>(erc20Interface, pairedTokenAddress, 'symbol')
       ]);
       
+      if (tokenDecimals === null || pairedTokenDecimals === null || pairedTokenSymbol === null) {
+        console.error(`Could not read token metadata for pair ${pairAddress}`);
+        return null;
+      }
+      
       // Get reserves
       const tokenReserve = isToken0 ? reserves.reserve0 : reserves.reserve1;
       const pairedReserve = isToken0 ? reserves.reserve1 : reserves.reserve0;
@@ -409,18 +343,13 @@ class SmartContractPriceService {
    * Get price from stablecoin pairs
    */
   private async getStablecoinPairPrice(tokenAddress: string): Promise<PriceData | null> {
-    const provider = this.getProvider();
-    if (!provider) return null;
-
     // Try each stablecoin
     for (const [stableAddress, stableInfo] of Object.entries(STABLECOINS)) {
       // Check all factories
       for (const factoryAddress of PULSEX_FACTORIES) {
         try {
-          const factory = new ethers.Contract(factoryAddress, FACTORY_ABI, provider);
-          const pairAddress = await factory.getPair(tokenAddress, stableAddress);
-          
-          if (pairAddress === ethers.constants.AddressZero) continue;
+          const pairAddress = await this.getPair(factoryAddress, tokenAddress, stableAddress);
+          if (!pairAddress) continue;
 
         const reserves = await this.getPairReserves(pairAddress, tokenAddress, stableAddress);
         if (!reserves) continue;
@@ -465,18 +394,13 @@ class SmartContractPriceService {
       return null; // Can't get WPLS price from WPLS pair
     }
 
-    const provider = this.getProvider();
-    if (!provider) return null;
-
     // Find ALL WPLS pairs across all factories and select the one with highest WPLS liquidity
     const allPairs: Array<{ data: PriceData; wplsAmount: number }> = [];
 
     for (const factoryAddress of PULSEX_FACTORIES) {
       try {
-        const factory = new ethers.Contract(factoryAddress, FACTORY_ABI, provider);
-        const pairAddress = await factory.getPair(tokenAddress, WPLS_ADDRESS);
-        
-        if (pairAddress === ethers.constants.AddressZero) continue;
+        const pairAddress = await this.getPair(factoryAddress, tokenAddress, WPLS_ADDRESS);
+        if (!pairAddress) continue;
 
         const reserves = await this.getPairReserves(pairAddress, tokenAddress, WPLS_ADDRESS);
         if (!reserves) continue;
@@ -562,6 +486,32 @@ class SmartContractPriceService {
     return null;
   }
 
+  /**
+   * Read a pair's reserves and tokens. Contract reads go through the multicall aggregator, so
+   * pairs read for different tokens at the same time share one RPC request.
+   */
+  private async readPair(pairAddress: string): Promise<{ reserves: ethers.utils.Result; token0: string; token1: string }> {
+    const [reserves, token0, token1] = await Promise.all([
+      multicall.callFunction<ethers.utils.Result>(pairInterface, pairAddress, 'getReserves'),
+      multicall.callFunction<string>(pairInterface, pairAddress, 'token0'),
+      multicall.callFunction<string>(pairInterface, pairAddress, 'token1')
+    ]);
+
+    if (!reserves || !token0 || !token1) {
+      throw new Error(`Could not read pair ${pairAddress}`);
+    }
+
+    return { reserves, token0, token1 };
+  }
+
+  /**
+   * Look up a pair in a factory, returning null if there isn't one
+   */
+  private async getPair(factoryAddress: string, tokenA: string, tokenB: string): Promise<string | null> {
+    const pairAddress = await multicall.callFunction<string>(factoryInterface, factoryAddress, 'getPair', [tokenA, tokenB]);
+    return pairAddress && pairAddress !== ethers.constants.AddressZero ? pairAddress : null;
+  }
+
   /**
    * Get reserves and token info from a pair
    */
@@ -570,29 +520,19 @@ class SmartContractPriceService {
     token0Address: string, 
     token1Address: string
   ): Promise<TokenReserves | null> {
-    const provider = this.getProvider();
-    if (!provider) return null;
-    const pair = new ethers.Contract(pairAddress, PAIR_ABI, provider);
-
     try {
-      // Get pair tokens to determine order
-      const [pairToken0, pairToken1] = await Promise.all([
-        pair.token0(),
-        pair.token1()
-      ]);
-
-      // Get reserves
-      const reserves = await pair.getReserves();
+      const { reserves, token0: pairToken0, token1: pairToken1 } = await this.readPair(pairAddress);
 
       // Get decimals for both tokens
-      const token0Contract = new ethers.Contract(pairToken0, ERC20_ABI, provider!);
-      const token1Contract = new ethers.Contract(pairToken1, ERC20_ABI, provider!);
-      
       const [decimals0, decimals1] = await Promise.all([
-        token0Contract.decimals(),
-        token1Contract.decimals()
+        multicall.callFunction<number>(erc20Interface, pairToken0, 'decimals'),
+        multicall.callFunction<number>(erc20Interface, pairToken1, 'decimals')
       ]);
 
+      if (decimals0 === null || decimals1 === null) {
+        throw new Error(`Could not read token decimals for pair ${pairAddress}`);
+      }
+
       return {
         token0Address: pairToken0,
         token1Address: pairToken1,
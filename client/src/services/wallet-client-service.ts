@@ -9,6 +9,7 @@ import { requestDeduplicator } from '@/lib/request-deduplicator';
 import { PerformanceTimer } from '@/utils/performance-timer';
 import { fetchTokenBalancesFromBrowser } from './scanner-client-service';
 import { fetchMultipleTokenLogos } from './dexscreener-logo-service';
+import { multicall } from '@/lib/multicall';
 import { ethers } from 'ethers';
 
 // Blacklist of known dust tokens to filter out
@@ -17,11 +18,6 @@ const DUST_TOKEN_BLACKLIST = new Set<string>([
   // Example: '0x1234567890abcdef...',
 ]);
 
-// RPC provider for blockchain calls
-const getRpcProvider = () => {
-  return new ethers.providers.JsonRpcProvider('https://rpc-pulsechain.g4mm4.io');
-};
-
 // ERC20 ABI for basic token functions
 const ERC20_ABI = [
   'function symbol() view returns (string)',
@@ -39,30 +35,30 @@ const LP_PAIR_ABI = [
   'function totalSupply() view returns (uint256)',
 ];
 
+const erc20Interface = new ethers.utils.Interface(ERC20_ABI);
+const lpPairInterface = new ethers.utils.Interface(LP_PAIR_ABI);
+
 /**
  * Analyze LP token client-side to get underlying token balances and values
  */
 async function analyzeLpTokenClientSide(token: ProcessedToken, priceMap: Map<string, any>): Promise<ProcessedToken> {
   try {
     console.log(`🔬 Analyzing LP token ${token.symbol} client-side...`);
-    const provider = getRpcProvider();
-    
-    // Create contract instance for LP pair
-    const lpContract = new ethers.Contract(token.address, LP_PAIR_ABI, provider);
     
-    // Get underlying token addresses
-    const [token0Address, token1Address] = await Promise.all([
-      lpContract.token0(),
-      lpContract.token1()
+    // Get underlying token addresses, reserves and total supply. These reads are batched
+    // into a single multicall with those of the other LP tokens being analyzed.
+    const [token0Address, token1Address, reserves, totalSupply] = await Promise.all([
+      multicall.callFunction<string>(lpPairInterface, token.address, 'token0'),
+      multicall.callFunction<string>(lpPairInterface, token.address, 'token1'),
+      multicall.callFunction<ethers.utils.Result>(lpPairInterface, token.address, 'getReserves'),
+      multicall.callFunction<ethers.BigNumber>(lpPairInterface, token.address, 'totalSupply')
     ]);
     
-    console.log(`LP ${token.symbol} contains tokens:`, { token0Address, token1Address });
+    if (!token0Address || !token1Address || !reserves || !totalSupply) {
+      throw new Error(`Could not read pair data for ${token.address}`);
+    }
     
-    // Get reserves and total supply
-    const [reserves, totalSupply] = await Promise.all([
-      lpContract.getReserves(),
-      lpContract.totalSupply()
-    ]);
+    console.log(`LP ${token.symbol} contains tokens:`, { token0Address, token1Address });
     
     const lpBalance = ethers.BigNumber.from(token.balance);
     const totalSupplyBN = ethers.BigNumber.from(totalSupply);
@@ -70,17 +66,18 @@ async function analyzeLpTokenClientSide(token: ProcessedToken, priceMap: Map<str
     // Calculate user's share of the pool
     const userShareRatio = lpBalance.mul(ethers.constants.WeiPerEther).div(totalSupplyBN);
     
-    // Get token contracts for metadata
-    const token0Contract = new ethers.Contract(token0Address, ERC20_ABI, provider);
-    const token1Contract = new ethers.Contract(token1Address, ERC20_ABI, provider);
-    
+    // Get token metadata
     const [token0Symbol, token0Decimals, token1Symbol, token1Decimals] = await Promise.all([
-      token0Contract.symbol(),
-      token0Contract.decimals(),
-      token1Contract.symbol(),
-      token1Contract.decimals()
+      multicall.callFunction<string>(erc20Interface, token0Address, 'symbol'),
+      multicall.callFunction<number>(erc20Interface, token0Address, 'decimals'),
+      multicall.callFunction<string>(erc20Interface, token1Address, 'symbol'),
+      multicall.callFunction<number>(erc20Interface, token1Address, 'decimals')
     ]);
     
+    if (token0Symbol === null || token0Decimals === null || token1Symbol === null || token1Decimals === null) {
+      throw new Error(`Could not read token metadata for ${token.address}`);
+    }
+    
     // Calculate underlying token balances
     const token0ReserveBN = ethers.BigNumber.from(reserves.reserve0);
     const token1ReserveBN = ethers.BigNumber.from(reserves.reserve1);
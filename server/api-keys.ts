@@ -0,0 +1,130 @@
+import type { Request, Response, NextFunction } from "express";
+import { createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+import { apiStatsService } from "./services/api-stats-service";
+import { type ApiKey, type ApiKeyScope } from "@shared/schema";
+
+// The API key a request was authenticated with, set by apiKeyAuth or pathApiKeyAuth. Only
+// apiKeyAuth in the route's own chain sets apiKeyScopeChecked, which requireAuth asks for
+// before it lets a key stand in for its owner.
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: ApiKey;
+      apiKeyScopeChecked?: boolean;
+    }
+  }
+}
+
+const API_KEY_PREFIX = 'fk_';
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+// Keys are only ever stored and looked up by their hash
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+// Generate a new key. The plaintext is returned to the user once and never stored.
+export function generateApiKey(): { key: string; keyPrefix: string; keyHash: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString('hex')}`;
+  return {
+    key,
+    keyPrefix: key.substring(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashApiKey(key),
+  };
+}
+
+function getBearerToken(req: Request): string | null {
+  const header = req.get('authorization');
+  if (!header || !header.toLowerCase().startsWith('bearer ')) {
+    return null;
+  }
+  return header.substring('bearer '.length).trim() || null;
+}
+
+// Once the response is sent, mark the key as used and record the call in the API stats
+function trackApiKeyUsage(req: Request, res: Response, apiKey: ApiKey) {
+  const startTime = Date.now();
+  const endpoint = req.originalUrl.split('?')[0];
+  const walletAddress = req.params.address || null;
+
+  res.on('finish', () => {
+    const successful = res.statusCode < 400;
+
+    storage.touchApiKey(apiKey.id).catch((error) => {
+      console.error(`[API Keys] Failed to update last used time for key ${apiKey.id}:`, error);
+    });
+
+    apiStatsService.recordApiCall(
+      endpoint,
+      walletAddress,
+      Date.now() - startTime,
+      false,
+      successful,
+      successful ? null : `API key ${apiKey.keyPrefix}: HTTP ${res.statusCode}`
+    );
+  });
+}
+
+/**
+ * Authenticate requests that carry an `Authorization: Bearer <key>` header and check that the
+ * key has the given scope. Requests without a bearer header are passed through untouched so
+ * the route keeps working for signed-in sessions and anonymous callers alike.
+ */
+export function apiKeyAuth(scope: ApiKeyScope) {
+  return authenticateApiKey(scope, true);
+}
+
+/**
+ * apiKeyAuth for every route under a path, mounted with app.use. The key is checked and counted
+ * against its quota, but the routes never asked for the scope themselves, so requireAuth still
+ * turns it away on the ones that need a signed-in user.
+ */
+export function pathApiKeyAuth(scope: ApiKeyScope) {
+  return authenticateApiKey(scope, false);
+}
+
+function authenticateApiKey(scope: ApiKeyScope, routeScoped: boolean) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      // Already authenticated earlier on the same request - only the scope differs
+      if (req.apiKey) {
+        if (!req.apiKey.scopes.includes(scope)) {
+          return res.status(403).json({ message: `API key is missing the "${scope}" scope` });
+        }
+        if (routeScoped) req.apiKeyScopeChecked = true;
+        return next();
+      }
+
+      const token = getBearerToken(req);
+      if (!token) {
+        return next();
+      }
+
+      const apiKey = await storage.getApiKeyByHash(hashApiKey(token));
+      if (!apiKey || apiKey.revokedAt) {
+        return res.status(401).json({ message: "Invalid or revoked API key" });
+      }
+
+      const owner = await storage.getUser(apiKey.userId);
+      if (!owner) {
+        return res.status(401).json({ message: "Invalid or revoked API key" });
+      }
+
+      if (!apiKey.scopes.includes(scope)) {
+        console.log(`API key ${apiKey.id} denied ${req.method} ${req.originalUrl}: missing scope ${scope}`);
+        return res.status(403).json({ message: `API key is missing the "${scope}" scope` });
+      }
+
+      // The key acts as its owner for ownership checks further down the chain
+      req.apiKey = apiKey;
+      req.authUser = owner;
+      if (routeScoped) req.apiKeyScopeChecked = true;
+      trackApiKeyUsage(req, res, apiKey);
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,201 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import { randomBytes } from "crypto";
+import { pool } from "./db";
+import { storage } from "./storage";
+import { type User } from "@shared/schema";
+
+// Session data written by the Sign-In With Ethereum flow
+declare module "express-session" {
+  interface SessionData {
+    userId: number;
+    walletAddress: string;
+    nonce: string;
+  }
+}
+
+// The signed-in user resolved by requireAuth / resolveUser
+declare global {
+  namespace Express {
+    interface Request {
+      authUser?: User;
+    }
+  }
+}
+
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days, matches the client login expiry
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error(
+      "SESSION_SECRET must be set in production. Did you forget to add it to your secrets?",
+    );
+  }
+
+  // Development fallback - sessions won't survive a restart
+  console.warn('SESSION_SECRET not set, using a random per-process secret');
+  return randomBytes(32).toString('hex');
+}
+
+export function setupAuth(app: Express) {
+  const PostgresSessionStore = connectPg(session);
+
+  // Secure cookies need the proxy's X-Forwarded-Proto header to be trusted
+  app.set("trust proxy", 1);
+
+  app.use(session({
+    store: new PostgresSessionStore({
+      pool: pool as any,
+      tableName: 'user_sessions',
+      createTableIfMissing: true,
+    }),
+    name: 'frenkabal.sid',
+    secret: getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  }));
+}
+
+// Wallet users are stored under a deterministic username derived from their address
+export function walletUsername(walletAddress: string): string {
+  return `wallet_${walletAddress.toLowerCase()}`;
+}
+
+// Find the user for a wallet, creating the account on first sign-in
+export async function findOrCreateWalletUser(walletAddress: string): Promise<User> {
+  const username = walletUsername(walletAddress);
+
+  const existingUser = await storage.getUserByUsername(username);
+  if (existingUser) {
+    return existingUser;
+  }
+
+  try {
+    // Wallet users never log in with a password, it only satisfies the NOT NULL column
+    const user = await storage.createUser({
+      username,
+      password: `pwd_${walletAddress.toLowerCase()}`
+    });
+    console.log(`Created new user ${user.id} for wallet ${walletAddress}`);
+    return user;
+  } catch (createError) {
+    // In case there's a race condition and the user was created between our check and create
+    console.log("Error creating user, checking if it exists now:", createError);
+    const user = await storage.getUserByUsername(username);
+    if (!user) {
+      throw createError;
+    }
+    return user;
+  }
+}
+
+// Wallets listed in ADMIN_WALLET_ADDRESSES are promoted to admin when they sign in, so a
+// fresh deployment always has someone who can grant the role from the admin dashboard
+function getBootstrapAdminWallets(): Set<string> {
+  return new Set(
+    (process.env.ADMIN_WALLET_ADDRESSES || '')
+      .split(',')
+      .map(address => address.trim().toLowerCase())
+      .filter(address => /^0x[a-f0-9]{40}$/.test(address))
+  );
+}
+
+export async function applyBootstrapAdminRole(user: User, walletAddress: string): Promise<User> {
+  if (user.role === 'admin' || !getBootstrapAdminWallets().has(walletAddress.toLowerCase())) {
+    return user;
+  }
+
+  console.log(`Granting admin role to bootstrap admin wallet ${walletAddress}`);
+  return storage.setUserRole(user.id, 'admin');
+}
+
+// Generate a single-use nonce for a SIWE message
+export function generateNonce(): string {
+  return randomBytes(16).toString('hex');
+}
+
+// Look up the user behind the current session, clearing sessions for deleted users
+async function loadSessionUser(req: Request): Promise<User | undefined> {
+  if (req.authUser) {
+    return req.authUser;
+  }
+
+  const userId = req.session?.userId;
+  if (!userId) {
+    return undefined;
+  }
+
+  const user = await storage.getUser(userId);
+  if (!user) {
+    req.session.userId = undefined;
+    req.session.walletAddress = undefined;
+    return undefined;
+  }
+
+  req.authUser = user;
+  return user;
+}
+
+// Attach the signed-in user when there is one, without rejecting anonymous requests
+export async function resolveUser(req: Request, _res: Response, next: NextFunction) {
+  try {
+    await loadSessionUser(req);
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// A key only stands in for its owner on routes that checked its scope themselves
+function rejectUncheckedApiKey(req: Request, res: Response): boolean {
+  if (req.apiKey && !req.apiKeyScopeChecked) {
+    res.status(403).json({ message: "API keys can't be used on this route" });
+    return true;
+  }
+  return false;
+}
+
+// Reject requests that don't carry a valid signed-in session
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (rejectUncheckedApiKey(req, res)) return;
+
+    const user = await loadSessionUser(req);
+    if (!user) {
+      return res.status(401).json({ message: "Authentication required. Please connect your wallet." });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Reject requests unless the signed-in user holds the admin role
+export async function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (rejectUncheckedApiKey(req, res)) return;
+
+    const user = await loadSessionUser(req);
+    if (!user) {
+      return res.status(401).json({ message: "Authentication required. Please connect your wallet." });
+    }
+    if (user.role !== 'admin') {
+      console.log(`User ${user.id} denied access to admin route ${req.method} ${req.path}`);
+      return res.status(403).json({ message: "You do not have permission to access this resource" });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import express, { type Request, type Response, type NextFunction } from "express";
+import request from "supertest";
+import type { Bookmark, Portfolio, PortfolioAddress } from "@shared/schema";
+
+// Two users with a private portfolio, an address and a bookmark each, plus one public portfolio
+const fixtures = vi.hoisted(() => {
+  const user = (id: number) => ({ id, username: `user${id}`, role: "user" });
+  const portfolio = (id: number, userId: number, isPublic = false) => ({
+    id, userId, isPublic, name: `Portfolio ${id}`, slug: null, publicCode: null, description: null,
+  });
+
+  return {
+    apiKeyHash: "",
+    users: [user(1), user(2)],
+    portfolios: [portfolio(1, 1), portfolio(2, 2), portfolio(3, 2, true)],
+    portfolioAddresses: [
+      { id: 10, portfolioId: 1, walletAddress: "0x1111111111111111111111111111111111111111", label: null },
+      { id: 20, portfolioId: 2, walletAddress: "0x2222222222222222222222222222222222222222", label: null },
+    ],
+    // Plaintext "fk_test" belongs to user 1
+    apiKey: { id: 1, userId: 1, keyPrefix: "fk_test", scopes: ["portfolio:read", "portfolio:write", "wallet:read"], revokedAt: null },
+    bookmarks: [
+      { id: 100, userId: 1, walletAddress: "0x1111111111111111111111111111111111111111", label: "Mine" },
+      { id: 200, userId: 2, walletAddress: "0x2222222222222222222222222222222222222222", label: "Theirs" },
+    ],
+  };
+});
+
+vi.mock("./db", () => ({ db: {}, pool: {} }));
+vi.mock("./services/api-stats-service", () => ({ apiStatsService: { recordApiCall: vi.fn() } }));
+vi.mock("./services/transfer-indexer-service", () => ({ transferIndexer: { trackWallet: vi.fn(async () => {}) } }));
+vi.mock("./services/portfolio-snapshot-service", () => ({ portfolioSnapshotService: {} }));
+vi.mock("./services/tax-export-service", () => ({ taxExportService: {}, taxExportQuerySchema: {} }));
+vi.mock("./services/hex-calendar-service", () => ({ hexCalendarService: {} }));
+vi.mock("./services/hex-stake-service", () => ({ hexStakeService: {} }));
+vi.mock("./storage", () => ({
+  storage: {
+    getUser: vi.fn(async (id: number) => fixtures.users.find(user => user.id === id)),
+    getPortfolio: vi.fn(async (id: number) => fixtures.portfolios.find(portfolio => portfolio.id === id)),
+    getPortfolios: vi.fn(async (userId: number) => fixtures.portfolios.filter(portfolio => portfolio.userId === userId)),
+    updatePortfolio: vi.fn(async (id: number, data: object) => ({ ...fixtures.portfolios.find(portfolio => portfolio.id === id), ...data })),
+    deletePortfolio: vi.fn(async () => true),
+    getPortfolioAddress: vi.fn(async (id: number) => fixtures.portfolioAddresses.find(address => address.id === id)),
+    getPortfolioAddresses: vi.fn(async (portfolioId: number) =>
+      fixtures.portfolioAddresses.filter(address => address.portfolioId === portfolioId)),
+    updatePortfolioAddress: vi.fn(async (id: number, data: object) => ({ ...fixtures.portfolioAddresses.find(address => address.id === id), ...data })),
+    removeAddressFromPortfolio: vi.fn(async () => true),
+    getBookmark: vi.fn(async (id: number) => fixtures.bookmarks.find(bookmark => bookmark.id === id)),
+    getBookmarkByAddress: vi.fn(async () => undefined),
+    getApiKeyByHash: vi.fn(async (hash: string) => hash === fixtures.apiKeyHash ? fixtures.apiKey : undefined),
+    touchApiKey: vi.fn(async () => {}),
+  },
+}));
+
+const { requireAuth } = await import("./auth");
+const { hashApiKey, pathApiKeyAuth } = await import("./api-keys");
+fixtures.apiKeyHash = hashApiKey("fk_test");
+const { requireBookmarkOwner } = await import("./authorization");
+const { default: portfolioRoutes } = await import("./routes/portfolio-routes");
+
+// Stands in for express-session - the x-user-id header is the signed-in user
+function fakeSession(req: Request, _res: Response, next: NextFunction) {
+  const userId = req.header("x-user-id");
+  req.session = { userId: userId ? Number(userId) : undefined } as Request["session"];
+  next();
+}
+
+function createApp() {
+  const app = express();
+  app.use(express.json());
+  app.use(fakeSession);
+  app.use("/api", portfolioRoutes);
+
+  // The bookmark routes are registered inline in routes.ts behind the same middleware chain
+  app.patch("/api/bookmarks/:id", requireAuth, requireBookmarkOwner, (req, res) => res.json(req.bookmark));
+  app.delete("/api/bookmarks/:id", requireAuth, requireBookmarkOwner, (_req, res) => res.status(204).end());
+
+  // Like the wallet routes, which get a key checked for the whole path rather than per route
+  app.use("/api/wallet/:address", pathApiKeyAuth("wallet:read"));
+  app.get("/api/wallet/:address/portfolio-wallets", requireAuth, (_req, res) => res.json([]));
+
+  return app;
+}
+
+describe("ownership enforcement", () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    app = createApp();
+  });
+
+  describe("without a session", () => {
+    it.each([
+      ["get", "/api/users/1/portfolios"],
+      ["post", "/api/portfolios"],
+      ["patch", "/api/portfolios/1"],
+      ["delete", "/api/portfolios/1"],
+      ["post", "/api/portfolios/1/addresses"],
+      ["patch", "/api/portfolio-addresses/10"],
+      ["delete", "/api/portfolio-addresses/10"],
+      ["patch", "/api/bookmarks/100"],
+      ["delete", "/api/bookmarks/100"],
+    ] as const)("%s %s returns 401", async (method, path) => {
+      const response = await request(app)[method](path).send({});
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe("on another user's resources", () => {
+    it("won't list their portfolios", async () => {
+      const response = await request(app).get("/api/users/2/portfolios").set("x-user-id", "1");
+      expect(response.status).toBe(403);
+    });
+
+    it.each([
+      ["patch", "/api/portfolios/2"],
+      ["delete", "/api/portfolios/2"],
+      ["post", "/api/portfolios/2/addresses"],
+      ["post", "/api/portfolios/2/import"],
+    ] as const)("%s %s returns 403", async (method, path) => {
+      const response = await request(app)[method](path).set("x-user-id", "1").send({ name: "Taken" });
+      expect(response.status).toBe(403);
+    });
+
+    it.each([
+      ["patch", "/api/portfolio-addresses/20"],
+      ["delete", "/api/portfolio-addresses/20"],
+    ] as const)("%s %s returns 403", async (method, path) => {
+      const response = await request(app)[method](path).set("x-user-id", "1").send({ label: "Taken" });
+      expect(response.status).toBe(403);
+    });
+
+    it.each([
+      ["patch", "/api/bookmarks/200"],
+      ["delete", "/api/bookmarks/200"],
+    ] as const)("%s %s returns 403", async (method, path) => {
+      const response = await request(app)[method](path).set("x-user-id", "1").send({ label: "Taken" });
+      expect(response.status).toBe(403);
+    });
+
+    it.each([
+      "/api/portfolios/2",
+      "/api/portfolios/2/addresses",
+      "/api/portfolios/2/wallet-addresses",
+    ])("hides the private portfolio behind GET %s", async (path) => {
+      const anonymous = await request(app).get(path);
+      const otherUser = await request(app).get(path).set("x-user-id", "1");
+
+      expect(anonymous.status).toBe(404);
+      expect(otherUser.status).toBe(404);
+    });
+
+    it("can read a public portfolio", async () => {
+      const response = await request(app).get("/api/portfolios/3");
+      expect(response.status).toBe(200);
+      expect((response.body as Portfolio).id).toBe(3);
+    });
+  });
+
+  describe("with an API key", () => {
+    const bearer = "Bearer fk_test";
+
+    it("acts as its owner on routes that check its scope", async () => {
+      const response = await request(app).patch("/api/portfolios/1").set("authorization", bearer).send({ name: "Renamed" });
+      expect(response.status).toBe(200);
+    });
+
+    it("can't use another user's portfolio", async () => {
+      const response = await request(app).patch("/api/portfolios/2").set("authorization", bearer).send({ name: "Taken" });
+      expect(response.status).toBe(403);
+    });
+
+    it("isn't a session on routes that only checked it for the whole path", async () => {
+      const response = await request(app).get("/api/wallet/0x1111111111111111111111111111111111111111/portfolio-wallets")
+        .set("authorization", bearer);
+      expect(response.status).toBe(403);
+      expect(response.body.message).toBe("API keys can't be used on this route");
+    });
+
+    it("isn't a session on routes that never check one", async () => {
+      const response = await request(app).patch("/api/bookmarks/100").set("authorization", bearer);
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe("on the user's own resources", () => {
+    it("reads a private portfolio and its addresses", async () => {
+      const portfolio = await request(app).get("/api/portfolios/2").set("x-user-id", "2");
+      const addresses = await request(app).get("/api/portfolios/2/addresses").set("x-user-id", "2");
+
+      expect(portfolio.status).toBe(200);
+      expect(addresses.status).toBe(200);
+      expect((addresses.body as PortfolioAddress[]).map(address => address.id)).toEqual([20]);
+    });
+
+    it("updates a portfolio", async () => {
+      const response = await request(app).patch("/api/portfolios/1").set("x-user-id", "1").send({ name: "Renamed" });
+      expect(response.status).toBe(200);
+      expect((response.body as Portfolio).name).toBe("Renamed");
+    });
+
+    it("updates a portfolio address", async () => {
+      const response = await request(app).patch("/api/portfolio-addresses/10").set("x-user-id", "1").send({ label: "Cold" });
+      expect(response.status).toBe(200);
+    });
+
+    it("updates a bookmark", async () => {
+      const response = await request(app).patch("/api/bookmarks/100").set("x-user-id", "1");
+      expect(response.status).toBe(200);
+      expect((response.body as Bookmark).userId).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { type Bookmark, type Portfolio, type PortfolioAddress, type User } from "@shared/schema";
+
+// Resources loaded by the ownership middleware so handlers don't fetch them twice
+declare global {
+  namespace Express {
+    interface Request {
+      portfolio?: Portfolio;
+      portfolioAddress?: PortfolioAddress;
+      bookmark?: Bookmark;
+    }
+  }
+}
+
+// Whether the user owns a row with the given userId column
+export function isOwner(ownerId: number | null, user: User | undefined): boolean {
+  return !!user && ownerId !== null && ownerId === user.id;
+}
+
+// Public portfolios can be read by anyone with a link to them, private ones only by their owner
+export function canReadPortfolio(portfolio: Portfolio, user: User | undefined): boolean {
+  return portfolio.isPublic || isOwner(portfolio.userId, user);
+}
+
+// Only the owner can change a portfolio, public or not
+export function canEditPortfolio(portfolio: Portfolio, user: User | undefined): boolean {
+  return isOwner(portfolio.userId, user);
+}
+
+/**
+ * Load the portfolio named by :id and reject the request unless it's public or the signed-in
+ * user owns it. Private portfolios answer 404 to everyone else, so their ids can't be probed.
+ * Must run after resolveUser.
+ */
+export async function requirePortfolioReader(req: Request, res: Response, next: NextFunction) {
+  try {
+    const portfolioId = parseInt(req.params.id);
+    if (isNaN(portfolioId)) {
+      return res.status(400).json({ message: "Invalid portfolio ID" });
+    }
+
+    const portfolio = await storage.getPortfolio(portfolioId);
+    if (!portfolio || !canReadPortfolio(portfolio, req.authUser)) {
+      return res.status(404).json({ message: "Portfolio not found" });
+    }
+
+    req.portfolio = portfolio;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Load the portfolio named by :id and reject the request unless the signed-in user owns it.
+ * Must run after requireAuth.
+ */
+export async function requirePortfolioOwner(req: Request, res: Response, next: NextFunction) {
+  try {
+    const portfolioId = parseInt(req.params.id);
+    if (isNaN(portfolioId)) {
+      return res.status(400).json({ message: "Invalid portfolio ID" });
+    }
+
+    const portfolio = await storage.getPortfolio(portfolioId);
+    if (!portfolio) {
+      return res.status(404).json({ message: "Portfolio not found" });
+    }
+
+    if (!canEditPortfolio(portfolio, req.authUser)) {
+      console.log(`User ${req.authUser?.id} denied write access to portfolio ${portfolioId}`);
+      return res.status(403).json({ message: "You don't have permission to modify this portfolio" });
+    }
+
+    req.portfolio = portfolio;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Load the portfolio address named by :id and reject the request unless the signed-in user
+ * owns the portfolio it belongs to. Must run after requireAuth.
+ */
+export async function requirePortfolioAddressOwner(req: Request, res: Response, next: NextFunction) {
+  try {
+    const addressId = parseInt(req.params.id);
+    if (isNaN(addressId)) {
+      return res.status(400).json({ message: "Invalid address ID" });
+    }
+
+    const portfolioAddress = await storage.getPortfolioAddress(addressId);
+    if (!portfolioAddress) {
+      return res.status(404).json({ message: "Portfolio address not found" });
+    }
+
+    const portfolio = await storage.getPortfolio(portfolioAddress.portfolioId);
+    if (!portfolio || !canEditPortfolio(portfolio, req.authUser)) {
+      console.log(`User ${req.authUser?.id} denied write access to portfolio address ${addressId}`);
+      return res.status(403).json({ message: "You don't have permission to modify this portfolio" });
+    }
+
+    req.portfolio = portfolio;
+    req.portfolioAddress = portfolioAddress;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Load the bookmark named by :id and reject the request unless the signed-in user owns it.
+ * Must run after requireAuth.
+ */
+export async function requireBookmarkOwner(req: Request, res: Response, next: NextFunction) {
+  try {
+    const bookmarkId = parseInt(req.params.id);
+    if (isNaN(bookmarkId)) {
+      return res.status(400).json({ message: "Invalid bookmark ID" });
+    }
+
+    const bookmark = await storage.getBookmark(bookmarkId);
+    if (!bookmark) {
+      return res.status(404).json({ message: "Bookmark not found" });
+    }
+
+    if (!isOwner(bookmark.userId, req.authUser)) {
+      console.log(`User ${req.authUser?.id} denied write access to bookmark ${bookmarkId}`);
+      return res.status(403).json({ message: "You don't have permission to modify this bookmark" });
+    }
+
+    req.bookmark = bookmark;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,237 @@
+import { z } from "zod";
+
+// Just enough of OpenAPI 3.0 for the documents we generate
+type JsonSchema = Record<string, unknown>;
+
+export interface OpenApiRoute {
+  method: 'get' | 'post' | 'patch' | 'delete';
+  path: string; // Express style, e.g. /wallets/:address
+  summary: string;
+  description?: string;
+  tags?: string[];
+  params?: z.AnyZodObject;
+  query?: z.AnyZodObject;
+  response: z.ZodTypeAny;
+  notFound?: boolean;
+  rateLimited?: boolean;
+  scope?: string;
+}
+
+interface OpenApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+  serverUrl: string;
+}
+
+/**
+ * Convert a zod schema to an OpenAPI 3.0 schema object. Only the zod types used by the API
+ * contracts are supported; anything else throws so an undocumentable schema is caught when
+ * the document is generated rather than silently published as `{}`.
+ * Schemas listed in `refs` are emitted as references to the shared components.
+ */
+export function zodToOpenApiSchema(schema: z.ZodTypeAny, refs: Map<z.ZodTypeAny, string> = new Map()): JsonSchema {
+  const ref = refs.get(schema);
+  if (ref) {
+    return { $ref: `#/components/schemas/${ref}` };
+  }
+
+  const result = convert(schema, refs);
+  if (schema.description) {
+    result.description = schema.description;
+  }
+  return result;
+}
+
+function convert(schema: z.ZodTypeAny, refs: Map<z.ZodTypeAny, string>): JsonSchema {
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const [key, value] of Object.entries(schema.shape as z.ZodRawShape)) {
+      properties[key] = zodToOpenApiSchema(value, refs);
+      if (!value.isOptional()) {
+        required.push(key);
+      }
+    }
+
+    return required.length > 0
+      ? { type: 'object', properties, required }
+      : { type: 'object', properties };
+  }
+
+  if (schema instanceof z.ZodString) {
+    const result: JsonSchema = { type: 'string' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'regex') result.pattern = check.regex.source;
+      if (check.kind === 'min') result.minLength = check.value;
+      if (check.kind === 'max') result.maxLength = check.value;
+    }
+    return result;
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    const result: JsonSchema = { type: schema.isInt ? 'integer' : 'number' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') {
+        result.minimum = check.value;
+        if (!check.inclusive) result.exclusiveMinimum = true;
+      }
+      if (check.kind === 'max') {
+        result.maximum = check.value;
+        if (!check.inclusive) result.exclusiveMaximum = true;
+      }
+    }
+    return result;
+  }
+
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: [...schema.options] };
+  }
+
+  if (schema instanceof z.ZodLiteral) {
+    return { type: typeof schema.value, enum: [schema.value] };
+  }
+
+  if (schema instanceof z.ZodArray) {
+    return { type: 'array', items: zodToOpenApiSchema(schema.element, refs) };
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: zodToOpenApiSchema(schema.valueSchema, refs) };
+  }
+
+  if (schema instanceof z.ZodUnion) {
+    return { oneOf: (schema.options as z.ZodTypeAny[]).map((option) => zodToOpenApiSchema(option, refs)) };
+  }
+
+  if (schema instanceof z.ZodOptional) {
+    return zodToOpenApiSchema(schema.unwrap(), refs);
+  }
+
+  if (schema instanceof z.ZodNullable) {
+    const inner = zodToOpenApiSchema(schema.unwrap(), refs);
+    // OpenAPI 3.0 can't put nullable next to a $ref, so wrap it
+    return inner.$ref ? { allOf: [inner], nullable: true } : { ...inner, nullable: true };
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToOpenApiSchema(schema.removeDefault(), refs), default: schema._def.defaultValue() };
+  }
+
+  if (schema instanceof z.ZodEffects) {
+    return zodToOpenApiSchema(schema.innerType(), refs);
+  }
+
+  throw new Error(`Unsupported zod type in OpenAPI schema: ${schema._def.typeName}`);
+}
+
+// Turn an Express path into an OpenAPI one: /wallets/:address -> /wallets/{address}
+function toOpenApiPath(path: string): string {
+  return path.replace(/:([A-Za-z0-9_]+)/g, '{$1}');
+}
+
+function toParameters(schema: z.AnyZodObject | undefined, location: 'path' | 'query', refs: Map<z.ZodTypeAny, string>) {
+  if (!schema) return [];
+
+  return Object.entries(schema.shape as z.ZodRawShape).map(([name, value]) => ({
+    name,
+    in: location,
+    // Path parameters are always required; query parameters with defaults are optional
+    required: location === 'path' || !(value.isOptional() || value instanceof z.ZodDefault),
+    ...(value.description ? { description: value.description } : {}),
+    schema: zodToOpenApiSchema(value, refs),
+  }));
+}
+
+/**
+ * Build an OpenAPI 3.0 document for a set of routes. Named schemas in `components` are
+ * emitted once under components.schemas and referenced from the operations that use them.
+ */
+export function buildOpenApiDocument(
+  info: OpenApiInfo,
+  routes: OpenApiRoute[],
+  components: Record<string, z.ZodTypeAny>
+) {
+  const refs = new Map<z.ZodTypeAny, string>();
+  for (const [name, schema] of Object.entries(components)) {
+    refs.set(schema, name);
+  }
+
+  const schemas: Record<string, JsonSchema> = {};
+  for (const [name, schema] of Object.entries(components)) {
+    // Convert without looking up the component itself, or it would just reference itself
+    refs.delete(schema);
+    schemas[name] = zodToOpenApiSchema(schema, refs);
+    refs.set(schema, name);
+  }
+
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of routes) {
+    const responses: Record<string, unknown> = {
+      '200': {
+        description: 'Successful response',
+        content: { 'application/json': { schema: zodToOpenApiSchema(route.response, refs) } },
+      },
+      '400': { $ref: '#/components/responses/BadRequest' },
+      '500': { $ref: '#/components/responses/ServerError' },
+    };
+    if (route.notFound) {
+      responses['404'] = { $ref: '#/components/responses/NotFound' };
+    }
+    if (route.rateLimited) {
+      responses['429'] = { $ref: '#/components/responses/RateLimited' };
+    }
+
+    const openApiPath = toOpenApiPath(route.path);
+    paths[openApiPath] = paths[openApiPath] || {};
+    paths[openApiPath][route.method] = {
+      summary: route.summary,
+      ...(route.description ? { description: route.description } : {}),
+      ...(route.tags ? { tags: route.tags } : {}),
+      parameters: [
+        ...toParameters(route.params, 'path', refs),
+        ...toParameters(route.query, 'query', refs),
+      ],
+      // Every route can be called anonymously; an API key gets the caller its own quota
+      security: route.scope ? [{}, { apiKey: [route.scope] }] : [{}],
+      responses,
+    };
+  }
+
+  const errorResponse = (description: string) => ({
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+  });
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: info.title,
+      version: info.version,
+      ...(info.description ? { description: info.description } : {}),
+    },
+    servers: [{ url: info.serverUrl }],
+    paths,
+    components: {
+      schemas,
+      responses: {
+        BadRequest: errorResponse('Invalid path or query parameters'),
+        NotFound: errorResponse('The requested resource was not found'),
+        RateLimited: errorResponse('Daily rate limit reached'),
+        ServerError: errorResponse('Unexpected server error'),
+      },
+      securitySchemes: {
+        apiKey: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'Personal API key created from the profile page',
+        },
+      },
+    },
+  };
+}
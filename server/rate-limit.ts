@@ -0,0 +1,76 @@
+import type { Request, Response, NextFunction } from "express";
+import { rateLimitService } from "./services/rate-limit-service";
+import { apiStatsService } from "./services/api-stats-service";
+import { type RateLimitClientType } from "@shared/schema";
+
+export interface RateLimitClient {
+  clientKey: string;
+  clientType: RateLimitClientType;
+}
+
+// Identify who a request should be counted against - the API key it was authenticated with,
+// then the signed-in user, otherwise the client IP (req.ip honours X-Forwarded-For because
+// trust proxy is set). apiKeyAuth or pathApiKeyAuth has to run before rateLimit for keys to be counted.
+export function identifyClient(req: Request): RateLimitClient {
+  if (req.apiKey) {
+    return { clientKey: `apiKey:${req.apiKey.id}`, clientType: 'apiKey' };
+  }
+
+  if (req.session?.userId) {
+    return { clientKey: `user:${req.session.userId}`, clientType: 'user' };
+  }
+
+  return { clientKey: `ip:${req.ip || req.socket.remoteAddress || 'unknown'}`, clientType: 'ip' };
+}
+
+interface RateLimitOptions {
+  // How many quota units a request uses, e.g. one per wallet in a batch
+  cost?: (req: Request) => number;
+}
+
+/**
+ * Count the request against the caller's daily quota and reject it with 429 once the quota
+ * is used up. If the quota store is unavailable the request is let through rather than
+ * taking the wallet endpoints down with it.
+ */
+export function rateLimit(options: RateLimitOptions = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const { clientKey, clientType } = identifyClient(req);
+    const cost = Math.max(1, options.cost ? options.cost(req) : 1);
+
+    let result;
+    try {
+      result = await rateLimitService.consume(clientKey, clientType, cost);
+    } catch (error) {
+      console.error(`[Rate Limit] Failed to check quota for ${clientKey}, allowing request:`, error);
+      return next();
+    }
+
+    res.setHeader('X-RateLimit-Limit', String(result.limit));
+    res.setHeader('X-RateLimit-Remaining', String(result.remaining));
+    res.setHeader('X-RateLimit-Reset', String(Math.ceil(result.resetAt.getTime() / 1000)));
+
+    if (!result.allowed) {
+      const retryAfterSeconds = Math.max(1, Math.ceil((result.resetAt.getTime() - Date.now()) / 1000));
+      res.setHeader('Retry-After', String(retryAfterSeconds));
+
+      console.log(`[Rate Limit] ${clientKey} exceeded daily limit of ${result.limit} on ${req.method} ${req.originalUrl}`);
+      apiStatsService.recordApiCall(
+        req.path,
+        req.params.address || null,
+        null,
+        false,
+        false,
+        'Rate limit exceeded'
+      );
+
+      return res.status(429).json({
+        message: "Daily API limit reached. Please try again after the limit resets.",
+        limit: result.limit,
+        resetAt: result.resetAt.toISOString()
+      });
+    }
+
+    next();
+  };
+}
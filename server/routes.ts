@@ -1,4 +1,4 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import fetch from "node-fetch";
 import { storage } from "./storage";
@@ -12,17 +12,42 @@ import { apiStatsService } from "./services/api-stats-service";
 import { getDonations, getTopDonors, clearDonationCache } from "./services/donations";
 import { getTokenPricesFromDexScreener, getTokenPriceFromDexScreener } from "./services/dexscreener";
 import { getDirectTokenBalances } from "./services/blockchain-service";
-import { calculateBalancesFromTransferHistory, getTransferHistoryWithBalances } from "./services/transfer-history-service";
+import { calculateBalancesFromTransferHistory, getTransferHistoryWithBalances, getBalancesAtBlock } from "./services/transfer-history-service";
 import { getDirectTokenBalances as getDirectBalances } from "./services/direct-balance-service";
 import { getDirectTokenBalancesNoPrices } from "./services/direct-balance-no-prices";
-import { getProviderHealth, switchToProvider, resetFailedProviders } from "./services/rpc-provider";
+import { getProvider, getProviderHealth, switchToProvider, resetFailedProviders } from "./services/rpc-provider";
+import { blockTimeService } from "./services/block-time-service";
 import { getScannerTokenBalances, getFastScannerTokenBalances } from "./services/scanner-balance-service";
+import { balanceComposer, balanceStrategyNames, BALANCE_STRATEGY_PRESETS } from "./services/balance-strategy-service";
 import { getScannerTransactionHistory, getFullScannerTransactionHistory } from "./services/scanner-transaction-service";
+import { swapDecoderService } from "./services/swap-decoder-service";
 import { balanceCacheManager } from "./services/balance-cache-manager";
+import { walletStreamService } from "./services/wallet-stream-service";
+import { transferIndexer } from "./services/transfer-indexer-service";
+import { portfolioSnapshotService } from "./services/portfolio-snapshot-service";
+import { priceHistoryService } from "./services/price-history-service";
+import { costBasisService } from "./services/cost-basis-service";
+import { approvalService } from "./services/approval-service";
+import { hexStakeService, hexStakeAddressesQuerySchema, hexStakeSimulationQuerySchema } from "./services/hex-stake-service";
+import { hexCalendarService } from "./services/hex-calendar-service";
+import { hexYieldService, hexYieldHistoryQuerySchema } from "./services/hex-yield-service";
+import { taxExportService, taxExportQuerySchema } from "./services/tax-export-service";
+import { valueHistoryRanges } from "@shared/value-history";
+import { candleIntervals } from "@shared/price-history";
+import { costBasisMethods } from "@shared/cost-basis";
 import { z } from "zod";
-import { TokenLogo, insertBookmarkSchema, insertUserSchema } from "@shared/schema";
-import { ethers } from "ethers";
+import { fromZodError } from "zod-validation-error";
+import { TokenLogo, insertBookmarkSchema } from "@shared/schema";
 import portfolioRoutes from "./routes/portfolio-routes";
+import authRoutes from "./routes/auth-routes";
+import adminRoutes from "./routes/admin-routes";
+import apiKeyRoutes from "./routes/api-key-routes";
+import v1Routes from "./routes/v1-routes";
+import { setupAuth, requireAuth, requireAdmin, resolveUser, walletUsername } from "./auth";
+import { requireBookmarkOwner } from "./authorization";
+import { rateLimit, identifyClient } from "./rate-limit";
+import { pathApiKeyAuth } from "./api-keys";
+import { rateLimitService } from "./services/rate-limit-service";
 import { format } from "date-fns";
 
 
@@ -48,6 +73,45 @@ export const updateLoadingProgress = (progress: Partial<LoadingProgress>) => {
 };
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Session cookies and Sign-In With Ethereum routes
+  setupAuth(app);
+  app.use("/api", authRoutes);
+  app.use("/api", apiKeyRoutes);
+
+  // Scripts can authenticate to the wallet endpoints with a personal API key
+  app.use("/api/wallet/:address", pathApiKeyAuth("wallet:read"));
+  app.use("/api/wallets/batch", pathApiKeyAuth("wallet:read"));
+  app.use("/api/token-prices/batch", pathApiKeyAuth("wallet:read"));
+
+  // Daily per-caller quotas on the expensive wallet and pricing endpoints
+  app.use("/api/wallet/:address", rateLimit());
+  app.use("/api/wallets/batch", rateLimit({
+    // Each wallet in a batch counts, up to the batch size the handler will actually process
+    cost: (req) => Array.isArray(req.body?.addresses) ? Math.min(req.body.addresses.length, 10) : 1
+  }));
+  app.use("/api/token-prices/batch", rateLimit());
+  
+  // Multi-wallet HEX stake queries count once per wallet they ask about, like a wallet batch
+  const countHexStakeAddresses = (req: Request) => {
+    const query = hexStakeAddressesQuerySchema.safeParse(req.query);
+    return query.success ? query.data.addresses.length : 1;
+  };
+
+  // Current caller's rate limit usage
+  app.get("/api/rate-limit", async (req, res) => {
+    try {
+      const { clientKey, clientType } = identifyClient(req);
+      const usage = await rateLimitService.getUsage(clientKey, clientType);
+      return res.json(usage);
+    } catch (error) {
+      console.error("Error fetching rate limit usage:", error);
+      return res.status(500).json({ 
+        message: "Failed to fetch rate limit usage",
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
   // API endpoint to get loading progress
   app.get("/api/loading-progress", (_req, res) => {
     res.json(loadingProgress);
@@ -288,6 +352,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // API route to get what a wallet held at a past block or date, priced as of then.
+  // A bare date (YYYY-MM-DD) means the end of that day in UTC.
+  app.get("/api/wallet/:address/balances-at", async (req, res) => {
+    try {
+      const { address } = req.params;
+      const { block, date } = req.query;
+
+      // Validate ethereum address format
+      const addressRegex = /^0x[a-fA-F0-9]{40}$/;
+      if (!addressRegex.test(address)) {
+        return res.status(400).json({ message: "Invalid wallet address format" });
+      }
+
+      if ((block === undefined) === (date === undefined)) {
+        return res.status(400).json({ message: "Provide exactly one of block or date" });
+      }
+
+      const latestBlock = await getProvider().getBlockNumber();
+      let blockNumber: number;
+
+      if (block !== undefined) {
+        blockNumber = Number(block);
+        if (typeof block !== 'string' || !/^\d+$/.test(block) || blockNumber > latestBlock) {
+          return res.status(400).json({ message: `Invalid block, expected a number up to ${latestBlock}` });
+        }
+      } else {
+        const dateString = String(date);
+        const time = /^\d{4}-\d{2}-\d{2}$/.test(dateString)
+          ? Date.parse(`${dateString}T23:59:59Z`)
+          : Date.parse(dateString);
+        if (isNaN(time)) {
+          return res.status(400).json({ message: "Invalid date, expected YYYY-MM-DD or an ISO 8601 timestamp" });
+        }
+
+        // findBlockByTimestamp throws for these, and it's the caller's date that's wrong
+        const timestamp = Math.floor(time / 1000);
+        const genesisTimestamp = await blockTimeService.getGenesisTimestamp();
+        if (timestamp < genesisTimestamp) {
+          return res.status(400).json({
+            message: `Invalid date, the chain's first block was mined at ${new Date(genesisTimestamp * 1000).toISOString()}`
+          });
+        }
+
+        const resolved = await blockTimeService.findBlockByTimestamp(timestamp);
+        blockNumber = resolved.blockNumber;
+      }
+
+      const balances = await getBalancesAtBlock(address, blockNumber);
+      return res.json({
+        ...balances,
+        tokenCount: balances.tokens.length,
+      });
+    } catch (error) {
+      console.error("Error getting historical wallet balances:", error);
+      return res.status(500).json({
+        message: "Failed to get historical wallet balances",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
   // API route to get wallet balances using PulseChain Scanner API + recent blocks
   app.get("/api/wallet/:address/scanner-balances", async (req, res) => {
     try {
@@ -338,6 +463,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // API route to get wallet balances through the balance strategy pipeline
+  // ?strategy= takes a preset (default, fast, full) or a comma separated list of strategies to run in order
+  app.get("/api/wallet/:address/balances", async (req, res) => {
+    try {
+      const { address } = req.params;
+      const { strategy, prices = 'true' } = req.query;
+      
+      // Validate ethereum address format
+      const addressRegex = /^0x[a-fA-F0-9]{40}$/;
+      if (!address || !addressRegex.test(address)) {
+        return res.status(400).json({ message: "Invalid wallet address format" });
+      }
+      
+      const order = balanceComposer.resolveOrder(typeof strategy === 'string' ? strategy : undefined);
+      if (!order) {
+        return res.status(400).json({ 
+          message: "Invalid strategy parameter",
+          presets: Object.keys(BALANCE_STRATEGY_PRESETS),
+          strategies: balanceStrategyNames
+        });
+      }
+      
+      console.log(`Getting balances for ${address} using strategies: ${order.join(' -> ')}`);
+      const result = await balanceComposer.compose(address, order, { prices: prices !== 'false' });
+      
+      return res.json({
+        ...result,
+        tokenCount: result.tokens.length,
+        networkCount: 1,
+        fetchMethod: 'composed'
+      });
+    } catch (error) {
+      console.error("Error fetching composed balances:", error);
+      return res.status(500).json({ 
+        message: "Failed to fetch wallet balances",
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+  
   // API route for fast wallet balances (for portfolios) - uses original scanner without enhanced features
   app.get("/api/wallet/:address/fast-balances", async (req, res) => {
     try {
@@ -477,6 +642,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`Getting live-tracked balances for ${address}`);
       
+      // Taken before reading so the stream can replay whatever changes while we do
+      const streamEventId = walletStreamService.openCursor(address);
+      
       // Get balances with live updates
       const tokens = await balanceCacheManager.getBalancesWithLiveUpdates(address);
       
@@ -497,7 +665,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         plsPriceChange,
         networkCount: 1,
         fetchMethod: 'live-websocket',
-        isLiveTracking: true
+        isLiveTracking: true,
+        streamEventId
       });
     } catch (error) {
       console.error("Error getting live balances:", error);
@@ -508,10 +677,325 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // API route to get a wallet's net worth over time. Only wallets in a portfolio are snapshotted.
+  app.get("/api/wallet/:address/history", async (req, res) => {
+    try {
+      const { address } = req.params;
+      
+      // Validate ethereum address format
+      const addressRegex = /^0x[a-fA-F0-9]{40}$/;
+      if (!addressRegex.test(address)) {
+        return res.status(400).json({ message: "Invalid wallet address format" });
+      }
+      
+      const range = z.enum(valueHistoryRanges).default("30d").safeParse(req.query.range);
+      if (!range.success) {
+        return res.status(400).json({ message: `Invalid range, expected one of: ${valueHistoryRanges.join(", ")}` });
+      }
+      
+      const history = await portfolioSnapshotService.getWalletHistory(address, range.data);
+      return res.json(history);
+    } catch (error) {
+      console.error("Error getting wallet history:", error);
+      return res.status(500).json({
+        message: "Failed to get wallet history",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+  
+  // API route to list the other wallets that share one of the signed-in user's portfolios with this one
+  app.get("/api/wallet/:address/portfolio-wallets", requireAuth, async (req, res) => {
+    try {
+      const { address } = req.params;
+      
+      // Validate ethereum address format
+      const addressRegex = /^0x[a-fA-F0-9]{40}$/;
+      if (!addressRegex.test(address)) {
+        return res.status(400).json({ message: "Invalid wallet address format" });
+      }
+      
+      const wallets = await storage.getRelatedWalletAddresses(address, req.authUser!.id);
+      return res.json({ address: address.toLowerCase(), wallets });
+    } catch (error) {
+      console.error("Error getting portfolio wallets:", error);
+      return res.status(500).json({
+        message: "Failed to get portfolio wallets",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+  
+  // API route to get cost basis and realized/unrealized profit per token from the wallet's history
+  app.get("/api/wallet/:address/cost-basis", resolveUser, async (req, res) => {
+    try {
+      const { address } = req.params;
+      
+      // Validate ethereum address format
+      const addressRegex = /^0x[a-fA-F0-9]{40}$/;
+      if (!addressRegex.test(address)) {
+        return res.status(400).json({ message: "Invalid wallet address format" });
+      }
+      
+      const method = z.enum(costBasisMethods).default("fifo").safeParse(req.query.method);
+      if (!method.success) {
+        return res.status(400).json({ message: `Invalid method, expected one of: ${costBasisMethods.join(", ")}` });
+      }
+      
+      const report = await costBasisService.getCostBasis(address, method.data, req.authUser?.id);
+      return res.json(report);
+    } catch (error) {
+      console.error("Error calculating cost basis:", error);
+      return res.status(500).json({
+        message: "Failed to calculate cost basis",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+  
+  // API route to list the token allowances a wallet still has outstanding
+  app.get("/api/wallet/:address/approvals", async (req, res) => {
+    try {
+      const { address } = req.params;
+      
+      // Validate ethereum address format
+      const addressRegex = /^0x[a-fA-F0-9]{40}$/;
+      if (!addressRegex.test(address)) {
+        return res.status(400).json({ message: "Invalid wallet address format" });
+      }
+      
+      const report = await approvalService.getApprovals(address);
+      return res.json(report);
+    } catch (error) {
+      console.error("Error getting token approvals:", error);
+      return res.status(500).json({
+        message: "Failed to get token approvals",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+  
+  // API route to get a wallet's HEX stakes with their accrued interest
+  app.get("/api/wallet/:address/hex-stakes", async (req, res) => {
+    try {
+      const { address } = req.params;
+      
+      // Validate ethereum address format
+      const addressRegex = /^0x[a-fA-F0-9]{40}$/;
+      if (!addressRegex.test(address)) {
+        return res.status(400).json({ message: "Invalid wallet address format" });
+      }
+      
+      const report = await hexStakeService.getStakes(address);
+      return res.json(report);
+    } catch (error) {
+      console.error("Error getting HEX stakes:", error);
+      return res.status(500).json({
+        message: "Failed to get HEX stakes",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+  
+  // API route to simulate ending one of a wallet's HEX stakes on a given day
+  app.get("/api/wallet/:address/hex-stakes/:stakeId/simulate", async (req, res) => {
+    try {
+      const { address, stakeId } = req.params;
+      
+      // Validate ethereum address format
+      const addressRegex = /^0x[a-fA-F0-9]{40}$/;
+      if (!addressRegex.test(address)) {
+        return res.status(400).json({ message: "Invalid wallet address format" });
+      }
+      if (!/^\d+$/.test(stakeId)) {
+        return res.status(400).json({ message: "Invalid stake id" });
+      }
+      
+      const query = hexStakeSimulationQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid simulation parameters", error: fromZodError(query.error).message });
+      }
+      
+      const simulation = await hexStakeService.simulateEndStake(address, stakeId, query.data.endDay);
+      if (!simulation) {
+        return res.status(404).json({ message: "Stake not found" });
+      }
+      return res.json(simulation);
+    } catch (error) {
+      console.error("Error simulating HEX stake end:", error);
+      return res.status(500).json({
+        message: "Failed to simulate HEX stake end",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+  
+  // API route to get the HEX stakes of a set of wallets rolled up into one set of totals
+  app.get("/api/hex-stakes/summary", rateLimit({ cost: countHexStakeAddresses }), async (req, res) => {
+    try {
+      const query = hexStakeAddressesQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid summary parameters", error: fromZodError(query.error).message });
+      }
+      
+      const summary = await hexStakeService.getSummary(query.data.addresses);
+      return res.json(summary);
+    } catch (error) {
+      console.error("Error getting HEX stake summary:", error);
+      return res.status(500).json({
+        message: "Failed to get HEX stake summary",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+  
+  // API route to get the daily HEX payouts and the yield of the stakes in a set of wallets
+  app.get("/api/hex-stakes/yield-history", rateLimit({ cost: countHexStakeAddresses }), async (req, res) => {
+    try {
+      const query = hexYieldHistoryQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid yield history parameters", error: fromZodError(query.error).message });
+      }
+      
+      const history = await hexYieldService.getYieldHistory(query.data.addresses, query.data.days);
+      return res.json(history);
+    } catch (error) {
+      console.error("Error getting HEX yield history:", error);
+      return res.status(500).json({
+        message: "Failed to get HEX yield history",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+  
+  // API route to get the end days of the HEX stakes in a set of wallets
+  app.get("/api/hex-stakes/calendar", rateLimit({ cost: countHexStakeAddresses }), async (req, res) => {
+    try {
+      const query = hexStakeAddressesQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid calendar parameters", error: fromZodError(query.error).message });
+      }
+      
+      const calendar = await hexCalendarService.getCalendar(query.data.addresses);
+      return res.json(calendar);
+    } catch (error) {
+      console.error("Error getting HEX stake calendar:", error);
+      return res.status(500).json({
+        message: "Failed to get HEX stake calendar",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+  
+  // API route to download the end days of the HEX stakes in a set of wallets as an iCalendar file
+  app.get("/api/hex-stakes/calendar.ics", rateLimit({ cost: countHexStakeAddresses }), async (req, res) => {
+    try {
+      const query = hexStakeAddressesQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid calendar parameters", error: fromZodError(query.error).message });
+      }
+      
+      const { addresses } = query.data;
+      const name = addresses.length === 1 ? `HEX stakes ${addresses[0].slice(0, 8)}` : `HEX stakes (${addresses.length} wallets)`;
+      const ics = await hexCalendarService.exportIcs(addresses, name);
+      
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', 'attachment; filename="hex-stakes.ics"');
+      return res.send(ics);
+    } catch (error) {
+      console.error("Error exporting HEX stake calendar:", error);
+      return res.status(500).json({
+        message: "Failed to export HEX stake calendar",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+  
+  // API route to download a wallet's transactions as a crypto-tax CSV
+  app.get("/api/wallet/:address/tax-export", resolveUser, async (req, res) => {
+    try {
+      const { address } = req.params;
+      
+      // Validate ethereum address format
+      const addressRegex = /^0x[a-fA-F0-9]{40}$/;
+      if (!addressRegex.test(address)) {
+        return res.status(400).json({ message: "Invalid wallet address format" });
+      }
+      
+      const query = taxExportQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid export parameters", error: fromZodError(query.error).message });
+      }
+      
+      const { format: exportFormat, from, to } = query.data;
+      // Moves to other wallets in the signed-in user's portfolios are transfers, not disposals
+      const relatedWallets = req.authUser ? await storage.getRelatedWalletAddresses(address, req.authUser.id) : [];
+      const { csv, truncatedWallets } = await taxExportService.exportCsv([address], from, to, exportFormat, relatedWallets);
+      
+      const range = `${from.toISOString().slice(0, 10)}_${to.toISOString().slice(0, 10)}`;
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="${address.toLowerCase()}_${exportFormat}_${range}.csv"`);
+      // Tax tools choke on extra rows, so a history cut short is flagged in a header instead
+      if (truncatedWallets.length > 0) {
+        res.setHeader('X-Export-Truncated', truncatedWallets.join(','));
+      }
+      return res.send(csv);
+    } catch (error) {
+      console.error("Error exporting tax report:", error);
+      return res.status(500).json({
+        message: "Failed to export tax report",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+  
   // API route to get WebSocket balance tracking status
   app.get("/api/websocket-status", (_req, res) => {
     const status = balanceCacheManager.getStatus();
-    return res.json(status);
+    return res.json({ ...status, ...walletStreamService.getStatus() });
+  });
+  
+  // API route to stream live balance deltas, price refreshes and new transactions as
+  // Server-Sent Events. Reconnecting clients resume from the Last-Event-ID header.
+  app.get("/api/wallet/:address/stream", (req, res) => {
+    const { address } = req.params;
+    
+    // Validate ethereum address format
+    const addressRegex = /^0x[a-fA-F0-9]{40}$/;
+    if (!addressRegex.test(address)) {
+      return res.status(400).json({ message: "Invalid wallet address format" });
+    }
+    
+    const lastEventIdValue = req.header('Last-Event-ID') ??
+      (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined);
+    const lastEventId = lastEventIdValue !== undefined ? parseInt(lastEventIdValue, 10) : NaN;
+    
+    // Balance deltas only flow for tracked wallets
+    if (!balanceCacheManager.isTracking(address)) {
+      balanceCacheManager.getBalancesWithLiveUpdates(address).catch(error => {
+        console.error(`Failed to start tracking ${address} for stream:`, error);
+      });
+    }
+    
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.write('retry: 5000\n\n');
+    
+    const unsubscribe = walletStreamService.subscribe(address, (event) => {
+      res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+    }, Number.isNaN(lastEventId) ? undefined : lastEventId);
+    
+    // Comment lines keep proxies from closing an idle connection
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000);
+    
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
   });
   
   // API route to stop tracking a wallet
@@ -561,6 +1045,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         cursor as string | undefined
       );
       
+      // Decode router and aggregator swaps into amounts, route and execution price
+      await swapDecoderService.decodeTransactionSwaps(transactions, address);
+      
       return res.json({
         result: transactions,
         cursor: nextCursor,
@@ -1234,6 +1721,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(500).json({ error: "Failed to fetch token info" });
     }
   });
+
+  // OHLC price candles rebuilt from the token's PulseX pool
+  app.get("/api/token/:address/candles", async (req, res) => {
+    try {
+      const { address } = req.params;
+
+      const addressRegex = /^0x[a-fA-F0-9]{40}$/;
+      if (!addressRegex.test(address)) {
+        return res.status(400).json({ message: "Invalid token address" });
+      }
+
+      const interval = z.enum(candleIntervals).default("1h").safeParse(req.query.interval);
+      if (!interval.success) {
+        return res.status(400).json({ message: `Invalid interval, expected one of: ${candleIntervals.join(", ")}` });
+      }
+
+      const maxCandles = priceHistoryService.getMaxCandles(interval.data);
+      const limit = z.coerce.number().int().min(1).max(maxCandles).default(Math.min(100, maxCandles)).safeParse(req.query.limit);
+      if (!limit.success) {
+        return res.status(400).json({ message: `Invalid limit, expected 1 to ${maxCandles} for ${interval.data} candles` });
+      }
+
+      const candles = await priceHistoryService.getCandles(address, interval.data, limit.data);
+      if (!candles) {
+        return res.status(404).json({ message: "No WPLS or stablecoin pool found to price this token" });
+      }
+
+      return res.json(candles);
+    } catch (error) {
+      console.error("Error building price candles:", error);
+      return res.status(500).json({
+        message: "Failed to build price candles",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
   
   // Test endpoint for DexScreener logo fetching
   app.get("/api/token/:address/logo-test", async (req, res) => {
@@ -1517,115 +2040,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
 // User API Routes
-  app.post("/api/users/wallet", async (req, res) => {
+
+  // Look up the public profile for a wallet address (sign-in happens through /api/auth/verify)
+  app.get("/api/users/wallet/:address", async (req, res) => {
     try {
-      const { walletAddress, signature, message, timestamp } = req.body;
-      
-      if (!walletAddress || typeof walletAddress !== 'string') {
-        return res.status(400).json({ message: "Valid wallet address is required" });
-      }
-      
-      // Create a deterministic username from the wallet address
-      const username = `wallet_${walletAddress.toLowerCase()}`;
-      
-      // Check if user already exists
-      let user = await storage.getUserByUsername(username);
-      
-      // Verify signature if provided
-      let signatureVerified = false;
-      
-      if (signature && message && timestamp) {
-        try {
-          // Recover the address from the signature
-          const recoveredAddress = ethers.utils.verifyMessage(message, signature);
-          
-          // Check if the recovered address matches the claimed address
-          if (recoveredAddress.toLowerCase() === walletAddress.toLowerCase()) {
-            console.log(`Signature verified for wallet ${walletAddress}`);
-            signatureVerified = true;
-            
-            // Check timestamp freshness (10 minutes)
-            const currentTime = Date.now();
-            const messageTime = parseInt(timestamp.toString());
-            const maxAgeMs = 10 * 60 * 1000; // 10 minutes
-            
-            if (isNaN(messageTime) || (currentTime - messageTime) > maxAgeMs) {
-              console.log(`Signature timestamp too old or invalid: ${messageTime}`);
-              signatureVerified = false;
-              return res.status(401).json({
-                message: "Signature has expired. Please reconnect your wallet."
-              });
-            }
-          } else {
-            console.log(`Signature verification failed for wallet ${walletAddress}. Recovered: ${recoveredAddress}`);
-            return res.status(401).json({
-              message: "Signature verification failed. The signature doesn't match the wallet address."
-            });
-          }
-        } catch (signError) {
-          console.error("Error verifying signature:", signError);
-          return res.status(401).json({
-            message: "Invalid signature format."
-          });
-        }
-      } 
-      
-      // Always require signature verification for authentication
-      if (!signatureVerified) {
-        if (user) {
-          console.log(`Authentication attempt for existing user ${user.id} wallet ${walletAddress} without signature verification`);
-          return res.status(401).json({
-            message: "Signature verification required. Please sign the message to prove wallet ownership."
-          });
-        } else {
-          console.log(`Attempt to create new user for wallet ${walletAddress} without signature verification`);
-          return res.status(401).json({
-            message: "Signature verification required to create a new account."
-          });
-        }
-      }
-      
-      // If verification passed and user exists, return the user
-      if (signatureVerified && user) {
-        return res.json({ 
-          id: user.id,
-          username: user.username
-        });
+      const { address } = req.params;
+
+      const addressRegex = /^0x[a-fA-F0-9]{40}$/;
+      if (!addressRegex.test(address)) {
+        return res.status(400).json({ message: "Invalid wallet address format" });
       }
-      
-      // User doesn't exist and signature is verified, create a new one
-      // Generate a deterministic password (not secure, but suitable for this demo)
-      const password = `pwd_${walletAddress.toLowerCase()}`;
-      
-      try {
-        user = await storage.createUser({
-          username,
-          password
-        });
-        
-        console.log(`Created new user ${user.id} for verified wallet ${walletAddress}`);
-        return res.json({ 
-          id: user.id,
-          username: user.username
-        });
-      } catch (createError) {
-        // In case there's a race condition and the user was created between our check and create
-        console.log("Error creating user, checking if it exists now:", createError);
-        user = await storage.getUserByUsername(username);
-        
-        if (user) {
-          return res.json({ 
-            id: user.id,
-            username: user.username
-          });
-        } else {
-          throw createError; // Re-throw if the user still doesn't exist
-        }
+
+      const user = await storage.getUserByUsername(walletUsername(address));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
+
+      // Return user data (excluding password)
+      const { password, ...userData } = user;
+      return res.json(userData);
     } catch (error) {
-      console.error("Error getting/creating user from wallet:", error);
+      console.error("Error fetching user by wallet:", error);
       return res.status(500).json({ 
-        message: "Failed to get/create user",
+        message: "Failed to fetch user data",
         error: error instanceof Error ? error.message : "Unknown error" 
       });
     }
@@ -1662,7 +2099,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Update user profile data
-  app.patch("/api/users/:id/profile", async (req, res) => {
+  app.patch("/api/users/:id/profile", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
       const { displayName, website, twitterHandle, bio } = req.body;
@@ -1673,10 +2110,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid user ID" });
       }
       
-      // Verify user exists
-      const existingUser = await storage.getUser(userId);
-      if (!existingUser) {
-        return res.status(404).json({ message: "User not found" });
+      // Users can only edit their own profile
+      if (userId !== req.authUser!.id) {
+        return res.status(403).json({ message: "You can only update your own profile" });
       }
       
       // Update profile with provided data
@@ -1687,7 +2123,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         bio
       });
       
-      return res.status(200).json(updatedUser);
+      // Return user data (excluding password)
+      const { password, ...userData } = updatedUser;
+      return res.status(200).json(userData);
     } catch (error) {
       console.error("Error updating user profile:", error);
       return res.status(500).json({ 
@@ -1700,7 +2138,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Bookmark API Routes
   
   // Get all bookmarks for a user with userId in URL
-  app.get("/api/bookmarks/:userId", async (req, res) => {
+  app.get("/api/bookmarks/:userId", requireAuth, async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
       
@@ -1708,6 +2146,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid user ID" });
       }
       
+      if (userId !== req.authUser!.id) {
+        return res.status(403).json({ message: "You can only view your own bookmarks" });
+      }
+      
       const bookmarks = await storage.getBookmarks(userId);
       return res.json(bookmarks);
     } catch (error) {
@@ -1720,20 +2162,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Simple endpoint for getting the authenticated user's bookmarks
-  app.get("/api/bookmarks", async (req, res) => {
+  app.get("/api/bookmarks", requireAuth, async (req, res) => {
     try {
-      // For simplicity, we're using the walletAddress query parameter if provided
-      const userId = req.query.userId ? parseInt(req.query.userId as string) : null;
-      
-      if (!userId) {
-        return res.status(400).json({ message: "User ID is required. Please provide it as a query parameter." });
-      }
-      
-      if (isNaN(userId)) {
-        return res.status(400).json({ message: "Invalid user ID" });
-      }
-      
-      const bookmarks = await storage.getBookmarks(userId);
+      const bookmarks = await storage.getBookmarks(req.authUser!.id);
       return res.json(bookmarks);
     } catch (error) {
       console.error("Error fetching bookmarks:", error);
@@ -1745,7 +2176,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Get a specific bookmark by wallet address
-  app.get("/api/bookmarks/:userId/address/:walletAddress", async (req, res) => {
+  app.get("/api/bookmarks/:userId/address/:walletAddress", requireAuth, async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
       const { walletAddress } = req.params;
@@ -1754,6 +2185,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid user ID" });
       }
       
+      if (userId !== req.authUser!.id) {
+        return res.status(403).json({ message: "You can only view your own bookmarks" });
+      }
+      
       if (!walletAddress || typeof walletAddress !== 'string') {
         return res.status(400).json({ message: "Invalid wallet address" });
       }
@@ -1775,15 +2210,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Create a new bookmark
-  app.post("/api/bookmarks", async (req, res) => {
+  app.post("/api/bookmarks", requireAuth, async (req, res) => {
     try {
       // Create an extended schema that includes isFavorite field
       const extendedBookmarkSchema = insertBookmarkSchema.extend({
         isFavorite: z.boolean().optional().default(false),
       });
       
-      // Validate request body using extended schema
-      const validationResult = extendedBookmarkSchema.safeParse(req.body);
+      // Validate request body using extended schema - the owner always comes from the session
+      const validationResult = extendedBookmarkSchema.safeParse({
+        ...req.body,
+        userId: req.authUser!.id,
+      });
       
       if (!validationResult.success) {
         return res.status(400).json({ 
@@ -1796,7 +2234,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Check if this wallet is already bookmarked by this user
       const existingBookmark = await storage.getBookmarkByAddress(
-        Number(bookmarkData.userId), 
+        req.authUser!.id, 
         bookmarkData.walletAddress
       );
       
@@ -1820,13 +2258,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Update an existing bookmark
-  app.patch("/api/bookmarks/:id", async (req, res) => {
+  app.patch("/api/bookmarks/:id", requireAuth, requireBookmarkOwner, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid bookmark ID" });
-      }
+      const id = req.bookmark!.id;
       
       // Define update schema (subset of insert schema)
       const updateSchema = z.object({
@@ -1860,13 +2294,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Delete a bookmark
-  app.delete("/api/bookmarks/:id", async (req, res) => {
+  app.delete("/api/bookmarks/:id", requireAuth, requireBookmarkOwner, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid bookmark ID" });
-      }
+      const id = req.bookmark!.id;
       
       const success = await storage.deleteBookmark(id);
       
@@ -1948,7 +2378,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // API route to clear donation cache (for admin/debug purposes)
-  app.post("/api/donations/clear-cache", (req, res) => {
+  app.post("/api/donations/clear-cache", requireAdmin, (req, res) => {
     try {
       // Clear the donation cache to force refresh on next request
       clearDonationCache();
@@ -2199,7 +2629,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // API endpoint to get API call counter statistics
-  app.get("/api/stats/api-calls", (_req, res) => {
+  app.get("/api/stats/api-calls", requireAdmin, (_req, res) => {
     try {
       const stats = getApiCounterStats();
       return res.json(stats);
@@ -2214,7 +2644,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // API for retrieving historical API usage statistics
   // API endpoint to get detailed API usage statistics for a specific wallet
-  app.get("/api/stats/wallet/:walletAddress", async (req, res) => {
+  app.get("/api/stats/wallet/:walletAddress", requireAdmin, async (req, res) => {
     try {
       const { walletAddress } = req.params;
       
@@ -2240,7 +2670,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // API endpoint to get top wallets by API usage
-  app.get("/api/stats/top-wallets", async (_req, res) => {
+  app.get("/api/stats/top-wallets", requireAdmin, async (_req, res) => {
     try {
       const topWallets = await apiStatsService.getTopWalletAddresses(10);
       return res.json(topWallets);
@@ -2253,19 +2683,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get("/api/stats/historical", async (req, res) => {
+  // API endpoint to get today's heaviest rate-limited callers
+  app.get("/api/stats/rate-limits", requireAdmin, async (_req, res) => {
+    try {
+      const clients = await rateLimitService.getTopClients(20);
+      res.json(clients);
+    } catch (error) {
+      console.error('Error fetching rate limit stats:', error);
+      res.status(500).json({ 
+        error: 'Failed to retrieve rate limit statistics',
+        message: (error as Error).message
+      });
+    }
+  });
+  
+  app.get("/api/stats/historical", requireAdmin, async (req, res) => {
     try {
-      // Check if user is admin (only admins can access historical stats)
-      const adminAddress = "0x592139A3f8cf019f628A152FC1262B8aEf5B7199";
-      const walletAddress = req.headers['wallet-address'] as string;
-      
-      if (!walletAddress || walletAddress.toLowerCase() !== adminAddress.toLowerCase()) {
-        return res.status(403).json({ 
-          error: 'Access denied',
-          message: 'You do not have permission to access this resource'
-        });
-      }
-      
       const days = req.query.days ? parseInt(req.query.days as string) : 30;
       
       // Get date for the specified number of days ago
@@ -2304,7 +2737,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // API endpoint to reset API call counter
-  app.post("/api/stats/reset-counter", (_req, res) => {
+  app.post("/api/stats/reset-counter", requireAdmin, (_req, res) => {
     try {
       const result = resetApiCounter();
       return res.json({
@@ -2323,6 +2756,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Register portfolio routes
   app.use("/api", portfolioRoutes);
   
+  // Admin role management
+  app.use("/api", adminRoutes);
+  
+  // Versioned public API and its OpenAPI document
+  app.use("/api", v1Routes);
+  
   // API Routes for DexScreener preferred tokens management
   
   // Get all DexScreener preferred tokens
@@ -2340,7 +2779,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Add a token to DexScreener preferred list
-  app.post("/api/dexscreener-preferred-tokens", async (req, res) => {
+  app.post("/api/dexscreener-preferred-tokens", requireAdmin, async (req, res) => {
     try {
       const { tokenAddress, reason, symbol, name } = req.body;
       
@@ -2375,7 +2814,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Remove a token from DexScreener preferred list
-  app.delete("/api/dexscreener-preferred-tokens/:tokenAddress", async (req, res) => {
+  app.delete("/api/dexscreener-preferred-tokens/:tokenAddress", requireAdmin, async (req, res) => {
     try {
       const { tokenAddress } = req.params;
       
@@ -2412,6 +2851,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // RPC provider health monitoring
+  app.get('/api/indexer-status', (_req, res) => {
+    res.json(transferIndexer.getStatus());
+  });
+
   app.get('/api/rpc-health', async (_req, res) => {
     try {
       const health = await getProviderHealth();
@@ -2426,7 +2869,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Switch RPC provider endpoint (for debugging/admin use)
-  app.post('/api/rpc-switch/:index', async (req, res) => {
+  app.post('/api/rpc-switch/:index', requireAdmin, async (req, res) => {
     try {
       const index = parseInt(req.params.index);
       if (isNaN(index) || index < 0) {
@@ -2450,7 +2893,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Reset failed providers endpoint
-  app.post('/api/rpc-reset', async (_req, res) => {
+  app.post('/api/rpc-reset', requireAdmin, async (_req, res) => {
     try {
       resetFailedProviders();
       const health = await getProviderHealth();
@@ -2469,7 +2912,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Debug endpoint for token price
-  app.get('/api/debug/token-price/:address', async (req, res) => {
+  app.get('/api/debug/token-price/:address', requireAdmin, async (req, res) => {
     try {
       const { address } = req.params;
       const { getTokenPriceFromContract } = await import('./services/smart-contract-price-service');
@@ -2569,6 +3012,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Transfer logs of portfolio wallets (and any wallet whose full history was requested) are
+  // indexed into the database in the background
+  transferIndexer.start().catch(error => {
+    console.error('Failed to start transfer indexer:', error);
+  });
+
+  portfolioSnapshotService.start().catch(error => {
+    console.error('Failed to start value snapshots:', error);
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
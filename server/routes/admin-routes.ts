@@ -0,0 +1,67 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { requireAdmin, findOrCreateWalletUser } from "../auth";
+import { userRoles, type User } from "@shared/schema";
+
+const router = Router();
+
+// Every route here manages other users' privileges
+router.use("/admin", requireAdmin);
+
+const setRoleSchema = z.object({
+  walletAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid wallet address format"),
+  role: z.enum(userRoles),
+});
+
+// Only expose what the dashboard needs - never the password column
+function toAdminView(user: User) {
+  return {
+    id: user.id,
+    username: user.username,
+    walletAddress: user.username.startsWith('wallet_') ? user.username.substring('wallet_'.length) : null,
+    displayName: user.displayName,
+    role: user.role,
+    createdAt: user.createdAt,
+  };
+}
+
+// List all users holding the admin role
+router.get("/admin/users", async (_req: Request, res: Response) => {
+  try {
+    const admins = await storage.getUsersByRole('admin');
+    return res.json(admins.map(toAdminView));
+  } catch (error) {
+    console.error("Error fetching admin users:", error);
+    return res.status(500).json({ message: "Failed to fetch admin users" });
+  }
+});
+
+// Grant or revoke a role for a wallet. Wallets that haven't signed in yet get an account
+// created so the role is waiting for them on first sign-in.
+router.post("/admin/roles", async (req: Request, res: Response) => {
+  try {
+    const validation = setRoleSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ message: "Invalid role data", errors: validation.error.errors });
+    }
+
+    const { walletAddress, role } = validation.data;
+    const user = await findOrCreateWalletUser(walletAddress);
+
+    // Stop admins from locking themselves out of the dashboard
+    if (user.id === req.authUser!.id && role !== 'admin') {
+      return res.status(400).json({ message: "You can't revoke your own admin role" });
+    }
+
+    const updatedUser = await storage.setUserRole(user.id, role);
+    console.log(`User ${req.authUser!.id} set role of user ${user.id} (${walletAddress}) to ${role}`);
+
+    return res.json(toAdminView(updatedUser));
+  } catch (error) {
+    console.error("Error setting user role:", error);
+    return res.status(500).json({ message: "Failed to update user role" });
+  }
+});
+
+export default router;
@@ -0,0 +1,104 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { requireAuth } from "../auth";
+import { generateApiKey } from "../api-keys";
+import { apiKeyScopes, type ApiKey } from "@shared/schema";
+
+const router = Router();
+
+// Keys are managed from a signed-in session only - an API key can't mint or revoke keys
+router.use("/api-keys", requireAuth);
+
+const MAX_KEYS_PER_USER = 10;
+
+const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scopes: z.array(z.enum(apiKeyScopes)).min(1, "Select at least one scope"),
+});
+
+// Never send the hash back to the client
+function toApiKeyView(apiKey: ApiKey) {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    keyPrefix: apiKey.keyPrefix,
+    scopes: apiKey.scopes,
+    lastUsedAt: apiKey.lastUsedAt,
+    createdAt: apiKey.createdAt,
+  };
+}
+
+// List the signed-in user's active API keys
+router.get("/api-keys", async (req: Request, res: Response) => {
+  try {
+    const keys = await storage.getApiKeys(req.authUser!.id);
+    return res.json(keys.map(toApiKeyView));
+  } catch (error) {
+    console.error("Error fetching API keys:", error);
+    return res.status(500).json({ message: "Failed to fetch API keys" });
+  }
+});
+
+// Create a new API key. The plaintext key is only included in this response.
+router.post("/api-keys", async (req: Request, res: Response) => {
+  try {
+    const validation = createApiKeySchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ message: "Invalid API key data", errors: validation.error.errors });
+    }
+
+    const userId = req.authUser!.id;
+    const existingKeys = await storage.getApiKeys(userId);
+    if (existingKeys.length >= MAX_KEYS_PER_USER) {
+      return res.status(400).json({
+        message: `You can have at most ${MAX_KEYS_PER_USER} active API keys. Revoke one before creating another.`
+      });
+    }
+
+    const { name, scopes } = validation.data;
+    const { key, keyPrefix, keyHash } = generateApiKey();
+    const apiKey = await storage.createApiKey({
+      userId,
+      name,
+      keyPrefix,
+      keyHash,
+      scopes: Array.from(new Set(scopes)),
+    });
+
+    console.log(`User ${userId} created API key ${apiKey.id} (${keyPrefix}) with scopes ${apiKey.scopes.join(', ')}`);
+    return res.status(201).json({ ...toApiKeyView(apiKey), key });
+  } catch (error) {
+    console.error("Error creating API key:", error);
+    return res.status(500).json({ message: "Failed to create API key" });
+  }
+});
+
+// Revoke one of the signed-in user's API keys
+router.delete("/api-keys/:id", async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid API key ID" });
+    }
+
+    const apiKey = await storage.getApiKey(id);
+    if (!apiKey || apiKey.revokedAt) {
+      return res.status(404).json({ message: "API key not found" });
+    }
+
+    if (apiKey.userId !== req.authUser!.id) {
+      return res.status(403).json({ message: "You can only revoke your own API keys" });
+    }
+
+    await storage.revokeApiKey(id);
+    console.log(`User ${req.authUser!.id} revoked API key ${id} (${apiKey.keyPrefix})`);
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error("Error revoking API key:", error);
+    return res.status(500).json({ message: "Failed to revoke API key" });
+  }
+});
+
+export default router;
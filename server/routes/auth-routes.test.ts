@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import express, { type Request, type Response, type NextFunction } from "express";
+import request from "supertest";
+import { ethers } from "ethers";
+import { buildSiweMessage, SIWE_CHAIN_ID, type SiweMessageFields } from "@shared/siwe";
+
+const HOST = "app.test";
+const NONCE = "abc123def456";
+
+vi.mock("../auth", () => ({
+  generateNonce: vi.fn(() => "abc123def456"),
+  requireAuth: vi.fn((_req: unknown, _res: unknown, next: () => void) => next()),
+  findOrCreateWalletUser: vi.fn(async () => ({ id: 1, username: "wallet", role: "user" })),
+  applyBootstrapAdminRole: vi.fn(async (user: unknown) => user),
+}));
+
+const { default: authRoutes } = await import("./auth-routes");
+
+const wallet = ethers.Wallet.createRandom();
+
+// Stands in for express-session, with the nonce the client was issued already in it
+function fakeSession(req: Request, _res: Response, next: NextFunction) {
+  req.session = {
+    nonce: NONCE,
+    regenerate: (callback: (error?: unknown) => void) => callback(),
+    save: (callback: (error?: unknown) => void) => callback(),
+  } as unknown as Request["session"];
+  next();
+}
+
+function createApp() {
+  const app = express();
+  app.use(express.json());
+  app.use(fakeSession);
+  app.use("/api", authRoutes);
+  return app;
+}
+
+async function signIn(app: express.Express, overrides: Partial<SiweMessageFields> = {}) {
+  const message = buildSiweMessage({
+    domain: HOST,
+    address: wallet.address,
+    uri: `http://${HOST}`,
+    version: "1",
+    chainId: SIWE_CHAIN_ID,
+    nonce: NONCE,
+    issuedAt: new Date().toISOString(),
+    ...overrides,
+  });
+  const signature = await wallet.signMessage(message);
+  return request(app).post("/api/auth/verify").set("Host", HOST).send({ message, signature });
+}
+
+describe("POST /auth/verify", () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    app = createApp();
+  });
+
+  it("signs in with a message for this site and chain", async () => {
+    const response = await signIn(app);
+    expect(response.status).toBe(200);
+    expect(response.body.walletAddress).toBe(wallet.address.toLowerCase());
+  });
+
+  it.each([
+    ["a different domain", { domain: "evil.test" }],
+    ["a different URI", { uri: "https://evil.test" }],
+    ["a different chain", { chainId: 1 }],
+    ["a future issue time beyond the clock skew allowance", { issuedAt: new Date(Date.now() + 5 * 60 * 1000).toISOString() }],
+    ["an issue time too long ago", { issuedAt: new Date(Date.now() - 11 * 60 * 1000).toISOString() }],
+    ["a different nonce", { nonce: "other-nonce" }],
+  ])("rejects a message with %s", async (_name, overrides) => {
+    const response = await signIn(app, overrides);
+    expect(response.status).toBe(401);
+  });
+
+  it("allows for a wallet clock slightly ahead of the server's", async () => {
+    const response = await signIn(app, { issuedAt: new Date(Date.now() + 30 * 1000).toISOString() });
+    expect(response.status).toBe(200);
+  });
+});
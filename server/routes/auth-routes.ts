@@ -0,0 +1,163 @@
+import { Router, Request, Response } from "express";
+import { ethers } from "ethers";
+import { z } from "zod";
+import { generateNonce, requireAuth, findOrCreateWalletUser, applyBootstrapAdminRole } from "../auth";
+import { parseSiweMessage, SIWE_CHAIN_ID } from "@shared/siwe";
+
+const router = Router();
+
+// Signed messages older than this are rejected even if the nonce is still valid
+const MAX_MESSAGE_AGE_MS = 10 * 60 * 1000; // 10 minutes
+// How far ahead of the server's clock the wallet's clock may be
+const MAX_CLOCK_SKEW_MS = 2 * 60 * 1000; // 2 minutes
+
+const verifySchema = z.object({
+  message: z.string().min(1),
+  signature: z.string().min(1),
+});
+
+// Issue a nonce for the next Sign-In With Ethereum message
+router.get("/auth/nonce", (req: Request, res: Response) => {
+  const nonce = generateNonce();
+  req.session.nonce = nonce;
+
+  req.session.save((err) => {
+    if (err) {
+      console.error("Error saving session nonce:", err);
+      return res.status(500).json({ message: "Failed to create sign-in nonce" });
+    }
+    return res.json({ nonce });
+  });
+});
+
+// Verify a signed SIWE message and start a session for the wallet's user
+router.post("/auth/verify", async (req: Request, res: Response) => {
+  try {
+    const validation = verifySchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ message: "Message and signature are required" });
+    }
+
+    const { message, signature } = validation.data;
+    const fields = parseSiweMessage(message);
+    if (!fields) {
+      return res.status(400).json({ message: "Invalid sign-in message format" });
+    }
+
+    // The nonce must be the one we issued to this session, and can only be used once
+    const expectedNonce = req.session.nonce;
+    req.session.nonce = undefined;
+    if (!expectedNonce || fields.nonce !== expectedNonce) {
+      return res.status(401).json({ message: "Invalid or expired nonce. Please try signing in again." });
+    }
+
+    if (fields.domain !== req.get('host')) {
+      console.log(`SIWE domain mismatch: message for ${fields.domain}, request to ${req.get('host')}`);
+      return res.status(401).json({ message: "Sign-in message was issued for a different domain." });
+    }
+
+    const expectedUri = `${req.protocol}://${req.get('host')}`;
+    if (fields.uri !== expectedUri) {
+      console.log(`SIWE URI mismatch: message for ${fields.uri}, expected ${expectedUri}`);
+      return res.status(401).json({ message: "Sign-in message was issued for a different site." });
+    }
+
+    if (fields.chainId !== SIWE_CHAIN_ID) {
+      return res.status(401).json({ message: "Sign-in message was issued for a different chain." });
+    }
+
+    const now = Date.now();
+    const issuedAt = Date.parse(fields.issuedAt);
+    if (isNaN(issuedAt) || now - issuedAt > MAX_MESSAGE_AGE_MS) {
+      return res.status(401).json({ message: "Signature has expired. Please reconnect your wallet." });
+    }
+
+    // A message dated ahead would stay valid for longer than MAX_MESSAGE_AGE_MS
+    if (issuedAt - now > MAX_CLOCK_SKEW_MS) {
+      return res.status(401).json({ message: "Sign-in message is dated in the future. Check your device's clock." });
+    }
+
+    if (fields.expirationTime && Date.parse(fields.expirationTime) < now) {
+      return res.status(401).json({ message: "Signature has expired. Please reconnect your wallet." });
+    }
+
+    let recoveredAddress: string;
+    try {
+      recoveredAddress = ethers.utils.verifyMessage(message, signature);
+    } catch (signError) {
+      console.error("Error verifying signature:", signError);
+      return res.status(401).json({ message: "Invalid signature format." });
+    }
+
+    if (recoveredAddress.toLowerCase() !== fields.address.toLowerCase()) {
+      console.log(`Signature verification failed for wallet ${fields.address}. Recovered: ${recoveredAddress}`);
+      return res.status(401).json({
+        message: "Signature verification failed. The signature doesn't match the wallet address."
+      });
+    }
+
+    const walletAddress = fields.address.toLowerCase();
+    const signedInUser = await applyBootstrapAdminRole(
+      await findOrCreateWalletUser(walletAddress),
+      walletAddress
+    );
+
+    // Regenerate the session on login to prevent session fixation
+    req.session.regenerate((regenerateError) => {
+      if (regenerateError) {
+        console.error("Error regenerating session:", regenerateError);
+        return res.status(500).json({ message: "Failed to start session" });
+      }
+
+      req.session.userId = signedInUser.id;
+      req.session.walletAddress = walletAddress;
+
+      req.session.save((saveError) => {
+        if (saveError) {
+          console.error("Error saving session:", saveError);
+          return res.status(500).json({ message: "Failed to start session" });
+        }
+
+        console.log(`Signed in user ${signedInUser.id} for wallet ${walletAddress}`);
+        return res.json({
+          id: signedInUser.id,
+          username: signedInUser.username,
+          role: signedInUser.role,
+          walletAddress
+        });
+      });
+    });
+  } catch (error) {
+    console.error("Error verifying sign-in:", error);
+    return res.status(500).json({
+      message: "Failed to sign in",
+      error: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// Get the currently signed-in user
+router.get("/auth/session", requireAuth, (req: Request, res: Response) => {
+  const user = req.authUser!;
+  return res.json({
+    id: user.id,
+    username: user.username,
+    role: user.role,
+    walletAddress: req.session.walletAddress
+  });
+});
+
+// End the current session
+router.post("/auth/logout", (req: Request, res: Response) => {
+  req.session.destroy((err) => {
+    if (err) {
+      console.error("Error destroying session:", err);
+      return res.status(500).json({ message: "Failed to sign out" });
+    }
+
+    res.clearCookie('frenkabal.sid');
+    return res.json({ success: true });
+  });
+});
+
+export default router;
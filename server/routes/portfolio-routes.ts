@@ -1,20 +1,41 @@
 import { Router, Request, Response } from "express";
 import { storage } from "../storage";
+import { requireAuth, resolveUser } from "../auth";
+import { apiKeyAuth } from "../api-keys";
+import { canReadPortfolio, requirePortfolioOwner, requirePortfolioAddressOwner, requirePortfolioReader } from "../authorization";
 import { portfolios, insertPortfolioSchema, portfolioAddresses, insertPortfolioAddressSchema } from "@shared/schema";
 import { z } from "zod";
 import { parse } from "csv-parse/sync";
 import { stringify } from "csv-stringify/sync";
+import { transferIndexer } from "../services/transfer-indexer-service";
+import { portfolioSnapshotService } from "../services/portfolio-snapshot-service";
+import { valueHistoryRanges } from "@shared/value-history";
+import { fromZodError } from "zod-validation-error";
+import { taxExportService, taxExportQuerySchema } from "../services/tax-export-service";
+import { hexCalendarService } from "../services/hex-calendar-service";
+import { hexStakeService } from "../services/hex-stake-service";
 
 const router = Router();
 
+// Portfolio wallets have their transfer history indexed so their balances load from the database
+function indexPortfolioWallet(walletAddress: string) {
+  transferIndexer.trackWallet(walletAddress).catch(error => {
+    console.error(`Error queueing ${walletAddress} for transfer indexing:`, error);
+  });
+}
+
 // Get all portfolios for a user
-router.get("/users/:userId/portfolios", async (req: Request, res: Response) => {
+router.get("/users/:userId/portfolios", apiKeyAuth("portfolio:read"), requireAuth, async (req: Request, res: Response) => {
   try {
     const userId = parseInt(req.params.userId);
     if (isNaN(userId)) {
       return res.status(400).json({ message: "Invalid user ID" });
     }
     
+    if (userId !== req.authUser!.id) {
+      return res.status(403).json({ message: "You can only list your own portfolios" });
+    }
+    
     const userPortfolios = await storage.getPortfolios(userId);
     return res.json(userPortfolios);
   } catch (error) {
@@ -24,7 +45,7 @@ router.get("/users/:userId/portfolios", async (req: Request, res: Response) => {
 });
 
 // Get a specific portfolio by slug (must be defined before :id route)
-router.get("/portfolios/slug/:slug", async (req: Request, res: Response) => {
+router.get("/portfolios/slug/:slug", apiKeyAuth("portfolio:read"), resolveUser, async (req: Request, res: Response) => {
   try {
     const { slug } = req.params;
     if (!slug || typeof slug !== 'string') {
@@ -32,7 +53,7 @@ router.get("/portfolios/slug/:slug", async (req: Request, res: Response) => {
     }
     
     const portfolio = await storage.getPortfolioBySlug(slug);
-    if (!portfolio) {
+    if (!portfolio || !canReadPortfolio(portfolio, req.authUser)) {
       return res.status(404).json({ message: "Portfolio not found" });
     }
     
@@ -44,7 +65,7 @@ router.get("/portfolios/slug/:slug", async (req: Request, res: Response) => {
 });
 
 // Get a specific portfolio by public code
-router.get("/portfolios/public/:code", async (req: Request, res: Response) => {
+router.get("/portfolios/public/:code", apiKeyAuth("portfolio:read"), resolveUser, async (req: Request, res: Response) => {
   try {
     const { code } = req.params;
     if (!code || typeof code !== 'string' || code.length !== 6) {
@@ -52,7 +73,7 @@ router.get("/portfolios/public/:code", async (req: Request, res: Response) => {
     }
     
     const portfolio = await storage.getPortfolioByPublicCode(code.toUpperCase());
-    if (!portfolio) {
+    if (!portfolio || !canReadPortfolio(portfolio, req.authUser)) {
       return res.status(404).json({ message: "Portfolio not found" });
     }
     
@@ -64,29 +85,40 @@ router.get("/portfolios/public/:code", async (req: Request, res: Response) => {
 });
 
 // Get a specific portfolio by ID
-router.get("/portfolios/:id", async (req: Request, res: Response) => {
+router.get("/portfolios/:id", apiKeyAuth("portfolio:read"), resolveUser, requirePortfolioReader, async (req: Request, res: Response) => {
   try {
-    const portfolioId = parseInt(req.params.id);
-    if (isNaN(portfolioId)) {
-      return res.status(400).json({ message: "Invalid portfolio ID" });
-    }
-    
-    const portfolio = await storage.getPortfolio(portfolioId);
-    if (!portfolio) {
-      return res.status(404).json({ message: "Portfolio not found" });
-    }
-    
-    return res.json(portfolio);
+    return res.json(req.portfolio);
   } catch (error) {
     console.error("Error fetching portfolio:", error);
     return res.status(500).json({ message: "Failed to fetch portfolio" });
   }
 });
 
+// Get a portfolio's net worth over time, from the periodic value snapshots
+router.get("/portfolios/:id/history", apiKeyAuth("portfolio:read"), resolveUser, requirePortfolioReader, async (req: Request, res: Response) => {
+  try {
+    const range = z.enum(valueHistoryRanges).default("30d").safeParse(req.query.range);
+    if (!range.success) {
+      return res.status(400).json({ message: `Invalid range, expected one of: ${valueHistoryRanges.join(", ")}` });
+    }
+    
+    const portfolio = req.portfolio!;
+    const history = await portfolioSnapshotService.getPortfolioHistory(portfolio.id, range.data);
+    return res.json(history);
+  } catch (error) {
+    console.error("Error fetching portfolio history:", error);
+    return res.status(500).json({ message: "Failed to fetch portfolio history" });
+  }
+});
+
 // Create a new portfolio
-router.post("/portfolios", async (req: Request, res: Response) => {
+router.post("/portfolios", apiKeyAuth("portfolio:write"), requireAuth, async (req: Request, res: Response) => {
   try {
-    const validatedData = insertPortfolioSchema.parse(req.body);
+    // The owner always comes from the session, never from the request body
+    const validatedData = insertPortfolioSchema.parse({
+      ...req.body,
+      userId: req.authUser!.id,
+    });
     const newPortfolio = await storage.createPortfolio(validatedData);
     return res.status(201).json(newPortfolio);
   } catch (error) {
@@ -99,20 +131,12 @@ router.post("/portfolios", async (req: Request, res: Response) => {
 });
 
 // Update a portfolio
-router.patch("/portfolios/:id", async (req: Request, res: Response) => {
+router.patch("/portfolios/:id", apiKeyAuth("portfolio:write"), requireAuth, requirePortfolioOwner, async (req: Request, res: Response) => {
   try {
-    const portfolioId = parseInt(req.params.id);
-    if (isNaN(portfolioId)) {
-      return res.status(400).json({ message: "Invalid portfolio ID" });
-    }
+    const portfolioId = req.portfolio!.id;
     
-    const portfolio = await storage.getPortfolio(portfolioId);
-    if (!portfolio) {
-      return res.status(404).json({ message: "Portfolio not found" });
-    }
-    
-    // Validate only the fields that are provided
-    const validatedData = insertPortfolioSchema.partial().parse(req.body);
+    // Validate only the fields that are provided - ownership can't be reassigned
+    const validatedData = insertPortfolioSchema.partial().omit({ userId: true }).parse(req.body);
     const updatedPortfolio = await storage.updatePortfolio(portfolioId, validatedData);
     return res.json(updatedPortfolio);
   } catch (error) {
@@ -125,12 +149,9 @@ router.patch("/portfolios/:id", async (req: Request, res: Response) => {
 });
 
 // Delete a portfolio
-router.delete("/portfolios/:id", async (req: Request, res: Response) => {
+router.delete("/portfolios/:id", apiKeyAuth("portfolio:write"), requireAuth, requirePortfolioOwner, async (req: Request, res: Response) => {
   try {
-    const portfolioId = parseInt(req.params.id);
-    if (isNaN(portfolioId)) {
-      return res.status(400).json({ message: "Invalid portfolio ID" });
-    }
+    const portfolioId = req.portfolio!.id;
     
     const deleted = await storage.deletePortfolio(portfolioId);
     if (!deleted) {
@@ -145,19 +166,10 @@ router.delete("/portfolios/:id", async (req: Request, res: Response) => {
 });
 
 // Get all addresses in a portfolio
-router.get("/portfolios/:id/addresses", async (req: Request, res: Response) => {
+router.get("/portfolios/:id/addresses", apiKeyAuth("portfolio:read"), resolveUser, requirePortfolioReader, async (req: Request, res: Response) => {
   try {
-    const portfolioId = parseInt(req.params.id);
-    if (isNaN(portfolioId)) {
-      return res.status(400).json({ message: "Invalid portfolio ID" });
-    }
-    
-    const portfolio = await storage.getPortfolio(portfolioId);
-    if (!portfolio) {
-      return res.status(404).json({ message: "Portfolio not found" });
-    }
-    
-    const addresses = await storage.getPortfolioAddresses(portfolioId);
+    const portfolio = req.portfolio!;
+    const addresses = await storage.getPortfolioAddresses(portfolio.id);
     return res.json(addresses);
   } catch (error) {
     console.error("Error fetching portfolio addresses:", error);
@@ -166,7 +178,7 @@ router.get("/portfolios/:id/addresses", async (req: Request, res: Response) => {
 });
 
 // Get all addresses in a portfolio by slug
-router.get("/portfolios/slug/:slug/addresses", async (req: Request, res: Response) => {
+router.get("/portfolios/slug/:slug/addresses", apiKeyAuth("portfolio:read"), resolveUser, async (req: Request, res: Response) => {
   try {
     const { slug } = req.params;
     if (!slug || typeof slug !== 'string') {
@@ -174,7 +186,7 @@ router.get("/portfolios/slug/:slug/addresses", async (req: Request, res: Respons
     }
     
     const portfolio = await storage.getPortfolioBySlug(slug);
-    if (!portfolio) {
+    if (!portfolio || !canReadPortfolio(portfolio, req.authUser)) {
       return res.status(404).json({ message: "Portfolio not found" });
     }
     
@@ -187,17 +199,10 @@ router.get("/portfolios/slug/:slug/addresses", async (req: Request, res: Respons
 });
 
 // Add an address to a portfolio
-router.post("/portfolios/:id/addresses", async (req: Request, res: Response) => {
+router.post("/portfolios/:id/addresses", apiKeyAuth("portfolio:write"), requireAuth, requirePortfolioOwner, async (req: Request, res: Response) => {
   try {
-    const portfolioId = parseInt(req.params.id);
-    if (isNaN(portfolioId)) {
-      return res.status(400).json({ message: "Invalid portfolio ID" });
-    }
-    
-    const portfolio = await storage.getPortfolio(portfolioId);
-    if (!portfolio) {
-      return res.status(404).json({ message: "Portfolio not found" });
-    }
+    const portfolio = req.portfolio!;
+    const portfolioId = portfolio.id;
     
     // Create address data with the portfolio ID
     const addressData = {
@@ -207,6 +212,7 @@ router.post("/portfolios/:id/addresses", async (req: Request, res: Response) =>
     
     const validatedData = insertPortfolioAddressSchema.parse(addressData);
     const newAddress = await storage.addAddressToPortfolio(validatedData);
+    indexPortfolioWallet(newAddress.walletAddress);
     
     // Also add this address to bookmarks if it's not already bookmarked
     try {
@@ -261,22 +267,19 @@ router.post("/portfolios/:id/addresses", async (req: Request, res: Response) =>
 });
 
 // Update a portfolio address
-router.patch("/portfolio-addresses/:id", async (req: Request, res: Response) => {
+router.patch("/portfolio-addresses/:id", apiKeyAuth("portfolio:write"), requireAuth, requirePortfolioAddressOwner, async (req: Request, res: Response) => {
   try {
-    const addressId = parseInt(req.params.id);
-    if (isNaN(addressId)) {
-      return res.status(400).json({ message: "Invalid address ID" });
-    }
+    const addressId = req.portfolioAddress!.id;
     
-    const validatedData = insertPortfolioAddressSchema.partial().parse(req.body);
+    // Addresses can't be moved into another portfolio, which may belong to someone else
+    const validatedData = insertPortfolioAddressSchema.partial().omit({ portfolioId: true }).parse(req.body);
     const updatedAddress = await storage.updatePortfolioAddress(addressId, validatedData);
     
     // Also update the bookmark with the same address if it exists
     if (validatedData.label !== undefined) {
       try {
-        // First, get the portfolio to get the userId
-        const portfolio = await storage.getPortfolio(updatedAddress.portfolioId);
-        if (portfolio && portfolio.userId !== null) {
+        const portfolio = req.portfolio!;
+        if (portfolio.userId !== null) {
           const userId = portfolio.userId;
           const walletAddress = updatedAddress.walletAddress;
           
@@ -310,12 +313,9 @@ router.patch("/portfolio-addresses/:id", async (req: Request, res: Response) =>
 });
 
 // Remove an address from a portfolio
-router.delete("/portfolio-addresses/:id", async (req: Request, res: Response) => {
+router.delete("/portfolio-addresses/:id", apiKeyAuth("portfolio:write"), requireAuth, requirePortfolioAddressOwner, async (req: Request, res: Response) => {
   try {
-    const addressId = parseInt(req.params.id);
-    if (isNaN(addressId)) {
-      return res.status(400).json({ message: "Invalid address ID" });
-    }
+    const addressId = req.portfolioAddress!.id;
     
     const deleted = await storage.removeAddressFromPortfolio(addressId);
     if (!deleted) {
@@ -330,26 +330,18 @@ router.delete("/portfolio-addresses/:id", async (req: Request, res: Response) =>
 });
 
 // Special endpoint to get all wallet addresses in a portfolio (for multi-wallet search)
-router.get("/portfolios/:id/wallet-addresses", async (req: Request, res: Response) => {
+router.get("/portfolios/:id/wallet-addresses", apiKeyAuth("portfolio:read"), resolveUser, requirePortfolioReader, async (req: Request, res: Response) => {
   try {
-    const portfolioId = parseInt(req.params.id);
-    if (isNaN(portfolioId)) {
-      return res.status(400).json({ message: "Invalid portfolio ID" });
-    }
-    
-    const portfolio = await storage.getPortfolio(portfolioId);
-    if (!portfolio) {
-      return res.status(404).json({ message: "Portfolio not found" });
-    }
+    const portfolio = req.portfolio!;
     
     // Get all addresses in the portfolio
-    const addresses = await storage.getPortfolioAddresses(portfolioId);
+    const addresses = await storage.getPortfolioAddresses(portfolio.id);
     
     // Extract just the wallet addresses as an array
     const walletAddresses = addresses.map(addr => addr.walletAddress);
     
     return res.json({
-      portfolioId,
+      portfolioId: portfolio.id,
       portfolioName: portfolio.name,
       walletAddresses
     });
@@ -360,19 +352,10 @@ router.get("/portfolios/:id/wallet-addresses", async (req: Request, res: Respons
 });
 
 // Export portfolio addresses as CSV
-router.get("/portfolios/:id/export", async (req: Request, res: Response) => {
+router.get("/portfolios/:id/export", apiKeyAuth("portfolio:read"), resolveUser, requirePortfolioReader, async (req: Request, res: Response) => {
   try {
-    const portfolioId = parseInt(req.params.id);
-    if (isNaN(portfolioId)) {
-      return res.status(400).json({ message: "Invalid portfolio ID" });
-    }
-    
-    const portfolio = await storage.getPortfolio(portfolioId);
-    if (!portfolio) {
-      return res.status(404).json({ message: "Portfolio not found" });
-    }
-    
-    const addresses = await storage.getPortfolioAddresses(portfolioId);
+    const portfolio = req.portfolio!;
+    const addresses = await storage.getPortfolioAddresses(portfolio.id);
     
     // Create CSV data
     const csvData = addresses.map(addr => ({
@@ -397,19 +380,73 @@ router.get("/portfolios/:id/export", async (req: Request, res: Response) => {
   }
 });
 
-// Import addresses from CSV
-router.post("/portfolios/:id/import", async (req: Request, res: Response) => {
+// Export a portfolio's transactions as a crypto-tax CSV, treating moves between its wallets as
+// transfers rather than disposals
+router.get("/portfolios/:id/tax-export", apiKeyAuth("portfolio:read"), resolveUser, requirePortfolioReader, async (req: Request, res: Response) => {
   try {
-    const portfolioId = parseInt(req.params.id);
-    if (isNaN(portfolioId)) {
-      return res.status(400).json({ message: "Invalid portfolio ID" });
+    const query = taxExportQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "Invalid export parameters", error: fromZodError(query.error).message });
     }
     
-    const portfolio = await storage.getPortfolio(portfolioId);
-    if (!portfolio) {
-      return res.status(404).json({ message: "Portfolio not found" });
+    const portfolio = req.portfolio!;
+    const addresses = await storage.getPortfolioAddresses(portfolio.id);
+    const { format, from, to } = query.data;
+    const { csv, truncatedWallets } = await taxExportService.exportCsv(addresses.map(addr => addr.walletAddress), from, to, format);
+    
+    const range = `${from.toISOString().slice(0, 10)}_${to.toISOString().slice(0, 10)}`;
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="${portfolio.name.replace(/[^a-z0-9]/gi, '_')}_${format}_${range}.csv"`);
+    // Tax tools choke on extra rows, so a history cut short is flagged in a header instead
+    if (truncatedWallets.length > 0) {
+      res.setHeader('X-Export-Truncated', truncatedWallets.join(','));
     }
     
+    return res.send(csv);
+  } catch (error) {
+    console.error("Error exporting portfolio tax report:", error);
+    return res.status(500).json({ message: "Failed to export portfolio tax report" });
+  }
+});
+
+// Get the HEX stakes of every wallet in a portfolio rolled up into one set of totals
+router.get("/portfolios/:id/hex-stakes", apiKeyAuth("portfolio:read"), resolveUser, requirePortfolioReader, async (req: Request, res: Response) => {
+  try {
+    const portfolio = req.portfolio!;
+    const addresses = await storage.getPortfolioAddresses(portfolio.id);
+    const summary = await hexStakeService.getSummary(addresses.map(addr => addr.walletAddress));
+    
+    return res.json(summary);
+  } catch (error) {
+    console.error("Error getting portfolio HEX stakes:", error);
+    return res.status(500).json({ message: "Failed to get portfolio HEX stakes" });
+  }
+});
+
+// Export the end days of every HEX stake in a portfolio as an iCalendar file. The URL stays the
+// same as wallets come and go, so calendars can subscribe to it.
+router.get("/portfolios/:id/hex-stakes/calendar.ics", apiKeyAuth("portfolio:read"), resolveUser, requirePortfolioReader, async (req: Request, res: Response) => {
+  try {
+    const portfolio = req.portfolio!;
+    const addresses = await storage.getPortfolioAddresses(portfolio.id);
+    const ics = await hexCalendarService.exportIcs(addresses.map(addr => addr.walletAddress), `${portfolio.name} HEX stakes`);
+    
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${portfolio.name.replace(/[^a-z0-9]/gi, '_')}_hex_stakes.ics"`);
+    
+    return res.send(ics);
+  } catch (error) {
+    console.error("Error exporting portfolio HEX stake calendar:", error);
+    return res.status(500).json({ message: "Failed to export portfolio HEX stake calendar" });
+  }
+});
+
+// Import addresses from CSV
+router.post("/portfolios/:id/import", apiKeyAuth("portfolio:write"), requireAuth, requirePortfolioOwner, async (req: Request, res: Response) => {
+  try {
+    const portfolio = req.portfolio!;
+    const portfolioId = portfolio.id;
+    
     const { csvContent } = req.body;
     if (!csvContent || typeof csvContent !== 'string') {
       return res.status(400).json({ message: "CSV content is required" });
@@ -476,6 +513,7 @@ router.post("/portfolios/:id/import", async (req: Request, res: Response) => {
           } else {
             // Add new address to portfolio
             resultAddress = await storage.addAddressToPortfolio(addressData);
+            indexPortfolioWallet(resultAddress.walletAddress);
             console.log(`Added new address ${addressData.walletAddress} to portfolio`);
           }
           
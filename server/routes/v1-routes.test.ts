@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import { z } from "zod";
+import {
+  V1WalletSchema,
+  V1TokenBalanceSchema,
+  V1TokenPriceSchema,
+  V1PortfolioWalletsSchema,
+} from "@shared/api-v1";
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+const TOKEN = "0x2b591e99afe9f32eaa6214f7b7629768c40eeb39";
+
+const mocks = vi.hoisted(() => ({
+  getWalletData: vi.fn(),
+  getTokenPrice: vi.fn(),
+  getSpecificTokenBalance: vi.fn(),
+  getScannerTokenBalances: vi.fn(),
+}));
+
+vi.mock("../db", () => ({ db: {}, pool: {} }));
+vi.mock("../services/api-stats-service", () => ({ apiStatsService: { recordApiCall: vi.fn() } }));
+vi.mock("../rate-limit", () => ({ rateLimit: () => (_req: unknown, _res: unknown, next: () => void) => next() }));
+vi.mock("../services/api", () => ({
+  getWalletData: mocks.getWalletData,
+  getTokenPrice: mocks.getTokenPrice,
+  getSpecificTokenBalance: mocks.getSpecificTokenBalance,
+}));
+vi.mock("../services/scanner-balance-service", () => ({ getScannerTokenBalances: mocks.getScannerTokenBalances }));
+vi.mock("../storage", () => ({
+  storage: {
+    getPortfolio: vi.fn(async (id: number) =>
+      id === 1 ? { id: 1, userId: 1, name: "Public", isPublic: true } : undefined),
+    getPortfolioAddresses: vi.fn(async () => [{ id: 10, portfolioId: 1, walletAddress: WALLET }]),
+  },
+}));
+
+const { default: v1Routes } = await import("./v1-routes");
+
+const pls = {
+  address: "0xa1077a294dde1b09bb078844df40758a5d0f9a27",
+  symbol: "PLS",
+  name: "PulseChain",
+  decimals: 18,
+  balance: "2000000000000000000",
+  balanceFormatted: 2,
+  price: 0.5,
+  value: 1,
+  priceChange24h: -3,
+  isNative: true,
+};
+
+function createApp() {
+  const app = express();
+  app.use("/api", v1Routes);
+  return app;
+}
+
+// Every field of a v1 response has to be in its contract - nothing internal may leak through
+function expectContract(schema: z.AnyZodObject, body: unknown) {
+  const result = schema.strict().safeParse(body);
+  expect(result.success, result.success ? undefined : result.error.message).toBe(true);
+}
+
+describe("v1 API", () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    app = createApp();
+
+    mocks.getWalletData.mockResolvedValue({
+      address: WALLET,
+      tokens: [pls],
+      totalValue: 1,
+      tokenCount: 1,
+      plsBalance: 2,
+      plsPriceChange: -3,
+      networkCount: 1,
+      pagination: { page: 1, limit: 100, totalItems: 1, totalPages: 1 },
+      // Internal cache bookkeeping that isn't part of the contract
+      fromCache: true,
+    });
+    mocks.getScannerTokenBalances.mockResolvedValue([pls]);
+    mocks.getSpecificTokenBalance.mockResolvedValue({ balance: "150000000", balanceFormatted: 1.5 });
+    mocks.getTokenPrice.mockResolvedValue({
+      tokenSymbol: "HEX",
+      tokenName: "HEX",
+      tokenDecimals: "8",
+      tokenLogo: null,
+      exchangeName: "PulseX",
+      usdPrice24hrPercentChange: 4.2,
+      usdPrice: 0.007,
+    });
+  });
+
+  describe("responses match their contracts", () => {
+    it.each([
+      ["/api/v1/wallets/" + WALLET, V1WalletSchema],
+      ["/api/v1/wallets/" + WALLET + "/balances", V1WalletSchema],
+      ["/api/v1/wallets/" + WALLET + "/tokens/" + TOKEN, V1TokenBalanceSchema],
+      ["/api/v1/tokens/" + TOKEN + "/price", V1TokenPriceSchema],
+      ["/api/v1/portfolios/1/wallets", V1PortfolioWalletsSchema],
+    ] as const)("GET %s", async (path, schema) => {
+      const response = await request(app).get(path);
+
+      expect(response.status).toBe(200);
+      expectContract(schema, response.body);
+    });
+
+    it("strips fields that aren't in the contract", async () => {
+      const response = await request(app).get(`/api/v1/wallets/${WALLET}`);
+      expect(response.body).not.toHaveProperty("fromCache");
+    });
+
+    it("turns an off-contract response into a 500 outside production", async () => {
+      mocks.getTokenPrice.mockResolvedValue({ tokenSymbol: "HEX", tokenName: "HEX", tokenDecimals: "8" });
+
+      const response = await request(app).get(`/api/v1/tokens/${TOKEN}/price`);
+
+      expect(response.status).toBe(500);
+      expect(response.body.message).toBe("Response failed contract validation");
+    });
+
+    it("answers 404 when the handler finds nothing", async () => {
+      mocks.getSpecificTokenBalance.mockResolvedValue(null);
+
+      const balance = await request(app).get(`/api/v1/wallets/${WALLET}/tokens/${TOKEN}`);
+      const portfolio = await request(app).get("/api/v1/portfolios/2/wallets");
+
+      expect(balance.status).toBe(404);
+      expect(portfolio.status).toBe(404);
+    });
+
+    it("rejects parameters that don't match their schema", async () => {
+      const badAddress = await request(app).get("/api/v1/wallets/0x1234");
+      const badQuery = await request(app).get(`/api/v1/wallets/${WALLET}?limit=500`);
+
+      expect(badAddress.status).toBe(400);
+      expect(badQuery.status).toBe(400);
+    });
+  });
+
+  describe("OpenAPI document", () => {
+    it("documents every route", async () => {
+      const response = await request(app).get("/api/v1/openapi.json");
+
+      expect(response.status).toBe(200);
+      expect(response.body.openapi).toBe("3.0.3");
+      expect(Object.keys(response.body.paths).sort()).toEqual([
+        "/portfolios/{id}/wallets",
+        "/tokens/{address}/price",
+        "/wallets/{address}",
+        "/wallets/{address}/balances",
+        "/wallets/{address}/tokens/{tokenAddress}",
+      ]);
+    });
+
+    it("describes responses with the shared component schemas", async () => {
+      const { body } = await request(app).get("/api/v1/openapi.json");
+      const schemaRef = (path: string) =>
+        body.paths[path].get.responses["200"].content["application/json"].schema.$ref;
+
+      expect(schemaRef("/wallets/{address}")).toBe("#/components/schemas/Wallet");
+      expect(schemaRef("/wallets/{address}/tokens/{tokenAddress}")).toBe("#/components/schemas/TokenBalance");
+      expect(schemaRef("/tokens/{address}/price")).toBe("#/components/schemas/TokenPrice");
+      expect(schemaRef("/portfolios/{id}/wallets")).toBe("#/components/schemas/PortfolioWallets");
+
+      // Components reference each other rather than repeating themselves
+      expect(body.components.schemas.Wallet.properties.tokens.items).toEqual({ $ref: "#/components/schemas/Token" });
+      expect(body.components.schemas.Wallet.required).toEqual(
+        expect.arrayContaining(["address", "tokens", "totalValue", "tokenCount", "plsBalance"])
+      );
+    });
+
+    it("documents path and query parameters", async () => {
+      const { body } = await request(app).get("/api/v1/openapi.json");
+      const operation = body.paths["/wallets/{address}"].get;
+
+      expect(operation.parameters.map((parameter: { name: string; in: string; required: boolean }) =>
+        [parameter.name, parameter.in, parameter.required]
+      )).toEqual([
+        ["address", "path", true],
+        ["page", "query", false],
+        ["limit", "query", false],
+        ["refresh", "query", false],
+      ]);
+      expect(operation.security).toEqual([{}, { apiKey: ["wallet:read"] }]);
+      expect(operation.responses).toHaveProperty("429");
+    });
+  });
+});
@@ -0,0 +1,265 @@
+import { Router, Request, Response, type RequestHandler } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { storage } from "../storage";
+import { apiKeyAuth } from "../api-keys";
+import { canReadPortfolio } from "../authorization";
+import { rateLimit } from "../rate-limit";
+import { buildOpenApiDocument, type OpenApiRoute } from "../openapi";
+import { getWalletData, getTokenPrice, getSpecificTokenBalance } from "../services/api";
+import { getScannerTokenBalances } from "../services/scanner-balance-service";
+import type { ProcessedToken } from "../types";
+import { type ApiKeyScope } from "@shared/schema";
+import {
+  ErrorResponseSchema,
+  V1TokenSchema,
+  V1WalletSchema,
+  V1TokenBalanceSchema,
+  V1TokenPriceSchema,
+  V1PortfolioWalletsSchema,
+  WalletParamsSchema,
+  WalletTokenParamsSchema,
+  TokenParamsSchema,
+  PortfolioParamsSchema,
+  WalletQuerySchema,
+  type V1Wallet,
+} from "@shared/api-v1";
+
+const router = Router();
+
+const API_VERSION = '1.0.0';
+
+// Outside production a response that doesn't match its schema is turned into a 500 so drift
+// is caught during development. In production it's logged and the validated subset is sent.
+const STRICT_CONTRACTS = process.env.NODE_ENV !== 'production';
+
+interface V1Route<
+  P extends z.AnyZodObject,
+  Q extends z.AnyZodObject,
+  R extends z.ZodTypeAny
+> extends OpenApiRoute {
+  params?: P;
+  query?: Q;
+  response: R;
+  scope?: ApiKeyScope;
+  // Return null for a 404
+  handler: (input: { params: z.infer<P>; query: z.infer<Q>; req: Request }) => Promise<z.input<R> | null>;
+}
+
+// The Express handler is built while a route's schema types are still known, so routes of
+// every shape can share this list without erasing them
+interface RegisteredV1Route {
+  route: OpenApiRoute & { scope?: ApiKeyScope };
+  handler: RequestHandler;
+}
+
+const routes: RegisteredV1Route[] = [];
+
+const emptyObject = z.object({});
+
+// Validate the request, run the handler and check its output against the response schema
+function handle<P extends z.AnyZodObject, Q extends z.AnyZodObject, R extends z.ZodTypeAny>(
+  route: V1Route<P, Q, R>
+): RequestHandler {
+  return async (req: Request, res: Response) => {
+    try {
+      const params = (route.params ?? emptyObject).safeParse(req.params);
+      if (!params.success) {
+        return res.status(400).json({ message: "Invalid path parameters", error: fromZodError(params.error).message });
+      }
+
+      const query = (route.query ?? emptyObject).safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid query parameters", error: fromZodError(query.error).message });
+      }
+
+      // A route without a params or query schema has P or Q left at their z.ZodObject<{}> default
+      const result = await route.handler({ params: params.data as z.infer<P>, query: query.data as z.infer<Q>, req });
+      if (result === null) {
+        return res.status(404).json({ message: "Not found" });
+      }
+
+      const output = route.response.safeParse(result);
+      if (!output.success) {
+        const error = fromZodError(output.error).message;
+        console.error(`[API v1] Response for ${route.method.toUpperCase()} ${route.path} does not match its schema: ${error}`);
+
+        if (STRICT_CONTRACTS) {
+          return res.status(500).json({ message: "Response failed contract validation", error });
+        }
+        return res.json(result);
+      }
+
+      // Parsing strips anything not in the contract, so internal fields never leak into v1
+      return res.json(output.data);
+    } catch (error) {
+      console.error(`[API v1] Error handling ${req.method} ${req.originalUrl}:`, error);
+      return res.status(500).json({
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  };
+}
+
+function defineRoute<
+  P extends z.AnyZodObject = z.ZodObject<{}>,
+  Q extends z.AnyZodObject = z.ZodObject<{}>,
+  R extends z.ZodTypeAny = z.ZodTypeAny
+>(route: V1Route<P, Q, R>) {
+  routes.push({ route, handler: handle(route) });
+}
+
+// Sum up a token list the same way the dashboard does
+function toWallet(address: string, tokens: ProcessedToken[]): V1Wallet {
+  const plsToken = tokens.find(t => t.isNative);
+  return {
+    address,
+    tokens,
+    totalValue: tokens.reduce((sum, token) => sum + (token.value || 0), 0),
+    tokenCount: tokens.length,
+    plsBalance: plsToken ? plsToken.balanceFormatted : null,
+    plsPriceChange: plsToken?.priceChange24h ?? null,
+    networkCount: 1,
+  };
+}
+
+defineRoute({
+  method: 'get',
+  path: '/wallets/:address',
+  summary: 'Get a wallet with priced token balances',
+  description: 'Paginated token balances with USD prices and wallet totals. Results are cached; pass refresh=true to bypass the cache.',
+  tags: ['Wallets'],
+  params: WalletParamsSchema,
+  query: WalletQuerySchema,
+  response: V1WalletSchema,
+  scope: 'wallet:read',
+  rateLimited: true,
+  handler: async ({ params, query }) => {
+    const wallet = await getWalletData(params.address, query.page, query.limit, query.refresh === 'true');
+    return {
+      ...wallet,
+      plsBalance: wallet.plsBalance ?? null,
+      plsPriceChange: wallet.plsPriceChange ?? null,
+    };
+  },
+});
+
+defineRoute({
+  method: 'get',
+  path: '/wallets/:address/balances',
+  summary: 'Get all token balances for a wallet',
+  description: 'Every token the wallet holds, read from the PulseChain Scanner and priced, without pagination.',
+  tags: ['Wallets'],
+  params: WalletParamsSchema,
+  response: V1WalletSchema,
+  scope: 'wallet:read',
+  rateLimited: true,
+  handler: async ({ params }) => toWallet(params.address, await getScannerTokenBalances(params.address)),
+});
+
+defineRoute({
+  method: 'get',
+  path: '/wallets/:address/tokens/:tokenAddress',
+  summary: 'Get the balance of a single token in a wallet',
+  tags: ['Wallets'],
+  params: WalletTokenParamsSchema,
+  response: V1TokenBalanceSchema,
+  notFound: true,
+  scope: 'wallet:read',
+  rateLimited: true,
+  handler: async ({ params }) => {
+    const balance = await getSpecificTokenBalance(params.address, params.tokenAddress);
+    if (!balance) return null;
+
+    return {
+      walletAddress: params.address,
+      tokenAddress: params.tokenAddress,
+      balance: balance.balance,
+      balanceFormatted: balance.balanceFormatted,
+    };
+  },
+});
+
+defineRoute({
+  method: 'get',
+  path: '/tokens/:address/price',
+  summary: 'Get the current USD price of a token',
+  tags: ['Tokens'],
+  params: TokenParamsSchema,
+  response: V1TokenPriceSchema,
+  notFound: true,
+  scope: 'wallet:read',
+  rateLimited: true,
+  handler: async ({ params }) => {
+    const price = await getTokenPrice(params.address);
+    if (!price) return null;
+
+    return {
+      address: params.address.toLowerCase(),
+      symbol: price.tokenSymbol,
+      name: price.tokenName,
+      decimals: parseInt(price.tokenDecimals, 10) || 18,
+      logo: price.tokenLogo || undefined,
+      exchange: price.exchangeName || undefined,
+      priceChange24h: price.usdPrice24hrPercentChange,
+      usdPrice: price.usdPrice,
+    };
+  },
+});
+
+defineRoute({
+  method: 'get',
+  path: '/portfolios/:id/wallets',
+  summary: 'List the wallet addresses in a portfolio',
+  tags: ['Portfolios'],
+  params: PortfolioParamsSchema,
+  response: V1PortfolioWalletsSchema,
+  notFound: true,
+  scope: 'portfolio:read',
+  handler: async ({ params, req }) => {
+    // Private portfolios are only visible to their owner's keys
+    const portfolio = await storage.getPortfolio(params.id);
+    if (!portfolio || !canReadPortfolio(portfolio, req.authUser)) return null;
+
+    const addresses = await storage.getPortfolioAddresses(portfolio.id);
+    return {
+      id: portfolio.id,
+      name: portfolio.name,
+      walletAddresses: addresses.map(addr => addr.walletAddress),
+    };
+  },
+});
+
+// Generated once at startup - an unsupported schema fails here rather than on first request
+const openApiDocument = buildOpenApiDocument(
+  {
+    title: 'FrenKabal API',
+    version: API_VERSION,
+    description: 'Stable, versioned access to PulseChain wallet, token and portfolio data.',
+    serverUrl: '/api/v1',
+  },
+  routes.map(({ route }) => route),
+  {
+    Error: ErrorResponseSchema,
+    Token: V1TokenSchema,
+    Wallet: V1WalletSchema,
+    TokenBalance: V1TokenBalanceSchema,
+    TokenPrice: V1TokenPriceSchema,
+    PortfolioWallets: V1PortfolioWalletsSchema,
+  }
+);
+
+router.get("/v1/openapi.json", (_req: Request, res: Response) => {
+  res.json(openApiDocument);
+});
+
+for (const { route, handler } of routes) {
+  const middleware = [];
+  if (route.scope) middleware.push(apiKeyAuth(route.scope));
+  if (route.rateLimited) middleware.push(rateLimit());
+
+  router[route.method](`/v1${route.path}`, ...middleware, handler);
+}
+
+export default router;
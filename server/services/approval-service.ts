@@ -0,0 +1,240 @@
+/**
+ * Approval Service
+ * Finds the ERC-20 allowances a wallet has handed out. The wallet's Approval events say which
+ * token and spender pairs to look at, and each pair's current allowance() says what is still
+ * outstanding - so spent or revoked approvals drop out without replaying every event.
+ */
+
+import { ethers } from 'ethers';
+import { UNLIMITED_ALLOWANCE_THRESHOLD, type ApprovalsReport, type TokenApproval } from '@shared/approvals';
+import type { PulseChainAddressResponse } from '../types';
+import { executeWithFailover } from './rpc-provider';
+import { multicall } from './multicall-service';
+import { getTokenDecimals } from './smart-contract-price-service';
+
+const PULSECHAIN_SCAN_API_BASE = 'https://api.scan.pulsechain.com/api/v2';
+
+const ERC20_ABI = [
+  'event Approval(address indexed owner, address indexed spender, uint256 value)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function symbol() view returns (string)',
+];
+const erc20Interface = new ethers.utils.Interface(ERC20_ABI);
+const APPROVAL_EVENT_TOPIC = erc20Interface.getEventTopic('Approval');
+
+// getLogs ranges start at this many blocks, halve when the RPC rejects a range (too many
+// results or a timeout) and grow again after each success
+const INITIAL_CHUNK_SIZE = 100000;
+const MIN_CHUNK_SIZE = 500;
+const MAX_CHUNK_SIZE = 1000000;
+const MAX_INDEXED_WALLETS = 500;
+const ALLOWANCE_BATCH_SIZE = 50;
+// Spender lookups go to the scanner API, so only a few run at once
+const SPENDER_LOOKUP_BATCH_SIZE = 10;
+// Contracts get verified after the fact, so spender details are looked up again now and then
+const SPENDER_TTL_MS = 60 * 60 * 1000;
+
+interface ApprovalPair {
+  tokenAddress: string;
+  spender: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+// Token and spender pairs seen in a wallet's Approval events, up to and including lastScannedBlock.
+// The pairs are only candidates - allowances are always read live - so a pair picked up from a
+// block that was later reorged away just shows a zero allowance and is dropped.
+interface WalletApprovalIndex {
+  lastScannedBlock: number;
+  pairs: Map<string, ApprovalPair>;
+}
+
+interface SpenderInfo {
+  name: string | null;
+  isContract: boolean | null;
+  isVerified: boolean | null;
+}
+
+class ApprovalService {
+  private indexes = new Map<string, WalletApprovalIndex>();
+  private scanning = new Map<string, Promise<WalletApprovalIndex>>();
+  private spenders = new Map<string, { info: SpenderInfo; expiresAt: number }>();
+  private chunkSize = INITIAL_CHUNK_SIZE;
+
+  /**
+   * Every token allowance the wallet still has outstanding, riskiest first
+   */
+  async getApprovals(walletAddress: string): Promise<ApprovalsReport> {
+    const wallet = walletAddress.toLowerCase();
+    const startTime = Date.now();
+    const index = await this.updateIndex(wallet);
+    const pairs = Array.from(index.pairs.values());
+
+    // Read the live allowance for every pair - most old approvals have been used up or revoked
+    const allowances: (ethers.BigNumber | null)[] = [];
+    for (let i = 0; i < pairs.length; i += ALLOWANCE_BATCH_SIZE) {
+      const batch = pairs.slice(i, i + ALLOWANCE_BATCH_SIZE);
+      allowances.push(...await Promise.all(batch.map(pair =>
+        multicall.callFunction<ethers.BigNumber>(erc20Interface, pair.tokenAddress, 'allowance', [wallet, pair.spender])
+      )));
+    }
+
+    const outstanding = pairs
+      .map((pair, i) => ({ pair, allowance: allowances[i] }))
+      .filter((entry): entry is { pair: ApprovalPair; allowance: ethers.BigNumber } =>
+        entry.allowance !== null && entry.allowance.gt(0)
+      );
+
+    // Each spender is looked up once, however many tokens it's been approved for
+    const spenderAddresses = Array.from(new Set(outstanding.map(({ pair }) => pair.spender)));
+    const spenders = new Map<string, SpenderInfo>();
+    for (let i = 0; i < spenderAddresses.length; i += SPENDER_LOOKUP_BATCH_SIZE) {
+      await Promise.all(spenderAddresses.slice(i, i + SPENDER_LOOKUP_BATCH_SIZE).map(async (spender) => {
+        spenders.set(spender, await this.getSpenderInfo(spender));
+      }));
+    }
+
+    const approvals: TokenApproval[] = await Promise.all(outstanding.map(async ({ pair, allowance }) => {
+      const [symbol, decimals] = await Promise.all([
+        multicall.callFunction<string>(erc20Interface, pair.tokenAddress, 'symbol', []),
+        getTokenDecimals(pair.tokenAddress),
+      ]);
+      const spender = spenders.get(pair.spender)!;
+      const isUnlimited = allowance.gte(UNLIMITED_ALLOWANCE_THRESHOLD);
+
+      return {
+        tokenAddress: pair.tokenAddress,
+        tokenSymbol: symbol || 'UNKNOWN',
+        tokenDecimals: decimals,
+        spender: pair.spender,
+        spenderName: spender.name,
+        allowance: allowance.toString(),
+        allowanceFormatted: isUnlimited ? null : parseFloat(ethers.utils.formatUnits(allowance, decimals)),
+        isUnlimited,
+        spenderIsContract: spender.isContract,
+        spenderVerified: spender.isVerified,
+        lastApprovedBlock: pair.blockNumber,
+        lastApprovedTxHash: pair.transactionHash,
+      };
+    }));
+
+    // Unlimited approvals to unverified contracts are the ones that drain wallets
+    const risk = (approval: TokenApproval) =>
+      (approval.isUnlimited ? 2 : 0) + (approval.spenderVerified === false ? 1 : 0);
+    approvals.sort((a, b) => risk(b) - risk(a) || b.lastApprovedBlock - a.lastApprovedBlock);
+
+    console.log(`[Approvals] ${approvals.length} outstanding of ${pairs.length} approved pairs for ${wallet} in ${Date.now() - startTime}ms`);
+
+    return {
+      address: wallet,
+      approvals,
+      scannedToBlock: index.lastScannedBlock,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Scan the wallet's Approval events from where the last scan stopped up to the chain head.
+   * Concurrent requests for the same wallet share one scan.
+   */
+  private async updateIndex(wallet: string): Promise<WalletApprovalIndex> {
+    let scan = this.scanning.get(wallet);
+    if (!scan) {
+      scan = this.scan(wallet).finally(() => this.scanning.delete(wallet));
+      this.scanning.set(wallet, scan);
+    }
+    return scan;
+  }
+
+  private async scan(wallet: string): Promise<WalletApprovalIndex> {
+    let index = this.indexes.get(wallet);
+    if (!index) {
+      if (this.indexes.size >= MAX_INDEXED_WALLETS) {
+        this.indexes.clear();
+      }
+      index = { lastScannedBlock: -1, pairs: new Map() };
+      this.indexes.set(wallet, index);
+    }
+
+    const head = await executeWithFailover(provider => provider.getBlockNumber());
+    const ownerTopic = ethers.utils.hexZeroPad(wallet, 32);
+    let start = index.lastScannedBlock + 1;
+
+    while (start <= head) {
+      const end = Math.min(start + this.chunkSize - 1, head);
+
+      let logs: ethers.providers.Log[];
+      try {
+        logs = await executeWithFailover(provider => provider.getLogs({
+          fromBlock: start,
+          toBlock: end,
+          topics: [APPROVAL_EVENT_TOPIC, ownerTopic],
+        }));
+      } catch (error) {
+        if (this.chunkSize <= MIN_CHUNK_SIZE) throw error;
+        this.chunkSize = Math.max(MIN_CHUNK_SIZE, Math.floor(this.chunkSize / 2));
+        continue;
+      }
+
+      for (const log of logs) {
+        // ERC-721 approvals index the token id as a fourth topic
+        if (log.topics.length !== 3) continue;
+
+        const tokenAddress = log.address.toLowerCase();
+        const spender = ethers.utils.hexDataSlice(log.topics[2], 12).toLowerCase();
+        index.pairs.set(`${tokenAddress}:${spender}`, {
+          tokenAddress,
+          spender,
+          blockNumber: log.blockNumber,
+          transactionHash: log.transactionHash,
+        });
+      }
+
+      // Advancing per chunk means a scan that fails partway resumes from here next time
+      index.lastScannedBlock = end;
+      start = end + 1;
+      this.chunkSize = Math.min(MAX_CHUNK_SIZE, this.chunkSize * 2);
+    }
+
+    return index;
+  }
+
+  /**
+   * Whether a spender is a verified contract, according to PulseChain Scan
+   */
+  private async getSpenderInfo(spender: string): Promise<SpenderInfo> {
+    const cached = this.spenders.get(spender);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.info;
+    }
+
+    let info: SpenderInfo;
+    try {
+      const response = await fetch(`${PULSECHAIN_SCAN_API_BASE}/addresses/${spender}`, {
+        headers: { 'Accept': 'application/json' },
+      });
+      if (!response.ok) {
+        throw new Error(`Scanner API error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json() as PulseChainAddressResponse;
+      info = {
+        name: data.name || data.implementation_name || null,
+        isContract: data.is_contract,
+        // A wallet holding an allowance can't be verified, and is as much of a worry as an
+        // unverified contract
+        isVerified: data.is_contract ? data.is_verified : false,
+      };
+    } catch (error) {
+      console.error(`[Approvals] Failed to look up spender ${spender}:`, error);
+      // Not cached, so the next request tries the scanner again
+      return { name: null, isContract: null, isVerified: null };
+    }
+
+    this.spenders.set(spender, { info, expiresAt: Date.now() + SPENDER_TTL_MS });
+    return info;
+  }
+}
+
+// Export singleton instance
+export const approvalService = new ApprovalService();
@@ -9,6 +9,7 @@ import { ProcessedToken } from '../types';
 import { liveBalanceTracker, TransferEvent, BalanceUpdate } from './live-balance-tracker';
 import { getScannerTokenBalances } from './scanner-balance-service';
 import { getTokenPriceDataFromDexScreener } from './dexscreener';
+import { reorgDetector, type ReorgEvent } from './reorg-detector';
 
 interface TokenCache {
   balance: string;
@@ -26,6 +27,18 @@ interface BalanceCache {
   [walletAddress: string]: WalletCache;
 }
 
+// Emitted as 'balanceUpdated' whenever a cached balance changes
+export interface CachedBalanceUpdate {
+  wallet: string;
+  token: string;
+  balance: string;
+  formattedBalance: number;
+  previousBalance: string | null;
+  previousFormattedBalance: number | null;
+  blockNumber: number | null;
+  source: 'transfer' | 'reconciliation' | 'reorg';
+}
+
 interface PendingUpdate {
   wallet: string;
   token: string;
@@ -63,9 +76,40 @@ class BalanceCacheManager extends EventEmitter {
     liveBalanceTracker.on('disconnected', () => {
       console.log('WebSocket disconnected, relying on cached data');
     });
+    
+    reorgDetector.on('reorg', (event: ReorgEvent) => {
+      this.handleReorg(event).catch(error => {
+        console.error(`Failed to re-apply balances after reorg at block ${event.forkBlock}:`, error);
+      });
+    });
   }
 
-  private async handleBalanceUpdate(update: BalanceUpdate) {
+  /**
+   * Balances last set by a transfer in an orphaned block may no longer hold - re-read them
+   * from the canonical chain
+   */
+  private async handleReorg(event: ReorgEvent) {
+    const affected: Array<{ wallet: string; token: string }> = [];
+    for (const [wallet, tokens] of Object.entries(this.cache)) {
+      for (const [token, cached] of Object.entries(tokens)) {
+        if (cached.lastUpdatedBlock > event.forkBlock) {
+          affected.push({ wallet, token });
+        }
+      }
+    }
+    
+    if (affected.length === 0) return;
+    console.log(`Re-reading ${affected.length} cached balances updated above fork block ${event.forkBlock}`);
+    
+    await Promise.all(affected.map(async ({ wallet, token }) => {
+      const update = await liveBalanceTracker.fetchInitialBalance(wallet, token);
+      if (update) {
+        await this.handleBalanceUpdate(update, 'reorg');
+      }
+    }));
+  }
+
+  private async handleBalanceUpdate(update: BalanceUpdate, source: CachedBalanceUpdate['source'] = 'transfer') {
     const key = `${update.wallet}-${update.token}`;
     
     // Prevent race conditions
@@ -74,7 +118,7 @@ class BalanceCacheManager extends EventEmitter {
       await pending.promise;
     }
     
-    const updatePromise = this.processBalanceUpdate(update);
+    const updatePromise = this.processBalanceUpdate(update, source);
     this.pendingUpdates.set(key, {
       wallet: update.wallet,
       token: update.token,
@@ -88,7 +132,7 @@ class BalanceCacheManager extends EventEmitter {
     }
   }
 
-  private async processBalanceUpdate(update: BalanceUpdate) {
+  private async processBalanceUpdate(update: BalanceUpdate, source: CachedBalanceUpdate['source']) {
     const walletKey = update.wallet.toLowerCase();
     const tokenKey = update.token.toLowerCase();
     
@@ -96,6 +140,7 @@ class BalanceCacheManager extends EventEmitter {
       this.cache[walletKey] = {};
     }
     
+    const previous = this.cache[walletKey][tokenKey];
     this.cache[walletKey][tokenKey] = {
       balance: update.balance,
       formattedBalance: update.formattedBalance,
@@ -106,12 +151,17 @@ class BalanceCacheManager extends EventEmitter {
     console.log(`Balance updated for ${walletKey}/${tokenKey}: ${update.formattedBalance}`);
     
     // Emit update event for UI
-    this.emit('balanceUpdated', {
+    const balanceUpdate: CachedBalanceUpdate = {
       wallet: walletKey,
       token: tokenKey,
       balance: update.balance,
-      formattedBalance: update.formattedBalance
-    });
+      formattedBalance: update.formattedBalance,
+      previousBalance: previous ? previous.balance : null,
+      previousFormattedBalance: previous ? previous.formattedBalance : null,
+      blockNumber: update.blockNumber,
+      source
+    };
+    this.emit('balanceUpdated', balanceUpdate);
   }
 
   async trackWallet(walletAddress: string, tokens: ProcessedToken[]) {
@@ -159,6 +209,8 @@ class BalanceCacheManager extends EventEmitter {
     if (!this.reconciliationInterval) {
       this.startReconciliation();
     }
+    
+    reorgDetector.start();
   }
 
   async untrackWallet(walletAddress: string) {
@@ -177,6 +229,14 @@ class BalanceCacheManager extends EventEmitter {
     }
   }
 
+  isTracking(walletAddress: string): boolean {
+    return !!this.cache[walletAddress.toLowerCase()];
+  }
+
+  getTokenMetadata(tokenAddress: string): { symbol: string; name: string; decimals: number } | undefined {
+    return this.tokenMetadata.get(tokenAddress.toLowerCase());
+  }
+
   getCachedBalances(walletAddress: string): ProcessedToken[] | null {
     const normalizedWallet = walletAddress.toLowerCase();
     const walletCache = this.cache[normalizedWallet];
@@ -260,19 +320,26 @@ class BalanceCacheManager extends EventEmitter {
               actualFormatted: actualToken.balanceFormatted
             });
             
+            const previousBalance = cachedData.balance;
+            const previousFormattedBalance = cachedData.formattedBalance;
+            
             // Update cache with correct balance
             cachedData.balance = actualToken.balance;
             cachedData.formattedBalance = actualToken.balanceFormatted;
             cachedData.lastUpdatedTimestamp = Date.now();
             
             // Emit update
-            this.emit('balanceUpdated', {
+            const balanceUpdate: CachedBalanceUpdate = {
               wallet,
               token: tokenAddress,
               balance: actualToken.balance,
               formattedBalance: actualToken.balanceFormatted,
+              previousBalance,
+              previousFormattedBalance,
+              blockNumber: null,
               source: 'reconciliation'
-            });
+            };
+            this.emit('balanceUpdated', balanceUpdate);
           }
         }
         
@@ -296,7 +363,19 @@ class BalanceCacheManager extends EventEmitter {
               name: actualToken.name,
               decimals: actualToken.decimals
             });
-            
+
+            const balanceUpdate: CachedBalanceUpdate = {
+              wallet,
+              token: tokenAddress,
+              balance: actualToken.balance,
+              formattedBalance: actualToken.balanceFormatted,
+              previousBalance: null,
+              previousFormattedBalance: null,
+              blockNumber: null,
+              source: 'reconciliation'
+            };
+            this.emit('balanceUpdated', balanceUpdate);
+
             // Start tracking if WebSocket is ready
             if (liveBalanceTracker.isReady()) {
               liveBalanceTracker.trackWallet(wallet, [tokenAddress]).catch(error => {
@@ -374,7 +453,8 @@ class BalanceCacheManager extends EventEmitter {
       trackedWallets,
       totalTokens,
       cacheSize: JSON.stringify(this.cache).length,
-      isReconciling: this.reconciliationInterval !== null
+      isReconciling: this.reconciliationInterval !== null,
+      ...reorgDetector.getStatus()
     };
   }
 
@@ -0,0 +1,356 @@
+/**
+ * Balance Strategy Service
+ * Runs the different ways we have of finding a wallet's token balances as a single pipeline,
+ * merging what each one finds and recording which source produced every balance
+ */
+
+import { ethers } from 'ethers';
+import { ProcessedToken } from '../types';
+import { executeWithFailover } from './rpc-provider';
+import { fetchTokenBalancesFromScanner, scanRecentBlocks } from './scanner-balance-service';
+import { calculateBalancesFromTransferHistory } from './transfer-history-service';
+import { getTokenPricesFromDexScreener } from './dexscreener';
+
+const WPLS_ADDRESS = '0xa1077a294dde1b09bb078844df40758a5d0f9a27';
+const NATIVE_ADDRESS = 'native';
+const DUST_THRESHOLD = 0.000001;
+const ONCHAIN_CONCURRENCY = 10;
+
+// Blacklisted tokens that cause issues
+const BLACKLISTED_TOKENS = new Set([
+  "0xd3ab6b7203c417c2b71c36aeade50020c1f6e41a" // ultlotto - causes astronomical values
+]);
+
+const ERC20_ABI = [
+  'function balanceOf(address) view returns (uint256)',
+  'function decimals() view returns (uint8)',
+  'function symbol() view returns (string)',
+  'function name() view returns (string)'
+];
+
+export const balanceStrategyNames = ['scanner', 'recent-blocks', 'transfer-history', 'onchain'] as const;
+export type BalanceStrategyName = typeof balanceStrategyNames[number];
+
+// Where a balance came from - the native PLS balance is always read straight from the RPC
+export type BalanceSource = BalanceStrategyName | 'rpc';
+
+// Named orders for the ?strategy= parameter
+export const BALANCE_STRATEGY_PRESETS: Record<string, BalanceStrategyName[]> = {
+  default: ['scanner', 'recent-blocks', 'onchain'],
+  fast: ['scanner'],
+  full: ['scanner', 'recent-blocks', 'transfer-history', 'onchain'],
+};
+
+/**
+ * A token found by a strategy. Discovery-only strategies (like the recent block scan) leave
+ * the balance unset so a later strategy can fill it in.
+ */
+export interface BalanceCandidate {
+  address: string;
+  symbol?: string;
+  name?: string;
+  decimals?: number;
+  balance?: string; // Raw units
+  logo?: string;
+  verified?: boolean;
+}
+
+// A token in the merged result, as seen by the strategies that run after the one that found it
+export interface MergedBalance extends BalanceCandidate {
+  sources: BalanceSource[];
+  balanceSource?: BalanceSource;
+}
+
+export interface BalanceStrategy {
+  name: BalanceStrategyName;
+  description: string;
+  // Balances from an authoritative strategy replace balances found earlier in the pipeline
+  authoritative: boolean;
+  fetch(walletAddress: string, found: ReadonlyMap<string, MergedBalance>): Promise<BalanceCandidate[]>;
+}
+
+export interface SourcedToken extends ProcessedToken {
+  sources: BalanceSource[];
+  balanceSource: BalanceSource;
+}
+
+export interface StrategyRunReport {
+  name: BalanceStrategyName;
+  tokenCount: number;
+  durationMs: number;
+  error?: string;
+}
+
+export interface ComposedBalances {
+  address: string;
+  tokens: SourcedToken[];
+  totalValue: number;
+  plsBalance: number | null;
+  plsPriceChange: number | null;
+  strategies: StrategyRunReport[];
+  // Tokens a discovery strategy found but nothing later could put a balance on
+  unresolvedCount: number;
+}
+
+const scannerStrategy: BalanceStrategy = {
+  name: 'scanner',
+  description: 'Token balances indexed by the PulseChain Scan API',
+  authoritative: false,
+  async fetch(walletAddress) {
+    const balances = await fetchTokenBalancesFromScanner(walletAddress);
+    return Array.from(balances.values()).map((item) => ({
+      address: item.token.address.toLowerCase(),
+      symbol: item.token.symbol,
+      name: item.token.name,
+      decimals: parseInt(item.token.decimals),
+      balance: item.value,
+      verified: item.token.type === 'verified',
+    }));
+  },
+};
+
+const recentBlocksStrategy: BalanceStrategy = {
+  name: 'recent-blocks',
+  description: 'Tokens transferred in recent blocks that the scanner may not have indexed yet',
+  authoritative: false,
+  async fetch(walletAddress) {
+    const tokenAddresses = await scanRecentBlocks(walletAddress);
+    return Array.from(tokenAddresses).map((address) => ({ address }));
+  },
+};
+
+const transferHistoryStrategy: BalanceStrategy = {
+  name: 'transfer-history',
+  description: 'Balances reconstructed from every Transfer event since genesis',
+  authoritative: false,
+  async fetch(walletAddress) {
+    const tokens = await calculateBalancesFromTransferHistory(walletAddress);
+    return tokens.map((token) => ({
+      address: token.address.toLowerCase(),
+      symbol: token.symbol,
+      name: token.name,
+      decimals: token.decimals,
+      balance: token.balance,
+      logo: token.logo,
+    }));
+  },
+};
+
+const onchainStrategy: BalanceStrategy = {
+  name: 'onchain',
+  description: 'Current balanceOf for every token found so far',
+  authoritative: true,
+  async fetch(walletAddress, found) {
+    const tokens = Array.from(found.values()).filter((token) => token.address !== NATIVE_ADDRESS);
+    const results: BalanceCandidate[] = [];
+
+    for (let i = 0; i < tokens.length; i += ONCHAIN_CONCURRENCY) {
+      const batch = tokens.slice(i, i + ONCHAIN_CONCURRENCY);
+      const batchResults = await Promise.all(batch.map(async (token) => {
+        try {
+          return await executeWithFailover(async (provider) => {
+            const contract = new ethers.Contract(token.address, ERC20_ABI, provider);
+            const needsMetadata = token.symbol === undefined || token.decimals === undefined;
+
+            const [balance, decimals, symbol, name] = await Promise.all([
+              contract.balanceOf(walletAddress),
+              needsMetadata ? contract.decimals().catch(() => 18) : token.decimals,
+              needsMetadata ? contract.symbol().catch(() => 'UNKNOWN') : token.symbol,
+              needsMetadata ? contract.name().catch(() => 'Unknown Token') : token.name,
+            ]);
+
+            return { address: token.address, balance: balance.toString(), decimals, symbol, name };
+          });
+        } catch (error) {
+          console.error(`[Balance Strategy] balanceOf failed for ${token.address}:`, error);
+          return null;
+        }
+      }));
+
+      results.push(...batchResults.filter((result): result is NonNullable<typeof result> => result !== null));
+    }
+
+    return results;
+  },
+};
+
+/**
+ * Composes balance strategies into one pipeline. Strategies run in the requested order and each
+ * sees everything found before it, so discovery strategies can feed verification ones.
+ */
+export class BalanceComposer {
+  private strategies = new Map<BalanceStrategyName, BalanceStrategy>();
+
+  constructor(strategies: BalanceStrategy[]) {
+    strategies.forEach((strategy) => this.register(strategy));
+  }
+
+  register(strategy: BalanceStrategy) {
+    this.strategies.set(strategy.name, strategy);
+  }
+
+  /**
+   * Resolve a ?strategy= value - a preset name or a comma separated list of strategies.
+   * Returns null if any part of it is unknown.
+   */
+  resolveOrder(strategyParam?: string): BalanceStrategyName[] | null {
+    const value = (strategyParam || 'default').trim().toLowerCase();
+    if (BALANCE_STRATEGY_PRESETS[value]) {
+      return BALANCE_STRATEGY_PRESETS[value];
+    }
+
+    const names = value.split(',').map((name) => name.trim()).filter(Boolean);
+    if (names.length === 0 || names.some((name) => !this.strategies.has(name as BalanceStrategyName))) {
+      return null;
+    }
+
+    return Array.from(new Set(names)) as BalanceStrategyName[];
+  }
+
+  /**
+   * Run the strategies in order and merge their results into a single priced token list
+   */
+  async compose(
+    walletAddress: string,
+    order: BalanceStrategyName[],
+    options: { prices?: boolean } = {}
+  ): Promise<ComposedBalances> {
+    const { prices = true } = options;
+    const found = new Map<string, MergedBalance>();
+    const reports: StrategyRunReport[] = [];
+
+    // The native balance doesn't come from any token source, so it's always read directly
+    const plsBalance = await executeWithFailover(async (provider) => provider.getBalance(walletAddress));
+    if (plsBalance.gt(0)) {
+      found.set(NATIVE_ADDRESS, {
+        address: NATIVE_ADDRESS,
+        symbol: 'PLS',
+        name: 'PulseChain',
+        decimals: 18,
+        balance: plsBalance.toString(),
+        verified: true,
+        sources: ['rpc'],
+        balanceSource: 'rpc',
+      });
+    }
+
+    for (const name of order) {
+      const strategy = this.strategies.get(name);
+      if (!strategy) continue;
+
+      const startTime = Date.now();
+      try {
+        const candidates = await strategy.fetch(walletAddress, found);
+        candidates.forEach((candidate) => this.merge(found, candidate, strategy));
+        reports.push({ name, tokenCount: candidates.length, durationMs: Date.now() - startTime });
+      } catch (error) {
+        // One source failing shouldn't sink the others
+        console.error(`[Balance Strategy] ${name} failed for ${walletAddress}:`, error);
+        reports.push({
+          name,
+          tokenCount: 0,
+          durationMs: Date.now() - startTime,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    const merged = Array.from(found.values());
+    const resolved = merged.filter((token) => token.balance !== undefined && token.balanceSource !== undefined);
+    let tokens = resolved
+      .map((token) => this.toSourcedToken(token))
+      .filter((token) => token.balanceFormatted >= DUST_THRESHOLD);
+
+    if (prices) {
+      tokens = await this.applyPrices(tokens);
+    }
+
+    tokens.sort((a, b) => (b.value || 0) - (a.value || 0));
+
+    const plsToken = tokens.find((token) => token.isNative);
+    return {
+      address: walletAddress,
+      tokens,
+      totalValue: tokens.reduce((sum, token) => sum + (token.value || 0), 0),
+      plsBalance: plsToken ? plsToken.balanceFormatted : null,
+      plsPriceChange: plsToken?.priceChange24h ?? null,
+      strategies: reports,
+      unresolvedCount: merged.length - resolved.length,
+    };
+  }
+
+  private merge(found: Map<string, MergedBalance>, candidate: BalanceCandidate, strategy: BalanceStrategy) {
+    const address = candidate.address.toLowerCase();
+    if (BLACKLISTED_TOKENS.has(address)) {
+      return;
+    }
+
+    const existing = found.get(address);
+    if (!existing) {
+      found.set(address, {
+        ...candidate,
+        address,
+        sources: [strategy.name],
+        balanceSource: candidate.balance !== undefined ? strategy.name : undefined,
+      });
+      return;
+    }
+
+    if (!existing.sources.includes(strategy.name)) {
+      existing.sources.push(strategy.name);
+    }
+
+    // Fill in metadata we didn't have yet
+    existing.symbol = existing.symbol ?? candidate.symbol;
+    existing.name = existing.name ?? candidate.name;
+    existing.decimals = existing.decimals ?? candidate.decimals;
+    existing.logo = existing.logo ?? candidate.logo;
+    existing.verified = existing.verified ?? candidate.verified;
+
+    // The first balance found wins unless a later strategy is authoritative
+    if (candidate.balance !== undefined && (existing.balance === undefined || strategy.authoritative)) {
+      existing.balance = candidate.balance;
+      existing.balanceSource = strategy.name;
+    }
+  }
+
+  private toSourcedToken(token: MergedBalance): SourcedToken {
+    const decimals = token.decimals ?? 18;
+    const isNative = token.address === NATIVE_ADDRESS;
+
+    return {
+      address: token.address,
+      symbol: token.symbol || 'UNKNOWN',
+      name: token.name || 'Unknown Token',
+      decimals,
+      balance: token.balance!,
+      balanceFormatted: parseFloat(ethers.utils.formatUnits(token.balance!, decimals)),
+      logo: token.logo,
+      verified: token.verified,
+      ...(isNative ? { isNative: true } : {}),
+      sources: token.sources,
+      balanceSource: token.balanceSource!,
+    };
+  }
+
+  private async applyPrices(tokens: SourcedToken[]): Promise<SourcedToken[]> {
+    // Native PLS is priced as WPLS
+    const priceAddresses = tokens.map((token) => token.isNative ? WPLS_ADDRESS : token.address);
+    const prices = await getTokenPricesFromDexScreener(Array.from(new Set(priceAddresses)));
+
+    return tokens.map((token) => {
+      const price = prices[token.isNative ? WPLS_ADDRESS : token.address.toLowerCase()];
+      return price !== undefined
+        ? { ...token, price, value: token.balanceFormatted * price }
+        : token;
+    });
+  }
+}
+
+// Export singleton instance
+export const balanceComposer = new BalanceComposer([
+  scannerStrategy,
+  recentBlocksStrategy,
+  transferHistoryStrategy,
+  onchainStrategy,
+]);
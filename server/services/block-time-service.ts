@@ -0,0 +1,74 @@
+/**
+ * Block Time Service
+ * Maps dates to block numbers, so historical views can be asked for "as of Dec 31" rather
+ * than a block height
+ */
+
+import { executeWithFailover } from './rpc-provider';
+
+// Block timestamps never change once a block is final, so they're kept for the process lifetime
+// up to this many entries
+const MAX_CACHED_TIMESTAMPS = 10000;
+
+class BlockTimeService {
+  private timestamps = new Map<number, number>();
+
+  /**
+   * Unix timestamp (seconds) of a block
+   */
+  async getBlockTimestamp(blockNumber: number): Promise<number> {
+    const cached = this.timestamps.get(blockNumber);
+    if (cached !== undefined) return cached;
+
+    const block = await executeWithFailover(provider => provider.getBlock(blockNumber));
+    if (!block) {
+      throw new Error(`Block ${blockNumber} not found`);
+    }
+
+    if (this.timestamps.size >= MAX_CACHED_TIMESTAMPS) {
+      this.timestamps.clear();
+    }
+    this.timestamps.set(blockNumber, block.timestamp);
+    return block.timestamp;
+  }
+
+  /**
+   * Unix timestamp (seconds) of the first block - no earlier moment maps to a block
+   */
+  async getGenesisTimestamp(): Promise<number> {
+    return this.getBlockTimestamp(0);
+  }
+
+  /**
+   * The last block mined at or before a unix timestamp (seconds), found by binary search over
+   * block timestamps. A timestamp in the future resolves to the current head.
+   */
+  async findBlockByTimestamp(timestamp: number): Promise<{ blockNumber: number; timestamp: number }> {
+    const head = await executeWithFailover(provider => provider.getBlock('latest'));
+    if (timestamp >= head.timestamp) {
+      return { blockNumber: head.number, timestamp: head.timestamp };
+    }
+
+    const genesisTimestamp = await this.getGenesisTimestamp();
+    if (timestamp < genesisTimestamp) {
+      throw new Error(`${new Date(timestamp * 1000).toISOString()} is before the first block`);
+    }
+
+    // Invariant: block `low` was mined at or before the timestamp, block `high` after it
+    let low = 0;
+    let high = head.number;
+    while (high - low > 1) {
+      const middle = Math.floor((low + high) / 2);
+      if (await this.getBlockTimestamp(middle) <= timestamp) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+
+    return { blockNumber: low, timestamp: await this.getBlockTimestamp(low) };
+  }
+}
+
+// Export singleton instance
+export const blockTimeService = new BlockTimeService();
@@ -2,6 +2,7 @@ import { ethers } from 'ethers';
 import { ProcessedToken } from '../types';
 import { getTokenPrice } from './api';
 import { getProvider, executeWithFailover } from './rpc-provider';
+import { multicall } from './multicall-service';
 
 
 // Standard ERC20 ABI
@@ -16,6 +17,8 @@ const ERC20_ABI = [
   {"constant":true,"inputs":[{"name":"_owner","type":"address"}],"name":"balanceOf","outputs":[{"name":"balance","type":"uint256"}],"payable":false,"stateMutability":"view","type":"function"}
 ];
 
+const erc20Interface = new ethers.utils.Interface(ERC20_ABI);
+
 // Native PLS constants
 const PLS_DECIMALS = 18;
 const PLS_TOKEN_ADDRESS = '0x0000000000000000000000000000000000000000';
@@ -44,40 +47,16 @@ export function getDefaultLogo(symbol: string | null | undefined): string | null
 }
 
 /**
- * Call a contract function using ethers.js with failover support
+ * Call a contract function through the shared Multicall3 aggregator, so reads made in the same
+ * tick go to the RPC as a single batch
  */
 async function callContractFunction<T>(
   contractAddress: string,
-  abi: any[],
+  contractInterface: ethers.utils.Interface,
   functionName: string,
   params: any[] = []
 ): Promise<T | null> {
-  try {
-    return await executeWithFailover(async (provider) => {
-      // Create a contract instance
-      const contract = new ethers.Contract(contractAddress, abi, provider);
-      
-      // Add timeout to prevent hanging on bad contracts
-      const timeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Contract call timeout')), 5000)
-      );
-      
-      // Call the function with timeout
-      const result = await Promise.race([
-        contract[functionName](...params),
-        timeoutPromise
-      ]) as T;
-      
-      return result;
-    });
-  } catch (error: any) {
-    // Only log errors that aren't expected (execution reverted is expected for non-LP tokens)
-    if (!error.message?.includes('execution reverted') && 
-        !error.message?.includes('Contract call timeout')) {
-      console.error(`Error calling ${functionName} on ${contractAddress}:`, error.message);
-    }
-    return null;
-  }
+  return multicall.callFunction<T>(contractInterface, contractAddress, functionName, params);
 }
 
 /**
@@ -112,115 +91,113 @@ export async function getNativePlsBalanceFromChain(walletAddress: string): Promi
 }
 
 /**
- * Get token balance directly from the blockchain
+ * Read a token's balance and metadata from the blockchain, without pricing it
  */
-export async function getTokenBalanceFromChain(walletAddress: string, tokenAddress: string): Promise<ProcessedToken | null> {
+async function readTokenBalanceFromChain(walletAddress: string, tokenAddress: string): Promise<ProcessedToken | null> {
+  // All four reads are batched into the same multicall, so there's no saving in checking the balance first
+  const [balance, decimals, symbol, name] = await Promise.all([
+    callContractFunction<ethers.BigNumber>(tokenAddress, erc20Interface, 'balanceOf', [walletAddress]),
+    callContractFunction<number>(tokenAddress, erc20Interface, 'decimals'),
+    callContractFunction<string>(tokenAddress, erc20Interface, 'symbol'),
+    callContractFunction<string>(tokenAddress, erc20Interface, 'name')
+  ]);
+  
+  if (balance === null) {
+    console.log(`Could not get balance for token ${tokenAddress}`);
+    return null;
+  }
+  
+  // Skip token if balance is zero
+  if (balance.isZero()) {
+    return null;
+  }
+  
+  if (decimals === null || symbol === null || name === null) {
+    console.log(`Could not get metadata for token ${tokenAddress}`);
+    return null;
+  }
+  
+  // Calculate formatted balance
+  const balanceFormatted = parseFloat(ethers.utils.formatUnits(balance, decimals));
+  
+  // If balance after formatting is too small (dust), skip it
+  const DUST_THRESHOLD = 0.000001; // Adjust as needed
+  if (balanceFormatted < DUST_THRESHOLD) {
+    console.log(`Dust balance (${balanceFormatted}) for token ${tokenAddress}, skipping`);
+    return null;
+  }
+  
+  console.log(`Got balance for ${symbol}: ${balanceFormatted}`);
+  
+  return {
+    address: tokenAddress,
+    symbol,
+    name,
+    decimals,
+    balance: balance.toString(),
+    balanceFormatted,
+    logo: getDefaultLogo(symbol) || undefined,
+    verified: false // We don't have verification status when querying directly
+  };
+}
+
+/**
+ * Add price data to a token read from the blockchain
+ */
+async function addTokenPrice(token: ProcessedToken): Promise<ProcessedToken> {
+  const { address: tokenAddress, symbol, balanceFormatted } = token;
+  
+  // Try to get price data using multiple methods
+  let price: number | undefined = undefined;
+  let priceChange24h: number | undefined = undefined;
+  let exchange: string | undefined = undefined;
+  
   try {
-    console.log(`Fetching token balance for ${tokenAddress} in wallet ${walletAddress} directly from blockchain`);
-    
-    // Get token balance first - if it's zero, we can skip the rest
-    const balance = await callContractFunction<ethers.BigNumber>(
-      tokenAddress, 
-      ERC20_ABI, 
-      'balanceOf',
-      [walletAddress]
-    );
-    
-    if (balance === null) {
-      console.log(`Could not get balance for token ${tokenAddress}`);
-      return null;
-    }
-    
-    // Skip token if balance is zero
-    if (balance.isZero()) {
-      console.log(`Zero balance for token ${tokenAddress}`);
-      return null;
-    }
-    
-    // Get token decimals
-    const decimals = await callContractFunction<number>(tokenAddress, ERC20_ABI, 'decimals');
-    if (decimals === null) {
-      console.log(`Could not get decimals for token ${tokenAddress}`);
-      return null;
-    }
-    
-    // Calculate formatted balance
-    const balanceString = balance.toString();
-    const balanceFormatted = parseFloat(ethers.utils.formatUnits(balance, decimals));
-    
-    // If balance after formatting is too small (dust), skip it
-    const DUST_THRESHOLD = 0.000001; // Adjust as needed
-    if (balanceFormatted < DUST_THRESHOLD) {
-      console.log(`Dust balance (${balanceFormatted}) for token ${tokenAddress}, skipping`);
-      return null;
-    }
-    
-    // Get token symbol
-    const symbol = await callContractFunction<string>(tokenAddress, ERC20_ABI, 'symbol');
-    if (symbol === null) {
-      console.log(`Could not get symbol for token ${tokenAddress}`);
-      return null;
-    }
-    
-    // Get token name
-    const name = await callContractFunction<string>(tokenAddress, ERC20_ABI, 'name');
-    if (name === null) {
-      console.log(`Could not get name for token ${tokenAddress}`);
-      return null;
-    }
-    
-    console.log(`Got balance for ${symbol}: ${balanceFormatted}`);
-    
-    // Try to get price data using multiple methods
-    let price: number | undefined = undefined;
-    let value: number | undefined = undefined;
-    let priceChange24h: number | undefined = undefined;
-    let exchange: string | undefined = undefined;
-    
-    try {
-      // First try getting price from Moralis
-      const priceData = await getTokenPrice(tokenAddress);
-      if (priceData && priceData.usdPrice && priceData.usdPrice > 0) {
-        price = priceData.usdPrice;
-        value = price * balanceFormatted;
-        priceChange24h = priceData.usdPrice24hrPercentChange || 0;
-        exchange = priceData.exchangeName || 'Unknown';
-        console.log(`Got price for ${symbol} from Moralis: $${price}`);
-      } else {
-        // If Moralis doesn't have a price, try to get from DexScreener
-        try {
-          const dexScreenerData: any = await fetch(`/api/token-price-dexscreener/${tokenAddress}`).then(r => r.json());
-          if (dexScreenerData && dexScreenerData.usdPrice && dexScreenerData.usdPrice > 0) {
-            const dexPrice = dexScreenerData.usdPrice;
-            price = dexPrice;
-            value = dexPrice * balanceFormatted;
-            priceChange24h = dexScreenerData.usdPrice24hrPercentChange || 0;
-            exchange = dexScreenerData.exchangeName || 'DexScreener';
-            console.log(`Got price for ${symbol} from DexScreener: $${dexPrice}`);
-          }
-        } catch (dexError) {
-          console.log(`Could not get price from DexScreener for ${tokenAddress}`);
+    // First try getting price from Moralis
+    const priceData = await getTokenPrice(tokenAddress);
+    if (priceData && priceData.usdPrice && priceData.usdPrice > 0) {
+      price = priceData.usdPrice;
+      priceChange24h = priceData.usdPrice24hrPercentChange || 0;
+      exchange = priceData.exchangeName || 'Unknown';
+      console.log(`Got price for ${symbol} from Moralis: $${price}`);
+    } else {
+      // If Moralis doesn't have a price, try to get from DexScreener
+      try {
+        const dexScreenerData: any = await fetch(`/api/token-price-dexscreener/${tokenAddress}`).then(r => r.json());
+        if (dexScreenerData && dexScreenerData.usdPrice && dexScreenerData.usdPrice > 0) {
+          const dexPrice = dexScreenerData.usdPrice;
+          price = dexPrice;
+          priceChange24h = dexScreenerData.usdPrice24hrPercentChange || 0;
+          exchange = dexScreenerData.exchangeName || 'DexScreener';
+          console.log(`Got price for ${symbol} from DexScreener: $${dexPrice}`);
         }
+      } catch (dexError) {
+        console.log(`Could not get price from DexScreener for ${tokenAddress}`);
       }
-    } catch (priceError: any) {
-      console.log(`Could not get price for token ${tokenAddress}: ${priceError.message || "Unknown error"}`);
     }
+  } catch (priceError: any) {
+    console.log(`Could not get price for token ${tokenAddress}: ${priceError.message || "Unknown error"}`);
+  }
+  
+  // Even if we couldn't get a price, still return the token with the balance
+  return {
+    ...token,
+    price,
+    value: price && price > 0 ? price * balanceFormatted : 0,
+    priceChange24h,
+    exchange
+  };
+}
+
+/**
+ * Get token balance directly from the blockchain
+ */
+export async function getTokenBalanceFromChain(walletAddress: string, tokenAddress: string): Promise<ProcessedToken | null> {
+  try {
+    console.log(`Fetching token balance for ${tokenAddress} in wallet ${walletAddress} directly from blockchain`);
     
-    // Even if we couldn't get a price, still return the token with the balance
-    return {
-      address: tokenAddress,
-      symbol,
-      name,
-      decimals,
-      balance: balanceString,
-      balanceFormatted,
-      price,
-      value: price && price > 0 ? price * balanceFormatted : 0,
-      priceChange24h,
-      logo: getDefaultLogo(symbol) || undefined,
-      exchange,
-      verified: false // We don't have verification status when querying directly
-    };
+    const token = await readTokenBalanceFromChain(walletAddress, tokenAddress);
+    return token ? await addTokenPrice(token) : null;
   } catch (error) {
     console.error(`Error fetching token balance for ${tokenAddress}:`, error);
     return null;
@@ -236,36 +213,32 @@ export async function batchGetTokenBalancesFromChain(
   batchSize = 5,
   delayMs = 300
 ): Promise<ProcessedToken[]> {
+  console.log(`Reading ${tokenAddresses.length} token balances through multicall`);
+  
+  // Reads for every token are coalesced into a handful of multicalls, so they can all go at once
+  const readResults = await Promise.all(
+    tokenAddresses.map(tokenAddress =>
+      readTokenBalanceFromChain(walletAddress, tokenAddress).catch(error => {
+        console.error(`Error fetching token balance for ${tokenAddress}:`, error);
+        return null;
+      })
+    )
+  );
+  const heldTokens = readResults.filter((token): token is ProcessedToken => token !== null);
+  
   const tokens: ProcessedToken[] = [];
-  const totalBatches = Math.ceil(tokenAddresses.length / batchSize);
+  const totalBatches = Math.ceil(heldTokens.length / batchSize);
   
-  console.log(`Processing ${tokenAddresses.length} tokens in ${totalBatches} batches`);
+  console.log(`Pricing ${heldTokens.length} held tokens in ${totalBatches} batches`);
   
-  // Process tokens in batches to avoid overloading the RPC
-  for (let i = 0; i < tokenAddresses.length; i += batchSize) {
-    const batch = tokenAddresses.slice(i, i + batchSize);
-    const currentBatch = Math.floor(i / batchSize) + 1;
-    
-    console.log(`Processing batch ${currentBatch}/${totalBatches}`);
-    // Silent loading - no progress updates
-    
-    // Process tokens in parallel within the batch
-    const batchPromises = batch.map(tokenAddress => 
-      getTokenBalanceFromChain(walletAddress, tokenAddress)
-    );
-    
-    // Wait for all promises in this batch
-    const batchResults = await Promise.all(batchPromises);
-    
-    // Filter out null results and add valid tokens
-    for (const token of batchResults) {
-      if (token) {
-        tokens.push(token);
-      }
-    }
+  // Price lookups still go to external APIs, so keep batching those
+  for (let i = 0; i < heldTokens.length; i += batchSize) {
+    const batch = heldTokens.slice(i, i + batchSize);
+    const batchResults = await Promise.all(batch.map(token => addTokenPrice(token)));
+    tokens.push(...batchResults);
     
     // Add a delay between batches
-    if (i + batchSize < tokenAddresses.length) {
+    if (i + batchSize < heldTokens.length) {
       await new Promise(resolve => setTimeout(resolve, delayMs));
     }
   }
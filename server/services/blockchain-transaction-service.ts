@@ -1,8 +1,6 @@
 import { providers, utils, Contract, BigNumber } from 'ethers';
 import { Transaction, TransactionTransfer } from '../types';
-
-// Initialize provider
-const provider = new providers.JsonRpcProvider('https://rpc-pulsechain.g4mm4.io');
+import { getProvider } from './rpc-provider';
 
 // ERC20 Transfer event signature
 const TRANSFER_EVENT_SIGNATURE = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
@@ -18,6 +16,7 @@ export async function fetchTransactionsFromBlockchain(
   limit: number = 100,
   startBlock?: number
 ): Promise<{ transactions: Transaction[]; lastBlock: number; hasMore: boolean }> {
+  const provider = getProvider();
   try {
     const wallet = walletAddress.toLowerCase();
     const transactions: Transaction[] = [];
@@ -186,6 +185,7 @@ export async function fetchTokenMetadata(tokenAddress: string): Promise<{
   symbol: string;
   decimals: number;
 } | null> {
+  const provider = getProvider();
   try {
     const tokenContract = new Contract(
       tokenAddress,
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../storage", () => ({ storage: {} }));
+vi.mock("./scanner-transaction-service", () => ({ getFullScannerTransactionHistory: vi.fn() }));
+vi.mock("./smart-contract-price-service", () => ({
+  WPLS_ADDRESS: "0xa1077a294dde1b09bb078844df40758a5d0f9a27",
+  getTokenPriceAtBlock: vi.fn(),
+  getMultipleTokenPricesFromContract: vi.fn(),
+}));
+
+const { computeCostBasis } = await import("./cost-basis-service");
+
+type Entry = Parameters<typeof computeCostBasis>[0][number];
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+const OTHER_WALLET = "0x2222222222222222222222222222222222222222";
+const DEX = "0x165c3410fc91ef562c50559f7d2289febed552d9";
+const HEX = "0x2b591e99afe9f32eaa6214f7b7629768c40eeb39";
+
+let blockNumber = 0;
+function entry(side: Entry["side"], quantity: number, valueUsd: number | null, overrides: Partial<Entry> = {}): Entry {
+  blockNumber++;
+  return {
+    wallet: WALLET,
+    tokenAddress: HEX,
+    symbol: "HEX",
+    side,
+    quantity,
+    counterparty: DEX,
+    blockNumber,
+    txHash: `0x${blockNumber.toString(16).padStart(64, "0")}`,
+    valueUsd,
+    ...overrides,
+  };
+}
+
+function position(entries: Entry[], method: Parameters<typeof computeCostBasis>[1], wallet = WALLET) {
+  return computeCostBasis(entries, method, new Set([WALLET, OTHER_WALLET])).get(wallet)?.get(HEX);
+}
+
+describe("computeCostBasis", () => {
+  // 10 bought at $1, 10 more at $3, then 15 sold for $60
+  const partialSale = () => [
+    entry("acquire", 10, 10),
+    entry("acquire", 10, 30),
+    entry("dispose", 15, 60),
+  ];
+
+  it("sells the oldest lots first with FIFO, splitting the second", () => {
+    const result = position(partialSale(), "fifo");
+    expect(result?.realizedPnl).toBeCloseTo(60 - (10 * 1 + 5 * 3));
+    expect(result?.lots).toEqual([{ quantity: 5, unitCost: 3 }]);
+    expect(result?.incomplete).toBe(false);
+  });
+
+  it("sells the newest lots first with LIFO, splitting the first", () => {
+    const result = position(partialSale(), "lifo");
+    expect(result?.realizedPnl).toBeCloseTo(60 - (10 * 3 + 5 * 1));
+    expect(result?.lots).toEqual([{ quantity: 5, unitCost: 1 }]);
+  });
+
+  it("pools every lot at one unit cost with average", () => {
+    const result = position(partialSale(), "average");
+    expect(result?.realizedPnl).toBeCloseTo(60 - 15 * 2);
+    expect(result?.lots).toEqual([{ quantity: 5, unitCost: 2 }]);
+  });
+
+  it.each(["fifo", "lifo", "average"] as const)("counts the part of a disposal beyond the holdings at zero cost with %s", (method) => {
+    const result = position([entry("acquire", 10, 10), entry("dispose", 15, 30)], method);
+    expect(result?.realizedPnl).toBeCloseTo(30 - 10);
+    expect(result?.lots).toEqual([]);
+    expect(result?.incomplete).toBe(true);
+  });
+
+  it("marks a position with an unpriced acquisition as incomplete", () => {
+    const result = position([entry("acquire", 10, null), entry("dispose", 5, 10)], "fifo");
+    expect(result?.incomplete).toBe(true);
+  });
+
+  it("carries the cost basis across a move to another wallet in the group", () => {
+    const entries = [
+      entry("acquire", 10, 10),
+      entry("dispose", 10, 50, { counterparty: OTHER_WALLET }),
+      entry("acquire", 10, 50, { wallet: OTHER_WALLET, counterparty: WALLET }),
+      entry("dispose", 10, 40, { wallet: OTHER_WALLET }),
+    ];
+
+    expect(position(entries, "fifo")?.realizedPnl).toBe(0);
+    expect(position(entries, "fifo", OTHER_WALLET)?.realizedPnl).toBeCloseTo(40 - 10);
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * Cost Basis Service
+ * Replays a wallet's transaction history as acquisitions and disposals, prices each one at the
+ * block it happened in, and matches them up FIFO, LIFO or at average cost to give the cost basis
+ * and realized/unrealized profit per token. Moves to other wallets in the same portfolio carry
+ * their cost basis across instead of counting as disposals
+ */
+
+import { ethers } from 'ethers';
+import type { Transaction } from '../types';
+import type { CostBasisMethod, CostBasisReport, TokenCostBasis } from '@shared/cost-basis';
+import { getTransactionType, getTransferDirection } from '@shared/transaction-type';
+import { storage } from '../storage';
+import { getFullScannerTransactionHistory } from './scanner-transaction-service';
+import { getTokenPriceAtBlock, getMultipleTokenPricesFromContract, WPLS_ADDRESS } from './smart-contract-price-service';
+
+const PLS_TOKEN_ADDRESS = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+const MAX_TRANSACTIONS = 2000;
+const PRICE_LOOKUP_BATCH_SIZE = 10;
+// Replaying and pricing the history is slow, so the priced ledger is reused across methods
+// and requests for a while
+const LEDGER_TTL_MS = 10 * 60 * 1000;
+
+interface Leg {
+  tokenAddress: string;
+  symbol: string;
+  side: 'acquire' | 'dispose';
+  quantity: number;
+  // The other side of the movement
+  counterparty: string;
+}
+
+interface LedgerEntry extends Leg {
+  blockNumber: number;
+  txHash: string;
+  // USD value of the quantity at the time, null if it couldn't be priced
+  valueUsd: number | null;
+}
+
+interface WalletLedgerEntry extends LedgerEntry {
+  wallet: string;
+}
+
+interface Ledger {
+  entries: LedgerEntry[];
+  transactionCount: number;
+}
+
+interface Lot {
+  quantity: number;
+  unitCost: number;
+}
+
+interface Position {
+  symbol: string;
+  lots: Lot[];
+  realizedPnl: number;
+  incomplete: boolean;
+}
+
+// The price of native PLS is the price of WPLS
+function priceAddressFor(tokenAddress: string): string {
+  return tokenAddress === PLS_TOKEN_ADDRESS ? WPLS_ADDRESS : tokenAddress;
+}
+
+function toQuantity(value: string | undefined, decimals: number): number {
+  try {
+    return parseFloat(ethers.utils.formatUnits(value || '0', decimals));
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * The token movements in and out of the wallet in one transaction
+ */
+function getLegs(tx: Transaction, walletAddress: string): Leg[] {
+  const legs: Leg[] = [];
+  const wallet = walletAddress.toLowerCase();
+
+  for (const transfer of tx.erc20_transfers || []) {
+    const direction = getTransferDirection(transfer, wallet);
+    if (direction === 'internal' || !transfer.address) continue;
+
+    const quantity = toQuantity(transfer.value, parseInt(transfer.token_decimals || '18'));
+    if (quantity <= 0) continue;
+
+    legs.push({
+      tokenAddress: transfer.address.toLowerCase(),
+      symbol: transfer.token_symbol || 'UNKNOWN',
+      side: direction === 'receive' ? 'acquire' : 'dispose',
+      quantity,
+      counterparty: (direction === 'receive' ? transfer.from_address : transfer.to_address)?.toLowerCase() || '',
+    });
+  }
+
+  // PLS sent with the transaction itself, plus any internal PLS transfers the source reported
+  const nativeMovements = [
+    { from_address: tx.from_address, to_address: tx.to_address, value: tx.value },
+    ...(tx.native_transfers || []),
+  ];
+  for (const movement of nativeMovements) {
+    const direction = getTransferDirection(movement, wallet);
+    if (direction === 'internal') continue;
+
+    const quantity = toQuantity(movement.value, 18);
+    if (quantity <= 0) continue;
+
+    legs.push({
+      tokenAddress: PLS_TOKEN_ADDRESS,
+      symbol: 'PLS',
+      side: direction === 'receive' ? 'acquire' : 'dispose',
+      quantity,
+      counterparty: (direction === 'receive' ? movement.from_address : movement.to_address)?.toLowerCase() || '',
+    });
+  }
+
+  return legs;
+}
+
+function addLot(position: Position, lot: Lot, method: CostBasisMethod) {
+  if (method === 'average' && position.lots.length > 0) {
+    // Average cost keeps a single pooled lot
+    const pooled = position.lots[0];
+    const totalQuantity = pooled.quantity + lot.quantity;
+    pooled.unitCost = (pooled.quantity * pooled.unitCost + lot.quantity * lot.unitCost) / totalQuantity;
+    pooled.quantity = totalQuantity;
+  } else {
+    position.lots.push(lot);
+  }
+}
+
+/**
+ * Take a quantity out of a position's lots in the order the method says, returning what was
+ * taken and how much couldn't be matched
+ */
+function takeLots(position: Position, quantity: number, method: CostBasisMethod): { taken: Lot[]; remaining: number } {
+  // Float dust left over from partial lots shouldn't count as an unmatched disposal
+  const epsilon = quantity * 1e-9;
+  const taken: Lot[] = [];
+  let remaining = quantity;
+  while (remaining > epsilon && position.lots.length > 0) {
+    const lot = method === 'lifo' ? position.lots[position.lots.length - 1] : position.lots[0];
+    const amount = Math.min(remaining, lot.quantity);
+    taken.push({ quantity: amount, unitCost: lot.unitCost });
+    lot.quantity -= amount;
+    remaining -= amount;
+
+    if (lot.quantity <= epsilon) {
+      if (method === 'lifo') position.lots.pop();
+      else position.lots.shift();
+    }
+  }
+
+  return { taken, remaining: remaining > epsilon ? remaining : 0 };
+}
+
+/**
+ * Match disposals against acquisitions for every token in every wallet of the group. Movements
+ * between wallets in the group hand the sender's lots to the receiver at their original cost
+ */
+export function computeCostBasis(entries: WalletLedgerEntry[], method: CostBasisMethod, wallets: Set<string>) {
+  const positions = new Map<string, Map<string, Position>>();
+  const getPosition = (wallet: string, tokenAddress: string, symbol: string) => {
+    let walletPositions = positions.get(wallet);
+    if (!walletPositions) {
+      walletPositions = new Map();
+      positions.set(wallet, walletPositions);
+    }
+    let position = walletPositions.get(tokenAddress);
+    if (!position) {
+      position = { symbol, lots: [], realizedPnl: 0, incomplete: false };
+      walletPositions.set(tokenAddress, position);
+    }
+    return position;
+  };
+
+  for (const entry of entries) {
+    const isInternal = wallets.has(entry.counterparty);
+
+    // The lots arrive with the sender's side of the move
+    if (isInternal && entry.side === 'acquire') continue;
+
+    const position = getPosition(entry.wallet, entry.tokenAddress, entry.symbol);
+
+    if (entry.side === 'acquire') {
+      if (entry.valueUsd === null) position.incomplete = true;
+      addLot(position, { quantity: entry.quantity, unitCost: (entry.valueUsd ?? 0) / entry.quantity }, method);
+      continue;
+    }
+
+    const { taken, remaining } = takeLots(position, entry.quantity, method);
+
+    // Disposed of more than the history shows coming in - the rest is treated as zero cost
+    if (remaining > 0) position.incomplete = true;
+
+    if (isInternal) {
+      const receiving = getPosition(entry.counterparty, entry.tokenAddress, entry.symbol);
+      taken.forEach(lot => addLot(receiving, lot, method));
+      if (remaining > 0) {
+        addLot(receiving, { quantity: remaining, unitCost: 0 }, method);
+        receiving.incomplete = true;
+      }
+      if (position.incomplete) receiving.incomplete = true;
+      continue;
+    }
+
+    if (entry.valueUsd === null) {
+      position.incomplete = true;
+    } else {
+      const cost = taken.reduce((sum, lot) => sum + lot.quantity * lot.unitCost, 0);
+      position.realizedPnl += entry.valueUsd - cost;
+    }
+  }
+
+  return positions;
+}
+
+export class CostBasisService {
+  private ledgers = new Map<string, { ledger: Ledger; expiresAt: number }>();
+  private building = new Map<string, Promise<Ledger>>();
+
+  /**
+   * Cost basis and profit/loss per token for a wallet. When the signed-in user is given, the
+   * other wallets in their portfolios with this one are treated as theirs too, so lots moved
+   * between them keep their cost.
+   */
+  async getCostBasis(walletAddress: string, method: CostBasisMethod, userId?: number): Promise<CostBasisReport> {
+    const normalizedAddress = walletAddress.toLowerCase();
+    const relatedWallets = userId !== undefined ? await storage.getRelatedWalletAddresses(normalizedAddress, userId) : [];
+    const wallets = [normalizedAddress, ...relatedWallets];
+
+    // Built one at a time - each build pages through a full history and prices it
+    const ledgers: Ledger[] = [];
+    for (const wallet of wallets) {
+      ledgers.push(await this.getLedger(wallet));
+    }
+
+    // Every wallet in the group is replayed together, oldest first, so lots moved between them
+    // are there by the time they're disposed of
+    const entries = ledgers
+      .flatMap((ledger, i) => ledger.entries.map(entry => ({ ...entry, wallet: wallets[i] })))
+      .sort((a, b) => a.blockNumber - b.blockNumber);
+
+    const positions = computeCostBasis(entries, method, new Set(wallets)).get(normalizedAddress) ?? new Map<string, Position>();
+
+    const priceAddresses = Array.from(new Set(Array.from(positions.keys()).map(priceAddressFor)));
+    const currentPrices = await getMultipleTokenPricesFromContract(priceAddresses);
+
+    const tokens: TokenCostBasis[] = [];
+    positions.forEach((position, tokenAddress) => {
+      const quantity = position.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+      const costBasis = position.lots.reduce((sum, lot) => sum + lot.quantity * lot.unitCost, 0);
+      if (quantity <= 0 && position.realizedPnl === 0) return;
+
+      const currentPrice = currentPrices.get(priceAddressFor(tokenAddress))?.price ?? null;
+      tokens.push({
+        tokenAddress,
+        symbol: position.symbol,
+        quantity,
+        costBasis,
+        averageCost: quantity > 0 ? costBasis / quantity : null,
+        currentPrice,
+        unrealizedPnl: currentPrice !== null ? quantity * currentPrice - costBasis : null,
+        realizedPnl: position.realizedPnl,
+        incomplete: position.incomplete,
+      });
+    });
+
+    tokens.sort((a, b) => b.costBasis - a.costBasis);
+
+    return {
+      address: normalizedAddress,
+      method,
+      tokens,
+      totals: {
+        costBasis: tokens.reduce((sum, token) => sum + token.costBasis, 0),
+        unrealizedPnl: tokens.reduce((sum, token) => sum + (token.unrealizedPnl ?? 0), 0),
+        realizedPnl: tokens.reduce((sum, token) => sum + token.realizedPnl, 0),
+      },
+      transactionCount: ledgers[0].transactionCount,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  private async getLedger(walletAddress: string): Promise<Ledger> {
+    const cached = this.ledgers.get(walletAddress);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.ledger;
+    }
+
+    // Concurrent requests for the same wallet share one build
+    let build = this.building.get(walletAddress);
+    if (!build) {
+      build = this.buildLedger(walletAddress).finally(() => this.building.delete(walletAddress));
+      this.building.set(walletAddress, build);
+    }
+
+    const ledger = await build;
+    if (this.ledgers.size >= 200) {
+      this.ledgers.clear();
+    }
+    this.ledgers.set(walletAddress, { ledger, expiresAt: Date.now() + LEDGER_TTL_MS });
+    return ledger;
+  }
+
+  /**
+   * Turn the wallet's history into priced acquisitions and disposals, oldest first
+   */
+  private async buildLedger(walletAddress: string): Promise<Ledger> {
+    const startTime = Date.now();
+    const transactions = (await getFullScannerTransactionHistory(walletAddress, MAX_TRANSACTIONS))
+      .filter(tx => tx.receipt_status === '1')
+      .sort((a, b) => parseInt(a.block_number) - parseInt(b.block_number));
+
+    const legsByTx = transactions.map(tx => ({ tx, legs: getLegs(tx, walletAddress) }));
+
+    // Look up each token's price once per block
+    const prices = new Map<string, number | null>();
+    const lookups = Array.from(new Set(legsByTx.flatMap(({ tx, legs }) =>
+      legs.map(leg => `${priceAddressFor(leg.tokenAddress)}@${tx.block_number}`)
+    )));
+    for (let i = 0; i < lookups.length; i += PRICE_LOOKUP_BATCH_SIZE) {
+      await Promise.all(lookups.slice(i, i + PRICE_LOOKUP_BATCH_SIZE).map(async (key) => {
+        const [tokenAddress, blockNumber] = key.split('@');
+        prices.set(key, await getTokenPriceAtBlock(tokenAddress, parseInt(blockNumber)).catch(() => null));
+      }));
+    }
+
+    const entries: LedgerEntry[] = [];
+    for (const { tx, legs } of legsByTx) {
+      if (legs.length === 0) continue;
+
+      const blockNumber = parseInt(tx.block_number);
+      const valueOf = (leg: Leg) => {
+        const price = prices.get(`${priceAddressFor(leg.tokenAddress)}@${tx.block_number}`);
+        return price != null ? leg.quantity * price : null;
+      };
+
+      // In a one-for-one swap both sides are worth the same, so whichever side could be priced
+      // values the other - this is what gives unlisted tokens a cost basis
+      const sent = legs.filter(leg => leg.side === 'dispose');
+      const received = legs.filter(leg => leg.side === 'acquire');
+      let tradeValue: number | null = null;
+      if (getTransactionType(tx, walletAddress) === 'swap' && sent.length === 1 && received.length === 1) {
+        tradeValue = valueOf(sent[0]) ?? valueOf(received[0]);
+      }
+
+      for (const leg of legs) {
+        entries.push({
+          ...leg,
+          blockNumber,
+          txHash: tx.hash,
+          valueUsd: tradeValue ?? valueOf(leg),
+        });
+      }
+    }
+
+    console.log(`[Cost Basis] Priced ${entries.length} movements from ${transactions.length} transactions for ${walletAddress} in ${Date.now() - startTime}ms`);
+    return { entries, transactionCount: transactions.length };
+  }
+}
+
+// Export singleton instance
+export const costBasisService = new CostBasisService();
@@ -7,6 +7,7 @@ import { isLiquidityPoolToken, processLpTokens } from './lp-token-service';
 import { updateLoadingProgress } from '../routes';
 import { getProvider, executeWithFailover } from './rpc-provider';
 import { getWalletBalancesFromPulseChainScan } from './dexscreener';
+import { transferIndexer } from './transfer-indexer-service';
 
 
 // Constants
@@ -45,12 +46,19 @@ async function getWalletTokens(walletAddress: string): Promise<Set<string>> {
       return await provider.getBlockNumber();
     });
     
-    // For much better performance, only look back 100k blocks (~10 days on PulseChain)
-    // This captures recent activity without taking forever to scan
+    // Indexed wallets know every token they ever held - only the blocks since the checkpoint
+    // need scanning. Otherwise, for much better performance, only look back 100k blocks
+    // (~10 days on PulseChain) to capture recent activity without taking forever to scan
     const BLOCK_LOOKBACK = 100000;
-    const fromBlock = Math.max(0, currentBlock - BLOCK_LOOKBACK);
+    const indexedBlock = transferIndexer.getIndexedBlock(normalizedAddress);
+    const indexedTokens = indexedBlock !== null
+      ? await transferIndexer.getTokenAddresses(normalizedAddress)
+      : new Set<string>();
+    const fromBlock = indexedBlock !== null
+      ? Math.min(indexedBlock + 1, currentBlock)
+      : Math.max(0, currentBlock - BLOCK_LOOKBACK);
     
-    console.log(`Scanning blocks ${fromBlock} to ${currentBlock} (last ${BLOCK_LOOKBACK} blocks)`);
+    console.log(`Scanning blocks ${fromBlock} to ${currentBlock}`);
     
     // Fetch transfer events in parallel with chunking for large ranges
     const CHUNK_SIZE = 50000; // 50k blocks per chunk for faster processing
@@ -94,8 +102,7 @@ async function getWalletTokens(walletAddress: string): Promise<Set<string>> {
     
     // Extract unique token addresses
     const tokenAddresses = new Set<string>();
-    allLogs.forEach(log => {
-      const tokenAddress = log.address.toLowerCase();
+    [...Array.from(indexedTokens), ...allLogs.map(log => log.address.toLowerCase())].forEach(tokenAddress => {
       // Skip blacklisted tokens
       if (BLACKLISTED_TOKENS.has(tokenAddress)) {
         console.log(`Skipping blacklisted token from logs: ${tokenAddress}`);
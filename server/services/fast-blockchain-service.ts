@@ -1,8 +1,7 @@
-import { providers, utils } from 'ethers';
+import { utils } from 'ethers';
 import { Transaction, TransactionTransfer } from '../types';
-
-// Initialize provider - using the main PulseChain RPC endpoint
-const provider = new providers.JsonRpcProvider('https://rpc.pulsechain.com');
+import { getProvider } from './rpc-provider';
+import { swapDecoderService, getRouterMethodName } from './swap-decoder-service';
 
 // ERC20 Transfer event signature
 const TRANSFER_EVENT_SIGNATURE = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
@@ -19,12 +18,6 @@ const DEX_ROUTERS = [
   '0x98bf93ebf5c380C0e6Ae8e192A7e2AE08edAcc02', // PulseX Router V2
 ].map(addr => addr.toLowerCase());
 
-// Method signatures for swap detection
-const SWAP_METHODS = [
-  'swap', 'swapExact', 'swapTokens', 'multicall', 'exactInput', 
-  'exactOutput', 'swapETH', 'swapPLS', 'trade'
-];
-
 // Helper function to add timeout to promises
 async function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
   const timeout = new Promise<never>((_, reject) => 
@@ -38,6 +31,7 @@ export async function fetchTransactionsFast(
   limit: number = 50,
   startBlock?: number
 ): Promise<{ transactions: Transaction[]; lastBlock: number; hasMore: boolean }> {
+  const provider = getProvider();
   try {
     const wallet = walletAddress.toLowerCase();
     const transactions: Transaction[] = [];
@@ -159,9 +153,7 @@ export async function fetchTransactionsFast(
           // Check if this is a swap transaction
           const isSwapTransaction = !!(tx.to && (
             DEX_ROUTERS.includes(tx.to.toLowerCase()) ||
-            (tx.data && tx.data.length >= 10 && SWAP_METHODS.some(method => 
-              tx.data.toLowerCase().includes(method.toLowerCase())
-            ))
+            getRouterMethodName(tx.data) !== null
           ));
           
           // Parse transfers quickly
@@ -211,7 +203,8 @@ export async function fetchTransactionsFast(
             nft_transfers: [],
             summary: undefined,
             category: getCategory(tx),
-            possible_spam: false
+            possible_spam: false,
+            swap: await swapDecoderService.decodeSwap(tx, receipt, wallet)
           } as Transaction;
         } catch (error) {
           return null;
@@ -331,20 +324,17 @@ function parseTransfers(receipt: any, wallet: string, isSwapTransaction: boolean
 }
 
 function getMethodLabel(tx: any, receipt: any, transfers: TransactionTransfer[]): string {
+  // Router swaps are labelled with the function the calldata calls
+  const routerMethod = getRouterMethodName(tx.data);
+  if (routerMethod) {
+    return routerMethod;
+  }
+  
   // Check if it's a DEX interaction
   if (tx.to && DEX_ROUTERS.includes(tx.to.toLowerCase())) {
     return 'Swap';
   }
   
-  // Check method signature
-  if (tx.data && tx.data.length >= 10) {
-    const methodId = tx.data.slice(0, 10);
-    const hasSwapMethod = SWAP_METHODS.some(method => 
-      tx.data.toLowerCase().includes(method.toLowerCase())
-    );
-    if (hasSwapMethod) return 'Swap';
-  }
-  
   // Check for multiple transfers (likely a swap)
   if (transfers.length >= 2) {
     return 'Swap';
@@ -0,0 +1,42 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("./hex-stake-service", () => ({ hexStakeService: {} }));
+
+const { foldIcsLine } = await import("./hex-calendar-service");
+
+const octets = (text: string) => Buffer.byteLength(text, "utf8");
+const unfold = (folded: string) => folded.replace(/\r\n /g, "");
+
+describe("foldIcsLine", () => {
+  it("leaves a line of up to 75 octets alone", () => {
+    const line = "X".repeat(75);
+    expect(foldIcsLine(line)).toBe(line);
+  });
+
+  it("folds the 76th octet onto a continuation line starting with a space", () => {
+    expect(foldIcsLine("X".repeat(76))).toBe(`${"X".repeat(75)}\r\n X`);
+  });
+
+  it("counts the leading space of a continuation line towards its 75 octets", () => {
+    const lines = foldIcsLine("X".repeat(200)).split("\r\n");
+    expect(lines.map(octets)).toEqual([75, 75, 52]);
+    expect(lines.slice(1).every(line => line.startsWith(" "))).toBe(true);
+  });
+
+  it("counts multibyte characters by their UTF-8 octets", () => {
+    // é is two octets, so it doesn't fit after 74 single-octet characters
+    expect(foldIcsLine(`${"X".repeat(74)}é`)).toBe(`${"X".repeat(74)}\r\n é`);
+  });
+
+  it("never splits a character across lines", () => {
+    const line = `X-WR-CALNAME:${"🚀".repeat(30)} Portefeuille à long terme ${"日本".repeat(20)}`;
+    const folded = foldIcsLine(line);
+
+    for (const physical of folded.split("\r\n")) {
+      expect(octets(physical)).toBeLessThanOrEqual(75);
+      // A split surrogate pair or UTF-8 sequence would come back as a replacement character
+      expect(Buffer.from(physical, "utf8").toString("utf8")).not.toContain("�");
+    }
+    expect(unfold(folded)).toBe(line);
+  });
+});
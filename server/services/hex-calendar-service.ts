@@ -0,0 +1,160 @@
+/**
+ * HEX Calendar Service
+ * Lays the stakes of a set of wallets out by end day, flags the ones whose grace period is
+ * running out or already over, and writes them as an iCalendar feed so end days show up in
+ * whatever calendar the stakers use.
+ */
+
+import {
+  LATE_PENALTY_GRACE_DAYS,
+  LATE_PENALTY_SCALE_DAYS,
+  hexDayToDate,
+  type HexMaturity,
+  type HexMaturityCalendar,
+  type HexMaturityStatus,
+  type HexStake,
+} from '@shared/hex-stakes';
+import { hexStakeService } from './hex-stake-service';
+
+function getMaturityStatus(stake: HexStake, currentDay: number, graceEndDay: number): HexMaturityStatus {
+  if (!stake.isActive) return 'unlocked';
+  if (currentDay < stake.endDay) return 'locked';
+  return currentDay <= graceEndDay ? 'due' : 'late';
+}
+
+// iCalendar dates are basic-format UTC: 20240131 for all-day dates, 20240131T120000Z for times
+function formatIcsDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function formatIcsTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeIcsText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
+}
+
+// Content lines longer than 75 octets are folded onto continuation lines starting with a space.
+// Octets are counted in UTF-8 and folds only fall between code points, so a portfolio name with
+// emoji or accents is never split mid-character.
+export function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of Array.from(line)) {
+    const size = Buffer.byteLength(char, 'utf8');
+    if (octets + size > 75) {
+      parts.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n');
+}
+
+function formatHex(amount: number): string {
+  return amount.toLocaleString('en-US', { maximumFractionDigits: 0 });
+}
+
+class HexCalendarService {
+  /**
+   * Every stake of the given wallets by end day, soonest first
+   */
+  async getCalendar(walletAddresses: string[]): Promise<HexMaturityCalendar> {
+    const addresses = Array.from(new Set(walletAddresses.map(address => address.toLowerCase())));
+    const reports = await Promise.all(addresses.map(address => hexStakeService.getStakes(address)));
+    const currentDay = reports.length > 0 ? Math.max(...reports.map(report => report.currentDay)) : 0;
+    const hexPrice = reports[0]?.hexPrice || 0;
+
+    const maturities: HexMaturity[] = reports.flatMap(report => report.stakes).map(stake => {
+      const graceEndDay = stake.endDay + LATE_PENALTY_GRACE_DAYS;
+      const status = getMaturityStatus(stake, currentDay, graceEndDay);
+      const totalHex = stake.stakedHex + stake.interestHex;
+
+      return {
+        walletAddress: stake.walletAddress,
+        stakeId: stake.stakeId,
+        isAutoStake: stake.isAutoStake,
+        endDay: stake.endDay,
+        endDate: stake.endDate,
+        graceEndDay,
+        graceEndDate: hexDayToDate(graceEndDay).toISOString(),
+        daysUntilEnd: stake.endDay - currentDay,
+        status,
+        latePenaltyPercent: status === 'late'
+          ? Math.min(100, (currentDay - graceEndDay) / LATE_PENALTY_SCALE_DAYS * 100)
+          : 0,
+        stakedHex: stake.stakedHex,
+        interestHex: stake.interestHex,
+        totalHex,
+        totalValueUsd: totalHex * hexPrice,
+      };
+    });
+
+    maturities.sort((a, b) => a.endDay - b.endDay || a.stakeId.localeCompare(b.stakeId));
+
+    return {
+      addresses,
+      currentDay,
+      hexPrice,
+      maturities,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * The calendar as an iCalendar file with one all-day event per stake on its end day, and a
+   * reminder the day before
+   */
+  async exportIcs(walletAddresses: string[], calendarName: string): Promise<string> {
+    const calendar = await this.getCalendar(walletAddresses);
+    const stamp = formatIcsTimestamp(new Date());
+
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//HEX Stake Calendar//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+    ];
+
+    for (const maturity of calendar.maturities) {
+      const endDate = new Date(maturity.endDate);
+      const description = [
+        `Wallet: ${maturity.walletAddress}`,
+        `Principal: ${formatHex(maturity.stakedHex)} HEX`,
+        `Interest so far: ${formatHex(maturity.interestHex)} HEX`,
+        `End by ${maturity.graceEndDate.slice(0, 10)} to avoid the late penalty.`,
+      ].join('\n');
+
+      lines.push(
+        'BEGIN:VEVENT',
+        // Stake ids are unique across the contract, so the UID stays stable between exports
+        `UID:hex-stake-${maturity.stakeId}@pulsechain`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${formatIcsDate(endDate)}`,
+        `DTEND;VALUE=DATE:${formatIcsDate(hexDayToDate(maturity.endDay + 1))}`,
+        `SUMMARY:${escapeIcsText(`HEX stake #${maturity.stakeId} ends (${formatHex(maturity.totalHex)} HEX)`)}`,
+        `DESCRIPTION:${escapeIcsText(description)}`,
+        'TRANSP:TRANSPARENT',
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        'TRIGGER:-P1D',
+        `DESCRIPTION:${escapeIcsText(`HEX stake #${maturity.stakeId} ends tomorrow`)}`,
+        'END:VALARM',
+        'END:VEVENT',
+      );
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+  }
+}
+
+// Export singleton instance
+export const hexCalendarService = new HexCalendarService();
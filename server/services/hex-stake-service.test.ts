@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ethers } from "ethers";
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+const EARNING_WALLET = "0x2222222222222222222222222222222222222222";
+
+// The contract state the service reads through the multicall aggregator. Every day before today
+// paid out `day` * 1e9 hearts over 1e14 shares, so a 1e12-share stake earned `day` * 1e7 hearts.
+const contract = vi.hoisted(() => ({
+  currentDay: 1000,
+  stakes: {} as Record<string, {
+    stakeId: number;
+    stakedHearts: bigint;
+    stakeShares: bigint;
+    lockedDay: number;
+    stakedDays: number;
+    unlockedDay: number;
+    isAutoStake: boolean;
+  }[]>,
+}));
+
+vi.mock("./multicall-service", () => ({
+  multicall: {
+    callFunction: vi.fn(async (_iface: unknown, _target: string, functionName: string, args: unknown[]) => {
+      const { BigNumber } = await import("ethers");
+      switch (functionName) {
+        case "currentDay":
+          return BigNumber.from(contract.currentDay);
+        case "globalInfo": {
+          const info = Array.from({ length: 13 }, () => BigNumber.from(0));
+          info[0] = BigNumber.from("100000000000000000"); // lockedHeartsTotal
+          info[3] = BigNumber.from("5000000000000"); // stakePenaltyTotal
+          info[4] = BigNumber.from(contract.currentDay); // dailyDataCount
+          info[5] = BigNumber.from("1000000000000000000"); // stakeSharesTotal
+          info[11] = BigNumber.from("60000000000000000000"); // totalSupply
+          return info;
+        }
+        case "dailyDataRange": {
+          const [beginDay, endDay] = args as number[];
+          return Array.from({ length: endDay - beginDay }, (_, i) =>
+            BigNumber.from(BigInt(beginDay + i) * BigInt(1e9) | (BigInt(1e14) << BigInt(72))));
+        }
+        case "stakeCount":
+          return BigNumber.from(contract.stakes[args[0] as string].length);
+        case "stakeLists":
+          return contract.stakes[args[0] as string][args[1] as number];
+        default:
+          return null;
+      }
+    }),
+  },
+}));
+vi.mock("./smart-contract-price-service", () => ({
+  getTokenPriceFromContract: vi.fn(async () => ({ price: 0.01 })),
+}));
+
+const { hexStakeService, stakeStartBonusHearts, calcLatePenalty } = await import("./hex-stake-service");
+
+function stake(stakeId: number, lockedDay: number, stakedDays: number, isAutoStake = false) {
+  return {
+    stakeId,
+    stakedHearts: BigInt(ethers.utils.parseUnits("1000000", 8).toString()),
+    stakeShares: BigInt(1e12),
+    lockedDay,
+    stakedDays,
+    unlockedDay: 0,
+    isAutoStake,
+  };
+}
+
+// Each wallet's report is cached, so their stakes are all set up once. Today is day 1000.
+contract.stakes[WALLET] = [
+  stake(1, 1000, 350, true),
+  stake(2, 1001, 350, true),
+  stake(3, 1001, 350),
+  stake(4, 700, 1000, true),
+  stake(5, 1000, 350),
+];
+contract.stakes[EARNING_WALLET] = [
+  stake(1, 400, 1000),
+  stake(2, 900, 365),
+  stake(3, 910, 179),
+  stake(4, 1000, 365),
+  stake(5, 600, 300),
+];
+
+// Expected values are worked out with the formulas in the HEX contract source
+describe("stakeStartBonusHearts", () => {
+  it.each([
+    ["a one-day stake gets only the Bigger Pays Better bonus", "100000000000", 1, "66666"],
+    ["a year adds Longer Pays Better", "100000000000", 365, "20000066666"],
+    ["3641 days doubles the stake", "100000000", 3641, "200000000"],
+    ["days past 3641 add nothing", "100000000", 5555, "200000000"],
+    ["Bigger Pays Better stops at 150M HEX", "20000000000000000", 1, "2000000000000000"],
+    ["both bonuses at their caps", "15000000000000000", 3641, "31500000000000000"],
+  ])("%s", (_name, stakedHearts, stakedDays, expected) => {
+    expect(stakeStartBonusHearts(BigInt(stakedHearts), stakedDays).toString()).toBe(expected);
+  });
+});
+
+describe("calcLatePenalty", () => {
+  const rawStakeReturn = BigInt(7000000);
+
+  it("is nothing within the 14-day grace period", () => {
+    expect(calcLatePenalty(100, 365, 465, rawStakeReturn)).toBe(BigInt(0));
+    expect(calcLatePenalty(100, 365, 479, rawStakeReturn)).toBe(BigInt(0));
+  });
+
+  it("takes 1/700th of the return per day after the grace period", () => {
+    expect(calcLatePenalty(100, 365, 480, rawStakeReturn)).toBe(BigInt(10000));
+    expect(calcLatePenalty(100, 365, 829, rawStakeReturn)).toBe(BigInt(3500000));
+  });
+
+  it("takes the whole return 700 days after the grace period", () => {
+    expect(calcLatePenalty(100, 365, 1179, rawStakeReturn)).toBe(rawStakeReturn);
+  });
+});
+
+describe("early-end payout and penalty", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("takes the first half of the term's payout once more than half is served", async () => {
+    // 600 of 1000 days served, so the penalty is days 400-899
+    const simulation = await hexStakeService.simulateEndStake(EARNING_WALLET, "1");
+    expect(simulation?.payoutHearts).toBe("4197000000000");
+    expect(simulation?.penaltyHearts).toBe("3247500000000");
+    expect(simulation?.projectedDays).toBe(0);
+  });
+
+  it("scales the payout up to half the term when less is served", async () => {
+    // 100 of 365 days served, against a penalty of 183 days
+    const simulation = await hexStakeService.simulateEndStake(EARNING_WALLET, "2");
+    expect(simulation?.payoutHearts).toBe("949500000000");
+    expect(simulation?.penaltyHearts).toBe("1737585000000");
+  });
+
+  it("takes at least 90 days, and the whole payout when exactly that is served", async () => {
+    const simulation = await hexStakeService.simulateEndStake(EARNING_WALLET, "3");
+    expect(simulation?.servedDays).toBe(90);
+    expect(simulation?.payoutHearts).toBe("859050000000");
+    expect(simulation?.penaltyHearts).toBe("859050000000");
+  });
+
+  it("prices the penalty at today's estimated payout when nothing is served", async () => {
+    const simulation = await hexStakeService.simulateEndStake(EARNING_WALLET, "4");
+    expect(simulation?.servedDays).toBe(0);
+    expect(simulation?.payoutHearts).toBe("0");
+    expect(simulation?.penaltyHearts).toBe("1095828891294");
+    expect(simulation?.projectedDays).toBe(183);
+  });
+
+  it("applies the late penalty to a stake ended after its grace period", async () => {
+    // Served days 600-899, then ended 86 days after its grace period ran out
+    const simulation = await hexStakeService.simulateEndStake(EARNING_WALLET, "5");
+    expect(simulation?.kind).toBe("late");
+    expect(simulation?.payoutHearts).toBe("2248500000000");
+    expect(simulation?.penaltyHearts).toBe("12561958571428");
+  });
+});
+
+describe("hexStakeService.simulateEndStake", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  describe("auto-stakes", () => {
+    it("can't be ended before they start", async () => {
+      const simulation = await hexStakeService.simulateEndStake(WALLET, "2");
+      expect(simulation?.kind).toBe("not-started");
+      expect(simulation?.allowed).toBe(false);
+    });
+
+    it("can't be ended with 349 days served", async () => {
+      const simulation = await hexStakeService.simulateEndStake(WALLET, "1", 1349);
+      expect(simulation?.servedDays).toBe(349);
+      expect(simulation?.allowed).toBe(false);
+    });
+
+    it("can be ended once 350 days are served", async () => {
+      const simulation = await hexStakeService.simulateEndStake(WALLET, "1", 1350);
+      expect(simulation?.servedDays).toBe(350);
+      expect(simulation?.allowed).toBe(true);
+    });
+
+    it("can be ended before their end day once 350 days are served", async () => {
+      const simulation = await hexStakeService.simulateEndStake(WALLET, "4");
+      expect(simulation?.kind).toBe("early");
+      expect(simulation?.servedDays).toBe(300);
+      expect(simulation?.allowed).toBe(false);
+
+      const later = await hexStakeService.simulateEndStake(WALLET, "4", 1050);
+      expect(later?.kind).toBe("early");
+      expect(later?.allowed).toBe(true);
+    });
+  });
+
+  describe("other stakes", () => {
+    it("can be ended before they start", async () => {
+      const simulation = await hexStakeService.simulateEndStake(WALLET, "3");
+      expect(simulation?.kind).toBe("not-started");
+      expect(simulation?.allowed).toBe(true);
+    });
+
+    it("can be ended early", async () => {
+      const simulation = await hexStakeService.simulateEndStake(WALLET, "5", 1100);
+      expect(simulation?.kind).toBe("early");
+      expect(simulation?.allowed).toBe(true);
+    });
+  });
+});
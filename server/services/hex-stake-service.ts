@@ -0,0 +1,546 @@
+/**
+ * HEX Stake Service
+ * Reads a wallet's HEX stakes from the contract and works out what each one has earned the way
+ * the contract does when the stake ends: the stake's share of every day's payout in dailyData,
+ * plus the Big Pay Day slice for stakes that were locked over it. All of it in BigInt hearts,
+ * so the numbers match what stakeEnd would pay to the heart.
+ */
+
+import { ethers } from 'ethers';
+import { z } from 'zod';
+import {
+  BIG_PAY_DAY,
+  HEX_ADDRESS,
+  LATE_PENALTY_GRACE_DAYS,
+  LATE_PENALTY_SCALE_DAYS,
+  hexDayToDate,
+  heartsToHex,
+  summarizeHexStakes,
+  type HexStake,
+  type HexStakeEndKind,
+  type HexStakeSimulation,
+  type HexStakesPortfolioSummary,
+  type HexStakesReport,
+} from '@shared/hex-stakes';
+import { multicall } from './multicall-service';
+import { getTokenPriceFromContract } from './smart-contract-price-service';
+
+const HEX_ABI = [
+  'function currentDay() view returns (uint256)',
+  'function globalInfo() view returns (uint256[13])',
+  'function dailyDataRange(uint256 beginDay, uint256 endDay) view returns (uint256[] list)',
+  'function stakeCount(address stakerAddr) view returns (uint256)',
+  'function stakeLists(address, uint256) view returns (uint40 stakeId, uint72 stakedHearts, uint72 stakeShares, uint16 lockedDay, uint16 stakedDays, uint16 unlockedDay, bool isAutoStake)',
+];
+const hexInterface = new ethers.utils.Interface(HEX_ABI);
+
+// Contract constants, named as in the HEX source
+const HEARTS_PER_SATOSHI = BigInt(10000);
+const LPB = BigInt(1820);
+const LPB_MAX_DAYS = 3640;
+const BPB_MAX_HEARTS = BigInt(150000000) * BigInt(100000000);
+const BPB = BPB_MAX_HEARTS * BigInt(100) / BigInt(10);
+const CLAIMABLE_BTC_ADDR_COUNT = BigInt(27997742);
+const CLAIMABLE_SATOSHIS_TOTAL = BigInt(910087996911001);
+const HEART_UINT_SIZE = BigInt(72);
+const HEART_UINT_MASK = (BigInt(1) << HEART_UINT_SIZE) - BigInt(1);
+const EARLY_PENALTY_MIN_DAYS = 90;
+const MIN_AUTO_STAKE_DAYS = 350;
+
+// HEX days are stored as uint16
+export const hexStakeSimulationQuerySchema = z.object({
+  endDay: z.coerce.number().int().min(0).max(65535).optional(),
+});
+
+const MAX_QUERY_ADDRESSES = 50;
+
+// Comma-separated wallet list for the endpoints that cover several wallets at once
+export const hexStakeAddressesQuerySchema = z.object({
+  addresses: z.string()
+    .transform(value => value.split(',').map(address => address.trim()).filter(Boolean))
+    .pipe(z.array(z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid wallet address format')).min(1).max(MAX_QUERY_ADDRESSES)),
+});
+
+const DAILY_DATA_CHUNK_SIZE = 500;
+const STAKE_BATCH_SIZE = 50;
+const MAX_CACHED_WALLETS = 500;
+const REPORT_TTL_MS = 5 * 60 * 1000;
+
+interface DailyData {
+  payoutTotal: bigint;
+  stakeSharesTotal: bigint;
+}
+
+export interface HexDailyData extends DailyData {
+  day: number;
+}
+
+// The parts of globalInfo() the payout math needs
+interface HexGlobals {
+  lockedHeartsTotal: bigint;
+  stakeSharesTotal: bigint;
+  stakePenaltyTotal: bigint;
+  dailyDataCount: number;
+  unclaimedSatoshisTotal: bigint;
+  claimedSatoshisTotal: bigint;
+  claimedBtcAddrCount: bigint;
+  totalSupply: bigint;
+}
+
+// A report along with the contract globals it was computed from, which simulations reuse
+interface WalletStakes {
+  report: HexStakesReport;
+  globals: HexGlobals;
+}
+
+interface RawStake {
+  stakeIndex: number;
+  stakeId: string;
+  stakedHearts: bigint;
+  stakeShares: bigint;
+  lockedDay: number;
+  stakedDays: number;
+  unlockedDay: number;
+  isAutoStake: boolean;
+}
+
+/**
+ * Longer Pays Better and Bigger Pays Better bonus a stake gets at start (_stakeStartBonusHearts)
+ */
+export function stakeStartBonusHearts(stakedHearts: bigint, stakedDays: number): bigint {
+  let cappedExtraDays = 0;
+  if (stakedDays > 1) {
+    cappedExtraDays = stakedDays <= LPB_MAX_DAYS ? stakedDays - 1 : LPB_MAX_DAYS;
+  }
+  const cappedStakedHearts = stakedHearts <= BPB_MAX_HEARTS ? stakedHearts : BPB_MAX_HEARTS;
+
+  const bonusHearts = BigInt(cappedExtraDays) * BPB + cappedStakedHearts * LPB;
+  return stakedHearts * bonusHearts / (LPB * BPB);
+}
+
+// Extra Big Pay Day payout for how widely and how much BTC was claimed (_calcAdoptionBonus)
+function calcAdoptionBonus(globals: HexGlobals, payout: bigint): bigint {
+  const viral = payout * globals.claimedBtcAddrCount / CLAIMABLE_BTC_ADDR_COUNT;
+  const crit = payout * globals.claimedSatoshisTotal / CLAIMABLE_SATOSHIS_TOTAL;
+  return viral + crit;
+}
+
+// Share of the stake's return lost for each day it is ended past the grace period (_calcLatePenalty)
+export function calcLatePenalty(lockedDay: number, stakedDays: number, unlockedDay: number, rawStakeReturn: bigint): bigint {
+  const maxUnlockedDay = lockedDay + stakedDays + LATE_PENALTY_GRACE_DAYS;
+  if (unlockedDay <= maxUnlockedDay) return BigInt(0);
+  return rawStakeReturn * BigInt(unlockedDay - maxUnlockedDay) / BigInt(LATE_PENALTY_SCALE_DAYS);
+}
+
+class HexStakeService {
+  // dailyData entries never change once written, so they're kept for good
+  private dailyData = new Map<number, DailyData>();
+  private dailyDataLoad: Promise<void> = Promise.resolve();
+  private reports = new Map<string, WalletStakes & { expiresAt: number }>();
+  private pending = new Map<string, Promise<WalletStakes>>();
+
+  /**
+   * Every stake in the wallet's stakeLists with its bonus and the interest it has accrued
+   */
+  async getStakes(walletAddress: string): Promise<HexStakesReport> {
+    const { report } = await this.getWalletStakes(walletAddress.toLowerCase());
+    return report;
+  }
+
+  /**
+   * Stakes of several wallets rolled up, with each wallet's own totals alongside
+   */
+  async getSummary(walletAddresses: string[]): Promise<HexStakesPortfolioSummary> {
+    const addresses = Array.from(new Set(walletAddresses.map(address => address.toLowerCase())));
+    const reports = await Promise.all(addresses.map(address => this.getStakes(address)));
+    const hexPrice = reports[0]?.hexPrice || 0;
+
+    return {
+      addresses,
+      currentDay: reports.length > 0 ? Math.max(...reports.map(report => report.currentDay)) : 0,
+      hexPrice,
+      wallets: reports.map(report => ({ address: report.address, totals: report.totals })),
+      totals: summarizeHexStakes(reports.flatMap(report => report.stakes), hexPrice),
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * dailyData for the days in [beginDay, endDay) the contract has written so far
+   */
+  async getDailyData(beginDay: number, endDay: number): Promise<HexDailyData[]> {
+    const globals = await this.getGlobals();
+    const lastDay = Math.min(endDay, globals.dailyDataCount);
+    await this.loadDailyData(beginDay, lastDay);
+
+    const days: HexDailyData[] = [];
+    for (let day = Math.max(0, beginDay); day < lastDay; day++) {
+      const data = this.dailyData.get(day);
+      if (data) days.push({ day, ...data });
+    }
+    return days;
+  }
+
+  /**
+   * What ending one of the wallet's stakes on endDay would pay out and cost in penalties, by the
+   * rules stakeEnd applies (_stakePerformance). endDay defaults to today, and a stake can't be
+   * ended in the past, so earlier days count as today. Null when the wallet has no stake with
+   * that id.
+   */
+  async simulateEndStake(walletAddress: string, stakeId: string, endDay?: number): Promise<HexStakeSimulation | null> {
+    const { report, globals } = await this.getWalletStakes(walletAddress.toLowerCase());
+    const stake = report.stakes.find(candidate => candidate.stakeId === stakeId);
+    if (!stake) return null;
+
+    const day = Math.max(endDay ?? report.currentDay, report.currentDay);
+    const stakedHearts = BigInt(stake.stakedHearts);
+    const stakeShares = BigInt(stake.stakeShares);
+    let kind: HexStakeEndKind;
+    let servedDays = 0;
+    let payout = BigInt(0);
+    let penalty = BigInt(0);
+    let projectedDays = 0;
+    let allowed = true;
+
+    if (day < stake.lockedDay) {
+      // Shares that haven't been locked yet just go back, with no payout or penalty
+      kind = 'not-started';
+      allowed = !stake.isAutoStake;
+    } else {
+      // A good-accounted stake keeps the unlock day it was given
+      const unlockedDay = stake.isActive ? day : stake.unlockedDay;
+      servedDays = stake.isActive ? Math.min(day - stake.lockedDay, stake.stakedDays) : stake.stakedDays;
+
+      // stakeEnd only holds an auto-stake to its minimum while it is still within its term
+      if (stake.isActive && day - stake.lockedDay <= stake.stakedDays && servedDays < MIN_AUTO_STAKE_DAYS) {
+        allowed = !stake.isAutoStake;
+      }
+
+      if (servedDays < stake.stakedDays) {
+        kind = 'early';
+        ({ payout, penalty, projectedDays } = this.calcPayoutAndEarlyPenalty(
+          globals, stake.lockedDay, stake.stakedDays, servedDays, stakeShares
+        ));
+      } else {
+        const rewards = this.calcPayoutRewards(globals, stakeShares, stake.lockedDay, stake.lockedDay + servedDays);
+        payout = rewards.payout;
+        projectedDays = rewards.estimatedDays;
+        penalty = calcLatePenalty(stake.lockedDay, stake.stakedDays, unlockedDay, stakedHearts + payout);
+        kind = penalty > BigInt(0) ? 'late' : 'on-time';
+      }
+    }
+
+    // The penalty can take everything, but no more
+    const rawReturn = stakedHearts + payout;
+    const cappedPenalty = penalty > rawReturn ? rawReturn : penalty;
+    const stakeReturn = rawReturn - cappedPenalty;
+
+    return {
+      stakeId: stake.stakeId,
+      endDay: day,
+      endDate: hexDayToDate(day).toISOString(),
+      kind,
+      servedDays,
+      allowed,
+      payoutHearts: payout.toString(),
+      penaltyHearts: cappedPenalty.toString(),
+      stakeReturnHearts: stakeReturn.toString(),
+      projectedDays,
+      payoutHex: heartsToHex(payout),
+      penaltyHex: heartsToHex(cappedPenalty),
+      stakeReturnHex: heartsToHex(stakeReturn),
+      stakeReturnUsd: heartsToHex(stakeReturn) * report.hexPrice,
+    };
+  }
+
+  /**
+   * The wallet's report and the globals behind it. Concurrent requests for the same wallet share
+   * one read.
+   */
+  private async getWalletStakes(wallet: string): Promise<WalletStakes> {
+    const cached = this.reports.get(wallet);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached;
+    }
+
+    let request = this.pending.get(wallet);
+    if (!request) {
+      request = this.buildReport(wallet).finally(() => this.pending.delete(wallet));
+      this.pending.set(wallet, request);
+    }
+    return request;
+  }
+
+  private async buildReport(wallet: string): Promise<WalletStakes> {
+    const startTime = Date.now();
+    const [currentDay, globals, stakes, priceData] = await Promise.all([
+      this.getCurrentDay(),
+      this.getGlobals(),
+      this.getRawStakes(wallet),
+      getTokenPriceFromContract(HEX_ADDRESS),
+    ]);
+    const hexPrice = priceData?.price || 0;
+
+    if (stakes.length > 0) {
+      const firstDay = Math.min(...stakes.map(stake => stake.lockedDay));
+      await this.loadDailyData(firstDay, globals.dailyDataCount);
+    }
+
+    const computed: HexStake[] = stakes.map(stake => {
+      const endDay = stake.lockedDay + stake.stakedDays;
+      const isActive = stake.unlockedDay === 0;
+      // A good-accounted stake stopped earning the day it was unlocked
+      const servedEnd = Math.min(isActive ? currentDay : stake.unlockedDay, endDay);
+      const daysServed = Math.max(0, servedEnd - stake.lockedDay);
+      const { payout, estimatedDays, bigPayDay } = this.calcPayoutRewards(globals, stake.stakeShares, stake.lockedDay, servedEnd);
+
+      const stakedHex = heartsToHex(stake.stakedHearts);
+      const interestHex = heartsToHex(payout);
+
+      return {
+        walletAddress: wallet,
+        stakeIndex: stake.stakeIndex,
+        stakeId: stake.stakeId,
+        stakedHearts: stake.stakedHearts.toString(),
+        stakeShares: stake.stakeShares.toString(),
+        lockedDay: stake.lockedDay,
+        stakedDays: stake.stakedDays,
+        unlockedDay: stake.unlockedDay,
+        endDay,
+        isAutoStake: stake.isAutoStake,
+        lockDate: hexDayToDate(stake.lockedDay).toISOString(),
+        endDate: hexDayToDate(endDay).toISOString(),
+        unlockDate: isActive ? null : hexDayToDate(stake.unlockedDay).toISOString(),
+        isActive,
+        daysServed,
+        daysRemaining: isActive ? Math.max(0, endDay - currentDay) : null,
+        progressPercentage: Math.min(100, Math.floor(daysServed / stake.stakedDays * 100)),
+        bonusHearts: stakeStartBonusHearts(stake.stakedHearts, stake.stakedDays).toString(),
+        payoutHearts: payout.toString(),
+        bigPayDayHearts: bigPayDay.toString(),
+        estimatedDays,
+        stakedHex,
+        interestHex,
+        valueUsd: stakedHex * hexPrice,
+        interestValueUsd: interestHex * hexPrice,
+        totalValueUsd: (stakedHex + interestHex) * hexPrice,
+      };
+    });
+
+    computed.sort((a, b) => b.lockedDay - a.lockedDay);
+
+    const report: HexStakesReport = {
+      address: wallet,
+      currentDay,
+      hexPrice,
+      stakes: computed,
+      totals: summarizeHexStakes(computed, hexPrice),
+      generatedAt: new Date().toISOString(),
+    };
+
+    if (this.reports.size >= MAX_CACHED_WALLETS) {
+      this.reports.clear();
+    }
+    this.reports.set(wallet, { report, globals, expiresAt: Date.now() + REPORT_TTL_MS });
+
+    console.log(`[HEX Stakes] ${computed.length} stakes for ${wallet} in ${Date.now() - startTime}ms`);
+    return { report, globals };
+  }
+
+  /**
+   * What a stake's shares earned from beginDay up to (not including) endDay (_calcPayoutRewards).
+   * Days the contract hasn't written to dailyData yet are estimated from the current supply and
+   * counted in estimatedDays.
+   */
+  private calcPayoutRewards(
+    globals: HexGlobals,
+    stakeShares: bigint,
+    beginDay: number,
+    endDay: number,
+  ): { payout: bigint; estimatedDays: number; bigPayDay: bigint } {
+    let payout = BigInt(0);
+    let estimatedDays = 0;
+    let bigPayDay = BigInt(0);
+
+    for (let day = beginDay; day < endDay; day++) {
+      const data = this.dailyData.get(day);
+      if (data) {
+        if (data.stakeSharesTotal > BigInt(0)) {
+          payout += data.payoutTotal * stakeShares / data.stakeSharesTotal;
+        }
+      } else {
+        payout += this.estimatePayoutRewardsDay(globals, stakeShares, day);
+        estimatedDays++;
+      }
+    }
+
+    if (beginDay <= BIG_PAY_DAY && endDay > BIG_PAY_DAY) {
+      const bigPayDayData = this.dailyData.get(BIG_PAY_DAY);
+      if (bigPayDayData && bigPayDayData.stakeSharesTotal > BigInt(0)) {
+        const bigPaySlice = globals.unclaimedSatoshisTotal * HEARTS_PER_SATOSHI * stakeShares / bigPayDayData.stakeSharesTotal;
+        bigPayDay = bigPaySlice + calcAdoptionBonus(globals, bigPaySlice);
+        payout += bigPayDay;
+      }
+    }
+
+    return { payout, estimatedDays, bigPayDay };
+  }
+
+  /**
+   * Payout and early-end penalty for a stake ended after servedDays of stakedDays
+   * (_calcPayoutAndEarlyPenalty). The penalty is the payout of the first half of the stake's
+   * term, at least EARLY_PENALTY_MIN_DAYS; days not served yet are filled in at the average
+   * payout of the days that were.
+   */
+  private calcPayoutAndEarlyPenalty(
+    globals: HexGlobals,
+    lockedDay: number,
+    stakedDays: number,
+    servedDays: number,
+    stakeShares: bigint,
+  ): { payout: bigint; penalty: bigint; projectedDays: number } {
+    const servedEndDay = lockedDay + servedDays;
+    const penaltyDays = Math.max(Math.floor((stakedDays + 1) / 2), EARLY_PENALTY_MIN_DAYS);
+
+    if (servedDays === 0) {
+      // Nothing served to average, so each penalty day is priced at the estimate for the stake's
+      // first day
+      const expected = this.estimatePayoutRewardsDay(globals, stakeShares, lockedDay);
+      return { payout: BigInt(0), penalty: expected * BigInt(penaltyDays), projectedDays: penaltyDays };
+    }
+
+    if (penaltyDays < servedDays) {
+      const penaltyEndDay = lockedDay + penaltyDays;
+      const penalty = this.calcPayoutRewards(globals, stakeShares, lockedDay, penaltyEndDay);
+      const delta = this.calcPayoutRewards(globals, stakeShares, penaltyEndDay, servedEndDay);
+      return {
+        payout: penalty.payout + delta.payout,
+        penalty: penalty.payout,
+        projectedDays: penalty.estimatedDays + delta.estimatedDays,
+      };
+    }
+
+    const { payout, estimatedDays } = this.calcPayoutRewards(globals, stakeShares, lockedDay, servedEndDay);
+    const penalty = penaltyDays === servedDays ? payout : payout * BigInt(penaltyDays) / BigInt(servedDays);
+    return { payout, penalty, projectedDays: estimatedDays };
+  }
+
+  // The day's inflation on the current supply, plus the penalties waiting to be paid out on the
+  // first day that hasn't been written yet (_dailyRoundCalc). The contract's own
+  // _estimatePayoutRewardsDay adds the stake's shares to the total first, but the stakes priced
+  // here are active and already in stakeSharesTotal, so they aren't counted twice.
+  private estimatePayoutRewardsDay(globals: HexGlobals, stakeShares: bigint, day: number): bigint {
+    if (globals.stakeSharesTotal === BigInt(0)) return BigInt(0);
+
+    const allocSupply = globals.totalSupply + globals.lockedHeartsTotal;
+    let payoutTotal = allocSupply * BigInt(10000) / BigInt(100448995);
+    if (day === globals.dailyDataCount) {
+      payoutTotal += globals.stakePenaltyTotal;
+    }
+    return payoutTotal * stakeShares / globals.stakeSharesTotal;
+  }
+
+  /**
+   * Make sure dailyData for [beginDay, endDay) is loaded. Loads are serialized so two reports
+   * never fetch the same days.
+   */
+  private loadDailyData(beginDay: number, endDay: number): Promise<void> {
+    const load = this.dailyDataLoad.then(async () => {
+      let day = beginDay;
+      while (day < endDay) {
+        if (this.dailyData.has(day)) {
+          day++;
+          continue;
+        }
+
+        // Fetch the run of missing days starting here, a chunk at a time
+        let runEnd = day;
+        while (runEnd < endDay && runEnd - day < DAILY_DATA_CHUNK_SIZE && !this.dailyData.has(runEnd)) {
+          runEnd++;
+        }
+
+        const list = await multicall.callFunction<ethers.BigNumber[]>(hexInterface, HEX_ADDRESS, 'dailyDataRange', [day, runEnd]);
+        if (!list) {
+          throw new Error(`Failed to read HEX dailyData for days ${day}-${runEnd - 1}`);
+        }
+
+        list.forEach((packed, i) => {
+          const value = BigInt(packed.toString());
+          this.dailyData.set(day + i, {
+            payoutTotal: value & HEART_UINT_MASK,
+            stakeSharesTotal: (value >> HEART_UINT_SIZE) & HEART_UINT_MASK,
+          });
+        });
+        day = runEnd;
+      }
+    });
+
+    // A failed load shouldn't block the ones queued behind it
+    this.dailyDataLoad = load.catch(() => undefined);
+    return load;
+  }
+
+  private async getCurrentDay(): Promise<number> {
+    const day = await multicall.callFunction<ethers.BigNumber>(hexInterface, HEX_ADDRESS, 'currentDay', []);
+    if (!day) {
+      throw new Error('Failed to read HEX currentDay');
+    }
+    return day.toNumber();
+  }
+
+  private async getGlobals(): Promise<HexGlobals> {
+    const info = await multicall.callFunction<ethers.BigNumber[]>(hexInterface, HEX_ADDRESS, 'globalInfo', []);
+    if (!info) {
+      throw new Error('Failed to read HEX globalInfo');
+    }
+
+    const value = (index: number) => BigInt(info[index].toString());
+    return {
+      lockedHeartsTotal: value(0),
+      stakePenaltyTotal: value(3),
+      dailyDataCount: info[4].toNumber(),
+      stakeSharesTotal: value(5),
+      unclaimedSatoshisTotal: value(7),
+      claimedSatoshisTotal: value(8),
+      claimedBtcAddrCount: value(9),
+      totalSupply: value(11),
+    };
+  }
+
+  private async getRawStakes(wallet: string): Promise<RawStake[]> {
+    const count = await multicall.callFunction<ethers.BigNumber>(hexInterface, HEX_ADDRESS, 'stakeCount', [wallet]);
+    if (!count) {
+      throw new Error('Failed to read HEX stakeCount');
+    }
+
+    const stakes: RawStake[] = [];
+    for (let i = 0; i < count.toNumber(); i += STAKE_BATCH_SIZE) {
+      const indexes = Array.from({ length: Math.min(STAKE_BATCH_SIZE, count.toNumber() - i) }, (_, j) => i + j);
+      const results = await Promise.all(indexes.map(index =>
+        multicall.callFunction<ethers.utils.Result>(hexInterface, HEX_ADDRESS, 'stakeLists', [wallet, index])
+      ));
+
+      results.forEach((stake, j) => {
+        // A partial list would understate the wallet, so fail the whole report instead
+        if (!stake) {
+          throw new Error(`Failed to read HEX stake ${indexes[j]} of ${wallet}`);
+        }
+        stakes.push({
+          stakeIndex: indexes[j],
+          stakeId: stake.stakeId.toString(),
+          stakedHearts: BigInt(stake.stakedHearts.toString()),
+          stakeShares: BigInt(stake.stakeShares.toString()),
+          lockedDay: Number(stake.lockedDay),
+          stakedDays: Number(stake.stakedDays),
+          unlockedDay: Number(stake.unlockedDay),
+          isAutoStake: stake.isAutoStake,
+        });
+      });
+    }
+
+    return stakes;
+  }
+}
+
+// Export singleton instance
+export const hexStakeService = new HexStakeService();
@@ -0,0 +1,118 @@
+/**
+ * HEX Yield Service
+ * Turns the contract's dailyData into yield history: what each day paid per T-share, how each
+ * stake's interest built up day by day, and what the wallets earned each day in HEX and in USD
+ * at that day's price.
+ */
+
+import { z } from 'zod';
+import {
+  BIG_PAY_DAY,
+  HEX_ADDRESS,
+  T_SHARE,
+  dateToHexDay,
+  heartsToHex,
+  hexDayToDate,
+  type HexStakeAccrual,
+  type HexStakeYieldSeries,
+  type HexYieldDay,
+  type HexYieldHistory,
+} from '@shared/hex-stakes';
+import { hexStakeService, hexStakeAddressesQuerySchema } from './hex-stake-service';
+import { priceHistoryService } from './price-history-service';
+
+export const hexYieldHistoryQuerySchema = hexStakeAddressesQuerySchema.extend({
+  days: z.coerce.number().int().min(7).max(730).default(90),
+});
+
+class HexYieldService {
+  /**
+   * The last `days` days of dailyData with the yield of every stake in the given wallets
+   */
+  async getYieldHistory(walletAddresses: string[], days: number): Promise<HexYieldHistory> {
+    const addresses = Array.from(new Set(walletAddresses.map(address => address.toLowerCase())));
+    const reports = await Promise.all(addresses.map(address => hexStakeService.getStakes(address)));
+    const stakes = reports.flatMap(report => report.stakes);
+    const currentDay = reports.length > 0 ? Math.max(...reports.map(report => report.currentDay)) : 0;
+
+    // Accrued interest counts from each stake's first day, so load back to the oldest one
+    const windowBegin = Math.max(0, currentDay - days);
+    const firstDay = Math.min(windowBegin, ...stakes.map(stake => stake.lockedDay));
+    const [dailyData, prices] = await Promise.all([
+      hexStakeService.getDailyData(firstDay, currentDay),
+      this.getDailyPrices(days),
+    ]);
+    const windowData = dailyData.filter(data => data.day >= windowBegin);
+
+    const yieldHearts = new Map<number, bigint>();
+    const series: HexStakeYieldSeries[] = stakes.map(stake => {
+      const shares = BigInt(stake.stakeShares);
+      const bigPayDay = BigInt(stake.bigPayDayHearts);
+      // A good-accounted stake stopped earning the day it was unlocked
+      const servedEnd = Math.min(stake.isActive ? currentDay : stake.unlockedDay, stake.endDay);
+
+      let accrued = BigInt(0);
+      const points: HexStakeAccrual[] = [];
+      for (const data of dailyData) {
+        if (data.day < stake.lockedDay || data.day >= servedEnd) continue;
+
+        let earned = data.stakeSharesTotal > BigInt(0) ? data.payoutTotal * shares / data.stakeSharesTotal : BigInt(0);
+        if (data.day === BIG_PAY_DAY) earned += bigPayDay;
+        accrued += earned;
+
+        if (data.day >= windowBegin) {
+          yieldHearts.set(data.day, (yieldHearts.get(data.day) || BigInt(0)) + earned);
+          points.push({ day: data.day, accruedHex: heartsToHex(accrued) });
+        }
+      }
+
+      return { walletAddress: stake.walletAddress, stakeId: stake.stakeId, points };
+    });
+
+    const history: HexYieldDay[] = windowData.map(data => {
+      const yieldHex = heartsToHex(yieldHearts.get(data.day) || BigInt(0));
+      const hexPrice = prices.get(data.day) ?? null;
+
+      return {
+        day: data.day,
+        date: hexDayToDate(data.day).toISOString(),
+        payoutPerTShare: data.stakeSharesTotal > BigInt(0)
+          ? heartsToHex(data.payoutTotal * BigInt(T_SHARE) / data.stakeSharesTotal)
+          : 0,
+        yieldHex,
+        hexPrice,
+        yieldUsd: hexPrice !== null ? yieldHex * hexPrice : null,
+      };
+    });
+
+    return {
+      addresses,
+      beginDay: windowBegin,
+      endDay: windowData.length > 0 ? windowData[windowData.length - 1].day : windowBegin,
+      days: history,
+      stakes: series.filter(stake => stake.points.length > 0),
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * HEX's daily closes by HEX day. Daily candles start at midnight UTC like HEX days do, and only
+   * reach back as far as the price history allows, so older days have no price.
+   */
+  private async getDailyPrices(days: number): Promise<Map<number, number>> {
+    const prices = new Map<number, number>();
+    try {
+      const limit = Math.min(days, priceHistoryService.getMaxCandles('1d'));
+      const history = await priceHistoryService.getCandles(HEX_ADDRESS, '1d', limit);
+      for (const candle of history?.candles || []) {
+        prices.set(dateToHexDay(new Date(candle.timestamp)), candle.close);
+      }
+    } catch (error) {
+      console.error('[HEX Yield] Failed to load HEX price history:', error);
+    }
+    return prices;
+  }
+}
+
+// Export singleton instance
+export const hexYieldService = new HexYieldService();
@@ -5,6 +5,7 @@
 
 import { ethers, providers, utils, Contract } from 'ethers';
 import { EventEmitter } from 'events';
+import { createWsProvider } from './rpc-provider';
 
 interface TransferEvent {
   wallet: string;
@@ -26,17 +27,10 @@ interface BalanceUpdate {
   timestamp: number;
 }
 
-// PulseChain WebSocket endpoints
-const PULSECHAIN_WSS_ENDPOINTS = [
-  'wss://rpc-pulsechain.g4mm4.io',
-  'wss://rpc.pulsechain.com',
-  'wss://pulsechain-rpc.publicnode.com'
-];
-
 class LiveBalanceTracker extends EventEmitter {
   private provider: providers.WebSocketProvider | null = null;
   private trackedWallets: Map<string, Set<string>> = new Map(); // wallet -> tokens
-  private providerIndex = 0;
+  private lastWsUrl: string | undefined;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectDelay = 1000;
@@ -50,10 +44,10 @@ class LiveBalanceTracker extends EventEmitter {
 
   private async connect(): Promise<void> {
     try {
-      const wsUrl = PULSECHAIN_WSS_ENDPOINTS[this.providerIndex];
-      console.log(`Connecting to WebSocket provider: ${wsUrl}`);
-      
-      this.provider = new providers.WebSocketProvider(wsUrl);
+      // Prefer a different endpoint to the one that just dropped
+      this.provider = createWsProvider(this.lastWsUrl);
+      this.lastWsUrl = this.provider.connection.url;
+      console.log(`Connecting to WebSocket provider: ${this.lastWsUrl}`);
       
       // Wait for connection - provider connects automatically
       
@@ -96,8 +90,6 @@ class LiveBalanceTracker extends EventEmitter {
     }
 
     this.reconnectAttempts++;
-    this.providerIndex = (this.providerIndex + 1) % PULSECHAIN_WSS_ENDPOINTS.length;
-    
     const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
     console.log(`Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
     
@@ -199,6 +191,14 @@ class LiveBalanceTracker extends EventEmitter {
     tokenAddress: string
   ): Promise<void> {
     try {
+      // The log's block was orphaned by a reorg - the transfer didn't happen, but the balance
+      // it changed has to be re-read
+      if (log.removed) {
+        console.log(`Transfer in orphaned block ${log.blockNumber} removed for ${walletAddress}`);
+        await this.fetchAndEmitBalance(walletAddress, tokenAddress, log.blockNumber);
+        return;
+      }
+      
       // Decode the transfer event
       const transferInterface = new utils.Interface([
         "event Transfer(address indexed from, address indexed to, uint256 value)"
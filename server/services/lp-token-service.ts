@@ -11,8 +11,8 @@ export async function isLiquidityPoolToken(tokenAddress: string): Promise<boolea
   try {
     // Try to call token0() and token1() functions which are LP-specific
     const [token0Address, token1Address] = await Promise.all([
-      callContractFunction<string>(tokenAddress, LP_TOKEN_ABI, 'token0'),
-      callContractFunction<string>(tokenAddress, LP_TOKEN_ABI, 'token1')
+      callContractFunction<string>(tokenAddress, lpTokenInterface, 'token0'),
+      callContractFunction<string>(tokenAddress, lpTokenInterface, 'token1')
     ]);
     
     // If both token0 and token1 return valid addresses, it's likely an LP token
@@ -56,44 +56,23 @@ const ERC20_ABI = [
   {"constant":true,"inputs":[{"name":"_owner","type":"address"}],"name":"balanceOf","outputs":[{"name":"balance","type":"uint256"}],"payable":false,"stateMutability":"view","type":"function"}
 ];
 
-// Import the new RPC provider system
-import { getProvider, executeWithFailover } from './rpc-provider';
+const lpTokenInterface = new ethers.utils.Interface(LP_TOKEN_ABI);
+const erc20Interface = new ethers.utils.Interface(ERC20_ABI);
+
+// Contract reads go through the shared Multicall3 aggregator
+import { multicall } from './multicall-service';
 
 /**
- * Call a contract function using ethers.js
+ * Call a contract function through Multicall3. Reads made in the same tick - e.g. across every
+ * LP token in processLpTokens - are sent to the RPC as one batch.
  */
 async function callContractFunction<T>(
   contractAddress: string,
-  abi: any[],
+  contractInterface: ethers.utils.Interface,
   functionName: string,
   params: any[] = []
 ): Promise<T | null> {
-  try {
-    return await executeWithFailover(async (provider) => {
-      // Create a contract instance
-      const contract = new ethers.Contract(contractAddress, abi, provider);
-      
-      // Add timeout to prevent hanging on bad contracts
-      const timeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Contract call timeout')), 3000)
-      );
-      
-      // Call the function with timeout
-      const result = await Promise.race([
-        contract[functionName](...params),
-        timeoutPromise
-      ]) as T;
-      
-      return result;
-    });
-  } catch (error: any) {
-    // Only log errors that aren't expected (execution reverted is expected for non-LP tokens)
-    if (!error.message?.includes('execution reverted') && 
-        !error.message?.includes('Contract call timeout')) {
-      console.error(`Error calling ${functionName} on ${contractAddress}:`, error.message);
-    }
-    return null;
-  }
+  return multicall.callFunction<T>(contractInterface, contractAddress, functionName, params);
 }
 
 /**
@@ -111,24 +90,20 @@ export async function processLpToken(token: ProcessedToken, walletAddress: strin
   try {
     console.log(`Processing LP token: ${token.address}`);
     
-    // 1. Get LP token total supply
-    const totalSupply = await callContractFunction<ethers.BigNumber>(
-      token.address, 
-      LP_TOKEN_ABI,
-      'totalSupply'
-    );
+    // 1. Get the pair's supply, tokens and reserves - these go out in the same multicall
+    const [totalSupply, token0Address, token1Address, reserves] = await Promise.all([
+      callContractFunction<ethers.BigNumber>(token.address, lpTokenInterface, 'totalSupply'),
+      callContractFunction<string>(token.address, lpTokenInterface, 'token0'),
+      callContractFunction<string>(token.address, lpTokenInterface, 'token1'),
+      callContractFunction<[ethers.BigNumber, ethers.BigNumber, number]>(token.address, lpTokenInterface, 'getReserves')
+    ]);
     
     if (!totalSupply) {
       console.log(`Could not get total supply for LP token ${token.address}`);
       return token;
     }
     
-    // 2. Get token addresses for the pair
-    const [token0Address, token1Address] = await Promise.all([
-      callContractFunction<string>(token.address, LP_TOKEN_ABI, 'token0'),
-      callContractFunction<string>(token.address, LP_TOKEN_ABI, 'token1')
-    ]);
-    
+    // 2. Check we have the token addresses for the pair
     if (!token0Address || !token1Address) {
       console.log(`Could not get token addresses for LP pair ${token.address}`);
       return token;
@@ -143,12 +118,12 @@ export async function processLpToken(token: ProcessedToken, walletAddress: strin
       token0Name,
       token1Name
     ] = await Promise.all([
-      callContractFunction<number>(token0Address, ERC20_ABI, 'decimals'),
-      callContractFunction<number>(token1Address, ERC20_ABI, 'decimals'),
-      callContractFunction<string>(token0Address, ERC20_ABI, 'symbol'),
-      callContractFunction<string>(token1Address, ERC20_ABI, 'symbol'),
-      callContractFunction<string>(token0Address, ERC20_ABI, 'name'),
-      callContractFunction<string>(token1Address, ERC20_ABI, 'name')
+      callContractFunction<number>(token0Address, erc20Interface, 'decimals'),
+      callContractFunction<number>(token1Address, erc20Interface, 'decimals'),
+      callContractFunction<string>(token0Address, erc20Interface, 'symbol'),
+      callContractFunction<string>(token1Address, erc20Interface, 'symbol'),
+      callContractFunction<string>(token0Address, erc20Interface, 'name'),
+      callContractFunction<string>(token1Address, erc20Interface, 'name')
     ]);
     
     // Convert null values to undefined for type safety
@@ -164,14 +139,8 @@ export async function processLpToken(token: ProcessedToken, walletAddress: strin
       return token;
     }
     
-    // 4. Get reserves
-    const reserves = await callContractFunction<[ethers.BigNumber, ethers.BigNumber, number]>(
-      token.address,
-      LP_TOKEN_ABI,
-      'getReserves'
-    );
-    
-    if (!reserves || !Array.isArray(reserves) || reserves.length !== 3) {
+    // 4. Check the reserves
+    if (!reserves || reserves.length !== 3) {
       console.log(`Could not get reserves for LP pair ${token.address}`);
       return token;
     }
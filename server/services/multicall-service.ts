@@ -0,0 +1,11 @@
+/**
+ * Server-side Multicall3 aggregator. Contract reads made in the same tick are sent as one
+ * aggregate3 eth_call through the RPC failover instead of one request each.
+ */
+
+import { MulticallAggregator } from '@shared/multicall';
+import { executeWithFailover } from './rpc-provider';
+
+export const multicall = new MulticallAggregator((tx, blockTag) =>
+  executeWithFailover(async (provider) => provider.call(tx, blockTag))
+);
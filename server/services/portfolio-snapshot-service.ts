@@ -0,0 +1,235 @@
+/**
+ * Portfolio Snapshot Service
+ * Periodically records what every portfolio wallet (and so every portfolio) is worth, so net
+ * worth can be charted over time instead of only ever showing a fresh scan
+ */
+
+import { and, eq, gte, desc, asc } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  walletSnapshots,
+  walletSnapshotTokens,
+  portfolioSnapshots,
+  portfolioAddresses,
+} from '@shared/schema';
+import type { ValueHistory, ValueHistoryRange } from '@shared/value-history';
+import { balanceComposer, BALANCE_STRATEGY_PRESETS } from './balance-strategy-service';
+
+const SNAPSHOT_INTERVAL_MS = parseInt(process.env.SNAPSHOT_INTERVAL_MINUTES || '60', 10) * 60 * 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// How far back each range reaches, and how far apart the returned points are at most
+const RANGE_WINDOWS: Record<ValueHistoryRange, { durationMs: number | null; bucketMs: number | null }> = {
+  '24h': { durationMs: DAY_MS, bucketMs: null },
+  '7d': { durationMs: 7 * DAY_MS, bucketMs: HOUR_MS },
+  '30d': { durationMs: 30 * DAY_MS, bucketMs: 6 * HOUR_MS },
+  '90d': { durationMs: 90 * DAY_MS, bucketMs: DAY_MS },
+  '1y': { durationMs: 365 * DAY_MS, bucketMs: DAY_MS },
+  'all': { durationMs: null, bucketMs: DAY_MS },
+};
+
+interface SnapshotRow {
+  totalValue: number;
+  takenAt: Date;
+}
+
+/**
+ * Keep the latest snapshot in each bucket and describe the change across the range
+ */
+function toValueHistory(range: ValueHistoryRange, rows: SnapshotRow[]): ValueHistory {
+  const { bucketMs } = RANGE_WINDOWS[range];
+
+  let sampled = rows;
+  if (bucketMs) {
+    const buckets = new Map<number, SnapshotRow>();
+    rows.forEach(row => buckets.set(Math.floor(row.takenAt.getTime() / bucketMs), row));
+    sampled = Array.from(buckets.values());
+  }
+
+  const points = sampled.map(row => ({
+    timestamp: row.takenAt.toISOString(),
+    totalValue: row.totalValue,
+  }));
+
+  let change: ValueHistory['change'] = null;
+  if (points.length >= 2) {
+    const first = points[0].totalValue;
+    const last = points[points.length - 1].totalValue;
+    change = {
+      absolute: last - first,
+      percent: first > 0 ? ((last - first) / first) * 100 : null,
+    };
+  }
+
+  return { range, points, change };
+}
+
+function rangeStart(range: ValueHistoryRange): Date | null {
+  const { durationMs } = RANGE_WINDOWS[range];
+  return durationMs ? new Date(Date.now() - durationMs) : null;
+}
+
+export class PortfolioSnapshotService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private lastRunAt: Date | null = null;
+
+  /**
+   * Schedule the snapshot job, taking one straight away if the last is older than the interval
+   */
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.takeSnapshots().catch(error => {
+        console.error('[Snapshots] Snapshot run failed:', error);
+      });
+    }, SNAPSHOT_INTERVAL_MS);
+    this.timer.unref();
+
+    const [latest] = await db
+      .select({ takenAt: walletSnapshots.takenAt })
+      .from(walletSnapshots)
+      .orderBy(desc(walletSnapshots.takenAt))
+      .limit(1);
+
+    if (!latest || Date.now() - latest.takenAt.getTime() >= SNAPSHOT_INTERVAL_MS) {
+      await this.takeSnapshots();
+    }
+  }
+
+  /**
+   * Snapshot every wallet that belongs to a portfolio, then total each portfolio. A portfolio is
+   * skipped if any of its wallets couldn't be valued, rather than recording a false drop.
+   */
+  async takeSnapshots(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const startTime = Date.now();
+      const takenAt = new Date();
+      const addresses = await db
+        .select({ portfolioId: portfolioAddresses.portfolioId, walletAddress: portfolioAddresses.walletAddress })
+        .from(portfolioAddresses);
+
+      const walletValues = new Map<string, number>();
+      const wallets = Array.from(new Set(addresses.map(address => address.walletAddress.toLowerCase())));
+
+      // One wallet at a time - the snapshot job shouldn't compete with user requests for the RPC
+      for (const wallet of wallets) {
+        try {
+          walletValues.set(wallet, await this.snapshotWallet(wallet, takenAt));
+        } catch (error) {
+          console.error(`[Snapshots] Failed to snapshot ${wallet}:`, error);
+        }
+      }
+
+      const portfolioWallets = new Map<number, string[]>();
+      addresses.forEach(({ portfolioId, walletAddress }) => {
+        const list = portfolioWallets.get(portfolioId) || [];
+        list.push(walletAddress.toLowerCase());
+        portfolioWallets.set(portfolioId, list);
+      });
+
+      const rows = Array.from(portfolioWallets.entries())
+        .filter(([, members]) => members.every(wallet => walletValues.has(wallet)))
+        .map(([portfolioId, members]) => {
+          const unique = Array.from(new Set(members));
+          return {
+            portfolioId,
+            totalValue: unique.reduce((sum, wallet) => sum + walletValues.get(wallet)!, 0),
+            walletCount: unique.length,
+            takenAt,
+          };
+        });
+
+      if (rows.length > 0) {
+        await db.insert(portfolioSnapshots).values(rows);
+      }
+
+      this.lastRunAt = takenAt;
+      console.log(`[Snapshots] Recorded ${walletValues.size}/${wallets.length} wallets and ${rows.length}/${portfolioWallets.size} portfolios in ${Date.now() - startTime}ms`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Value history of a single wallet
+   */
+  async getWalletHistory(walletAddress: string, range: ValueHistoryRange): Promise<ValueHistory> {
+    const start = rangeStart(range);
+    const wallet = walletAddress.toLowerCase();
+
+    const rows = await db
+      .select({ totalValue: walletSnapshots.totalValue, takenAt: walletSnapshots.takenAt })
+      .from(walletSnapshots)
+      .where(start
+        ? and(eq(walletSnapshots.walletAddress, wallet), gte(walletSnapshots.takenAt, start))
+        : eq(walletSnapshots.walletAddress, wallet))
+      .orderBy(asc(walletSnapshots.takenAt));
+
+    return toValueHistory(range, rows);
+  }
+
+  /**
+   * Value history of a portfolio
+   */
+  async getPortfolioHistory(portfolioId: number, range: ValueHistoryRange): Promise<ValueHistory> {
+    const start = rangeStart(range);
+
+    const rows = await db
+      .select({ totalValue: portfolioSnapshots.totalValue, takenAt: portfolioSnapshots.takenAt })
+      .from(portfolioSnapshots)
+      .where(start
+        ? and(eq(portfolioSnapshots.portfolioId, portfolioId), gte(portfolioSnapshots.takenAt, start))
+        : eq(portfolioSnapshots.portfolioId, portfolioId))
+      .orderBy(asc(portfolioSnapshots.takenAt));
+
+    return toValueHistory(range, rows);
+  }
+
+  getStatus() {
+    return {
+      running: this.running,
+      lastRunAt: this.lastRunAt,
+      intervalMs: SNAPSHOT_INTERVAL_MS,
+    };
+  }
+
+  private async snapshotWallet(wallet: string, takenAt: Date): Promise<number> {
+    const composed = await balanceComposer.compose(wallet, BALANCE_STRATEGY_PRESETS.default);
+
+    await db.transaction(async (tx) => {
+      const [snapshot] = await tx
+        .insert(walletSnapshots)
+        .values({
+          walletAddress: wallet,
+          totalValue: composed.totalValue,
+          tokenCount: composed.tokens.length,
+          takenAt,
+        })
+        .returning({ id: walletSnapshots.id });
+
+      if (composed.tokens.length > 0) {
+        await tx.insert(walletSnapshotTokens).values(composed.tokens.map(token => ({
+          snapshotId: snapshot.id,
+          tokenAddress: token.address.toLowerCase(),
+          symbol: token.symbol,
+          balance: token.balance,
+          balanceFormatted: token.balanceFormatted,
+          price: token.price ?? null,
+          value: token.value ?? 0,
+        })));
+      }
+    });
+
+    return composed.totalValue;
+  }
+}
+
+// Export singleton instance
+export const portfolioSnapshotService = new PortfolioSnapshotService();
@@ -0,0 +1,259 @@
+/**
+ * Price History Service
+ * Builds OHLC candles for a token by replaying the Sync events of its PulseX pool. Every swap,
+ * mint and burn emits Sync with the new reserves, so the events give every price the pool quoted.
+ */
+
+import { ethers } from 'ethers';
+import {
+  CANDLE_INTERVAL_SECONDS,
+  type CandleInterval,
+  type PriceCandle,
+  type PriceCandles,
+} from '@shared/price-history';
+import { executeWithFailover } from './rpc-provider';
+import { blockTimeService } from './block-time-service';
+import {
+  getTokenPriceFromContract,
+  getTokenPriceAtBlock,
+  getTokenDecimals,
+  WPLS_ADDRESS,
+  WPLS_DAI_PAIR,
+  DAI_ADDRESS,
+  STABLECOINS,
+} from './smart-contract-price-service';
+
+const SYNC_EVENT_TOPIC = '0x1c411e9a96e071241c2f21f7726b17ae89e3cab4c78be50e062b03a9fffbbad1';
+
+// Replaying a busy pool is the expensive part, so a request can cover at most this much time
+const MAX_WINDOW_SECONDS = 90 * 24 * 60 * 60;
+const MAX_CANDLES = 500;
+
+const INITIAL_LOG_CHUNK = 20000;
+const MIN_LOG_CHUNK = 500;
+const CACHE_TTL_MS = 60 * 1000;
+
+interface PricingPool {
+  pairAddress: string;
+  tokenIsToken0: boolean;
+  tokenDecimals: number;
+  quoteDecimals: number;
+  // WPLS-quoted pools are converted to USD with the WPLS/DAI pool replayed alongside
+  quotedInWpls: boolean;
+}
+
+interface CandleBucket {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  updates: number;
+}
+
+// Pairs order their tokens by address, so token0 is always the lower one
+function isToken0(token: string, otherToken: string): boolean {
+  return token.toLowerCase() < otherToken.toLowerCase();
+}
+
+function decodeSync(log: ethers.providers.Log): [ethers.BigNumber, ethers.BigNumber] {
+  const [reserve0, reserve1] = ethers.utils.defaultAbiCoder.decode(['uint112', 'uint112'], log.data);
+  return [reserve0, reserve1];
+}
+
+class PriceHistoryService {
+  private cache = new Map<string, { data: PriceCandles; expiresAt: number }>();
+
+  /**
+   * Most candles a request may ask for at an interval
+   */
+  getMaxCandles(interval: CandleInterval): number {
+    return Math.min(MAX_CANDLES, Math.floor(MAX_WINDOW_SECONDS / CANDLE_INTERVAL_SECONDS[interval]));
+  }
+
+  /**
+   * The last `limit` candles for a token, ending with the one in progress. Null if the token has
+   * no WPLS or stablecoin pool to price it from.
+   */
+  async getCandles(tokenAddress: string, interval: CandleInterval, limit: number): Promise<PriceCandles | null> {
+    const normalizedAddress = tokenAddress.toLowerCase();
+    const cacheKey = `${normalizedAddress}:${interval}:${limit}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.data;
+    }
+
+    const pool = await this.resolvePool(normalizedAddress);
+    if (!pool) return null;
+
+    const intervalSeconds = CANDLE_INTERVAL_SECONDS[interval];
+    const head = await executeWithFailover(provider => provider.getBlock('latest'));
+    const endTime = (Math.floor(head.timestamp / intervalSeconds) + 1) * intervalSeconds;
+    const startTime = endTime - limit * intervalSeconds;
+    const start = await blockTimeService.findBlockByTimestamp(startTime);
+
+    // Looking up every event's block would cost a request per block; blocks come at a steady
+    // pace, so their times are interpolated between the two ends of the window instead
+    const secondsPerBlock = (head.timestamp - start.timestamp) / Math.max(1, head.number - start.blockNumber);
+    const blockTime = (blockNumber: number) => start.timestamp + (blockNumber - start.blockNumber) * secondsPerBlock;
+
+    // The price going into the window needs archive state; without it the first candles are
+    // left out until the pool's first update
+    const [startPrice, startWplsPrice] = await Promise.all([
+      getTokenPriceAtBlock(normalizedAddress, start.blockNumber),
+      pool.quotedInWpls ? getTokenPriceAtBlock(WPLS_ADDRESS, start.blockNumber) : Promise.resolve(1),
+    ]);
+
+    let quotePrice = startWplsPrice;
+    let priceInQuote = startPrice !== null && quotePrice ? startPrice / quotePrice : null;
+    let lastPrice = startPrice;
+    const buckets: Array<CandleBucket | undefined> = new Array(limit);
+
+    const addresses = pool.quotedInWpls ? [pool.pairAddress, WPLS_DAI_PAIR] : [pool.pairAddress];
+    const wplsIsToken0 = isToken0(WPLS_ADDRESS, DAI_ADDRESS);
+
+    await this.replaySyncs(addresses, start.blockNumber + 1, head.number, (log) => {
+      const [reserve0, reserve1] = decodeSync(log);
+
+      if (log.address.toLowerCase() === pool.pairAddress) {
+        const tokenReserve = pool.tokenIsToken0 ? reserve0 : reserve1;
+        const quoteReserve = pool.tokenIsToken0 ? reserve1 : reserve0;
+        const tokenAmount = parseFloat(ethers.utils.formatUnits(tokenReserve, pool.tokenDecimals));
+        if (tokenAmount === 0) return;
+        priceInQuote = parseFloat(ethers.utils.formatUnits(quoteReserve, pool.quoteDecimals)) / tokenAmount;
+      } else {
+        // Both WPLS and DAI have 18 decimals
+        const wplsAmount = parseFloat(ethers.utils.formatUnits(wplsIsToken0 ? reserve0 : reserve1, 18));
+        if (wplsAmount === 0) return;
+        quotePrice = parseFloat(ethers.utils.formatUnits(wplsIsToken0 ? reserve1 : reserve0, 18)) / wplsAmount;
+      }
+
+      if (priceInQuote === null || !quotePrice) return;
+      const price = priceInQuote * quotePrice;
+
+      const index = Math.min(limit - 1, Math.max(0, Math.floor((blockTime(log.blockNumber) - startTime) / intervalSeconds)));
+      const bucket = buckets[index];
+      if (bucket) {
+        bucket.high = Math.max(bucket.high, price);
+        bucket.low = Math.min(bucket.low, price);
+        bucket.close = price;
+        bucket.updates++;
+      } else {
+        const open = lastPrice ?? price;
+        buckets[index] = {
+          open,
+          high: Math.max(open, price),
+          low: Math.min(open, price),
+          close: price,
+          updates: 1,
+        };
+      }
+      lastPrice = price;
+    });
+
+    // Quiet intervals repeat the last close, so the series has no gaps
+    const candles: PriceCandle[] = [];
+    let carried = startPrice;
+    for (let index = 0; index < limit; index++) {
+      const timestamp = new Date((startTime + index * intervalSeconds) * 1000).toISOString();
+      const bucket = buckets[index];
+      if (bucket) {
+        candles.push({ timestamp, ...bucket });
+        carried = bucket.close;
+      } else if (carried !== null) {
+        candles.push({ timestamp, open: carried, high: carried, low: carried, close: carried, updates: 0 });
+      }
+    }
+
+    const data: PriceCandles = {
+      tokenAddress: normalizedAddress,
+      interval,
+      pairAddress: pool.pairAddress,
+      candles,
+    };
+
+    if (this.cache.size >= 500) {
+      this.cache.clear();
+    }
+    this.cache.set(cacheKey, { data, expiresAt: Date.now() + CACHE_TTL_MS });
+    return data;
+  }
+
+  /**
+   * The pool the token is currently priced from, which its history is read from too
+   */
+  private async resolvePool(tokenAddress: string): Promise<PricingPool | null> {
+    if (tokenAddress === WPLS_ADDRESS) {
+      return {
+        pairAddress: WPLS_DAI_PAIR,
+        tokenIsToken0: isToken0(WPLS_ADDRESS, DAI_ADDRESS),
+        tokenDecimals: 18,
+        quoteDecimals: 18,
+        quotedInWpls: false,
+      };
+    }
+
+    const current = await getTokenPriceFromContract(tokenAddress);
+    if (!current || !current.pairAddress) return null;
+
+    const quoteToken = (current.token0.toLowerCase() === tokenAddress ? current.token1 : current.token0).toLowerCase();
+    const quotedInWpls = quoteToken === WPLS_ADDRESS;
+    if (!quotedInWpls && !STABLECOINS.some(stablecoin => stablecoin.toLowerCase() === quoteToken)) {
+      return null;
+    }
+
+    const [tokenDecimals, quoteDecimals] = await Promise.all([
+      getTokenDecimals(tokenAddress),
+      getTokenDecimals(quoteToken),
+    ]);
+
+    return {
+      pairAddress: current.pairAddress.toLowerCase(),
+      tokenIsToken0: isToken0(tokenAddress, quoteToken),
+      tokenDecimals,
+      quoteDecimals,
+      quotedInWpls,
+    };
+  }
+
+  /**
+   * Feed the Sync events of the given pairs to `onSync` in chain order, reading the range in
+   * chunks that shrink whenever the RPC rejects one as too large
+   */
+  private async replaySyncs(
+    pairAddresses: string[],
+    fromBlock: number,
+    toBlock: number,
+    onSync: (log: ethers.providers.Log) => void
+  ): Promise<void> {
+    let chunkSize = INITIAL_LOG_CHUNK;
+    let start = fromBlock;
+
+    while (start <= toBlock) {
+      const end = Math.min(start + chunkSize - 1, toBlock);
+      let logs: ethers.providers.Log[];
+      try {
+        const perPair = await Promise.all(pairAddresses.map(address =>
+          executeWithFailover(provider => provider.getLogs({
+            address,
+            topics: [SYNC_EVENT_TOPIC],
+            fromBlock: start,
+            toBlock: end,
+          }))
+        ));
+        logs = perPair.flat();
+      } catch (error) {
+        if (chunkSize <= MIN_LOG_CHUNK) throw error;
+        chunkSize = Math.max(MIN_LOG_CHUNK, Math.floor(chunkSize / 2));
+        continue;
+      }
+
+      logs
+        .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+        .forEach(onSync);
+      start = end + 1;
+    }
+  }
+}
+
+// Export singleton instance
+export const priceHistoryService = new PriceHistoryService();
@@ -0,0 +1,138 @@
+import { eq, sql, desc, gte } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  apiRateLimits,
+  type ApiRateLimit,
+  type RateLimitClientType,
+} from '@shared/schema';
+
+// Default daily quotas for new callers - existing rows keep whatever limit they were given
+const DEFAULT_DAILY_LIMITS: Record<RateLimitClientType, number> = {
+  apiKey: parseInt(process.env.RATE_LIMIT_API_KEY_DAILY || '5000', 10),
+  user: parseInt(process.env.RATE_LIMIT_USER_DAILY || '2000', 10),
+  ip: parseInt(process.env.RATE_LIMIT_IP_DAILY || '500', 10),
+};
+
+// Result of counting a request against a caller's quota
+export interface RateLimitResult {
+  allowed: boolean;
+  clientKey: string;
+  clientType: RateLimitClientType;
+  limit: number;
+  usage: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+// Quotas reset at midnight UTC
+function startOfUtcDay(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+function nextUtcReset(now: Date = new Date()): Date {
+  const reset = startOfUtcDay(now);
+  reset.setUTCDate(reset.getUTCDate() + 1);
+  return reset;
+}
+
+function toResult(row: ApiRateLimit): RateLimitResult {
+  return {
+    allowed: row.dailyUsage <= row.dailyLimit,
+    clientKey: row.clientKey,
+    clientType: row.clientType,
+    limit: row.dailyLimit,
+    usage: Math.min(row.dailyUsage, row.dailyLimit),
+    remaining: Math.max(row.dailyLimit - row.dailyUsage, 0),
+    resetAt: nextUtcReset(),
+  };
+}
+
+/**
+ * Service for enforcing the daily per-caller quotas stored in api_rate_limits
+ */
+export class RateLimitService {
+  /**
+   * Count a request against the caller's quota. The increment and the daily reset happen in a
+   * single upsert so concurrent requests can't both slip under the limit.
+   */
+  async consume(clientKey: string, clientType: RateLimitClientType, cost: number = 1): Promise<RateLimitResult> {
+    const dayStart = startOfUtcDay();
+    const now = new Date();
+
+    const [row] = await db
+      .insert(apiRateLimits)
+      .values({
+        clientKey,
+        clientType,
+        dailyLimit: DEFAULT_DAILY_LIMITS[clientType],
+        dailyUsage: cost,
+        lastReset: now,
+      })
+      .onConflictDoUpdate({
+        target: apiRateLimits.clientKey,
+        set: {
+          // Usage is capped one past the limit so rejected requests don't grow it forever
+          dailyUsage: sql`CASE
+            WHEN ${apiRateLimits.lastReset} < ${dayStart} THEN ${cost}
+            ELSE LEAST(${apiRateLimits.dailyUsage} + ${cost}, ${apiRateLimits.dailyLimit} + 1)
+          END`,
+          lastReset: sql`CASE
+            WHEN ${apiRateLimits.lastReset} < ${dayStart} THEN ${now}
+            ELSE ${apiRateLimits.lastReset}
+          END`,
+          updatedAt: now,
+        },
+      })
+      .returning();
+
+    return toResult(row);
+  }
+
+  /**
+   * Get the caller's current usage without counting a request
+   */
+  async getUsage(clientKey: string, clientType: RateLimitClientType): Promise<RateLimitResult> {
+    const [row] = await db
+      .select()
+      .from(apiRateLimits)
+      .where(eq(apiRateLimits.clientKey, clientKey));
+
+    // No row yet, or last used before today's reset - the full quota is available
+    if (!row || row.lastReset < startOfUtcDay()) {
+      const limit = row?.dailyLimit ?? DEFAULT_DAILY_LIMITS[clientType];
+      return {
+        allowed: true,
+        clientKey,
+        clientType,
+        limit,
+        usage: 0,
+        remaining: limit,
+        resetAt: nextUtcReset(),
+      };
+    }
+
+    return toResult(row);
+  }
+
+  /**
+   * Get today's heaviest callers for the admin usage viewer
+   */
+  async getTopClients(limit: number = 20): Promise<RateLimitResult[]> {
+    try {
+      const rows = await db
+        .select()
+        .from(apiRateLimits)
+        .where(gte(apiRateLimits.lastReset, startOfUtcDay()))
+        .orderBy(desc(apiRateLimits.dailyUsage))
+        .limit(limit);
+
+      return rows.map(toResult);
+    } catch (error) {
+      console.error('[Rate Limit] Error getting top clients:', error);
+      return [];
+    }
+  }
+}
+
+// Export singleton instance
+export const rateLimitService = new RateLimitService();
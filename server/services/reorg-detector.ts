@@ -0,0 +1,153 @@
+/**
+ * Reorg Detector
+ * Remembers the hashes of recent blocks and emits 'reorg' when the chain they formed is replaced,
+ * so services holding data from those blocks can roll back to the fork point
+ */
+
+import { EventEmitter } from 'events';
+import { executeWithFailover } from './rpc-provider';
+
+// How many recent blocks are remembered - a reorg deeper than this is reported at the window's edge
+const BLOCK_WINDOW = 128;
+const POLL_INTERVAL_MS = 5 * 1000;
+
+interface BlockHeader {
+  number: number;
+  hash: string;
+  parentHash: string;
+}
+
+// Emitted as 'reorg'. Blocks above forkBlock were replaced; forkBlock itself is still canonical.
+export interface ReorgEvent {
+  forkBlock: number;
+  depth: number;
+  previousHead: number;
+  newHead: number;
+  detectedAt: number;
+}
+
+class ReorgDetector extends EventEmitter {
+  private hashes = new Map<number, string>();
+  private headBlock: number | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private reorgCount = 0;
+  private deepestReorg = 0;
+  private lastReorg: ReorgEvent | null = null;
+
+  /**
+   * Start watching the chain head. Safe to call from every service that listens for reorgs.
+   */
+  start() {
+    if (this.pollTimer) return;
+
+    this.pollTimer = setInterval(() => {
+      this.poll().catch(error => {
+        console.error('[Reorg Detector] Poll failed:', error);
+      });
+    }, POLL_INTERVAL_MS);
+    this.pollTimer.unref();
+  }
+
+  getStatus() {
+    return {
+      reorgCount: this.reorgCount,
+      deepestReorg: this.deepestReorg,
+      lastReorg: this.lastReorg,
+      reorgWatchedBlock: this.headBlock,
+    };
+  }
+
+  private async poll() {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const head = await this.getBlock('latest');
+      // Unchanged head, or an endpoint that is a block or two behind
+      if (this.hashes.get(head.number) === head.hash) return;
+
+      if (this.headBlock === null) {
+        this.record([head]);
+        return;
+      }
+
+      const oldestRemembered = Math.min(...Array.from(this.hashes.keys()));
+      // An endpoint lagging further back than we remember can't be compared against
+      if (head.number < oldestRemembered) return;
+
+      // Walk back from the new head until it links up with a block we remember, collecting the
+      // canonical blocks on the way - these fill any gap since the last poll and replace any
+      // remembered block that is no longer part of the chain
+      const canonical: BlockHeader[] = [head];
+      let cursor = head;
+      while (canonical.length < BLOCK_WINDOW) {
+        const parentNumber = cursor.number - 1;
+        const remembered = this.hashes.get(parentNumber);
+        if (remembered === cursor.parentHash || parentNumber < oldestRemembered) break;
+
+        cursor = await this.getBlock(parentNumber);
+        canonical.push(cursor);
+      }
+
+      const replaced = canonical
+        .filter(block => this.hashes.has(block.number) && this.hashes.get(block.number) !== block.hash)
+        .map(block => block.number);
+      // A new head below the old one with a different hash means the longer branch was dropped
+      if (head.number < this.headBlock) {
+        replaced.push(head.number + 1);
+      }
+
+      if (replaced.length > 0) {
+        const forkBlock = Math.min(...replaced) - 1;
+        const previousHead = this.headBlock;
+        Array.from(this.hashes.keys())
+          .filter(number => number > forkBlock)
+          .forEach(number => this.hashes.delete(number));
+        this.headBlock = forkBlock;
+        this.record(canonical);
+        this.handleReorg(forkBlock, previousHead, head.number);
+      } else {
+        this.record(canonical);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private record(blocks: BlockHeader[]) {
+    for (const block of blocks) {
+      this.hashes.set(block.number, block.hash);
+      this.headBlock = Math.max(this.headBlock ?? block.number, block.number);
+    }
+
+    const cutoff = this.headBlock! - BLOCK_WINDOW;
+    Array.from(this.hashes.keys())
+      .filter(number => number <= cutoff)
+      .forEach(number => this.hashes.delete(number));
+  }
+
+  private handleReorg(forkBlock: number, previousHead: number, newHead: number) {
+    const event: ReorgEvent = {
+      forkBlock,
+      depth: previousHead - forkBlock,
+      previousHead,
+      newHead,
+      detectedAt: Date.now(),
+    };
+    this.reorgCount++;
+    this.deepestReorg = Math.max(this.deepestReorg, event.depth);
+    this.lastReorg = event;
+
+    console.warn(`[Reorg Detector] Chain reorganized below block ${previousHead}, fork point ${forkBlock} (depth ${event.depth})`);
+    this.emit('reorg', event);
+  }
+
+  private async getBlock(blockTag: number | 'latest'): Promise<BlockHeader> {
+    const block = await executeWithFailover(provider => provider.getBlock(blockTag));
+    return { number: block.number, hash: block.hash, parentHash: block.parentHash };
+  }
+}
+
+// Export singleton instance
+export const reorgDetector = new ReorgDetector();
@@ -0,0 +1,102 @@
+/**
+ * RPC endpoint configuration. Endpoints come from a JSON file named by RPC_CONFIG_FILE, or
+ * from the RPC_ENDPOINTS environment variable, falling back to the public PulseChain RPCs.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+
+const RpcEndpointSchema = z.object({
+  name: z.string().min(1).optional(),
+  url: z.string().url().startsWith('http'),
+  wsUrl: z.string().url().startsWith('ws').optional(),
+  // Relative share of traffic this endpoint gets when it's healthy
+  weight: z.number().positive().default(1),
+});
+
+const RpcConfigSchema = z.object({
+  endpoints: z.array(RpcEndpointSchema).min(1),
+  probeIntervalMs: z.number().int().min(1000).default(15000),
+  requestTimeoutMs: z.number().int().min(1000).default(10000),
+  // Consecutive failures before an endpoint is taken out of rotation
+  quarantineAfterFailures: z.number().int().min(1).default(3),
+  quarantineMs: z.number().int().min(1000).default(30000),
+  // Blocks an endpoint can fall behind the highest one seen before it's quarantined
+  maxBlockLag: z.number().int().min(1).default(10),
+});
+
+export interface RpcEndpointConfig {
+  name: string;
+  url: string;
+  wsUrl?: string;
+  weight: number;
+}
+
+export type RpcConfig = Omit<z.infer<typeof RpcConfigSchema>, 'endpoints'> & {
+  endpoints: RpcEndpointConfig[];
+};
+
+const DEFAULT_ENDPOINTS: z.input<typeof RpcEndpointSchema>[] = [
+  { name: 'g4mm4', url: 'https://rpc-pulsechain.g4mm4.io', wsUrl: 'wss://rpc-pulsechain.g4mm4.io', weight: 2 },
+  { name: 'pulsechain', url: 'https://rpc.pulsechain.com', wsUrl: 'wss://rpc.pulsechain.com', weight: 1 },
+  { name: 'publicnode', url: 'https://pulsechain-rpc.publicnode.com', wsUrl: 'wss://pulsechain-rpc.publicnode.com', weight: 0.5 },
+];
+
+/**
+ * Parse RPC_ENDPOINTS - a comma separated list of `url|weight|wsUrl` entries where the weight
+ * and WebSocket URL are optional, e.g. `https://a.example|2|wss://a.example,https://b.example`
+ */
+function parseEndpointList(value: string): z.input<typeof RpcEndpointSchema>[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [url, weight, wsUrl] = entry.split('|').map((part) => part.trim());
+      return {
+        url,
+        ...(weight ? { weight: Number(weight) } : {}),
+        ...(wsUrl ? { wsUrl } : {}),
+      };
+    });
+}
+
+function readConfigFile(filePath: string): unknown {
+  const resolved = path.resolve(process.cwd(), filePath);
+  try {
+    return JSON.parse(fs.readFileSync(resolved, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read RPC config file ${resolved}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Load and validate the RPC configuration. Throws on an invalid config so a typo fails at
+ * startup rather than silently falling back to the defaults.
+ */
+export function loadRpcConfig(): RpcConfig {
+  let raw: unknown;
+  if (process.env.RPC_CONFIG_FILE) {
+    raw = readConfigFile(process.env.RPC_CONFIG_FILE);
+  } else if (process.env.RPC_ENDPOINTS) {
+    raw = { endpoints: parseEndpointList(process.env.RPC_ENDPOINTS) };
+  } else {
+    raw = { endpoints: DEFAULT_ENDPOINTS };
+  }
+
+  const parsed = RpcConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid RPC configuration: ${fromZodError(parsed.error).message}`);
+  }
+
+  return {
+    ...parsed.data,
+    // Unnamed endpoints are named after their host so URLs with API keys in them are never shown
+    endpoints: parsed.data.endpoints.map((endpoint) => ({
+      ...endpoint,
+      name: endpoint.name ?? new URL(endpoint.url).host,
+    })),
+  };
+}
@@ -1,97 +1,166 @@
 import { ethers } from 'ethers';
+import { loadRpcConfig, type RpcConfig, type RpcEndpointConfig } from './rpc-config';
 
-// RPC endpoints in order of preference (g4mm4 first, then official)
-const RPC_ENDPOINTS = [
-  'https://rpc-pulsechain.g4mm4.io',
-  'https://rpc.pulsechain.com',
-  'wss://rpc-pulsechain.g4mm4.io',
-  'wss://rpc.pulsechain.com'
-];
+const PULSECHAIN_NETWORK = { chainId: 369, name: 'pulsechain' };
 
-// WebSocket endpoints for real-time data
-const WS_ENDPOINTS = [
-  'wss://rpc-pulsechain.g4mm4.io',
-  'wss://rpc.pulsechain.com'
-];
+// Smoothing factor for the latency and error rate moving averages
+const EWMA_ALPHA = 0.2;
+// Latency at which the latency part of the score drops to a half
+const REFERENCE_LATENCY_MS = 500;
+// Repeated quarantines back off exponentially up to this long
+const MAX_QUARANTINE_MS = 10 * 60 * 1000;
 
-class RpcProviderManager {
-  private httpProviders: ethers.providers.JsonRpcProvider[] = [];
-  private wsProviders: ethers.providers.WebSocketProvider[] = [];
-  private currentHttpIndex = 0;
-  private currentWsIndex = 0;
-  private failedProviders = new Set<string>();
-  
-  constructor() {
-    this.initializeProviders();
+export type RpcEndpointStatus = 'healthy' | 'degraded' | 'quarantined';
+
+export interface RpcEndpointHealth {
+  index: number;
+  name: string;
+  host: string;
+  weight: number;
+  status: RpcEndpointStatus;
+  score: number; // Health (0-1) multiplied by weight
+  health: number;
+  latencyMs: number | null;
+  errorRate: number;
+  blockNumber: number | null;
+  blockLag: number;
+  requests: number;
+  failures: number;
+  quarantinedUntil: string | null;
+  lastProbeAt: string | null;
+  lastError: string | null;
+  pinned: boolean;
+}
+
+interface EndpointState {
+  config: RpcEndpointConfig;
+  provider: ethers.providers.StaticJsonRpcProvider;
+  latencyMs: number | null;
+  errorRate: number;
+  blockNumber: number | null;
+  blockLag: number;
+  consecutiveFailures: number;
+  quarantineCount: number;
+  quarantinedUntil: number | null;
+  requests: number;
+  failures: number;
+  lastProbeAt: number | null;
+  lastError: string | null;
+}
+
+async function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('RPC call timeout')), timeoutMs);
+      })
+    ]);
+  } finally {
+    // Otherwise every call that answers in time leaves a timer pending for the full timeout
+    clearTimeout(timer);
   }
+}
+
+// A revert is the contract's answer, not a problem with the endpoint
+function isCallException(error: unknown): boolean {
+  return (error as { code?: string })?.code === ethers.errors.CALL_EXCEPTION;
+}
 
-  private initializeProviders() {
-    // Initialize HTTP providers
-    this.httpProviders = RPC_ENDPOINTS
-      .filter(endpoint => endpoint.startsWith('https://'))
-      .map(endpoint => new ethers.providers.JsonRpcProvider(endpoint));
+// Short description of a failure for the health report. ethers error messages include the
+// request URL, which may carry an API key, so only the reason and code are kept.
+function describeError(error: Error): string {
+  const { reason, code } = error as { reason?: string; code?: string };
+  if (reason) return code ? `${reason} (${code})` : reason;
+  return error.message;
+}
+
+/**
+ * Registry of RPC endpoints. Every endpoint is probed for latency, errors and block lag, and
+ * requests go to a healthy endpoint picked at random in proportion to its score. Endpoints that
+ * keep failing or fall behind are quarantined until a probe shows they've recovered.
+ */
+class RpcProviderManager {
+  private endpoints: EndpointState[];
+  private pinnedIndex: number | null = null;
+  private probeTimer: NodeJS.Timeout | null = null;
 
-    // Initialize WebSocket providers
-    this.wsProviders = WS_ENDPOINTS
-      .map(endpoint => new ethers.providers.WebSocketProvider(endpoint));
+  constructor(private config: RpcConfig) {
+    this.endpoints = config.endpoints.map(endpoint => ({
+      config: endpoint,
+      provider: new ethers.providers.StaticJsonRpcProvider(endpoint.url, PULSECHAIN_NETWORK),
+      latencyMs: null,
+      errorRate: 0,
+      blockNumber: null,
+      blockLag: 0,
+      consecutiveFailures: 0,
+      quarantineCount: 0,
+      quarantinedUntil: null,
+      requests: 0,
+      failures: 0,
+      lastProbeAt: null,
+      lastError: null,
+    }));
 
-    console.log(`Initialized ${this.httpProviders.length} HTTP providers and ${this.wsProviders.length} WebSocket providers`);
+    console.log(`Initialized ${this.endpoints.length} RPC endpoints: ${this.endpoints.map(e => e.config.name).join(', ')}`);
+    this.startProbing();
   }
 
   /**
-   * Get the current primary HTTP provider
+   * Get an HTTP provider, picked the same way as for executeWithFailover
    */
   getHttpProvider(): ethers.providers.JsonRpcProvider {
-    return this.httpProviders[this.currentHttpIndex];
+    return this.selectEndpoint()!.provider;
   }
 
   /**
-   * Get the current primary WebSocket provider
+   * Open a WebSocket provider on the healthiest endpoint that has a WebSocket URL. Pass the URL
+   * of a connection that just dropped to try a different endpoint.
    */
-  getWsProvider(): ethers.providers.WebSocketProvider {
-    return this.wsProviders[this.currentWsIndex];
+  createWsProvider(excludeUrl?: string): ethers.providers.WebSocketProvider {
+    const withWs = this.endpoints.filter(e => e.config.wsUrl);
+    if (withWs.length === 0) {
+      throw new Error('No RPC endpoints are configured with a WebSocket URL');
+    }
+
+    const excluded = new Set(withWs.filter(e => e.config.wsUrl === excludeUrl));
+    const candidates = excluded.size < withWs.length ? withWs.filter(e => !excluded.has(e)) : withWs;
+    const endpoint = [...candidates].sort((a, b) => this.score(b) - this.score(a))[0];
+
+    return new ethers.providers.WebSocketProvider(endpoint.config.wsUrl!, PULSECHAIN_NETWORK);
   }
 
   /**
-   * Execute a function with automatic failover
+   * Execute a function with automatic failover. Each attempt goes to a different endpoint.
    */
   async executeWithFailover<T>(
     fn: (provider: ethers.providers.JsonRpcProvider) => Promise<T>,
     maxRetries = 3
   ): Promise<T> {
     let lastError: Error | null = null;
-    let attempts = 0;
+    const tried = new Set<EndpointState>();
 
-    while (attempts < maxRetries && attempts < this.httpProviders.length) {
-      const provider = this.httpProviders[this.currentHttpIndex];
-      const endpoint = RPC_ENDPOINTS[this.currentHttpIndex];
+    while (tried.size < maxRetries) {
+      const endpoint = this.selectEndpoint(tried);
+      if (!endpoint) break;
+      tried.add(endpoint);
 
+      const startTime = Date.now();
       try {
-        const result = await Promise.race([
-          fn(provider),
-          new Promise<never>((_, reject) => 
-            setTimeout(() => reject(new Error('RPC call timeout')), 10000)
-          )
-        ]);
-
-        // Success - reset failed providers if this was previously failed
-        if (this.failedProviders.has(endpoint)) {
-          this.failedProviders.delete(endpoint);
-          console.log(`RPC provider ${endpoint} recovered`);
-        }
-
+        const result = await withTimeout(fn(endpoint.provider), this.config.requestTimeoutMs);
+        this.recordSuccess(endpoint, Date.now() - startTime);
         return result;
       } catch (error) {
+        if (isCallException(error)) {
+          // Every endpoint would give the same answer, so don't retry or count it against this one
+          this.recordSuccess(endpoint, Date.now() - startTime);
+          throw error;
+        }
+
         lastError = error as Error;
-        attempts++;
-        
-        console.warn(`RPC provider ${endpoint} failed (attempt ${attempts}/${maxRetries}):`, error);
-        
-        // Mark as failed
-        this.failedProviders.add(endpoint);
-        
-        // Switch to next provider
-        this.switchToNextProvider();
+        console.warn(`RPC provider ${endpoint.config.name} failed (attempt ${tried.size}/${maxRetries}):`, lastError.message);
+        this.recordFailure(endpoint, lastError);
       }
     }
 
@@ -99,79 +168,212 @@ class RpcProviderManager {
   }
 
   /**
-   * Switch to the next available provider
+   * Get health status and scores of all endpoints
    */
-  private switchToNextProvider() {
-    this.currentHttpIndex = (this.currentHttpIndex + 1) % this.httpProviders.length;
-    this.currentWsIndex = (this.currentWsIndex + 1) % this.wsProviders.length;
-    
-    const newEndpoint = RPC_ENDPOINTS[this.currentHttpIndex];
-    console.log(`Switched to RPC provider: ${newEndpoint}`);
-  }
-
-  /**
-   * Get health status of all providers
-   */
-  async getProviderHealth(): Promise<{
+  getProviderHealth(): {
     primary: string;
     healthy: string[];
     failed: string[];
     totalProviders: number;
-  }> {
-    const healthChecks = await Promise.allSettled(
-      this.httpProviders.map(async (provider, index) => {
-        const endpoint = RPC_ENDPOINTS.filter(e => e.startsWith('https://'))[index];
-        try {
-          await provider.getBlockNumber();
-          return { endpoint, healthy: true };
-        } catch (error) {
-          return { endpoint, healthy: false };
-        }
-      })
-    );
-
-    const results = healthChecks.map(result => 
-      result.status === 'fulfilled' ? result.value : { endpoint: 'unknown', healthy: false }
-    );
+    endpoints: RpcEndpointHealth[];
+  } {
+    const endpoints = this.endpoints.map((endpoint, index) => this.describe(endpoint, index));
+    const primary = [...endpoints].sort((a, b) => b.score - a.score)[0];
 
     return {
-      primary: RPC_ENDPOINTS[this.currentHttpIndex],
-      healthy: results.filter(r => r.healthy).map(r => r.endpoint),
-      failed: results.filter(r => !r.healthy).map(r => r.endpoint),
-      totalProviders: this.httpProviders.length
+      primary: this.pinnedIndex !== null ? endpoints[this.pinnedIndex].name : primary.name,
+      healthy: endpoints.filter(e => e.status !== 'quarantined').map(e => e.name),
+      failed: endpoints.filter(e => e.status === 'quarantined').map(e => e.name),
+      totalProviders: endpoints.length,
+      endpoints,
     };
   }
 
   /**
-   * Force switch to a specific provider by index
+   * Pin all traffic to a specific endpoint by index, for as long as it isn't quarantined
    */
   switchToProvider(index: number) {
-    if (index >= 0 && index < this.httpProviders.length) {
-      this.currentHttpIndex = index;
-      this.currentWsIndex = Math.min(index, this.wsProviders.length - 1);
-      console.log(`Manually switched to provider: ${RPC_ENDPOINTS[index]}`);
+    if (index >= 0 && index < this.endpoints.length) {
+      this.pinnedIndex = index;
+      console.log(`Manually switched to provider: ${this.endpoints[index].config.name}`);
     }
   }
 
   /**
-   * Reset all failed providers (useful for recovery)
+   * Release all quarantined endpoints and forget their error history (useful for recovery)
    */
   resetFailedProviders() {
-    this.failedProviders.clear();
+    for (const endpoint of this.endpoints) {
+      endpoint.quarantinedUntil = null;
+      endpoint.quarantineCount = 0;
+      endpoint.consecutiveFailures = 0;
+      endpoint.errorRate = 0;
+      endpoint.lastError = null;
+    }
+    this.pinnedIndex = null;
     console.log('Reset all failed providers');
   }
+
+  /**
+   * Pick an endpoint at random, weighted by score. Falls back to the best quarantined endpoint
+   * when nothing else is left so callers always get something to try.
+   */
+  private selectEndpoint(exclude: Set<EndpointState> = new Set()): EndpointState | null {
+    const available = this.endpoints.filter(e => !exclude.has(e));
+    if (available.length === 0) return null;
+
+    if (this.pinnedIndex !== null) {
+      const pinned = this.endpoints[this.pinnedIndex];
+      if (available.includes(pinned) && !this.isQuarantined(pinned)) {
+        return pinned;
+      }
+    }
+
+    const candidates = available.filter(e => !this.isQuarantined(e) && this.score(e) > 0);
+    if (candidates.length === 0) {
+      return [...available].sort((a, b) => this.score(b) - this.score(a))[0];
+    }
+
+    const totalScore = candidates.reduce((sum, e) => sum + this.score(e), 0);
+    let pick = Math.random() * totalScore;
+    for (const endpoint of candidates) {
+      pick -= this.score(endpoint);
+      if (pick <= 0) return endpoint;
+    }
+    return candidates[candidates.length - 1];
+  }
+
+  // Health from 0 to 1, combining latency, error rate and how far behind the chain head it is
+  private health(endpoint: EndpointState): number {
+    const latencyScore = endpoint.latencyMs === null
+      ? 0.5
+      : REFERENCE_LATENCY_MS / (REFERENCE_LATENCY_MS + endpoint.latencyMs);
+    const errorScore = 1 - endpoint.errorRate;
+    const lagScore = Math.max(0, 1 - endpoint.blockLag / (this.config.maxBlockLag + 1));
+
+    return latencyScore * errorScore * lagScore;
+  }
+
+  private score(endpoint: EndpointState): number {
+    return this.isQuarantined(endpoint) ? 0 : this.health(endpoint) * endpoint.config.weight;
+  }
+
+  private isQuarantined(endpoint: EndpointState): boolean {
+    return endpoint.quarantinedUntil !== null && endpoint.quarantinedUntil > Date.now();
+  }
+
+  private recordSuccess(endpoint: EndpointState, latencyMs: number) {
+    endpoint.requests++;
+    endpoint.latencyMs = endpoint.latencyMs === null
+      ? latencyMs
+      : endpoint.latencyMs + EWMA_ALPHA * (latencyMs - endpoint.latencyMs);
+    endpoint.errorRate *= 1 - EWMA_ALPHA;
+    endpoint.consecutiveFailures = 0;
+
+    if (endpoint.quarantinedUntil !== null && endpoint.blockLag <= this.config.maxBlockLag) {
+      endpoint.quarantinedUntil = null;
+      endpoint.quarantineCount = 0;
+      console.log(`RPC provider ${endpoint.config.name} recovered`);
+    }
+  }
+
+  private recordFailure(endpoint: EndpointState, error: Error) {
+    endpoint.requests++;
+    endpoint.failures++;
+    endpoint.errorRate += EWMA_ALPHA * (1 - endpoint.errorRate);
+    endpoint.consecutiveFailures++;
+    endpoint.lastError = describeError(error);
+
+    if (endpoint.consecutiveFailures >= this.config.quarantineAfterFailures) {
+      this.quarantine(endpoint, `${endpoint.consecutiveFailures} consecutive failures`);
+    }
+  }
+
+  private quarantine(endpoint: EndpointState, reason: string) {
+    if (this.isQuarantined(endpoint)) return;
+
+    endpoint.quarantineCount++;
+    const duration = Math.min(
+      this.config.quarantineMs * Math.pow(2, endpoint.quarantineCount - 1),
+      MAX_QUARANTINE_MS
+    );
+    endpoint.quarantinedUntil = Date.now() + duration;
+    console.warn(`RPC provider ${endpoint.config.name} quarantined for ${Math.round(duration / 1000)}s: ${reason}`);
+  }
+
+  private startProbing() {
+    void this.probeAll();
+    this.probeTimer = setInterval(() => void this.probeAll(), this.config.probeIntervalMs);
+    // Probing shouldn't keep the process alive on its own
+    this.probeTimer.unref();
+  }
+
+  /**
+   * Probe every endpoint that isn't serving a quarantine, then work out how far each one is
+   * behind the highest block seen
+   */
+  private async probeAll() {
+    const due = this.endpoints.filter(e => !this.isQuarantined(e));
+
+    await Promise.all(due.map(async (endpoint) => {
+      const startTime = Date.now();
+      endpoint.lastProbeAt = startTime;
+      try {
+        endpoint.blockNumber = await withTimeout(endpoint.provider.getBlockNumber(), this.config.requestTimeoutMs);
+        this.recordSuccess(endpoint, Date.now() - startTime);
+      } catch (error) {
+        this.recordFailure(endpoint, error instanceof Error ? error : new Error(String(error)));
+      }
+    }));
+
+    const head = Math.max(...this.endpoints.map(e => e.blockNumber ?? 0));
+    for (const endpoint of this.endpoints) {
+      if (endpoint.blockNumber === null) continue;
+
+      endpoint.blockLag = head - endpoint.blockNumber;
+      if (endpoint.blockLag > this.config.maxBlockLag) {
+        this.quarantine(endpoint, `${endpoint.blockLag} blocks behind`);
+      }
+    }
+  }
+
+  private describe(endpoint: EndpointState, index: number): RpcEndpointHealth {
+    const quarantined = this.isQuarantined(endpoint);
+    const health = this.health(endpoint);
+
+    return {
+      index,
+      name: endpoint.config.name,
+      host: new URL(endpoint.config.url).host,
+      weight: endpoint.config.weight,
+      status: quarantined ? 'quarantined' : health >= 0.5 ? 'healthy' : 'degraded',
+      score: Math.round(this.score(endpoint) * 1000) / 1000,
+      health: Math.round(health * 1000) / 1000,
+      latencyMs: endpoint.latencyMs === null ? null : Math.round(endpoint.latencyMs),
+      errorRate: Math.round(endpoint.errorRate * 1000) / 1000,
+      blockNumber: endpoint.blockNumber,
+      blockLag: endpoint.blockLag,
+      requests: endpoint.requests,
+      failures: endpoint.failures,
+      quarantinedUntil: quarantined ? new Date(endpoint.quarantinedUntil!).toISOString() : null,
+      lastProbeAt: endpoint.lastProbeAt ? new Date(endpoint.lastProbeAt).toISOString() : null,
+      lastError: endpoint.lastError,
+      pinned: this.pinnedIndex === index,
+    };
+  }
 }
 
 // Export singleton instance
-export const rpcManager = new RpcProviderManager();
+export const rpcManager = new RpcProviderManager(loadRpcConfig());
 
-// Export convenience functions
+// Shared provider factory - modules should get their providers here rather than constructing
+// their own, so every RPC call benefits from the health scoring
 export const getProvider = () => rpcManager.getHttpProvider();
-export const getWsProvider = () => rpcManager.getWsProvider();
+export const createWsProvider = (excludeUrl?: string) => rpcManager.createWsProvider(excludeUrl);
 export const executeWithFailover = <T>(fn: (provider: ethers.providers.JsonRpcProvider) => Promise<T>) =>
   rpcManager.executeWithFailover(fn);
 
 // Export for health monitoring
 export const getProviderHealth = () => rpcManager.getProviderHealth();
 export const switchToProvider = (index: number) => rpcManager.switchToProvider(index);
-export const resetFailedProviders = () => rpcManager.resetFailedProviders();
\ No newline at end of file
+export const resetFailedProviders = () => rpcManager.resetFailedProviders();
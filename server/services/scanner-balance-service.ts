@@ -13,6 +13,7 @@ import { getTokenPriceDataFromDexScreener } from './dexscreener';
 import { isLiquidityPoolToken, processLpTokens } from './lp-token-service';
 import { executeWithFailover } from './rpc-provider';
 import { enhancedScanner } from './enhanced-scanner-service';
+import { transferIndexer, fetchTransferRecords } from './transfer-indexer-service';
 
 const PULSECHAIN_SCAN_API_BASE = 'https://api.scan.pulsechain.com/api/v2';
 const RECENT_BLOCKS_TO_SCAN = 100000; // Last ~33 hours of blocks for near real-time updates
@@ -58,7 +59,7 @@ function getDefaultLogo(symbol: string, address?: string): string {
   return logoMap[symbolLower] || '/assets/100xfrenlogo.png';
 }
 
-interface TokenBalanceFromScanner {
+export interface TokenBalanceFromScanner {
   token: {
     address: string;
     name: string;
@@ -72,7 +73,7 @@ interface TokenBalanceFromScanner {
 /**
  * Fetch token balances from PulseChain Scan API with retry logic
  */
-async function fetchTokenBalancesFromScanner(walletAddress: string, retries: number = 3): Promise<Map<string, TokenBalanceFromScanner>> {
+export async function fetchTokenBalancesFromScanner(walletAddress: string, retries: number = 3): Promise<Map<string, TokenBalanceFromScanner>> {
   let lastError: Error | null = null;
   
   for (let attempt = 0; attempt < retries; attempt++) {
@@ -162,7 +163,7 @@ async function fetchWalletInfoFromScanner(walletAddress: string): Promise<PulseC
 /**
  * Scan recent blocks for any new token transfers
  */
-async function scanRecentBlocks(walletAddress: string, blocksToScan: number = RECENT_BLOCKS_TO_SCAN): Promise<Set<string>> {
+export async function scanRecentBlocks(walletAddress: string, blocksToScan: number = RECENT_BLOCKS_TO_SCAN): Promise<Set<string>> {
   try {
     console.log(`Scanning last ${blocksToScan} blocks for recent transfers`);
     
@@ -174,6 +175,21 @@ async function scanRecentBlocks(walletAddress: string, blocksToScan: number = RE
     const normalizedAddress = walletAddress.toLowerCase();
     const paddedAddress = ethers.utils.hexZeroPad(normalizedAddress, 32);
     
+    // Blocks the transfer indexer has already stored are read from the database
+    const indexedBlock = transferIndexer.getIndexedBlock(normalizedAddress);
+    if (indexedBlock !== null && indexedBlock >= fromBlock) {
+      const [indexedTokens, recentRecords] = await Promise.all([
+        transferIndexer.getTokenAddresses(normalizedAddress, fromBlock),
+        indexedBlock < currentBlock
+          ? fetchTransferRecords([normalizedAddress], indexedBlock + 1, currentBlock)
+          : Promise.resolve([]),
+      ]);
+      recentRecords.forEach(record => indexedTokens.add(record.tokenAddress));
+      
+      console.log(`Found ${indexedTokens.size} tokens in recent ${blocksToScan} blocks (from index)`);
+      return indexedTokens;
+    }
+    
     // Split into chunks for large block ranges to avoid RPC limits
     const CHUNK_SIZE = 10000;
     const chunks: { from: number; to: number }[] = [];
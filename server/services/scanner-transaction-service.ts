@@ -400,11 +400,13 @@ export async function getScannerTransactionHistory(
 }
 
 /**
- * Get full transaction history (all pages)
+ * Get full transaction history (all pages), newest first. With `since`, paging stops at the
+ * first page that reaches back before it.
  */
 export async function getFullScannerTransactionHistory(
   walletAddress: string,
-  maxTransactions: number = 500
+  maxTransactions: number = 500,
+  since?: Date
 ): Promise<Transaction[]> {
   try {
     const allTransactions: Transaction[] = [];
@@ -425,6 +427,10 @@ export async function getFullScannerTransactionHistory(
         break;
       }
       
+      if (since && transactions.some(tx => new Date(tx.block_timestamp) < since)) {
+        break;
+      }
+      
       cursor = nextCursor;
       console.log(`Fetched page ${page}, total transactions: ${allTransactions.length}`);
     }
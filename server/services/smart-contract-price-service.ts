@@ -4,7 +4,7 @@
  */
 
 import { ethers } from "ethers";
-import { getProvider } from "./rpc-provider";
+import { multicall } from "./multicall-service";
 
 interface PriceData {
   price: number;
@@ -34,17 +34,21 @@ const FACTORY_ABI = [
   "function allPairsLength() view returns (uint256)",
 ];
 
+const pairInterface = new ethers.utils.Interface(PAIR_ABI);
+const erc20Interface = new ethers.utils.Interface(ERC20_ABI);
+const factoryInterface = new ethers.utils.Interface(FACTORY_ABI);
+
 // Constants
 const PULSEX_V2_FACTORY = "0x1715a3E4A142d8b698131108995174F37aEBA10D";
 const PULSEX_V1_FACTORY = "0x29eA7545DEf87022BAdc76323F373EA1e707C523";
-const WPLS_ADDRESS = "0xa1077a294dde1b09bb078844df40758a5d0f9a27";
+export const WPLS_ADDRESS = "0xa1077a294dde1b09bb078844df40758a5d0f9a27";
 
 // WPLS/DAI pair - foundation for all price calculations
-const WPLS_DAI_PAIR = "0xe56043671df55de5cdf8459710433c10324de0ae";
-const DAI_ADDRESS = "0xefD766cCb38EaF1dfd701853BFCe31359239F305"; // DAI from Ethereum
+export const WPLS_DAI_PAIR = "0xe56043671df55de5cdf8459710433c10324de0ae";
+export const DAI_ADDRESS = "0xefD766cCb38EaF1dfd701853BFCe31359239F305"; // DAI from Ethereum
 
 // Stablecoin addresses on PulseChain
-const STABLECOINS = [
+export const STABLECOINS = [
   "0x15d38573d2feeb82e7ad5187ab8c1d52810b1f07", // USDC from Ethereum
   "0xefD766cCb38EaF1dfd701853BFCe31359239F305", // DAI from Ethereum
   "0x0Cb6F5a34ad42ec934882A05265A7d5F59b51A2f", // USDT from Ethereum
@@ -59,73 +63,77 @@ const CACHE_TTL = 0; // Disabled - always fetch fresh
 let wplsCache: { price: number; timestamp: number } | null = null;
 const WPLS_CACHE_TTL = 0; // Disabled - always fetch fresh
 
-async function getTokenDecimals(
-  tokenAddress: string,
-  provider: ethers.providers.Provider,
-): Promise<number> {
-  try {
-    const tokenContract = new ethers.Contract(
-      tokenAddress,
-      ERC20_ABI,
-      provider,
-    );
-    return await tokenContract.decimals();
-  } catch (error) {
-    console.error(`Error getting decimals for ${tokenAddress}:`, error);
+// Prices at a past block never change, so these are kept until the cache fills up
+const historicalPriceCache = new Map<string, number>();
+const MAX_HISTORICAL_PRICES = 5000;
+
+// All contract reads go through the Multicall3 aggregator, so the reads for every token being
+// priced at the same time are sent to the RPC together. Passing a block number reads the pools
+// as they were at that block, which needs an archive node.
+
+export async function getTokenDecimals(tokenAddress: string, blockTag?: number): Promise<number> {
+  const decimals = await multicall.callFunction<number>(erc20Interface, tokenAddress, "decimals", [], blockTag);
+  if (decimals === null) {
+    console.error(`Error getting decimals for ${tokenAddress}`);
     return 18; // Default to 18 decimals
   }
+  return decimals;
 }
 
-async function getPairReserves(
-  pairAddress: string,
-  provider: ethers.providers.Provider,
-): Promise<{
+async function getPairReserves(pairAddress: string, blockTag?: number): Promise<{
   reserve0: ethers.BigNumber;
   reserve1: ethers.BigNumber;
   token0: string;
   token1: string;
 } | null> {
-  try {
-    const pairContract = new ethers.Contract(pairAddress, PAIR_ABI, provider);
-    const [reserves, token0, token1] = await Promise.all([
-      pairContract.getReserves(),
-      pairContract.token0(),
-      pairContract.token1(),
-    ]);
-
-    return {
-      reserve0: reserves[0],
-      reserve1: reserves[1],
-      token0,
-      token1,
-    };
-  } catch (error) {
-    console.error(`Error getting reserves for pair ${pairAddress}:`, error);
+  const [reserves, token0, token1] = await Promise.all([
+    multicall.callFunction<ethers.utils.Result>(pairInterface, pairAddress, "getReserves", [], blockTag),
+    multicall.callFunction<string>(pairInterface, pairAddress, "token0", [], blockTag),
+    multicall.callFunction<string>(pairInterface, pairAddress, "token1", [], blockTag),
+  ]);
+
+  if (!reserves || !token0 || !token1) {
+    console.error(`Error getting reserves for pair ${pairAddress}`);
     return null;
   }
+
+  return {
+    reserve0: reserves[0],
+    reserve1: reserves[1],
+    token0,
+    token1,
+  };
+}
+
+// Returns null if the factory has no pair for the two tokens
+async function getPair(
+  factoryAddress: string,
+  tokenA: string,
+  tokenB: string,
+  blockTag?: number,
+): Promise<string | null> {
+  const pairAddress = await multicall.callFunction<string>(factoryInterface, factoryAddress, "getPair", [tokenA, tokenB], blockTag);
+  return pairAddress && pairAddress !== ethers.constants.AddressZero ? pairAddress : null;
 }
 
 async function getStablecoinPairPrice(
   tokenAddress: string,
-  provider: ethers.providers.Provider,
 ): Promise<PriceData | null> {
   // Try both v2 and v1 factories
   const factories = [PULSEX_V2_FACTORY, PULSEX_V1_FACTORY];
   
   for (const factoryAddress of factories) {
-    const factory = new ethers.Contract(factoryAddress, FACTORY_ABI, provider);
-    
     for (const stablecoin of STABLECOINS) {
       try {
-        const pairAddress = await factory.getPair(tokenAddress, stablecoin);
-        if (pairAddress === ethers.constants.AddressZero) continue;
+        const pairAddress = await getPair(factoryAddress, tokenAddress, stablecoin);
+        if (!pairAddress) continue;
 
-      const pairData = await getPairReserves(pairAddress, provider);
+      const pairData = await getPairReserves(pairAddress);
       if (!pairData) continue;
 
       const [tokenDecimals, stableDecimals] = await Promise.all([
-        getTokenDecimals(tokenAddress, provider),
-        getTokenDecimals(stablecoin, provider),
+        getTokenDecimals(tokenAddress),
+        getTokenDecimals(stablecoin),
       ]);
 
       // Determine which token is which
@@ -169,7 +177,6 @@ async function getStablecoinPairPrice(
 
 async function getWPLSPairPrice(
   tokenAddress: string,
-  provider: ethers.providers.Provider,
 ): Promise<PriceData | null> {
   // Find ALL WPLS pairs from both v2 and v1 factories
   const factories = [
@@ -181,17 +188,15 @@ async function getWPLSPairPrice(
   
   for (const factory of factories) {
     try {
-      const factoryContract = new ethers.Contract(factory.address, FACTORY_ABI, provider);
-      const pairAddress = await factoryContract.getPair(tokenAddress, WPLS_ADDRESS);
-
-      if (pairAddress === ethers.constants.AddressZero) continue;
+      const pairAddress = await getPair(factory.address, tokenAddress, WPLS_ADDRESS);
+      if (!pairAddress) continue;
 
-      const pairData = await getPairReserves(pairAddress, provider);
+      const pairData = await getPairReserves(pairAddress);
       if (!pairData) continue;
 
       const [tokenDecimals, wplsDecimals] = await Promise.all([
-        getTokenDecimals(tokenAddress, provider),
-        getTokenDecimals(WPLS_ADDRESS, provider),
+        getTokenDecimals(tokenAddress),
+        getTokenDecimals(WPLS_ADDRESS),
       ]);
 
       // Determine which token is which
@@ -213,7 +218,7 @@ async function getWPLSPairPrice(
       const priceInWPLS = wplsAmount / tokenAmount;
 
       // Get WPLS price in USD
-      const wplsPrice = await getWPLSPrice(provider);
+      const wplsPrice = await getWPLSPrice();
       const price = priceInWPLS * wplsPrice;
       const liquidity = wplsAmount * wplsPrice * 2; // Total liquidity in USD
 
@@ -252,13 +257,9 @@ async function getWPLSPairPrice(
 // Find ALL pairs for a token across both factories
 async function findAllPairsForToken(
   tokenAddress: string,
-  provider: ethers.providers.Provider,
+  blockTag?: number,
 ): Promise<Array<{ pairAddress: string; factoryAddress: string; otherToken: string }>> {
-  const pairs: Array<{ pairAddress: string; factoryAddress: string; otherToken: string }> = [];
-  const factories = [
-    { address: PULSEX_V2_FACTORY, name: 'V2' },
-    { address: PULSEX_V1_FACTORY, name: 'V1' }
-  ];
+  const factories = [PULSEX_V2_FACTORY, PULSEX_V1_FACTORY];
   
   // Common tokens to check pairs with
   const commonTokens = [
@@ -267,86 +268,83 @@ async function findAllPairsForToken(
     "0x2b591e99afe9f32eaa6214f7b7629768c40eeb39", // HEX
     "0x95b303987a60c71504d99aa1b13b4da07b0790ab", // PLSX
     "0x57fde0a71132198bbec939b98976993d8d89d225", // INC
-  ];
+  ].filter((otherToken) => otherToken.toLowerCase() !== tokenAddress.toLowerCase());
   
-  for (const factory of factories) {
-    try {
-      const factoryContract = new ethers.Contract(factory.address, FACTORY_ABI, provider);
-      
-      // Check pairs with common tokens
-      for (const otherToken of commonTokens) {
-        if (otherToken.toLowerCase() === tokenAddress.toLowerCase()) continue;
-        
-        try {
-          const pairAddress = await factoryContract.getPair(tokenAddress, otherToken);
-          if (pairAddress !== ethers.constants.AddressZero) {
-            pairs.push({
-              pairAddress,
-              factoryAddress: factory.address,
-              otherToken
-            });
-          }
-        } catch (error) {
-          // Skip errors for individual pairs
-        }
-      }
-    } catch (error) {
-      console.error(`Error checking factory ${factory.name}:`, error);
-    }
-  }
+  // Every factory/token combination is looked up at once
+  const lookups = factories.flatMap((factoryAddress) =>
+    commonTokens.map(async (otherToken) => {
+      const pairAddress = await getPair(factoryAddress, tokenAddress, otherToken, blockTag);
+      return pairAddress ? { pairAddress, factoryAddress, otherToken } : null;
+    }),
+  );
   
-  return pairs;
+  const pairs = await Promise.all(lookups);
+  return pairs.filter((pair): pair is NonNullable<typeof pair> => pair !== null);
 }
 
-async function getWPLSPrice(
-  provider: ethers.providers.Provider,
-): Promise<number> {
+// At a past block there is no sensible fallback, so 0 (unpriced) is returned instead
+async function getWPLSPrice(blockTag?: number): Promise<number> {
+  const fallbackPrice = blockTag === undefined ? 0.000032 : 0;
+
   // Check cache first
-  if (wplsCache && Date.now() - wplsCache.timestamp < WPLS_CACHE_TTL) {
+  if (blockTag === undefined && wplsCache && Date.now() - wplsCache.timestamp < WPLS_CACHE_TTL) {
     return wplsCache.price;
   }
 
   try {
     // Always use the WPLS/DAI pair as the foundation for WPLS price
-    const pairContract = new ethers.Contract(WPLS_DAI_PAIR, PAIR_ABI, provider);
-    const [reserves, token0] = await Promise.all([
-      pairContract.getReserves(),
-      pairContract.token0(),
-    ]);
+    const pairData = await getPairReserves(WPLS_DAI_PAIR, blockTag);
+    if (!pairData) {
+      return fallbackPrice;
+    }
 
     // Both WPLS and DAI have 18 decimals
-    const isWPLSToken0 = token0.toLowerCase() === WPLS_ADDRESS.toLowerCase();
-    const wplsReserve = isWPLSToken0 ? reserves[0] : reserves[1];
-    const daiReserve = isWPLSToken0 ? reserves[1] : reserves[0];
+    const isWPLSToken0 = pairData.token0.toLowerCase() === WPLS_ADDRESS.toLowerCase();
+    const wplsReserve = isWPLSToken0 ? pairData.reserve0 : pairData.reserve1;
+    const daiReserve = isWPLSToken0 ? pairData.reserve1 : pairData.reserve0;
 
     const wplsAmount = parseFloat(ethers.utils.formatUnits(wplsReserve, 18));
     const daiAmount = parseFloat(ethers.utils.formatUnits(daiReserve, 18));
 
     if (wplsAmount === 0) {
       console.error('WPLS amount is 0 in WPLS/DAI pair');
-      return 0.000032; // Fallback price
+      return fallbackPrice;
     }
 
     const price = daiAmount / wplsAmount;
     console.log(`WPLS price from WPLS/DAI pair: $${price.toFixed(6)} (${wplsAmount.toFixed(2)} WPLS / ${daiAmount.toFixed(2)} DAI)`);
 
     // Cache the result
-    wplsCache = { price, timestamp: Date.now() };
+    if (blockTag === undefined) {
+      wplsCache = { price, timestamp: Date.now() };
+    }
 
     return price;
   } catch (error) {
     console.error('Error fetching WPLS price from WPLS/DAI pair:', error);
-    return 0.000032; // Fallback price
+    return fallbackPrice;
   }
 }
 
+/**
+ * Price a token from its deepest PulseX pool, either now or at a past block
+ */
 export async function getTokenPriceFromContract(
   tokenAddress: string,
+  blockTag?: number,
 ): Promise<PriceData | null> {
   const normalizedAddress = tokenAddress.toLowerCase();
 
+  // Only live prices go through priceCache - getTokenPriceAtBlock keeps past ones in the bounded
+  // historicalPriceCache, and a key per block here would never be read or evicted
+  const cachePrice = (data: PriceData) => {
+    if (blockTag === undefined) {
+      priceCache.set(normalizedAddress, { data, timestamp: Date.now() });
+    }
+  };
+
   // Check cache first
-  const cached = priceCache.get(normalizedAddress);
+  const cached = blockTag === undefined ? priceCache.get(normalizedAddress) : undefined;
   if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
     return cached.data;
   }
@@ -357,11 +355,9 @@ export async function getTokenPriceFromContract(
   }
 
   try {
-    const provider = getProvider();
-
     // Special case for WPLS
     if (normalizedAddress === WPLS_ADDRESS.toLowerCase()) {
-      const price = await getWPLSPrice(provider);
+      const price = await getWPLSPrice(blockTag);
       const data: PriceData = {
         price,
         liquidity: 1000000, // WPLS has high liquidity
@@ -369,7 +365,7 @@ export async function getTokenPriceFromContract(
         token0: WPLS_ADDRESS,
         token1: "",
       };
-      priceCache.set(normalizedAddress, { data, timestamp: Date.now() });
+      cachePrice(data);
       return data;
     }
 
@@ -379,7 +375,7 @@ export async function getTokenPriceFromContract(
       const correctPairAddress = '0x53264c3eE2e1B1f470C9884e7f9AE03613868a96'; // PRS/WPLS pair from DexScreener
       
       try {
-        const pairData = await getPairReserves(correctPairAddress, provider);
+        const pairData = await getPairReserves(correctPairAddress, blockTag);
         if (pairData) {
           const isToken0 = pairData.token0.toLowerCase() === normalizedAddress;
           const tokenReserve = isToken0 ? pairData.reserve0 : pairData.reserve1;
@@ -389,7 +385,7 @@ export async function getTokenPriceFromContract(
           const wplsAmount = parseFloat(ethers.utils.formatUnits(wplsReserve, 18));
           
           if (tokenAmount > 0) {
-            const wplsPrice = await getWPLSPrice(provider);
+            const wplsPrice = await getWPLSPrice(blockTag);
             const price = (wplsAmount / tokenAmount) * wplsPrice;
             const liquidity = wplsAmount * wplsPrice * 2;
             
@@ -402,7 +398,7 @@ export async function getTokenPriceFromContract(
               token0: pairData.token0,
               token1: pairData.token1,
             };
-            priceCache.set(normalizedAddress, { data, timestamp: Date.now() });
+            cachePrice(data);
             return data;
           }
         }
@@ -412,7 +408,7 @@ export async function getTokenPriceFromContract(
     }
 
     // Find ALL pairs for the token
-    const allPairsInfo = await findAllPairsForToken(tokenAddress, provider);
+    const allPairsInfo = await findAllPairsForToken(tokenAddress, blockTag);
     
     // Debug for PulseReflection
     if (normalizedAddress === '0xb6b57227150a7097723e0c013752001aad01248f') {
@@ -427,10 +423,11 @@ export async function getTokenPriceFromContract(
     const stablecoinPairs: PriceData[] = [];
     const otherPairs: PriceData[] = [];
     
-    for (const pairInfo of allPairsInfo) {
+    // Read every pair at once rather than one after another
+    await Promise.all(allPairsInfo.map(async (pairInfo) => {
       try {
-        const pairData = await getPairReserves(pairInfo.pairAddress, provider);
-        if (!pairData) continue;
+        const pairData = await getPairReserves(pairInfo.pairAddress, blockTag);
+        if (!pairData) return;
         
         const isToken0 = pairData.token0.toLowerCase() === tokenAddress.toLowerCase();
         const otherTokenAddress = isToken0 ? pairData.token1 : pairData.token0;
@@ -438,28 +435,28 @@ export async function getTokenPriceFromContract(
         const otherReserve = isToken0 ? pairData.reserve1 : pairData.reserve0;
         
         const [tokenDecimals, otherDecimals] = await Promise.all([
-          getTokenDecimals(tokenAddress, provider),
-          getTokenDecimals(otherTokenAddress, provider),
+          getTokenDecimals(tokenAddress, blockTag),
+          getTokenDecimals(otherTokenAddress, blockTag),
         ]);
         
         const tokenAmount = parseFloat(ethers.utils.formatUnits(tokenReserve, tokenDecimals));
         const otherAmount = parseFloat(ethers.utils.formatUnits(otherReserve, otherDecimals));
         
-        if (tokenAmount === 0) continue;
+        if (tokenAmount === 0) return;
         
         // Get price of the other token and categorize the pair
         let otherTokenPrice = 0;
         let pairType: 'wpls' | 'stablecoin' | 'other' = 'other';
         
         if (otherTokenAddress.toLowerCase() === WPLS_ADDRESS.toLowerCase()) {
-          otherTokenPrice = await getWPLSPrice(provider);
+          otherTokenPrice = await getWPLSPrice(blockTag);
           pairType = 'wpls';
         } else if (STABLECOINS.includes(otherTokenAddress.toLowerCase())) {
           otherTokenPrice = 1.0; // Stablecoins
           pairType = 'stablecoin';
         } else {
           // Skip pairs with tokens we can't price
-          continue;
+          return;
         }
         
         const price = (otherAmount / tokenAmount) * otherTokenPrice;
@@ -493,7 +490,7 @@ export async function getTokenPriceFromContract(
       } catch (error) {
         console.error(`Error processing pair ${pairInfo.pairAddress}:`, error);
       }
-    }
+    }));
     
     // Debug for PulseReflection
     if (normalizedAddress === '0xb6b57227150a7097723e0c013752001aad01248f') {
@@ -530,10 +527,7 @@ export async function getTokenPriceFromContract(
         console.log(`Selected best pair for PulseReflection: ${bestPair.pairAddress} with price $${bestPair.price}`);
       }
       
-      priceCache.set(normalizedAddress, {
-        data: bestPair,
-        timestamp: Date.now(),
-      });
+      cachePrice(bestPair);
       return bestPair;
     }
 
@@ -547,14 +541,42 @@ export async function getTokenPriceFromContract(
   }
 }
 
+/**
+ * USD price of a token at a past block, or null if it had no priced pool then or the node has
+ * no state that old
+ */
+export async function getTokenPriceAtBlock(
+  tokenAddress: string,
+  blockNumber: number,
+): Promise<number | null> {
+  const cacheKey = `${tokenAddress.toLowerCase()}@${blockNumber}`;
+  const cached = historicalPriceCache.get(cacheKey);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const data = await getTokenPriceFromContract(tokenAddress, blockNumber);
+  if (!data || data.price <= 0) {
+    // Not cached - a failed read looks the same as a token without a pool
+    return null;
+  }
+
+  if (historicalPriceCache.size >= MAX_HISTORICAL_PRICES) {
+    historicalPriceCache.clear();
+  }
+  historicalPriceCache.set(cacheKey, data.price);
+  return data.price;
+}
+
 // Export batch function for efficiency
 export async function getMultipleTokenPricesFromContract(
   tokenAddresses: string[],
 ): Promise<Map<string, PriceData>> {
   const results = new Map<string, PriceData>();
 
-  // Process in batches to avoid overwhelming the RPC
-  const BATCH_SIZE = 10;
+  // Contract reads are coalesced into multicalls, so large batches still only make a handful of
+  // RPC requests
+  const BATCH_SIZE = 50;
   for (let i = 0; i < tokenAddresses.length; i += BATCH_SIZE) {
     const batch = tokenAddresses.slice(i, i + BATCH_SIZE);
     const promises = batch.map((address) =>
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ethers } from "ethers";
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+const ROUTER = "0x165c3410fc91ef562c50559f7d2289febed552d9";
+const AGGREGATOR = "0x9999999999999999999999999999999999999999";
+const WPLS = "0xa1077a294dde1b09bb078844df40758a5d0f9a27";
+const HEX = "0x2b591e99afe9f32eaa6214f7b7629768c40eeb39";
+const PLSX = "0x95b303987a60c71504d99aa1b13b4da07b0790ab";
+const WPLS_HEX = "0x4444444444444444444444444444444444444444";
+const HEX_PLSX = "0x5555555555555555555555555555555555555555";
+
+// What the pools and tokens answer through the multicall aggregator
+const chain = vi.hoisted(() => ({
+  pairs: {
+    "0x4444444444444444444444444444444444444444": ["0xa1077a294dde1b09bb078844df40758a5d0f9a27", "0x2b591e99afe9f32eaa6214f7b7629768c40eeb39"],
+    "0x5555555555555555555555555555555555555555": ["0x2b591e99afe9f32eaa6214f7b7629768c40eeb39", "0x95b303987a60c71504d99aa1b13b4da07b0790ab"],
+  } as Record<string, [string, string]>,
+  symbols: {
+    "0xa1077a294dde1b09bb078844df40758a5d0f9a27": "WPLS",
+    "0x2b591e99afe9f32eaa6214f7b7629768c40eeb39": "HEX",
+    "0x95b303987a60c71504d99aa1b13b4da07b0790ab": "PLSX",
+  } as Record<string, string>,
+}));
+
+vi.mock("./multicall-service", () => ({
+  multicall: {
+    callFunction: vi.fn(async (_iface: unknown, target: string, functionName: string) => {
+      if (functionName === "token0") return chain.pairs[target]?.[0] ?? null;
+      if (functionName === "token1") return chain.pairs[target]?.[1] ?? null;
+      if (functionName === "symbol") return chain.symbols[target] ?? null;
+      return null;
+    }),
+  },
+}));
+vi.mock("./smart-contract-price-service", () => ({
+  WPLS_ADDRESS: "0xa1077a294dde1b09bb078844df40758a5d0f9a27",
+  getTokenDecimals: vi.fn(async (tokenAddress: string) => tokenAddress === "0x2b591e99afe9f32eaa6214f7b7629768c40eeb39" ? 8 : 18),
+}));
+vi.mock("./rpc-provider", () => ({ executeWithFailover: vi.fn() }));
+
+const { swapDecoderService } = await import("./swap-decoder-service");
+
+const router = new ethers.utils.Interface([
+  "function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable",
+  "function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+  "function addLiquidityETH(address token, uint256 amountTokenDesired, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline) payable",
+]);
+const events = new ethers.utils.Interface([
+  "event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)",
+  "event Sync(uint112 reserve0, uint112 reserve1)",
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+]);
+
+const wpls = (amount: string) => ethers.utils.parseUnits(amount, 18);
+const hex = (amount: string) => ethers.utils.parseUnits(amount, 8);
+const plsx = (amount: string) => ethers.utils.parseUnits(amount, 18);
+
+function log(address: string, name: string, args: unknown[]): ethers.providers.Log {
+  return { address, ...events.encodeEventLog(events.getEvent(name), args) } as ethers.providers.Log;
+}
+
+// A pool trade as the pair logs it - Sync with the reserves after the trade, then Swap
+function trade(pair: string, reservesAfter: ethers.BigNumber[], amounts: ethers.BigNumber[], to: string) {
+  return [
+    log(pair, "Sync", reservesAfter),
+    log(pair, "Swap", [ROUTER, ...amounts, to]),
+  ];
+}
+
+function receipt(logs: ethers.providers.Log[], status = 1) {
+  return { status, logs } as ethers.providers.TransactionReceipt;
+}
+
+let nonce = 0;
+function transaction(to: string, data: string, value: ethers.BigNumberish = 0, from = WALLET) {
+  nonce++;
+  return { hash: ethers.utils.hexZeroPad(ethers.utils.hexlify(nonce), 32), from, to, data, value };
+}
+
+// 1000 PLS for 9.87 HEX out of a pool holding 1,000,000 WPLS and 10,000 HEX - a spot price of 0.01
+const plsForHex = {
+  data: router.encodeFunctionData("swapExactETHForTokens", [0, [WPLS, HEX], WALLET, 0]),
+  logs: [
+    log(WPLS, "Transfer", [ROUTER, WPLS_HEX, wpls("1000")]),
+    ...trade(WPLS_HEX, [wpls("1001000"), hex("9990.13")], [wpls("1000"), hex("0"), wpls("0"), hex("9.87")], WALLET),
+    log(HEX, "Transfer", [WPLS_HEX, WALLET, hex("9.87")]),
+  ],
+};
+
+describe("swapDecoderService.decodeSwap", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("decodes a PulseX router swap from its calldata and pool events", async () => {
+    const swap = await swapDecoderService.decodeSwap(
+      transaction(ROUTER, plsForHex.data, wpls("1000")), receipt(plsForHex.logs), WALLET
+    );
+
+    expect(swap).toMatchObject({
+      protocol: "pulsex-v2",
+      router: ROUTER,
+      method: "swapExactETHForTokens",
+      tokenIn: { symbol: "PLS", decimals: 18 },
+      tokenOut: { address: HEX, symbol: "HEX", decimals: 8 },
+      amountIn: 1000,
+      amountOut: 9.87,
+      path: [WPLS, HEX],
+    });
+    expect(swap?.executionPrice).toBeCloseTo(0.00987);
+    expect(swap?.spotPrice).toBeCloseTo(0.01);
+    expect(swap?.slippagePercent).toBeCloseTo(1.3);
+  });
+
+  it("follows a multi-hop route and multiplies the pools' spot prices", async () => {
+    // 1000 WPLS -> 9.87 HEX -> 98.7 PLSX, through a HEX/PLSX pool priced at 10 PLSX per HEX
+    const data = router.encodeFunctionData("swapExactTokensForTokens", [wpls("1000"), 0, [WPLS, HEX, PLSX], WALLET, 0]);
+    const logs = [
+      log(WPLS, "Transfer", [WALLET, WPLS_HEX, wpls("1000")]),
+      ...trade(WPLS_HEX, [wpls("1001000"), hex("9990.13")], [wpls("1000"), hex("0"), wpls("0"), hex("9.87")], HEX_PLSX),
+      ...trade(HEX_PLSX, [hex("1009.87"), plsx("9901.3")], [hex("9.87"), plsx("0"), hex("0"), plsx("98.7")], WALLET),
+      log(PLSX, "Transfer", [HEX_PLSX, WALLET, plsx("98.7")]),
+    ];
+
+    const swap = await swapDecoderService.decodeSwap(transaction(ROUTER, data), receipt(logs), WALLET);
+
+    expect(swap).toMatchObject({
+      tokenIn: { symbol: "WPLS" },
+      tokenOut: { symbol: "PLSX" },
+      amountIn: 1000,
+      amountOut: 98.7,
+      path: [WPLS, HEX, PLSX],
+    });
+    expect(swap?.spotPrice).toBeCloseTo(0.1);
+  });
+
+  it("works out an aggregator swap from what the wallet paid in and got back", async () => {
+    const logs = [
+      log(WPLS, "Transfer", [WALLET, AGGREGATOR, wpls("1000")]),
+      log(WPLS, "Transfer", [AGGREGATOR, WPLS_HEX, wpls("1000")]),
+      ...trade(WPLS_HEX, [wpls("1001000"), hex("9990.13")], [wpls("1000"), hex("0"), wpls("0"), hex("9.87")], AGGREGATOR),
+      log(HEX, "Transfer", [WPLS_HEX, AGGREGATOR, hex("9.87")]),
+      log(HEX, "Transfer", [AGGREGATOR, WALLET, hex("9.87")]),
+    ];
+
+    const swap = await swapDecoderService.decodeSwap(transaction(AGGREGATOR, "0x12345678"), receipt(logs), WALLET);
+
+    expect(swap).toMatchObject({
+      protocol: "aggregator",
+      method: null,
+      tokenIn: { symbol: "WPLS" },
+      tokenOut: { symbol: "HEX" },
+      amountIn: 1000,
+      amountOut: 9.87,
+    });
+  });
+
+  it("ignores a contract that traded through a pool without paying the wallet", async () => {
+    const logs = [
+      log(WPLS, "Transfer", [WALLET, AGGREGATOR, wpls("1000")]),
+      ...trade(WPLS_HEX, [wpls("1001000"), hex("9990.13")], [wpls("1000"), hex("0"), wpls("0"), hex("9.87")], AGGREGATOR),
+      log(HEX, "Transfer", [WPLS_HEX, AGGREGATOR, hex("9.87")]),
+    ];
+
+    expect(await swapDecoderService.decodeSwap(transaction(AGGREGATOR, "0x12345678"), receipt(logs), WALLET)).toBeNull();
+  });
+
+  it("ignores router calls that aren't swaps", async () => {
+    const data = router.encodeFunctionData("addLiquidityETH", [HEX, hex("10"), 0, 0, WALLET, 0]);
+    expect(await swapDecoderService.decodeSwap(transaction(ROUTER, data, wpls("1000")), receipt(plsForHex.logs), WALLET)).toBeNull();
+  });
+
+  it("ignores failed transactions and transactions the wallet didn't send", async () => {
+    const failed = await swapDecoderService.decodeSwap(
+      transaction(ROUTER, plsForHex.data, wpls("1000")), receipt(plsForHex.logs, 0), WALLET
+    );
+    const someoneElses = await swapDecoderService.decodeSwap(
+      transaction(ROUTER, plsForHex.data, wpls("1000"), AGGREGATOR), receipt(plsForHex.logs), WALLET
+    );
+
+    expect(failed).toBeNull();
+    expect(someoneElses).toBeNull();
+  });
+});
@@ -0,0 +1,368 @@
+/**
+ * Swap Decoder Service
+ * Turns swap transactions into structured swap records. PulseX router calldata gives the route,
+ * and the pools' Swap and Sync events give the amounts actually traded and the reserves each
+ * pool was quoting just before the trade. Aggregator swaps have no calldata we can read, so
+ * their route is pieced together from the pool events alone.
+ */
+
+import { ethers } from 'ethers';
+import type { Transaction } from '../types';
+import { PULSEX_ROUTERS, type SwapRecord, type SwapToken } from '@shared/swap';
+import { getTransactionType } from '@shared/transaction-type';
+import { executeWithFailover } from './rpc-provider';
+import { multicall } from './multicall-service';
+import { getTokenDecimals, WPLS_ADDRESS } from './smart-contract-price-service';
+
+const PLS_TOKEN_ADDRESS = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+
+const ROUTER_ABI = [
+  'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function swapTokensForExactTokens(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)',
+  'function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable',
+  'function swapTokensForExactETH(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)',
+  'function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function swapETHForExactTokens(uint256 amountOut, address[] path, address to, uint256 deadline) payable',
+  'function swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function swapExactETHForTokensSupportingFeeOnTransferTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable',
+  'function swapExactTokensForETHSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+];
+
+const PAIR_ABI = [
+  'event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)',
+  'event Sync(uint112 reserve0, uint112 reserve1)',
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+];
+
+const ERC20_ABI = [
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'function symbol() view returns (string)',
+];
+
+const routerInterface = new ethers.utils.Interface(ROUTER_ABI);
+const pairInterface = new ethers.utils.Interface(PAIR_ABI);
+const erc20Interface = new ethers.utils.Interface(ERC20_ABI);
+
+const SWAP_EVENT_TOPIC = pairInterface.getEventTopic('Swap');
+const SYNC_EVENT_TOPIC = pairInterface.getEventTopic('Sync');
+const TRANSFER_EVENT_TOPIC = erc20Interface.getEventTopic('Transfer');
+
+const RECEIPT_BATCH_SIZE = 10;
+// Mined swaps never change, so decoded records are kept until the cache fills up
+const MAX_CACHED_SWAPS = 5000;
+
+// The parts of a transaction the decoder reads - matches ethers' TransactionResponse
+interface DecodableTransaction {
+  hash: string;
+  from: string;
+  to?: string | null;
+  data: string;
+  value: ethers.BigNumberish;
+}
+
+// One pool's part of a swap
+interface Hop {
+  pairAddress: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: ethers.BigNumber;
+  amountOut: ethers.BigNumber;
+  // Reserves just before this hop traded
+  reserveIn: ethers.BigNumber;
+  reserveOut: ethers.BigNumber;
+}
+
+/**
+ * Name of the PulseX router function the calldata calls, or null if it isn't a router swap
+ */
+export function getRouterMethodName(data: string | undefined): string | null {
+  if (!data || data.length < 10) return null;
+  try {
+    return routerInterface.getFunction(data.slice(0, 10)).name;
+  } catch {
+    return null;
+  }
+}
+
+function toNumber(amount: ethers.BigNumber, decimals: number): number {
+  return parseFloat(ethers.utils.formatUnits(amount, decimals));
+}
+
+// Hops that hand their output straight to the next one, from tokenIn to tokenOut
+function isChain(hops: Hop[]): boolean {
+  return hops.every((hop, i) => i === 0 || hops[i - 1].tokenOut === hop.tokenIn);
+}
+
+export class SwapDecoderService {
+  private swaps = new Map<string, SwapRecord | null>();
+  private pairTokens = new Map<string, [string, string]>();
+  private tokens = new Map<string, SwapToken>();
+
+  /**
+   * Decode the swap a wallet made in a transaction. Null if the wallet didn't send it, it
+   * failed, or it wasn't a plain one-token-for-another swap.
+   */
+  async decodeSwap(
+    tx: DecodableTransaction,
+    receipt: ethers.providers.TransactionReceipt,
+    walletAddress: string
+  ): Promise<SwapRecord | null> {
+    const wallet = walletAddress.toLowerCase();
+    if (!tx.to || receipt.status === 0 || tx.from.toLowerCase() !== wallet) return null;
+
+    const cacheKey = `${tx.hash.toLowerCase()}:${wallet}`;
+    if (this.swaps.has(cacheKey)) {
+      return this.swaps.get(cacheKey)!;
+    }
+
+    let swap: SwapRecord | null = null;
+    try {
+      swap = await this.decode(tx, receipt, wallet);
+    } catch (error) {
+      console.error(`[Swap Decoder] Failed to decode ${tx.hash}:`, error);
+      return null;
+    }
+
+    if (this.swaps.size >= MAX_CACHED_SWAPS) {
+      this.swaps.clear();
+    }
+    this.swaps.set(cacheKey, swap);
+    return swap;
+  }
+
+  /**
+   * Attach a decoded `swap` to every transaction in a wallet's history that looks like one.
+   * Scanner results don't include calldata or logs, so those are fetched from the RPC.
+   */
+  async decodeTransactionSwaps(transactions: Transaction[], walletAddress: string): Promise<void> {
+    const wallet = walletAddress.toLowerCase();
+    const candidates = transactions.filter(tx =>
+      tx.swap === undefined &&
+      tx.receipt_status === '1' &&
+      tx.from_address?.toLowerCase() === wallet &&
+      getTransactionType(tx, wallet) === 'swap'
+    );
+
+    for (let i = 0; i < candidates.length; i += RECEIPT_BATCH_SIZE) {
+      await Promise.all(candidates.slice(i, i + RECEIPT_BATCH_SIZE).map(async (tx) => {
+        const cacheKey = `${tx.hash.toLowerCase()}:${wallet}`;
+        if (this.swaps.has(cacheKey)) {
+          tx.swap = this.swaps.get(cacheKey);
+          return;
+        }
+
+        try {
+          const [response, receipt] = await executeWithFailover(provider => Promise.all([
+            provider.getTransaction(tx.hash),
+            provider.getTransactionReceipt(tx.hash),
+          ]));
+          if (!response || !receipt) return;
+          tx.swap = await this.decodeSwap(response, receipt, wallet);
+        } catch (error) {
+          console.error(`[Swap Decoder] Failed to fetch ${tx.hash}:`, error);
+        }
+      }));
+    }
+  }
+
+  private async decode(
+    tx: DecodableTransaction,
+    receipt: ethers.providers.TransactionReceipt,
+    wallet: string
+  ): Promise<SwapRecord | null> {
+    const router = tx.to!.toLowerCase();
+    const routerProtocol = PULSEX_ROUTERS[router];
+
+    let call: ethers.utils.TransactionDescription | null = null;
+    if (routerProtocol) {
+      try {
+        call = routerInterface.parseTransaction({ data: tx.data, value: tx.value });
+      } catch {
+        // Liquidity and other router calls
+        return null;
+      }
+    }
+
+    const hops = await this.getHops(receipt.logs);
+    if (hops.length === 0) return null;
+
+    let route: Hop[];
+    let tokenIn: string;
+    let tokenOut: string;
+    let path: string[];
+
+    if (call) {
+      // Pick out the pools along the route in order - fee-on-transfer tokens can make swaps of
+      // their own while being moved
+      path = (call.args.path as string[]).map(address => address.toLowerCase());
+      route = [];
+      let from = 0;
+      for (let i = 0; i < path.length - 1; i++) {
+        const index = hops.findIndex((hop, j) => j >= from && hop.tokenIn === path[i] && hop.tokenOut === path[i + 1]);
+        if (index === -1) return null;
+        route.push(hops[index]);
+        from = index + 1;
+      }
+      tokenIn = path[0];
+      tokenOut = path[path.length - 1];
+    } else {
+      // Whatever the pools took in but never paid out is what was sold, and the other way round
+      // for what was bought
+      const consumed = new Set(hops.map(hop => hop.tokenIn));
+      const produced = new Set(hops.map(hop => hop.tokenOut));
+      const sold = Array.from(consumed).filter(token => !produced.has(token));
+      const bought = Array.from(produced).filter(token => !consumed.has(token));
+      if (sold.length !== 1 || bought.length !== 1) return null;
+
+      route = hops;
+      tokenIn = sold[0];
+      tokenOut = bought[0];
+      path = isChain(hops) ? [tokenIn, ...hops.map(hop => hop.tokenOut)] : [tokenIn, tokenOut];
+    }
+
+    const nativeIn = ethers.BigNumber.from(tx.value || 0).gt(0) && tokenIn === WPLS_ADDRESS;
+    const walletTransfers = receipt.logs
+      .filter(log => log.topics[0] === TRANSFER_EVENT_TOPIC && log.topics.length === 3)
+      .map(log => ({
+        token: log.address.toLowerCase(),
+        from: ethers.utils.hexDataSlice(log.topics[1], 12).toLowerCase(),
+        to: ethers.utils.hexDataSlice(log.topics[2], 12).toLowerCase(),
+      }));
+    const receivedTokenOut = walletTransfers.some(t => t.token === tokenOut && t.to === wallet);
+    // WPLS the router unwrapped and paid out as PLS never reaches the wallet as a token
+    const nativeOut = call
+      ? /ETH(SupportingFeeOnTransferTokens)?$/.test(call.name)
+      : tokenOut === WPLS_ADDRESS && !receivedTokenOut;
+
+    // Without calldata, only count it when the wallet really paid in one side and got the other -
+    // zaps and other contracts also trade through pools on the way to something else
+    if (!call) {
+      const sentTokenIn = nativeIn || walletTransfers.some(t => t.token === tokenIn && t.from === wallet);
+      if (!sentTokenIn || !(receivedTokenOut || nativeOut)) return null;
+    }
+
+    const [inToken, outToken] = await Promise.all([
+      this.getToken(tokenIn, nativeIn),
+      this.getToken(tokenOut, nativeOut),
+    ]);
+
+    const sum = (amounts: ethers.BigNumber[]) => amounts.reduce((total, amount) => total.add(amount), ethers.BigNumber.from(0));
+    const amountIn = toNumber(sum(route.filter(hop => hop.tokenIn === tokenIn).map(hop => hop.amountIn)), inToken.decimals);
+    const amountOut = toNumber(sum(route.filter(hop => hop.tokenOut === tokenOut).map(hop => hop.amountOut)), outToken.decimals);
+    if (amountIn <= 0 || amountOut <= 0) return null;
+
+    // Spot price through the route is each pool's price multiplied together, which only makes
+    // sense when the trade went down a single route
+    let spotPrice: number | null = null;
+    if (isChain(route)) {
+      spotPrice = 1;
+      for (const hop of route) {
+        const [hopIn, hopOut] = await Promise.all([
+          getTokenDecimals(hop.tokenIn),
+          getTokenDecimals(hop.tokenOut),
+        ]);
+        const reserveIn = toNumber(hop.reserveIn, hopIn);
+        const reserveOut = toNumber(hop.reserveOut, hopOut);
+        if (reserveIn <= 0) {
+          spotPrice = null;
+          break;
+        }
+        spotPrice *= reserveOut / reserveIn;
+      }
+    }
+
+    const executionPrice = amountOut / amountIn;
+
+    return {
+      protocol: routerProtocol ?? 'aggregator',
+      router,
+      method: call?.name ?? null,
+      tokenIn: inToken,
+      tokenOut: outToken,
+      amountIn,
+      amountOut,
+      path,
+      executionPrice,
+      spotPrice,
+      slippagePercent: spotPrice ? (1 - executionPrice / spotPrice) * 100 : null,
+    };
+  }
+
+  /**
+   * Every pool trade in the receipt, in log order. Pools emit Sync with their new reserves right
+   * before Swap, so backing the swap's amounts out of those gives the reserves beforehand.
+   */
+  private async getHops(logs: ethers.providers.Log[]): Promise<Hop[]> {
+    const hops: Hop[] = [];
+    const lastSync = new Map<string, [ethers.BigNumber, ethers.BigNumber]>();
+
+    for (const log of logs) {
+      const pairAddress = log.address.toLowerCase();
+
+      if (log.topics[0] === SYNC_EVENT_TOPIC) {
+        const { reserve0, reserve1 } = pairInterface.parseLog(log).args;
+        lastSync.set(pairAddress, [reserve0, reserve1]);
+        continue;
+      }
+
+      if (log.topics[0] !== SWAP_EVENT_TOPIC) continue;
+
+      const reserves = lastSync.get(pairAddress);
+      const tokens = reserves ? await this.getPairTokens(pairAddress) : null;
+      if (!reserves || !tokens) continue;
+
+      const { amount0In, amount1In, amount0Out, amount1Out } = pairInterface.parseLog(log).args;
+      const reserve0Before = reserves[0].sub(amount0In).add(amount0Out);
+      const reserve1Before = reserves[1].sub(amount1In).add(amount1Out);
+      const zeroForOne = amount0In.gt(0);
+
+      hops.push({
+        pairAddress,
+        tokenIn: zeroForOne ? tokens[0] : tokens[1],
+        tokenOut: zeroForOne ? tokens[1] : tokens[0],
+        amountIn: zeroForOne ? amount0In : amount1In,
+        amountOut: zeroForOne ? amount1Out : amount0Out,
+        reserveIn: zeroForOne ? reserve0Before : reserve1Before,
+        reserveOut: zeroForOne ? reserve1Before : reserve0Before,
+      });
+    }
+
+    return hops;
+  }
+
+  private async getPairTokens(pairAddress: string): Promise<[string, string] | null> {
+    const cached = this.pairTokens.get(pairAddress);
+    if (cached) return cached;
+
+    const [token0, token1] = await Promise.all([
+      multicall.callFunction<string>(pairInterface, pairAddress, 'token0', []),
+      multicall.callFunction<string>(pairInterface, pairAddress, 'token1', []),
+    ]);
+    if (!token0 || !token1) return null;
+
+    const tokens: [string, string] = [token0.toLowerCase(), token1.toLowerCase()];
+    this.pairTokens.set(pairAddress, tokens);
+    return tokens;
+  }
+
+  private async getToken(tokenAddress: string, native: boolean): Promise<SwapToken> {
+    if (native) {
+      return { address: PLS_TOKEN_ADDRESS, symbol: 'PLS', decimals: 18 };
+    }
+
+    const cached = this.tokens.get(tokenAddress);
+    if (cached) return cached;
+
+    const [symbol, decimals] = await Promise.all([
+      multicall.callFunction<string>(erc20Interface, tokenAddress, 'symbol', []),
+      getTokenDecimals(tokenAddress),
+    ]);
+    const token = { address: tokenAddress, symbol: symbol || 'UNKNOWN', decimals };
+    if (symbol) this.tokens.set(tokenAddress, token);
+    return token;
+  }
+}
+
+// Export singleton instance
+export const swapDecoderService = new SwapDecoderService();
@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ethers } from "ethers";
+import type { Transaction, TransactionTransfer } from "../types";
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+const OWN_WALLET = "0x2222222222222222222222222222222222222222";
+const STRANGER = "0x3333333333333333333333333333333333333333";
+const ROUTER = "0x165c3410fc91ef562c50559f7d2289febed552d9";
+const PAIR = "0x4444444444444444444444444444444444444444";
+const HEX = "0x2b591e99afe9f32eaa6214f7b7629768c40eeb39";
+const SPAM = "0x5555555555555555555555555555555555555555";
+const WPLS = "0xa1077a294dde1b09bb078844df40758a5d0f9a27";
+
+const mocks = vi.hoisted(() => ({ history: [] as Transaction[] }));
+
+vi.mock("./scanner-transaction-service", () => ({
+  getFullScannerTransactionHistory: vi.fn(async () => mocks.history),
+}));
+vi.mock("./smart-contract-price-service", () => ({
+  WPLS_ADDRESS: "0xa1077a294dde1b09bb078844df40758a5d0f9a27",
+  // PLS (priced as WPLS) is $0.0001 and HEX $0.01 - anything else has no price
+  getTokenPriceAtBlock: vi.fn(async (tokenAddress: string) =>
+    ({ [WPLS]: 0.0001, [HEX]: 0.01 } as Record<string, number>)[tokenAddress] ?? null),
+}));
+
+const { classifyTransaction, taxExportService } = await import("./tax-export-service");
+
+const ownWallets = new Set([WALLET, OWN_WALLET]);
+
+function pls(amount: string) {
+  return ethers.utils.parseEther(amount).toString();
+}
+
+function transfer(address: string, symbol: string, amount: string, from: string, to: string): TransactionTransfer {
+  return {
+    address,
+    token_symbol: symbol,
+    token_decimals: "8",
+    value: ethers.utils.parseUnits(amount, 8).toString(),
+    from_address: from,
+    to_address: to,
+  };
+}
+
+function tx(block: number, overrides: Partial<Transaction>): Transaction {
+  return {
+    hash: `0x${block.toString(16).padStart(64, "0")}`,
+    nonce: "0",
+    transaction_index: "0",
+    from_address: WALLET,
+    to_address: ROUTER,
+    value: "0",
+    gas: "0",
+    gas_price: "0",
+    receipt_gas_used: "0",
+    receipt_status: "1",
+    block_timestamp: new Date(Date.UTC(2024, 2, 1, 12, block - 100)).toISOString(),
+    block_number: String(block),
+    transaction_fee: pls("0.01"),
+    erc20_transfers: [],
+    native_transfers: [],
+    ...overrides,
+  };
+}
+
+// 100 PLS swapped for 50 HEX
+const swap = tx(100, {
+  value: pls("100"),
+  method_label: "swapExactETHForTokens",
+  erc20_transfers: [transfer(HEX, "HEX", "50", PAIR, WALLET)],
+});
+// A stranger's airdrop of a token whose symbol is a spreadsheet formula
+const airdrop = tx(101, {
+  from_address: STRANGER,
+  to_address: SPAM,
+  method_label: "=1+2",
+  erc20_transfers: [transfer(SPAM, "=HYPERLINK(\"x\")", "10", STRANGER, WALLET)],
+});
+// 5 HEX moved to another own wallet
+const move = tx(102, {
+  to_address: HEX,
+  method_label: "transfer",
+  erc20_transfers: [transfer(HEX, "HEX", "5", WALLET, OWN_WALLET)],
+});
+
+describe("classifyTransaction", () => {
+  it("makes a swap a trade that carries the gas", () => {
+    const [event, ...rest] = classifyTransaction(swap, ownWallets);
+
+    expect(rest).toEqual([]);
+    expect(event).toMatchObject({
+      type: "trade",
+      wallet: WALLET,
+      sent: { symbol: "PLS", amount: 100 },
+      received: { tokenAddress: HEX, symbol: "HEX", amount: 50 },
+      fee: { symbol: "PLS", amount: 0.01 },
+      description: "swapExactETHForTokens",
+    });
+  });
+
+  it("makes tokens a stranger sent a deposit, without a fee", () => {
+    const events = classifyTransaction(airdrop, ownWallets);
+    expect(events).toMatchObject([{ type: "deposit", wallet: WALLET, counterparty: STRANGER, fee: null }]);
+  });
+
+  it("makes tokens the wallet claimed itself income", () => {
+    const claim = tx(103, { erc20_transfers: [transfer(HEX, "HEX", "3", ROUTER, WALLET)] });
+    expect(classifyTransaction(claim, ownWallets)).toMatchObject([{ type: "income", received: { amount: 3 } }]);
+  });
+
+  it("makes a send to a stranger a withdrawal", () => {
+    const send = tx(103, { erc20_transfers: [transfer(HEX, "HEX", "3", WALLET, STRANGER)] });
+    expect(classifyTransaction(send, ownWallets)).toMatchObject([{ type: "withdrawal", counterparty: STRANGER }]);
+  });
+
+  it("makes a move between own wallets a transfer from the sender", () => {
+    const events = classifyTransaction(move, ownWallets);
+    expect(events).toMatchObject([{ type: "transfer", wallet: WALLET, counterparty: OWN_WALLET, sent: { amount: 5 } }]);
+  });
+
+  it("keeps the gas of a transaction that moved nothing as a fee", () => {
+    const approval = tx(103, { to_address: HEX, method_label: "approve" });
+    expect(classifyTransaction(approval, ownWallets)).toMatchObject([
+      { type: "fee", wallet: WALLET, sent: null, received: null, fee: { amount: 0.01 } },
+    ]);
+  });
+
+  it("pairs up the legs of a multi-asset trade in order", () => {
+    const addLiquidity = tx(103, {
+      value: pls("100"),
+      erc20_transfers: [
+        transfer(HEX, "HEX", "50", WALLET, PAIR),
+        transfer(PAIR, "PLP", "1", "0x0000000000000000000000000000000000000000", WALLET),
+      ],
+    });
+
+    const events = classifyTransaction(addLiquidity, ownWallets);
+    expect(events.map(event => [event.type, event.sent?.symbol, event.received?.symbol])).toEqual([
+      ["trade", "HEX", "PLP"],
+      ["trade", "PLS", undefined],
+    ]);
+  });
+});
+
+describe("taxExportService.exportCsv", () => {
+  const from = new Date("2024-01-01T00:00:00Z");
+  const to = new Date("2024-12-31T23:59:59Z");
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    mocks.history = [swap, airdrop, move];
+  });
+
+  async function exportRows(format: "koinly" | "cointracking" | "generic") {
+    const { csv, truncatedWallets } = await taxExportService.exportCsv([WALLET], from, to, format, [OWN_WALLET]);
+    expect(truncatedWallets).toEqual([]);
+    return csv.trimEnd().split("\n");
+  }
+
+  it("writes the Koinly universal layout, leaving out moves between own wallets but not their gas", async () => {
+    expect(await exportRows("koinly")).toEqual([
+      "Date,Sent Amount,Sent Currency,Received Amount,Received Currency,Fee Amount,Fee Currency,Net Worth Amount,Net Worth Currency,Label,Description,TxHash",
+      `2024-03-01 12:00:00 UTC,100,PLS,50,HEX,0.01,PLS,0.50,USD,,swapExactETHForTokens,${swap.hash}`,
+      `2024-03-01 12:01:00 UTC,,,10,"'=HYPERLINK(""x"")",,,,USD,,'=1+2,${airdrop.hash}`,
+      `2024-03-01 12:02:00 UTC,0.01,PLS,,,,,0.00,USD,cost,Gas for transfer between own wallets,${move.hash}`,
+    ]);
+  });
+
+  it("writes the CoinTracking layout, with a move between own wallets as a withdrawal and a deposit", async () => {
+    expect(await exportRows("cointracking")).toEqual([
+      "Type,Buy Amount,Buy Currency,Sell Amount,Sell Currency,Fee,Fee Currency,Exchange,Trade-Group,Comment,Date,Tx-ID,Buy Value in Account Currency,Sell Value in Account Currency",
+      `Trade,50,HEX,100,PLS,0.01,PLS,PulseChain ${WALLET},,swapExactETHForTokens,2024-03-01 12:00:00,${swap.hash},0.50,0.01`,
+      `Deposit,10,"'=HYPERLINK(""x"")",,,,,PulseChain ${WALLET},,'=1+2,2024-03-01 12:01:00,${airdrop.hash},,`,
+      `Withdrawal,,,5,HEX,0.01,PLS,PulseChain ${WALLET},,transfer,2024-03-01 12:02:00,${move.hash},,0.05`,
+      `Deposit,5,HEX,,,,,PulseChain ${OWN_WALLET},,transfer,2024-03-01 12:02:00,${move.hash},0.05,`,
+    ]);
+  });
+
+  it("writes every leg with its token address and USD value in the generic layout", async () => {
+    expect(await exportRows("generic")).toEqual([
+      "Date (UTC),Type,Wallet,Counterparty,Sent Amount,Sent Currency,Sent Token Address,Sent Value (USD),Received Amount,Received Currency,Received Token Address,Received Value (USD),Fee Amount,Fee Currency,Fee Value (USD),Block,Tx Hash,Description",
+      `2024-03-01 12:00:00,trade,${WALLET},,100,PLS,0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee,0.01,50,HEX,${HEX},0.50,0.01,PLS,0.00,100,${swap.hash},swapExactETHForTokens`,
+      `2024-03-01 12:01:00,deposit,${WALLET},${STRANGER},,,,,10,"'=HYPERLINK(""x"")",${SPAM},,,,,101,${airdrop.hash},'=1+2`,
+      `2024-03-01 12:02:00,transfer,${WALLET},${OWN_WALLET},5,HEX,${HEX},0.05,5,HEX,${HEX},0.05,0.01,PLS,0.00,102,${move.hash},transfer`,
+    ]);
+  });
+});
@@ -0,0 +1,470 @@
+/**
+ * Tax Export Service
+ * Classifies a wallet's (or a whole portfolio's) transactions as trades, income, transfers
+ * between own wallets and fees, values every leg in USD at the block it happened in, and writes
+ * them out in the CSV layouts crypto-tax tools import
+ */
+
+import { ethers } from 'ethers';
+import { z } from 'zod';
+import { stringify } from 'csv-stringify/sync';
+import type { Transaction } from '../types';
+import { getFullScannerTransactionHistory } from './scanner-transaction-service';
+import { getTokenPriceAtBlock, WPLS_ADDRESS } from './smart-contract-price-service';
+
+export const taxExportFormats = ['koinly', 'cointracking', 'generic'] as const;
+export type TaxExportFormat = typeof taxExportFormats[number];
+
+// A bare date (YYYY-MM-DD) covers that whole day in UTC
+function dateParam(endOfDay: boolean) {
+  return z.string().transform((value, ctx) => {
+    const time = /^\d{4}-\d{2}-\d{2}$/.test(value)
+      ? Date.parse(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}Z`)
+      : Date.parse(value);
+    if (isNaN(time)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Expected YYYY-MM-DD or an ISO 8601 timestamp' });
+      return z.NEVER;
+    }
+    return new Date(time);
+  });
+}
+
+// Query string of the tax export endpoints - defaults to the current year so far
+export const taxExportQuerySchema = z.object({
+  format: z.enum(taxExportFormats).default('generic'),
+  from: dateParam(false).optional(),
+  to: dateParam(true).optional(),
+}).transform(({ format, from, to }) => ({
+  format,
+  from: from ?? new Date(Date.UTC(new Date().getUTCFullYear(), 0, 1)),
+  to: to ?? new Date(),
+})).refine(({ from, to }) => from <= to, { message: 'from must not be after to' });
+
+type TaxEventType = 'trade' | 'income' | 'deposit' | 'withdrawal' | 'transfer' | 'fee';
+
+const PLS_TOKEN_ADDRESS = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+// History is paged back to the start of the range, up to this many transactions per wallet
+const MAX_TRANSACTIONS_PER_WALLET = 10000;
+const PRICE_LOOKUP_BATCH_SIZE = 10;
+
+interface Movement {
+  tokenAddress: string;
+  symbol: string;
+  amount: number;
+  from: string;
+  to: string;
+}
+
+interface TaxLeg {
+  tokenAddress: string;
+  symbol: string;
+  amount: number;
+  valueUsd: number | null;
+}
+
+// Scanner transfers and transactions have no to address for contract creations
+function normalizeAddress(address: string | null | undefined): string {
+  return (address || '').toLowerCase();
+}
+
+interface TaxEvent {
+  type: TaxEventType;
+  timestamp: Date;
+  blockNumber: number;
+  txHash: string;
+  // The own wallet the event belongs to - the sender for transfers between own wallets
+  wallet: string;
+  counterparty: string | null;
+  sent: TaxLeg | null;
+  received: TaxLeg | null;
+  fee: TaxLeg | null;
+  description: string;
+}
+
+// The price of native PLS is the price of WPLS
+function priceAddressFor(tokenAddress: string): string {
+  return tokenAddress === PLS_TOKEN_ADDRESS ? WPLS_ADDRESS : tokenAddress;
+}
+
+function toAmount(value: string | undefined, decimals: number): number {
+  try {
+    return parseFloat(ethers.utils.formatUnits(value || '0', decimals));
+  } catch {
+    return 0;
+  }
+}
+
+function toLeg(movement: Movement): TaxLeg {
+  return { tokenAddress: movement.tokenAddress, symbol: movement.symbol, amount: movement.amount, valueUsd: null };
+}
+
+/**
+ * Every token and PLS movement in a transaction, with lowercase addresses
+ */
+function getMovements(tx: Transaction): Movement[] {
+  const movements: Movement[] = [];
+
+  for (const transfer of tx.erc20_transfers || []) {
+    if (!transfer.address) continue;
+    const amount = toAmount(transfer.value, parseInt(transfer.token_decimals || '18'));
+    if (amount <= 0) continue;
+
+    movements.push({
+      tokenAddress: transfer.address.toLowerCase(),
+      symbol: transfer.token_symbol || 'UNKNOWN',
+      amount,
+      from: normalizeAddress(transfer.from_address),
+      to: normalizeAddress(transfer.to_address),
+    });
+  }
+
+  const nativeMovements = [
+    { from_address: tx.from_address, to_address: tx.to_address, value: tx.value },
+    ...(tx.native_transfers || []),
+  ];
+  for (const movement of nativeMovements) {
+    const amount = toAmount(movement.value, 18);
+    if (amount <= 0) continue;
+
+    movements.push({
+      tokenAddress: PLS_TOKEN_ADDRESS,
+      symbol: 'PLS',
+      amount,
+      from: normalizeAddress(movement.from_address),
+      to: normalizeAddress(movement.to_address),
+    });
+  }
+
+  return movements;
+}
+
+/**
+ * Split a transaction into tax events from the point of view of the given own wallets
+ */
+export function classifyTransaction(tx: Transaction, ownWallets: Set<string>): TaxEvent[] {
+  const movements = getMovements(tx);
+  const outgoing = movements.filter(m => ownWallets.has(m.from) && !ownWallets.has(m.to));
+  const incoming = movements.filter(m => ownWallets.has(m.to) && !ownWallets.has(m.from));
+  const internal = movements.filter(m => ownWallets.has(m.from) && ownWallets.has(m.to));
+
+  const sender = normalizeAddress(tx.from_address);
+  const base = {
+    timestamp: new Date(tx.block_timestamp),
+    blockNumber: parseInt(tx.block_number),
+    txHash: tx.hash,
+    fee: null,
+    description: tx.method_label || '',
+  };
+  const events: TaxEvent[] = [];
+
+  if (outgoing.length > 0 && incoming.length > 0) {
+    // Tax tools take one asset each way per row, so multi-asset trades (adding liquidity,
+    // multi-hop payouts) are paired up in order with the leftovers on rows of their own
+    const rows = Math.max(outgoing.length, incoming.length);
+    for (let i = 0; i < rows; i++) {
+      const sent = outgoing[i];
+      const received = incoming[i];
+      events.push({
+        ...base,
+        type: 'trade',
+        wallet: sent?.from ?? received!.to,
+        counterparty: null,
+        sent: sent ? toLeg(sent) : null,
+        received: received ? toLeg(received) : null,
+      });
+    }
+  } else {
+    // Something the wallet claimed itself (rewards, stake payouts) is income; something another
+    // address sent it is a deposit, left for the accountant to label
+    incoming.forEach(movement => events.push({
+      ...base,
+      type: ownWallets.has(sender) ? 'income' : 'deposit',
+      wallet: movement.to,
+      counterparty: movement.from || null,
+      sent: null,
+      received: toLeg(movement),
+    }));
+    outgoing.forEach(movement => events.push({
+      ...base,
+      type: 'withdrawal',
+      wallet: movement.from,
+      counterparty: movement.to || null,
+      sent: toLeg(movement),
+      received: null,
+    }));
+  }
+
+  internal.forEach(movement => events.push({
+    ...base,
+    type: 'transfer',
+    wallet: movement.from,
+    counterparty: movement.to,
+    sent: toLeg(movement),
+    received: toLeg(movement),
+  }));
+
+  // Gas is paid by whichever own wallet sent the transaction
+  const feeAmount = ownWallets.has(sender) ? toAmount(tx.transaction_fee, 18) : 0;
+  if (feeAmount > 0) {
+    const fee: TaxLeg = { tokenAddress: PLS_TOKEN_ADDRESS, symbol: 'PLS', amount: feeAmount, valueUsd: null };
+    if (events.length > 0) {
+      events[0].fee = fee;
+    } else {
+      events.push({ ...base, type: 'fee', wallet: sender, counterparty: null, sent: null, received: null, fee });
+    }
+  }
+
+  return events;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+// Token symbols and names come from any contract, and a cell starting with = + - or @ would be run
+// as a formula when the file is opened in a spreadsheet
+const CSV_OPTIONS = { header: true, escape_formulas: true };
+
+// Plain decimal notation - tax tools don't read 1e-7
+function formatAmount(amount: number | undefined): string {
+  if (amount === undefined) return '';
+  return amount.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 18 });
+}
+
+function formatUsd(value: number | null | undefined): string {
+  return value === null || value === undefined ? '' : value.toFixed(2);
+}
+
+/**
+ * Koinly universal format. Transfers between own wallets are left out - imported as one wallet
+ * they are no-ops - but the gas they cost is kept as a cost.
+ */
+function toKoinlyCsv(events: TaxEvent[]): string {
+  const rows = events.flatMap(event => {
+    if (event.type === 'transfer' || event.type === 'fee') {
+      if (!event.fee) return [];
+      return [{
+        'Date': `${formatDate(event.timestamp)} UTC`,
+        'Sent Amount': formatAmount(event.fee.amount),
+        'Sent Currency': event.fee.symbol,
+        'Net Worth Amount': formatUsd(event.fee.valueUsd),
+        'Net Worth Currency': 'USD',
+        'Label': 'cost',
+        'Description': event.type === 'transfer' ? 'Gas for transfer between own wallets' : `Gas: ${event.description}`,
+        'TxHash': event.txHash,
+      }];
+    }
+
+    return [{
+      'Date': `${formatDate(event.timestamp)} UTC`,
+      'Sent Amount': formatAmount(event.sent?.amount),
+      'Sent Currency': event.sent?.symbol ?? '',
+      'Received Amount': formatAmount(event.received?.amount),
+      'Received Currency': event.received?.symbol ?? '',
+      'Fee Amount': formatAmount(event.fee?.amount),
+      'Fee Currency': event.fee?.symbol ?? '',
+      'Net Worth Amount': formatUsd(event.received?.valueUsd ?? event.sent?.valueUsd),
+      'Net Worth Currency': 'USD',
+      'Label': event.type === 'income' ? 'income' : '',
+      'Description': event.description,
+      'TxHash': event.txHash,
+    }];
+  });
+
+  return stringify(rows, {
+    ...CSV_OPTIONS,
+    columns: [
+      'Date', 'Sent Amount', 'Sent Currency', 'Received Amount', 'Received Currency', 'Fee Amount',
+      'Fee Currency', 'Net Worth Amount', 'Net Worth Currency', 'Label', 'Description', 'TxHash',
+    ],
+  });
+}
+
+/**
+ * CoinTracking custom CSV import. Each wallet is its own "exchange", so a transfer between own
+ * wallets becomes a withdrawal from one and a deposit to the other.
+ */
+function toCoinTrackingCsv(events: TaxEvent[]): string {
+  const typeLabels: Record<TaxEventType, string> = {
+    trade: 'Trade',
+    income: 'Income',
+    deposit: 'Deposit',
+    withdrawal: 'Withdrawal',
+    transfer: 'Withdrawal',
+    fee: 'Other Fee',
+  };
+
+  const rows = events.flatMap(event => {
+    const row = {
+      'Type': typeLabels[event.type],
+      'Buy Amount': formatAmount(event.received?.amount),
+      'Buy Currency': event.received?.symbol ?? '',
+      'Sell Amount': formatAmount(event.sent?.amount),
+      'Sell Currency': event.sent?.symbol ?? '',
+      'Fee': formatAmount(event.fee?.amount),
+      'Fee Currency': event.fee?.symbol ?? '',
+      'Exchange': `PulseChain ${event.wallet}`,
+      'Trade-Group': '',
+      'Comment': event.description,
+      'Date': formatDate(event.timestamp),
+      'Tx-ID': event.txHash,
+      'Buy Value in Account Currency': formatUsd(event.received?.valueUsd),
+      'Sell Value in Account Currency': formatUsd(event.sent?.valueUsd),
+    };
+
+    if (event.type === 'fee') {
+      return [{ ...row, 'Sell Amount': formatAmount(event.fee?.amount), 'Sell Currency': 'PLS', 'Fee': '', 'Fee Currency': '' }];
+    }
+
+    if (event.type === 'transfer') {
+      return [
+        { ...row, 'Buy Amount': '', 'Buy Currency': '', 'Buy Value in Account Currency': '' },
+        {
+          ...row,
+          'Type': 'Deposit',
+          'Sell Amount': '',
+          'Sell Currency': '',
+          'Sell Value in Account Currency': '',
+          'Fee': '',
+          'Fee Currency': '',
+          'Exchange': `PulseChain ${event.counterparty}`,
+        },
+      ];
+    }
+
+    return [row];
+  });
+
+  return stringify(rows, {
+    ...CSV_OPTIONS,
+    columns: [
+      'Type', 'Buy Amount', 'Buy Currency', 'Sell Amount', 'Sell Currency', 'Fee', 'Fee Currency',
+      'Exchange', 'Trade-Group', 'Comment', 'Date', 'Tx-ID', 'Buy Value in Account Currency',
+      'Sell Value in Account Currency',
+    ],
+  });
+}
+
+/**
+ * Everything we know about each event, including token addresses and per-leg USD values
+ */
+function toGenericCsv(events: TaxEvent[]): string {
+  const rows = events.map(event => ({
+    'Date (UTC)': formatDate(event.timestamp),
+    'Type': event.type,
+    'Wallet': event.wallet,
+    'Counterparty': event.counterparty ?? '',
+    'Sent Amount': formatAmount(event.sent?.amount),
+    'Sent Currency': event.sent?.symbol ?? '',
+    'Sent Token Address': event.sent?.tokenAddress ?? '',
+    'Sent Value (USD)': formatUsd(event.sent?.valueUsd),
+    'Received Amount': formatAmount(event.received?.amount),
+    'Received Currency': event.received?.symbol ?? '',
+    'Received Token Address': event.received?.tokenAddress ?? '',
+    'Received Value (USD)': formatUsd(event.received?.valueUsd),
+    'Fee Amount': formatAmount(event.fee?.amount),
+    'Fee Currency': event.fee?.symbol ?? '',
+    'Fee Value (USD)': formatUsd(event.fee?.valueUsd),
+    'Block': event.blockNumber,
+    'Tx Hash': event.txHash,
+    'Description': event.description,
+  }));
+
+  return stringify(rows, {
+    ...CSV_OPTIONS,
+    columns: [
+      'Date (UTC)', 'Type', 'Wallet', 'Counterparty', 'Sent Amount', 'Sent Currency', 'Sent Token Address',
+      'Sent Value (USD)', 'Received Amount', 'Received Currency', 'Received Token Address',
+      'Received Value (USD)', 'Fee Amount', 'Fee Currency', 'Fee Value (USD)', 'Block', 'Tx Hash', 'Description',
+    ],
+  });
+}
+
+export interface TaxExport {
+  csv: string;
+  // Wallets with more than MAX_TRANSACTIONS_PER_WALLET transactions between `from` and now,
+  // whose oldest events in the range are missing from the export
+  truncatedWallets: string[];
+}
+
+export class TaxExportService {
+  /**
+   * Tax events for a set of own wallets between two dates, oldest first and valued in USD.
+   * Related wallets are also the owner's, so moves to them count as transfers, but their own
+   * histories aren't exported
+   */
+  async getEvents(
+    walletAddresses: string[],
+    from: Date,
+    to: Date,
+    relatedWallets: string[] = []
+  ): Promise<{ events: TaxEvent[]; truncatedWallets: string[] }> {
+    const exportedWallets = Array.from(new Set(walletAddresses.map(address => address.toLowerCase())));
+    const ownWallets = new Set([...exportedWallets, ...relatedWallets.map(address => address.toLowerCase())]);
+
+    // A transaction between two own wallets shows up in both histories
+    const transactions = new Map<string, Transaction>();
+    const truncatedWallets: string[] = [];
+    for (const wallet of exportedWallets) {
+      const history = await getFullScannerTransactionHistory(wallet, MAX_TRANSACTIONS_PER_WALLET, from);
+      // A full history that never got back to `from` stopped at the cap, not at the range start
+      const reachedFrom = history.some(tx => new Date(tx.block_timestamp) < from);
+      if (history.length >= MAX_TRANSACTIONS_PER_WALLET && !reachedFrom) {
+        truncatedWallets.push(wallet);
+      }
+
+      for (const tx of history) {
+        const timestamp = new Date(tx.block_timestamp);
+        if (tx.receipt_status !== '1' || timestamp < from || timestamp > to) continue;
+        transactions.set(tx.hash, tx);
+      }
+    }
+
+    const events = Array.from(transactions.values())
+      .flatMap(tx => classifyTransaction(tx, ownWallets))
+      .sort((a, b) => a.blockNumber - b.blockNumber);
+
+    // Look up each token's price once per block
+    const legs = events.flatMap(event => [event.sent, event.received, event.fee]
+      .filter((leg): leg is TaxLeg => leg !== null)
+      .map(leg => ({ leg, key: `${priceAddressFor(leg.tokenAddress)}@${event.blockNumber}` })));
+    const prices = new Map<string, number | null>();
+    const keys = Array.from(new Set(legs.map(({ key }) => key)));
+    for (let i = 0; i < keys.length; i += PRICE_LOOKUP_BATCH_SIZE) {
+      await Promise.all(keys.slice(i, i + PRICE_LOOKUP_BATCH_SIZE).map(async (key) => {
+        const [tokenAddress, blockNumber] = key.split('@');
+        prices.set(key, await getTokenPriceAtBlock(tokenAddress, parseInt(blockNumber)).catch(() => null));
+      }));
+    }
+    legs.forEach(({ leg, key }) => {
+      const price = prices.get(key);
+      leg.valueUsd = price != null ? leg.amount * price : null;
+    });
+
+    return { events, truncatedWallets };
+  }
+
+  /**
+   * Tax events for a set of own wallets written out in one of the supported CSV layouts
+   */
+  async exportCsv(walletAddresses: string[], from: Date, to: Date, format: TaxExportFormat, relatedWallets: string[] = []): Promise<TaxExport> {
+    const startTime = Date.now();
+    const { events, truncatedWallets } = await this.getEvents(walletAddresses, from, to, relatedWallets);
+    console.log(`[Tax Export] Classified ${events.length} events for ${walletAddresses.length} wallet(s) in ${Date.now() - startTime}ms`);
+    if (truncatedWallets.length > 0) {
+      console.warn(`[Tax Export] History capped at ${MAX_TRANSACTIONS_PER_WALLET} transactions for ${truncatedWallets.join(', ')}`);
+    }
+
+    switch (format) {
+      case 'koinly':
+        return { csv: toKoinlyCsv(events), truncatedWallets };
+      case 'cointracking':
+        return { csv: toCoinTrackingCsv(events), truncatedWallets };
+      case 'generic':
+        return { csv: toGenericCsv(events), truncatedWallets };
+    }
+  }
+}
+
+// Export singleton instance
+export const taxExportService = new TaxExportService();
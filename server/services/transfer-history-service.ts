@@ -3,10 +3,11 @@ import { ProcessedToken } from '../types';
 import { getDefaultLogo } from './blockchain-service';
 import { getTokenPriceFromDexScreener } from './dexscreener';
 import { storage } from '../storage';
-
-// Initialize ethers provider
-const RPC_ENDPOINT = 'https://rpc-pulsechain.g4mm4.io';
-const provider = new ethers.providers.JsonRpcProvider(RPC_ENDPOINT);
+import { getProvider } from './rpc-provider';
+import { transferIndexer, fetchTransferRecords } from './transfer-indexer-service';
+import { multicall } from './multicall-service';
+import { getTokenPriceAtBlock } from './smart-contract-price-service';
+import { blockTimeService } from './block-time-service';
 
 // Constants
 const TRANSFER_EVENT_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
@@ -18,8 +19,10 @@ const WPLS_CONTRACT_ADDRESS = '0xA1077a294dDE1B09bB078844df40758a5D0f9a27';
 const ERC20_ABI = [
   {"constant":true,"inputs":[],"name":"decimals","outputs":[{"name":"","type":"uint8"}],"payable":false,"stateMutability":"view","type":"function"},
   {"constant":true,"inputs":[],"name":"symbol","outputs":[{"name":"","type":"string"}],"payable":false,"stateMutability":"view","type":"function"},
-  {"constant":true,"inputs":[],"name":"name","outputs":[{"name":"","type":"string"}],"payable":false,"stateMutability":"view","type":"function"}
+  {"constant":true,"inputs":[],"name":"name","outputs":[{"name":"","type":"string"}],"payable":false,"stateMutability":"view","type":"function"},
+  {"constant":true,"inputs":[{"name":"owner","type":"address"}],"name":"balanceOf","outputs":[{"name":"","type":"uint256"}],"payable":false,"stateMutability":"view","type":"function"}
 ];
+const erc20Interface = new ethers.utils.Interface(ERC20_ABI);
 
 interface TokenBalance {
   address: string;
@@ -29,6 +32,19 @@ interface TokenBalance {
   name: string;
 }
 
+export interface BalancesAtBlock {
+  address: string;
+  blockNumber: number;
+  timestamp: string;
+  // 'archive' when balances were read from the node's historical state, 'transfers' when the
+  // node has no state that old and ERC-20 balances were rebuilt from Transfer logs instead
+  balanceSource: 'archive' | 'transfers';
+  // Native PLS can't be rebuilt from logs, so it's missing without archive state
+  nativeBalanceAvailable: boolean;
+  tokens: ProcessedToken[];
+  totalValue: number;
+}
+
 interface TransferEvent {
   from: string;
   to: string;
@@ -66,6 +82,7 @@ function parseTransferEvent(log: ethers.providers.Log): TransferEvent {
  * Get token metadata (decimals, symbol, name) with caching
  */
 async function getTokenMetadata(tokenAddress: string): Promise<{decimals: number, symbol: string, name: string} | null> {
+  const provider = getProvider();
   try {
     const contract = new ethers.Contract(tokenAddress, ERC20_ABI, provider);
     
@@ -83,6 +100,162 @@ async function getTokenMetadata(tokenAddress: string): Promise<{decimals: number
   }
 }
 
+/**
+ * Net balance change per token from the Transfer logs in a block range, read from the chain
+ */
+async function scanTransferBalances(
+  provider: ethers.providers.Provider,
+  normalizedAddress: string,
+  fromBlock: number,
+  toBlock: number
+): Promise<Map<string, ethers.BigNumber>> {
+  const paddedAddress = ethers.utils.hexZeroPad(normalizedAddress, 32);
+
+  console.log(`Scanning blocks from ${fromBlock} to ${toBlock}`);
+
+  // Fetch all transfer events where wallet is sender or receiver
+  // We need to do this in two queries due to how event filtering works
+  
+  // 1. Get all incoming transfers (wallet is recipient)
+  console.log('Fetching incoming transfers...');
+  const incomingLogs = await provider.getLogs({
+    fromBlock,
+    toBlock,
+    topics: [TRANSFER_EVENT_TOPIC, null, paddedAddress] // null means any sender
+  });
+
+  // 2. Get all outgoing transfers (wallet is sender)
+  console.log('Fetching outgoing transfers...');
+  const outgoingLogs = await provider.getLogs({
+    fromBlock,
+    toBlock,
+    topics: [TRANSFER_EVENT_TOPIC, paddedAddress, null] // null means any recipient
+  });
+
+  console.log(`Found ${incomingLogs.length} incoming and ${outgoingLogs.length} outgoing transfers`);
+
+  // Deduplicate logs by creating a unique key for each log
+  const uniqueLogs = new Map<string, any>();
+  
+  // Process all logs and deduplicate
+  [...incomingLogs, ...outgoingLogs].forEach(log => {
+    const key = `${log.transactionHash}-${log.logIndex}`;
+    if (!uniqueLogs.has(key)) {
+      uniqueLogs.set(key, log);
+    }
+  });
+  
+  console.log(`After deduplication: ${uniqueLogs.size} unique transfer events`);
+
+  // Parse all transfer events
+  const allTransfers: TransferEvent[] = [];
+  
+  for (const log of Array.from(uniqueLogs.values())) {
+    try {
+      const transfer = parseTransferEvent(log);
+      allTransfers.push(transfer);
+    } catch (error) {
+      console.error('Error parsing transfer event:', error);
+    }
+  }
+
+  // Calculate balances by token
+  const tokenBalances = new Map<string, ethers.BigNumber>();
+  
+  // Track processed transactions to avoid duplicates
+  const processedTxs = new Set<string>();
+  
+  for (const transfer of allTransfers) {
+    const tokenAddress = transfer.tokenAddress.toLowerCase();
+    const txKey = `${transfer.transactionHash}-${transfer.tokenAddress}-${transfer.from}-${transfer.to}-${transfer.value.toString()}`;
+    
+    // Skip if we've already processed this exact transfer
+    if (processedTxs.has(txKey)) {
+      continue;
+    }
+    processedTxs.add(txKey);
+    
+    if (!tokenBalances.has(tokenAddress)) {
+      tokenBalances.set(tokenAddress, ethers.BigNumber.from(0));
+    }
+    
+    const currentBalance = tokenBalances.get(tokenAddress)!;
+    
+    // Debug logging for WPLS
+    if (tokenAddress === WPLS_CONTRACT_ADDRESS.toLowerCase()) {
+      console.log('WPLS Transfer:', {
+        from: transfer.from,
+        to: transfer.to,
+        value: ethers.utils.formatUnits(transfer.value, 18),
+        isIncoming: transfer.to.toLowerCase() === normalizedAddress,
+        isOutgoing: transfer.from.toLowerCase() === normalizedAddress,
+        txHash: transfer.transactionHash
+      });
+    }
+    
+    // If wallet is recipient, add to balance
+    if (transfer.to.toLowerCase() === normalizedAddress) {
+      tokenBalances.set(tokenAddress, currentBalance.add(transfer.value));
+    }
+    
+    // If wallet is sender, subtract from balance
+    if (transfer.from.toLowerCase() === normalizedAddress) {
+      tokenBalances.set(tokenAddress, currentBalance.sub(transfer.value));
+    }
+  }
+
+  return tokenBalances;
+}
+
+/**
+ * Net balance change per token for an indexed wallet: stored transfers up to the checkpoint,
+ * plus the few blocks after it read from the chain
+ */
+async function getIndexedBalances(
+  normalizedAddress: string,
+  fromBlock: number,
+  toBlock: number,
+  indexedBlock: number
+): Promise<Map<string, ethers.BigNumber>> {
+  const tokenBalances = await transferIndexer.getBalanceChanges(
+    normalizedAddress,
+    fromBlock,
+    Math.min(toBlock, indexedBlock)
+  );
+
+  if (toBlock > indexedBlock) {
+    const recent = await fetchTransferRecords([normalizedAddress], Math.max(fromBlock, indexedBlock + 1), toBlock);
+    for (const record of recent) {
+      let balance = tokenBalances.get(record.tokenAddress) || ethers.BigNumber.from(0);
+      if (record.toAddress === normalizedAddress) balance = balance.add(record.value);
+      if (record.fromAddress === normalizedAddress) balance = balance.sub(record.value);
+      tokenBalances.set(record.tokenAddress, balance);
+    }
+  }
+
+  console.log(`Read transfer balances for ${normalizedAddress} from the index (block ${indexedBlock})`);
+  return tokenBalances;
+}
+
+/**
+ * Net balance change per token in a block range. Indexed wallets are answered from the database,
+ * with only the blocks since the last checkpoint read from the chain. Anything else is scanned -
+ * only portfolio wallets are indexed, so a lookup can't grow the indexed set.
+ */
+async function getTransferBalances(
+  provider: ethers.providers.Provider,
+  normalizedAddress: string,
+  fromBlock: number,
+  toBlock: number
+): Promise<Map<string, ethers.BigNumber>> {
+  const indexedBlock = transferIndexer.getIndexedBlock(normalizedAddress);
+  if (indexedBlock !== null && fromBlock <= indexedBlock) {
+    return getIndexedBalances(normalizedAddress, fromBlock, toBlock, indexedBlock);
+  }
+
+  return scanTransferBalances(provider, normalizedAddress, fromBlock, toBlock);
+}
+
 /**
  * Calculate token balances from complete transfer history
  */
@@ -91,111 +264,20 @@ export async function calculateBalancesFromTransferHistory(
   fromBlock: number = 0,
   toBlock: number | 'latest' = 'latest'
 ): Promise<ProcessedToken[]> {
+  const provider = getProvider();
   try {
     console.log(`Calculating balances from transfer history for ${walletAddress}`);
     const startTime = Date.now();
     
     // Normalize wallet address
     const normalizedAddress = walletAddress.toLowerCase();
-    const paddedAddress = ethers.utils.hexZeroPad(normalizedAddress, 32);
 
     // Get current block if not specified
     if (toBlock === 'latest') {
       toBlock = await provider.getBlockNumber();
     }
 
-    console.log(`Scanning blocks from ${fromBlock} to ${toBlock}`);
-
-    // Fetch all transfer events where wallet is sender or receiver
-    // We need to do this in two queries due to how event filtering works
-    
-    // 1. Get all incoming transfers (wallet is recipient)
-    console.log('Fetching incoming transfers...');
-    const incomingLogs = await provider.getLogs({
-      fromBlock,
-      toBlock,
-      topics: [TRANSFER_EVENT_TOPIC, null, paddedAddress] // null means any sender
-    });
-
-    // 2. Get all outgoing transfers (wallet is sender)
-    console.log('Fetching outgoing transfers...');
-    const outgoingLogs = await provider.getLogs({
-      fromBlock,
-      toBlock,
-      topics: [TRANSFER_EVENT_TOPIC, paddedAddress, null] // null means any recipient
-    });
-
-    console.log(`Found ${incomingLogs.length} incoming and ${outgoingLogs.length} outgoing transfers`);
-
-    // Deduplicate logs by creating a unique key for each log
-    const uniqueLogs = new Map<string, any>();
-    
-    // Process all logs and deduplicate
-    [...incomingLogs, ...outgoingLogs].forEach(log => {
-      const key = `${log.transactionHash}-${log.logIndex}`;
-      if (!uniqueLogs.has(key)) {
-        uniqueLogs.set(key, log);
-      }
-    });
-    
-    console.log(`After deduplication: ${uniqueLogs.size} unique transfer events`);
-
-    // Parse all transfer events
-    const allTransfers: TransferEvent[] = [];
-    
-    for (const log of Array.from(uniqueLogs.values())) {
-      try {
-        const transfer = parseTransferEvent(log);
-        allTransfers.push(transfer);
-      } catch (error) {
-        console.error('Error parsing transfer event:', error);
-      }
-    }
-
-    // Calculate balances by token
-    const tokenBalances = new Map<string, ethers.BigNumber>();
-    
-    // Track processed transactions to avoid duplicates
-    const processedTxs = new Set<string>();
-    
-    for (const transfer of allTransfers) {
-      const tokenAddress = transfer.tokenAddress.toLowerCase();
-      const txKey = `${transfer.transactionHash}-${transfer.tokenAddress}-${transfer.from}-${transfer.to}-${transfer.value.toString()}`;
-      
-      // Skip if we've already processed this exact transfer
-      if (processedTxs.has(txKey)) {
-        continue;
-      }
-      processedTxs.add(txKey);
-      
-      if (!tokenBalances.has(tokenAddress)) {
-        tokenBalances.set(tokenAddress, ethers.BigNumber.from(0));
-      }
-      
-      const currentBalance = tokenBalances.get(tokenAddress)!;
-      
-      // Debug logging for WPLS
-      if (tokenAddress === WPLS_CONTRACT_ADDRESS.toLowerCase()) {
-        console.log('WPLS Transfer:', {
-          from: transfer.from,
-          to: transfer.to,
-          value: ethers.utils.formatUnits(transfer.value, 18),
-          isIncoming: transfer.to.toLowerCase() === normalizedAddress,
-          isOutgoing: transfer.from.toLowerCase() === normalizedAddress,
-          txHash: transfer.transactionHash
-        });
-      }
-      
-      // If wallet is recipient, add to balance
-      if (transfer.to.toLowerCase() === normalizedAddress) {
-        tokenBalances.set(tokenAddress, currentBalance.add(transfer.value));
-      }
-      
-      // If wallet is sender, subtract from balance
-      if (transfer.from.toLowerCase() === normalizedAddress) {
-        tokenBalances.set(tokenAddress, currentBalance.sub(transfer.value));
-      }
-    }
+    const tokenBalances = await getTransferBalances(provider, normalizedAddress, fromBlock, toBlock);
 
     console.log(`Calculated balances for ${tokenBalances.size} tokens`);
     
@@ -320,6 +402,124 @@ export async function calculateBalancesFromTransferHistory(
   }
 }
 
+/**
+ * What a wallet held at a past block, priced from the PulseX pool reserves at that block
+ */
+export async function getBalancesAtBlock(walletAddress: string, blockNumber: number): Promise<BalancesAtBlock> {
+  const provider = getProvider();
+  const normalizedAddress = walletAddress.toLowerCase();
+  const startTime = Date.now();
+
+  const [timestamp, tokenBalances] = await Promise.all([
+    blockTimeService.getBlockTimestamp(blockNumber),
+    getTransferBalances(provider, normalizedAddress, 0, blockNumber),
+  ]);
+
+  // The native balance doubles as the archive probe - a node without state that old rejects it,
+  // and every balanceOf at that block would fail the same way
+  let plsBalance: ethers.BigNumber | null = null;
+  try {
+    plsBalance = await provider.getBalance(walletAddress, blockNumber);
+  } catch (error) {
+    console.log(`No archive state at block ${blockNumber}, rebuilding balances from transfers`);
+  }
+  const hasArchiveState = plsBalance !== null;
+
+  const processedTokens: ProcessedToken[] = [];
+
+  if (plsBalance && plsBalance.gt(0)) {
+    const plsBalanceFormatted = parseFloat(ethers.utils.formatUnits(plsBalance, PLS_DECIMALS));
+    const plsPrice = (await getTokenPriceAtBlock(WPLS_CONTRACT_ADDRESS, blockNumber)) || 0;
+    processedTokens.push({
+      address: PLS_TOKEN_ADDRESS,
+      symbol: 'PLS',
+      name: 'PulseChain',
+      decimals: PLS_DECIMALS,
+      balance: plsBalance.toString(),
+      balanceFormatted: plsBalanceFormatted,
+      price: plsPrice || undefined,
+      value: plsBalanceFormatted * plsPrice,
+      logo: getDefaultLogo('PLS') ?? undefined,
+      isNative: true,
+      verified: true
+    });
+  }
+
+  const tokenAddresses = Array.from(tokenBalances.keys());
+  const BATCH_SIZE = 5;
+  for (let i = 0; i < tokenAddresses.length; i += BATCH_SIZE) {
+    const batch = tokenAddresses.slice(i, i + BATCH_SIZE);
+
+    await Promise.all(batch.map(async (tokenAddress) => {
+      try {
+        // Prefer the contract's own answer - it covers rebasing and fee-on-transfer tokens whose
+        // balances drift from their Transfer logs
+        let balance = tokenBalances.get(tokenAddress)!;
+        if (hasArchiveState) {
+          const archived = await multicall.callFunction<ethers.BigNumber>(
+            erc20Interface, tokenAddress, 'balanceOf', [walletAddress], blockNumber
+          );
+          if (archived) balance = archived;
+        }
+
+        if (balance.lte(0)) {
+          return;
+        }
+
+        const metadata = await getTokenMetadata(tokenAddress);
+        if (!metadata) {
+          return;
+        }
+
+        const balanceFormatted = parseFloat(ethers.utils.formatUnits(balance, metadata.decimals));
+        if (balanceFormatted < 0.000001) {
+          return;
+        }
+
+        const price = (await getTokenPriceAtBlock(tokenAddress, blockNumber)) || 0;
+
+        let logoUrl = getDefaultLogo(metadata.symbol);
+        try {
+          const storedLogo = await storage.getTokenLogo(tokenAddress);
+          if (storedLogo && storedLogo.logoUrl) {
+            logoUrl = storedLogo.logoUrl;
+          }
+        } catch (error) {
+          // Use default logo if database lookup fails
+        }
+
+        processedTokens.push({
+          address: tokenAddress,
+          symbol: metadata.symbol,
+          name: metadata.name,
+          decimals: metadata.decimals,
+          balance: balance.toString(),
+          balanceFormatted,
+          price: price || undefined,
+          value: balanceFormatted * price,
+          logo: logoUrl ?? undefined,
+          verified: false
+        });
+      } catch (error) {
+        console.error(`Error processing token ${tokenAddress} at block ${blockNumber}:`, error);
+      }
+    }));
+  }
+
+  processedTokens.sort((a, b) => (b.value || 0) - (a.value || 0));
+  console.log(`Rebuilt ${processedTokens.length} balances for ${normalizedAddress} at block ${blockNumber} in ${Date.now() - startTime}ms`);
+
+  return {
+    address: normalizedAddress,
+    blockNumber,
+    timestamp: new Date(timestamp * 1000).toISOString(),
+    balanceSource: hasArchiveState ? 'archive' : 'transfers',
+    nativeBalanceAvailable: hasArchiveState,
+    tokens: processedTokens,
+    totalValue: processedTokens.reduce((sum, token) => sum + (token.value || 0), 0),
+  };
+}
+
 /**
  * Get transfer history with balance calculation for a specific time range
  */
@@ -332,6 +532,7 @@ export async function getTransferHistoryWithBalances(
   transferCount: number;
   blockRange: { from: number; to: number };
 }> {
+  const provider = getProvider();
   try {
     // If no start block specified, scan from genesis
     if (!startBlock) {
@@ -0,0 +1,422 @@
+/**
+ * Transfer Indexer Service
+ * Keeps the ERC-20 Transfer logs of tracked wallets in Postgres. Each wallet is backfilled from
+ * genesis in resumable chunks, then followed as new blocks arrive, so balances and token lists
+ * can be answered from the database instead of re-scanning the chain on every request.
+ */
+
+import { ethers } from 'ethers';
+import { and, eq, gt, gte, lte, inArray, sql } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  transferEvents,
+  transferIndexCheckpoints,
+  portfolioAddresses,
+  type InsertTransferEventRecord,
+} from '@shared/schema';
+import { executeWithFailover } from './rpc-provider';
+import { reorgDetector, type ReorgEvent } from './reorg-detector';
+
+const TRANSFER_EVENT_TOPIC = ethers.utils.id('Transfer(address,address,uint256)');
+
+// getLogs ranges start at this many blocks, halve when the RPC rejects a range (too many
+// results or a timeout) and grow again after each success
+const INITIAL_CHUNK_SIZE = 100000;
+const MIN_CHUNK_SIZE = 500;
+const MAX_CHUNK_SIZE = 1000000;
+const FOLLOW_INTERVAL_MS = 15 * 1000;
+// Backfilled wallets are followed together, this many per getLogs topic filter
+const FOLLOW_BATCH_SIZE = 50;
+const INSERT_BATCH_SIZE = 500;
+
+interface WalletIndexState {
+  lastIndexedBlock: number;
+  backfilled: boolean;
+}
+
+/**
+ * Read the Transfer logs sent or received by any of the wallets in a block range, as one record
+ * per wallet involved. ERC-721 transfers (which index the token id as a fourth topic) are skipped.
+ */
+export async function fetchTransferRecords(
+  walletAddresses: string[],
+  fromBlock: number,
+  toBlock: number
+): Promise<InsertTransferEventRecord[]> {
+  const wallets = new Set(walletAddresses.map(address => address.toLowerCase()));
+  const walletTopics = Array.from(wallets).map(address => ethers.utils.hexZeroPad(address, 32));
+
+  const [incoming, outgoing] = await Promise.all([
+    executeWithFailover(provider => provider.getLogs({
+      fromBlock,
+      toBlock,
+      topics: [TRANSFER_EVENT_TOPIC, null, walletTopics],
+    })),
+    executeWithFailover(provider => provider.getLogs({
+      fromBlock,
+      toBlock,
+      topics: [TRANSFER_EVENT_TOPIC, walletTopics, null],
+    })),
+  ]);
+
+  const records = new Map<string, InsertTransferEventRecord>();
+  for (const log of [...incoming, ...outgoing]) {
+    if (log.topics.length !== 3) continue;
+
+    const from = ('0x' + log.topics[1].slice(26)).toLowerCase();
+    const to = ('0x' + log.topics[2].slice(26)).toLowerCase();
+    // Some tokens append extra words to the data - the amount is the first one
+    const amount = log.data.length > 66 ? ethers.utils.hexDataSlice(log.data, 0, 32) : log.data;
+    const value = amount === '0x' ? '0' : ethers.BigNumber.from(amount).toString();
+
+    for (const wallet of [from, to]) {
+      if (!wallets.has(wallet)) continue;
+      records.set(`${wallet}:${log.transactionHash}:${log.logIndex}`, {
+        walletAddress: wallet,
+        tokenAddress: log.address.toLowerCase(),
+        fromAddress: from,
+        toAddress: to,
+        value,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex,
+      });
+    }
+  }
+
+  return Array.from(records.values());
+}
+
+class TransferIndexerService {
+  private wallets = new Map<string, WalletIndexState>();
+  private pendingWallets = new Map<string, Promise<void>>();
+  private backfillQueue: string[] = [];
+  private backfillingWallet: string | null = null;
+  private following = false;
+  private followTimer: NodeJS.Timeout | null = null;
+  private chunkSize = INITIAL_CHUNK_SIZE;
+  private headBlock: number | null = null;
+  // Chunk commits and reorg rollbacks take turns so a chunk read from an orphaned branch is
+  // never written after the rollback that should have removed it
+  private writeQueue: Promise<unknown> = Promise.resolve();
+  private reorgGeneration = 0;
+  private lastForkBlock = -1;
+  private rolledBackEvents = 0;
+
+  constructor() {
+    reorgDetector.on('reorg', (event: ReorgEvent) => {
+      this.rollback(event.forkBlock).catch(error => {
+        console.error(`[Transfer Indexer] Rollback to block ${event.forkBlock} failed:`, error);
+      });
+    });
+  }
+
+  /**
+   * Resume every wallet with a checkpoint, add the portfolio wallets and start following the chain
+   */
+  async start(): Promise<void> {
+    if (this.followTimer) return;
+
+    reorgDetector.start();
+
+    this.followTimer = setInterval(() => {
+      this.follow().catch(error => {
+        console.error('[Transfer Indexer] Follow failed:', error);
+      });
+    }, FOLLOW_INTERVAL_MS);
+    this.followTimer.unref();
+
+    const checkpoints = await db.select().from(transferIndexCheckpoints);
+    for (const checkpoint of checkpoints) {
+      this.wallets.set(checkpoint.walletAddress, {
+        lastIndexedBlock: checkpoint.lastIndexedBlock,
+        backfilled: checkpoint.backfilledAt !== null,
+      });
+      if (!checkpoint.backfilledAt) {
+        this.enqueueBackfill(checkpoint.walletAddress);
+      }
+    }
+
+    const portfolioWallets = await db
+      .selectDistinct({ walletAddress: portfolioAddresses.walletAddress })
+      .from(portfolioAddresses);
+    await Promise.all(portfolioWallets.map(({ walletAddress }) => this.trackWallet(walletAddress)));
+
+    console.log(`[Transfer Indexer] Started with ${this.wallets.size} wallets`);
+  }
+
+  /**
+   * Start indexing a wallet. Resolves once its checkpoint exists - the backfill runs in the background.
+   */
+  async trackWallet(walletAddress: string): Promise<void> {
+    const wallet = walletAddress.toLowerCase();
+    if (this.wallets.has(wallet)) return;
+
+    let pending = this.pendingWallets.get(wallet);
+    if (!pending) {
+      pending = this.createCheckpoint(wallet).finally(() => this.pendingWallets.delete(wallet));
+      this.pendingWallets.set(wallet, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * The block the wallet's transfers are stored up to, or null until its backfill has finished
+   */
+  getIndexedBlock(walletAddress: string): number | null {
+    const state = this.wallets.get(walletAddress.toLowerCase());
+    return state?.backfilled ? state.lastIndexedBlock : null;
+  }
+
+  /**
+   * Net raw balance change per token from the stored transfers in a block range
+   */
+  async getBalanceChanges(walletAddress: string, fromBlock: number, toBlock: number): Promise<Map<string, ethers.BigNumber>> {
+    const wallet = walletAddress.toLowerCase();
+
+    const rows = await db
+      .select({
+        tokenAddress: transferEvents.tokenAddress,
+        received: sql<string>`COALESCE(SUM(CASE WHEN ${transferEvents.toAddress} = ${wallet} THEN ${transferEvents.value} ELSE 0 END), 0)::text`,
+        sent: sql<string>`COALESCE(SUM(CASE WHEN ${transferEvents.fromAddress} = ${wallet} THEN ${transferEvents.value} ELSE 0 END), 0)::text`,
+      })
+      .from(transferEvents)
+      .where(and(
+        eq(transferEvents.walletAddress, wallet),
+        gte(transferEvents.blockNumber, fromBlock),
+        lte(transferEvents.blockNumber, toBlock)
+      ))
+      .groupBy(transferEvents.tokenAddress);
+
+    return new Map(rows.map(row => [
+      row.tokenAddress,
+      ethers.BigNumber.from(row.received).sub(ethers.BigNumber.from(row.sent)),
+    ]));
+  }
+
+  /**
+   * Tokens the wallet has sent or received since a block, from the stored transfers
+   */
+  async getTokenAddresses(walletAddress: string, fromBlock: number = 0): Promise<Set<string>> {
+    const rows = await db
+      .selectDistinct({ tokenAddress: transferEvents.tokenAddress })
+      .from(transferEvents)
+      .where(and(
+        eq(transferEvents.walletAddress, walletAddress.toLowerCase()),
+        gte(transferEvents.blockNumber, fromBlock)
+      ));
+
+    return new Set(rows.map(row => row.tokenAddress));
+  }
+
+  getStatus() {
+    const states = Array.from(this.wallets.values());
+    return {
+      indexedWallets: states.filter(state => state.backfilled).length,
+      backfillingWallet: this.backfillingWallet,
+      queuedWallets: this.backfillQueue.length,
+      headBlock: this.headBlock,
+      chunkSize: this.chunkSize,
+      rolledBackEvents: this.rolledBackEvents,
+    };
+  }
+
+  /**
+   * Drop the transfers stored above a fork point and rewind the checkpoints to it - the next
+   * follow pass re-reads those blocks from the canonical chain
+   */
+  private async rollback(forkBlock: number) {
+    await this.withWriteLock(async () => {
+      const deleted = await db.transaction(async (tx) => {
+        const removed = await tx
+          .delete(transferEvents)
+          .where(gt(transferEvents.blockNumber, forkBlock))
+          .returning({ id: transferEvents.id });
+        await tx
+          .update(transferIndexCheckpoints)
+          .set({ lastIndexedBlock: forkBlock, updatedAt: new Date() })
+          .where(gt(transferIndexCheckpoints.lastIndexedBlock, forkBlock));
+        return removed.length;
+      });
+
+      this.wallets.forEach(state => {
+        state.lastIndexedBlock = Math.min(state.lastIndexedBlock, forkBlock);
+      });
+      this.reorgGeneration++;
+      this.lastForkBlock = forkBlock;
+      this.rolledBackEvents += deleted;
+
+      console.warn(`[Transfer Indexer] Rolled back ${deleted} transfers above block ${forkBlock}`);
+    });
+  }
+
+  private withWriteLock<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(fn);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async createCheckpoint(wallet: string): Promise<void> {
+    await db
+      .insert(transferIndexCheckpoints)
+      .values({ walletAddress: wallet })
+      .onConflictDoNothing();
+
+    const [checkpoint] = await db
+      .select()
+      .from(transferIndexCheckpoints)
+      .where(eq(transferIndexCheckpoints.walletAddress, wallet));
+
+    this.wallets.set(wallet, {
+      lastIndexedBlock: checkpoint.lastIndexedBlock,
+      backfilled: checkpoint.backfilledAt !== null,
+    });
+    if (!checkpoint.backfilledAt) {
+      this.enqueueBackfill(wallet);
+    }
+  }
+
+  private enqueueBackfill(wallet: string) {
+    if (this.backfillingWallet === wallet || this.backfillQueue.includes(wallet)) return;
+
+    this.backfillQueue.push(wallet);
+    this.processBackfillQueue().catch(error => {
+      console.error('[Transfer Indexer] Backfill queue failed:', error);
+    });
+  }
+
+  /**
+   * Backfill queued wallets one at a time so a large history doesn't starve the RPC
+   */
+  private async processBackfillQueue() {
+    if (this.backfillingWallet) return;
+
+    while (this.backfillQueue.length > 0) {
+      const wallet = this.backfillQueue.shift()!;
+      this.backfillingWallet = wallet;
+      try {
+        await this.backfill(wallet);
+      } catch (error) {
+        // The checkpoint keeps what was stored - the next follow pass re-queues the wallet
+        console.error(`[Transfer Indexer] Backfill failed for ${wallet}:`, error);
+      } finally {
+        this.backfillingWallet = null;
+      }
+    }
+  }
+
+  private async backfill(wallet: string) {
+    const state = this.wallets.get(wallet);
+    if (!state || state.backfilled) return;
+
+    const startTime = Date.now();
+    const head = await this.getHeadBlock();
+    console.log(`[Transfer Indexer] Backfilling ${wallet} from block ${state.lastIndexedBlock + 1} to ${head}`);
+
+    await this.indexRange([wallet], state.lastIndexedBlock + 1, head);
+
+    await db
+      .update(transferIndexCheckpoints)
+      .set({ backfilledAt: new Date(), updatedAt: new Date() })
+      .where(eq(transferIndexCheckpoints.walletAddress, wallet));
+    state.backfilled = true;
+
+    console.log(`[Transfer Indexer] Backfilled ${wallet} in ${Date.now() - startTime}ms`);
+  }
+
+  /**
+   * Bring every backfilled wallet up to the chain head and retry backfills that failed
+   */
+  private async follow() {
+    if (this.following) return;
+    this.following = true;
+
+    try {
+      this.wallets.forEach((state, wallet) => {
+        if (!state.backfilled) this.enqueueBackfill(wallet);
+      });
+
+      const head = await this.getHeadBlock();
+      const ready = Array.from(this.wallets.entries())
+        .filter(([, state]) => state.backfilled && state.lastIndexedBlock < head)
+        .map(([wallet]) => wallet);
+
+      for (let i = 0; i < ready.length; i += FOLLOW_BATCH_SIZE) {
+        const batch = ready.slice(i, i + FOLLOW_BATCH_SIZE);
+        const fromBlock = Math.min(...batch.map(wallet => this.wallets.get(wallet)!.lastIndexedBlock)) + 1;
+        await this.indexRange(batch, fromBlock, head);
+      }
+    } finally {
+      this.following = false;
+    }
+  }
+
+  /**
+   * Store the wallets' transfers for a block range, committing the records and the advanced
+   * checkpoints together after each chunk so an interrupted run resumes where it stopped
+   */
+  private async indexRange(wallets: string[], fromBlock: number, toBlock: number) {
+    let start = fromBlock;
+
+    while (start <= toBlock) {
+      const end = Math.min(start + this.chunkSize - 1, toBlock);
+      const generation = this.reorgGeneration;
+
+      let records: InsertTransferEventRecord[];
+      try {
+        records = await fetchTransferRecords(wallets, start, end);
+      } catch (error) {
+        if (this.chunkSize <= MIN_CHUNK_SIZE) throw error;
+        this.chunkSize = Math.max(MIN_CHUNK_SIZE, Math.floor(this.chunkSize / 2));
+        continue;
+      }
+
+      const committed = await this.withWriteLock(async () => {
+        // A reorg while the chunk was being read may have orphaned part of it - re-read from
+        // the fork point instead
+        if (this.reorgGeneration !== generation) return false;
+        await this.commitChunk(wallets, records, end);
+        return true;
+      });
+
+      if (!committed) {
+        start = Math.min(start, this.lastForkBlock + 1);
+        continue;
+      }
+
+      start = end + 1;
+      this.chunkSize = Math.min(MAX_CHUNK_SIZE, this.chunkSize * 2);
+    }
+  }
+
+  private async commitChunk(wallets: string[], records: InsertTransferEventRecord[], end: number) {
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < records.length; i += INSERT_BATCH_SIZE) {
+        await tx
+          .insert(transferEvents)
+          .values(records.slice(i, i + INSERT_BATCH_SIZE))
+          .onConflictDoNothing();
+      }
+      await tx
+        .update(transferIndexCheckpoints)
+        .set({
+          lastIndexedBlock: sql`GREATEST(${transferIndexCheckpoints.lastIndexedBlock}, ${end})`,
+          updatedAt: new Date(),
+        })
+        .where(inArray(transferIndexCheckpoints.walletAddress, wallets));
+    });
+
+    for (const wallet of wallets) {
+      const state = this.wallets.get(wallet);
+      if (state) state.lastIndexedBlock = Math.max(state.lastIndexedBlock, end);
+    }
+  }
+
+  private async getHeadBlock(): Promise<number> {
+    this.headBlock = await executeWithFailover(provider => provider.getBlockNumber());
+    return this.headBlock;
+  }
+}
+
+// Export singleton instance
+export const transferIndexer = new TransferIndexerService();
@@ -0,0 +1,331 @@
+/**
+ * Wallet Stream Service
+ * Fans live balance changes, price refreshes and new transactions out to Server-Sent Events
+ * subscribers, buffering recent events per wallet so a reconnecting client can resume
+ */
+
+import { ethers } from 'ethers';
+import { balanceCacheManager, type CachedBalanceUpdate } from './balance-cache-manager';
+import { liveBalanceTracker, type TransferEvent } from './live-balance-tracker';
+import { getTokenPricesFromDexScreener } from './dexscreener';
+import { executeWithFailover } from './rpc-provider';
+import { reorgDetector, type ReorgEvent } from './reorg-detector';
+import type {
+  WalletStreamEventMap,
+  WalletStreamEventType,
+  TransactionStreamEvent,
+} from '@shared/wallet-stream';
+
+const WPLS_ADDRESS = '0xa1077a294dde1b09bb078844df40758a5d0f9a27';
+const NATIVE_ADDRESS = 'native';
+const TRANSFER_EVENT_TOPIC = ethers.utils.id('Transfer(address,address,uint256)');
+
+// Events kept per wallet for clients resuming with Last-Event-ID
+const BUFFER_SIZE = 200;
+const PRICE_REFRESH_MS = 60 * 1000;
+// How long a wallet's buffer is kept after its last subscriber leaves
+const IDLE_CHANNEL_TTL_MS = 10 * 60 * 1000;
+
+export interface StreamEvent<T extends WalletStreamEventType = WalletStreamEventType> {
+  id: number;
+  type: T;
+  data: WalletStreamEventMap[T];
+}
+
+export type StreamSubscriber = (event: StreamEvent) => void;
+
+interface WalletChannel {
+  events: StreamEvent[];
+  // Id of the newest event dropped from the buffer - resuming from before it loses events
+  evictedThrough: number;
+  subscribers: Set<StreamSubscriber>;
+  prices: Map<string, number>;
+  priceTimer: NodeJS.Timeout | null;
+  idleTimer: NodeJS.Timeout | null;
+}
+
+class WalletStreamService {
+  private channels = new Map<string, WalletChannel>();
+  private nextEventId = 1;
+  private pendingTransactions = new Set<string>();
+
+  constructor() {
+    balanceCacheManager.on('balanceUpdated', (update: CachedBalanceUpdate) => {
+      this.handleBalanceUpdate(update);
+    });
+
+    liveBalanceTracker.on('transfer', (event: TransferEvent) => {
+      this.handleTransfer(event).catch(error => {
+        console.error(`[Wallet Stream] Failed to stream transaction ${event.txHash}:`, error);
+      });
+    });
+
+    reorgDetector.on('reorg', (event: ReorgEvent) => {
+      this.handleReorg(event);
+    });
+  }
+
+  /**
+   * Subscribe to a wallet's events. Buffered events after lastEventId are replayed first; if
+   * some of them have already been dropped a reset event is sent so the client refetches.
+   * Returns a function that ends the subscription.
+   */
+  subscribe(walletAddress: string, subscriber: StreamSubscriber, lastEventId?: number): () => void {
+    const wallet = walletAddress.toLowerCase();
+    const channel = this.getOrCreateChannel(wallet);
+
+    if (channel.idleTimer) {
+      clearTimeout(channel.idleTimer);
+      channel.idleTimer = null;
+    }
+
+    if (lastEventId !== undefined) {
+      // An id we never issued means the server restarted since the client last connected
+      if (lastEventId < channel.evictedThrough || lastEventId >= this.nextEventId) {
+        subscriber({ id: this.nextEventId++, type: 'reset', data: { reason: 'Missed events are no longer available' } });
+      } else {
+        channel.events.filter(event => event.id > lastEventId).forEach(subscriber);
+      }
+    }
+
+    channel.subscribers.add(subscriber);
+    if (!channel.priceTimer) {
+      channel.priceTimer = setInterval(() => {
+        this.refreshPrices(wallet).catch(error => {
+          console.error(`[Wallet Stream] Price refresh failed for ${wallet}:`, error);
+        });
+      }, PRICE_REFRESH_MS);
+    }
+
+    return () => this.unsubscribe(wallet, subscriber);
+  }
+
+  /**
+   * Start buffering a wallet's events and return the id of the newest event issued so far. A
+   * client that reads a snapshot after this can subscribe with the id as lastEventId and get
+   * every event published while it was reading.
+   */
+  openCursor(walletAddress: string): number {
+    const wallet = walletAddress.toLowerCase();
+    const channel = this.getOrCreateChannel(wallet);
+    if (channel.subscribers.size === 0 && !channel.idleTimer) {
+      this.scheduleIdleRemoval(wallet, channel);
+    }
+    return this.nextEventId - 1;
+  }
+
+  getStatus() {
+    const channels = Array.from(this.channels.values());
+    return {
+      streamedWallets: channels.length,
+      streamSubscribers: channels.reduce((sum, channel) => sum + channel.subscribers.size, 0),
+      bufferedEvents: channels.reduce((sum, channel) => sum + channel.events.length, 0),
+    };
+  }
+
+  private getOrCreateChannel(wallet: string): WalletChannel {
+    let channel = this.channels.get(wallet);
+    if (!channel) {
+      channel = {
+        events: [],
+        // Ids are global, so anything issued before the channel existed was never buffered here
+        evictedThrough: this.nextEventId - 1,
+        subscribers: new Set(),
+        prices: new Map(),
+        priceTimer: null,
+        idleTimer: null,
+      };
+      this.channels.set(wallet, channel);
+    }
+    return channel;
+  }
+
+  private unsubscribe(wallet: string, subscriber: StreamSubscriber) {
+    const channel = this.channels.get(wallet);
+    if (!channel) return;
+
+    channel.subscribers.delete(subscriber);
+    if (channel.subscribers.size > 0) return;
+
+    if (channel.priceTimer) {
+      clearInterval(channel.priceTimer);
+      channel.priceTimer = null;
+    }
+
+    // Keep buffering for a while so a client that reconnects can still resume
+    this.scheduleIdleRemoval(wallet, channel);
+  }
+
+  private scheduleIdleRemoval(wallet: string, channel: WalletChannel) {
+    channel.idleTimer = setTimeout(() => {
+      if (channel.subscribers.size === 0) {
+        this.channels.delete(wallet);
+      }
+    }, IDLE_CHANNEL_TTL_MS);
+  }
+
+  private publish<T extends WalletStreamEventType>(wallet: string, type: T, data: WalletStreamEventMap[T]) {
+    // Only wallets someone is (or recently was) streaming are buffered
+    const channel = this.channels.get(wallet);
+    if (!channel) return;
+
+    const event: StreamEvent = { id: this.nextEventId++, type, data };
+    channel.events.push(event);
+    if (channel.events.length > BUFFER_SIZE) {
+      channel.evictedThrough = channel.events.shift()!.id;
+    }
+
+    channel.subscribers.forEach(subscriber => subscriber(event));
+  }
+
+  private handleBalanceUpdate(update: CachedBalanceUpdate) {
+    const metadata = balanceCacheManager.getTokenMetadata(update.token);
+
+    this.publish(update.wallet, 'balance', {
+      token: update.token,
+      symbol: metadata?.symbol,
+      name: metadata?.name,
+      decimals: metadata?.decimals,
+      balance: update.balance,
+      balanceFormatted: update.formattedBalance,
+      previousBalance: update.previousBalance,
+      delta: update.previousFormattedBalance !== null
+        ? update.formattedBalance - update.previousFormattedBalance
+        : null,
+      blockNumber: update.blockNumber,
+      source: update.source,
+    });
+  }
+
+  /**
+   * Transactions already streamed from orphaned blocks can't be retracted one by one - tell those
+   * wallets' clients to refetch their history instead
+   */
+  private handleReorg(event: ReorgEvent) {
+    this.channels.forEach((channel, wallet) => {
+      const orphaned = channel.events.some(
+        streamed => streamed.type === 'transaction' &&
+          parseInt((streamed.data as TransactionStreamEvent).transaction.block_number, 10) > event.forkBlock
+      );
+      if (orphaned) {
+        this.publish(wallet, 'reset', { reason: `Chain reorganization above block ${event.forkBlock}` });
+      }
+    });
+  }
+
+  private async handleTransfer(event: TransferEvent) {
+    const wallet = event.wallet.toLowerCase();
+    const channel = this.channels.get(wallet);
+    if (!channel) return;
+
+    // A swap emits a transfer for each side - only stream the transaction once
+    const key = `${wallet}:${event.txHash}`;
+    const alreadyStreamed = channel.events.some(
+      streamed => streamed.type === 'transaction' &&
+        (streamed.data as TransactionStreamEvent).transaction.hash === event.txHash
+    );
+    if (alreadyStreamed || this.pendingTransactions.has(key)) return;
+
+    this.pendingTransactions.add(key);
+    try {
+      const transaction = await this.buildTransaction(wallet, event.txHash);
+      if (transaction) {
+        this.publish(wallet, 'transaction', { transaction });
+      }
+    } finally {
+      this.pendingTransactions.delete(key);
+    }
+  }
+
+  /**
+   * Read a transaction from the chain in the same shape as the scanner transaction history,
+   * keeping only the token transfers that involve the wallet
+   */
+  private async buildTransaction(wallet: string, hash: string): Promise<TransactionStreamEvent['transaction'] | null> {
+    const { tx, receipt, block } = await executeWithFailover(async (provider) => {
+      const [tx, receipt] = await Promise.all([
+        provider.getTransaction(hash),
+        provider.getTransactionReceipt(hash),
+      ]);
+      const block = receipt ? await provider.getBlock(receipt.blockNumber) : null;
+      return { tx, receipt, block };
+    });
+
+    if (!tx || !receipt || !block) return null;
+
+    const walletTopic = ethers.utils.hexZeroPad(wallet, 32).toLowerCase();
+    const erc20Transfers = receipt.logs
+      .filter(log =>
+        log.topics[0] === TRANSFER_EVENT_TOPIC &&
+        log.topics.length === 3 &&
+        (log.topics[1].toLowerCase() === walletTopic || log.topics[2].toLowerCase() === walletTopic)
+      )
+      .map(log => {
+        const value = log.data === '0x' ? ethers.constants.Zero : ethers.BigNumber.from(log.data);
+        const metadata = balanceCacheManager.getTokenMetadata(log.address);
+
+        return {
+          address: log.address.toLowerCase(),
+          token_name: metadata?.name,
+          token_symbol: metadata?.symbol,
+          token_decimals: metadata?.decimals.toString(),
+          from_address: ethers.utils.getAddress('0x' + log.topics[1].slice(26)),
+          to_address: ethers.utils.getAddress('0x' + log.topics[2].slice(26)),
+          log_index: log.logIndex,
+          value: value.toString(),
+          value_formatted: metadata ? ethers.utils.formatUnits(value, metadata.decimals) : undefined,
+        };
+      });
+
+    const gasPrice = receipt.effectiveGasPrice ?? tx.gasPrice ?? ethers.constants.Zero;
+
+    return {
+      hash: tx.hash,
+      nonce: tx.nonce.toString(),
+      transaction_index: receipt.transactionIndex.toString(),
+      from_address: tx.from,
+      to_address: tx.to || '',
+      value: tx.value.toString(),
+      gas: tx.gasLimit.toString(),
+      gas_price: gasPrice.toString(),
+      receipt_gas_used: receipt.gasUsed.toString(),
+      receipt_status: receipt.status?.toString() || '1',
+      block_timestamp: new Date(block.timestamp * 1000).toISOString(),
+      block_number: block.number.toString(),
+      transaction_fee: receipt.gasUsed.mul(gasPrice).toString(),
+      erc20_transfers: erc20Transfers,
+      native_transfers: [],
+    };
+  }
+
+  /**
+   * Price the wallet's cached tokens and stream the ones that changed since the last refresh
+   */
+  private async refreshPrices(wallet: string) {
+    const channel = this.channels.get(wallet);
+    const tokens = balanceCacheManager.getCachedBalances(wallet);
+    if (!channel || !tokens) return;
+
+    // Native PLS is priced as WPLS
+    const addresses = [...tokens.map(token => token.address.toLowerCase()), WPLS_ADDRESS];
+    const fetched = await getTokenPricesFromDexScreener(Array.from(new Set(addresses)));
+    if (fetched[WPLS_ADDRESS] !== undefined) {
+      fetched[NATIVE_ADDRESS] = fetched[WPLS_ADDRESS];
+    }
+
+    const changed: Record<string, number> = {};
+    for (const [address, price] of Object.entries(fetched)) {
+      if (channel.prices.get(address) !== price) {
+        channel.prices.set(address, price);
+        changed[address] = price;
+      }
+    }
+
+    if (Object.keys(changed).length > 0) {
+      this.publish(wallet, 'price', { prices: changed });
+    }
+  }
+}
+
+// Export singleton instance
+export const walletStreamService = new WalletStreamService();
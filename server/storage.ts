@@ -1,12 +1,14 @@
 import { 
-  users, type User, type InsertUser, type UpdateUserProfile, 
+  users, type User, type InsertUser, type UpdateUserProfile, type UserRole, 
   tokenLogos, type InsertTokenLogo, type TokenLogo, 
   bookmarks, type InsertBookmark, type Bookmark,
   portfolios, type Portfolio, type InsertPortfolio,
-  portfolioAddresses, type PortfolioAddress, type InsertPortfolioAddress
+  portfolioAddresses, type PortfolioAddress, type InsertPortfolioAddress,
+  portfolioSnapshots,
+  apiKeys, type ApiKey, type InsertApiKey
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and } from "drizzle-orm";
+import { eq, and, isNull, desc, inArray } from "drizzle-orm";
 import { generateSlug, generateUniqueSlug } from "./utils/slug";
 import { generatePublicCode } from "./utils/public-code";
 
@@ -16,6 +18,8 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUserProfile(id: number, profileData: Partial<UpdateUserProfile>): Promise<User>;
+  getUsersByRole(role: UserRole): Promise<User[]>;
+  setUserRole(id: number, role: UserRole): Promise<User>;
   
   // Token logo methods
   getTokenLogo(tokenAddress: string): Promise<TokenLogo | undefined>;
@@ -24,6 +28,7 @@ export interface IStorage {
   
   // Bookmark methods
   getBookmarks(userId: number): Promise<Bookmark[]>;
+  getBookmark(id: number): Promise<Bookmark | undefined>;
   getBookmarkByAddress(userId: number, walletAddress: string): Promise<Bookmark | undefined>;
   createBookmark(bookmark: InsertBookmark): Promise<Bookmark>;
   updateBookmark(id: number, data: Partial<InsertBookmark>): Promise<Bookmark>;
@@ -40,10 +45,20 @@ export interface IStorage {
   
   // Portfolio address methods
   getPortfolioAddresses(portfolioId: number): Promise<PortfolioAddress[]>;
+  getPortfolioAddress(id: number): Promise<PortfolioAddress | undefined>;
   getPortfolioAddressByWallet(portfolioId: number, walletAddress: string): Promise<PortfolioAddress | undefined>;
   addAddressToPortfolio(address: InsertPortfolioAddress): Promise<PortfolioAddress>;
   removeAddressFromPortfolio(id: number): Promise<boolean>;
   updatePortfolioAddress(id: number, data: Partial<InsertPortfolioAddress>): Promise<PortfolioAddress>;
+  getRelatedWalletAddresses(walletAddress: string, userId: number): Promise<string[]>;
+  
+  // API key methods
+  getApiKeys(userId: number): Promise<ApiKey[]>;
+  getApiKey(id: number): Promise<ApiKey | undefined>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  createApiKey(apiKey: InsertApiKey): Promise<ApiKey>;
+  revokeApiKey(id: number): Promise<boolean>;
+  touchApiKey(id: number): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -80,6 +95,29 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getUsersByRole(role: UserRole): Promise<User[]> {
+    return db
+      .select()
+      .from(users)
+      .where(eq(users.role, role))
+      .orderBy(users.createdAt);
+  }
+
+  async setUserRole(id: number, role: UserRole): Promise<User> {
+    try {
+      const [updatedUser] = await db
+        .update(users)
+        .set({ role })
+        .where(eq(users.id, id))
+        .returning();
+      
+      return updatedUser;
+    } catch (error) {
+      console.error(`Error setting role for user ${id}:`, error);
+      throw error;
+    }
+  }
+
   async getTokenLogo(tokenAddress: string): Promise<TokenLogo | undefined> {
     const addressLower = tokenAddress.toLowerCase();
     try {
@@ -178,6 +216,15 @@ export class DatabaseStorage implements IStorage {
       .orderBy(bookmarks.createdAt);
   }
   
+  async getBookmark(id: number): Promise<Bookmark | undefined> {
+    const [bookmark] = await db
+      .select()
+      .from(bookmarks)
+      .where(eq(bookmarks.id, id));
+      
+    return bookmark || undefined;
+  }
+  
   async getBookmarkByAddress(userId: number | null, walletAddress: string): Promise<Bookmark | undefined> {
     const addressLower = walletAddress.toLowerCase();
     
@@ -387,10 +434,13 @@ export class DatabaseStorage implements IStorage {
   
   async deletePortfolio(id: number): Promise<boolean> {
     try {
-      // First delete all associated addresses
+      // First delete all associated addresses and value history
       await db
         .delete(portfolioAddresses)
         .where(eq(portfolioAddresses.portfolioId, id));
+      await db
+        .delete(portfolioSnapshots)
+        .where(eq(portfolioSnapshots.portfolioId, id));
         
       // Then delete the portfolio
       const result = await db
@@ -414,6 +464,15 @@ export class DatabaseStorage implements IStorage {
       .orderBy(portfolioAddresses.createdAt);
   }
   
+  async getPortfolioAddress(id: number): Promise<PortfolioAddress | undefined> {
+    const [address] = await db
+      .select()
+      .from(portfolioAddresses)
+      .where(eq(portfolioAddresses.id, id));
+      
+    return address || undefined;
+  }
+  
   async getPortfolioAddressByWallet(portfolioId: number, walletAddress: string): Promise<PortfolioAddress | undefined> {
     const [address] = await db
       .select()
@@ -428,6 +487,30 @@ export class DatabaseStorage implements IStorage {
     return address || undefined;
   }
   
+  // Other wallets that share one of the user's own portfolios with this one - moves between
+  // them are the user shuffling their own funds rather than sends and receives. Portfolios of
+  // other users don't count, or anyone could group their wallets with yours.
+  async getRelatedWalletAddresses(walletAddress: string, userId: number): Promise<string[]> {
+    const normalizedAddress = walletAddress.toLowerCase();
+    const memberships = db
+      .select({ portfolioId: portfolioAddresses.portfolioId })
+      .from(portfolioAddresses)
+      .innerJoin(portfolios, eq(portfolios.id, portfolioAddresses.portfolioId))
+      .where(and(
+        eq(portfolioAddresses.walletAddress, normalizedAddress),
+        eq(portfolios.userId, userId)
+      ));
+
+    const rows = await db
+      .selectDistinct({ walletAddress: portfolioAddresses.walletAddress })
+      .from(portfolioAddresses)
+      .where(inArray(portfolioAddresses.portfolioId, memberships));
+
+    return rows
+      .map(row => row.walletAddress.toLowerCase())
+      .filter(address => address !== normalizedAddress);
+  }
+  
   async addAddressToPortfolio(address: InsertPortfolioAddress): Promise<PortfolioAddress> {
     // Ensure wallet address is lowercase for consistent storage
     const processedAddress = {
@@ -481,6 +564,62 @@ export class DatabaseStorage implements IStorage {
       throw error;
     }
   }
+  
+  // API key methods implementation
+  async getApiKeys(userId: number): Promise<ApiKey[]> {
+    // Revoked keys are kept for auditing but no longer listed
+    return db
+      .select()
+      .from(apiKeys)
+      .where(and(eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+      .orderBy(desc(apiKeys.createdAt));
+  }
+  
+  async getApiKey(id: number): Promise<ApiKey | undefined> {
+    const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.id, id));
+    return apiKey || undefined;
+  }
+  
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
+    return apiKey || undefined;
+  }
+  
+  async createApiKey(apiKey: InsertApiKey): Promise<ApiKey> {
+    try {
+      const [newApiKey] = await db
+        .insert(apiKeys)
+        .values(apiKey)
+        .returning();
+        
+      return newApiKey;
+    } catch (error) {
+      console.error(`Error creating API key:`, error);
+      throw error;
+    }
+  }
+  
+  async revokeApiKey(id: number): Promise<boolean> {
+    try {
+      const result = await db
+        .update(apiKeys)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(apiKeys.id, id), isNull(apiKeys.revokedAt)))
+        .returning({ id: apiKeys.id });
+        
+      return result.length > 0;
+    } catch (error) {
+      console.error(`Error revoking API key:`, error);
+      throw error;
+    }
+  }
+  
+  async touchApiKey(id: number): Promise<void> {
+    await db
+      .update(apiKeys)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(apiKeys.id, id));
+  }
 }
 
 export const storage = new DatabaseStorage();
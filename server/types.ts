@@ -1,3 +1,5 @@
+import type { SwapRecord } from '@shared/swap';
+
 // PulseChain Scan API response types
 // The API returns an array of token balances directly, not wrapped in an items property
 export type PulseChainTokenBalanceResponse = PulseChainTokenBalance[];
@@ -193,4 +195,6 @@ export interface Transaction {
   summary?: string;
   category?: string;
   possible_spam?: boolean;
+  // Decoded router or aggregator swap, null if the transaction was checked and isn't one
+  swap?: SwapRecord | null;
 }
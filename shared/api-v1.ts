@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { TokenSchema, WalletSchema, PaginationSchema } from "./schema";
+
+// Request and response contracts for the versioned public API at /api/v1. Handlers validate
+// their output against these, and the OpenAPI document is generated from them, so the two
+// can't drift apart.
+
+export const AddressSchema = z
+  .string()
+  .regex(/^0x[a-fA-F0-9]{40}$/, "Invalid address format")
+  .describe("A 0x-prefixed, 40 hex character address");
+
+export const ErrorResponseSchema = z.object({
+  message: z.string(),
+  error: z.string().optional(),
+});
+
+// Tokens are returned exactly as the dashboard sees them
+export const V1TokenSchema = TokenSchema;
+
+// Wallet totals are always present in v1, with null where a value couldn't be determined
+export const V1WalletSchema = WalletSchema.extend({
+  totalValue: z.number(),
+  tokenCount: z.number().int(),
+  plsBalance: z.number().nullable(),
+  plsPriceChange: z.number().nullable(),
+  networkCount: z.number().int(),
+  pagination: PaginationSchema.optional(),
+});
+
+export const V1TokenBalanceSchema = z.object({
+  walletAddress: AddressSchema,
+  tokenAddress: AddressSchema,
+  balance: z.string().describe("Raw balance in the token's smallest unit"),
+  balanceFormatted: z.number(),
+});
+
+export const V1TokenPriceSchema = TokenSchema.pick({
+  address: true,
+  symbol: true,
+  name: true,
+  decimals: true,
+  logo: true,
+  exchange: true,
+  priceChange24h: true,
+}).extend({
+  usdPrice: z.number(),
+});
+
+export const V1PortfolioWalletsSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  walletAddresses: z.array(AddressSchema),
+});
+
+export const WalletParamsSchema = z.object({ address: AddressSchema });
+
+export const WalletTokenParamsSchema = z.object({
+  address: AddressSchema,
+  tokenAddress: AddressSchema,
+});
+
+export const TokenParamsSchema = z.object({ address: AddressSchema });
+
+export const PortfolioParamsSchema = z.object({
+  id: z.coerce.number().int().positive().describe("Portfolio ID"),
+});
+
+export const WalletQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(200).default(100),
+  refresh: z.enum(["true", "false"]).default("false").describe("Bypass the server-side cache"),
+});
+
+export type V1Token = z.infer<typeof V1TokenSchema>;
+export type V1Wallet = z.infer<typeof V1WalletSchema>;
+export type V1TokenBalance = z.infer<typeof V1TokenBalanceSchema>;
+export type V1TokenPrice = z.infer<typeof V1TokenPriceSchema>;
+export type V1PortfolioWallets = z.infer<typeof V1PortfolioWalletsSchema>;
+export type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
@@ -0,0 +1,48 @@
+// Outstanding ERC-20 allowances served by GET /api/wallet/:address/approvals, found from the
+// wallet's Approval events and checked against each token's current allowance().
+
+import { ethers } from "ethers";
+
+export interface TokenApproval {
+  tokenAddress: string;
+  tokenSymbol: string;
+  tokenDecimals: number;
+  spender: string;
+  // Contract name from PulseChain Scan, if it has one
+  spenderName: string | null;
+  // Raw uint256 allowance
+  allowance: string;
+  // Allowance in whole tokens, null when unlimited
+  allowanceFormatted: number | null;
+  isUnlimited: boolean;
+  // Null when PulseChain Scan couldn't be reached
+  spenderIsContract: boolean | null;
+  spenderVerified: boolean | null;
+  // Block and transaction of the most recent Approval event for this token and spender
+  lastApprovedBlock: number;
+  lastApprovedTxHash: string;
+}
+
+export interface ApprovalsReport {
+  address: string;
+  approvals: TokenApproval[];
+  scannedToBlock: number;
+  generatedAt: string;
+}
+
+// Allowances this large are the "max uint" approvals dapps ask for - nobody means a number that big
+export const UNLIMITED_ALLOWANCE_THRESHOLD = ethers.constants.MaxUint256.div(2);
+
+const approveInterface = new ethers.utils.Interface([
+  "function approve(address spender, uint256 amount) returns (bool)",
+]);
+
+/**
+ * Transaction that sets a spender's allowance on a token back to zero
+ */
+export function buildRevokeTransaction(tokenAddress: string, spender: string): { to: string; data: string } {
+  return {
+    to: ethers.utils.getAddress(tokenAddress),
+    data: approveInterface.encodeFunctionData("approve", [ethers.utils.getAddress(spender), 0]),
+  };
+}
@@ -0,0 +1,33 @@
+// Cost basis and profit/loss served by GET /api/wallet/:address/cost-basis, worked out from the
+// wallet's transaction history priced at the block of each transaction.
+
+export const costBasisMethods = ["fifo", "lifo", "average"] as const;
+export type CostBasisMethod = typeof costBasisMethods[number];
+
+export interface TokenCostBasis {
+  tokenAddress: string;
+  symbol: string;
+  // Quantity still held according to the history, which can differ from the live balance
+  quantity: number;
+  costBasis: number;
+  averageCost: number | null;
+  currentPrice: number | null;
+  unrealizedPnl: number | null;
+  realizedPnl: number;
+  // Some acquisitions couldn't be priced, or more was disposed of than the history shows
+  // being acquired - the figures are a lower bound on cost
+  incomplete: boolean;
+}
+
+export interface CostBasisReport {
+  address: string;
+  method: CostBasisMethod;
+  tokens: TokenCostBasis[];
+  totals: {
+    costBasis: number;
+    unrealizedPnl: number;
+    realizedPnl: number;
+  };
+  transactionCount: number;
+  generatedAt: string;
+}
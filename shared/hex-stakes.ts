@@ -0,0 +1,262 @@
+// HEX stakes served by GET /api/wallet/:address/hex-stakes. Payouts are worked out on the server
+// from the contract's own dailyData the same way the contract pays them, so every page that shows
+// a stake shows the same number.
+
+export const HEX_ADDRESS = "0x2b591e99afe9f32eaa6214f7b7629768c40eeb39";
+export const HEX_DECIMALS = 8;
+
+// HEX day 0 started 2019-12-03T00:00:00Z
+export const HEX_LAUNCH_TS = 1575331200;
+export const HEX_DAY_SECONDS = 86400;
+
+// A stake can be ended this many days after its end day before the late penalty starts, and the
+// penalty then grows until the whole return is gone LATE_PENALTY_SCALE_DAYS later
+export const LATE_PENALTY_GRACE_DAYS = 14;
+export const LATE_PENALTY_SCALE_DAYS = 700;
+
+// Stakes locked over this day got a slice of the unclaimed BTC supply on top of their payout
+export const BIG_PAY_DAY = 352;
+
+// Shares per T-share, the unit stake shares are quoted in
+export const T_SHARE = 1e12;
+
+export interface HexStake {
+  walletAddress: string;
+  // Position in the wallet's stakeLists - the contract asks for it when ending the stake
+  stakeIndex: number;
+  stakeId: string;
+  // Raw uint72 values in hearts (1 HEX = 1e8 hearts) or shares
+  stakedHearts: string;
+  stakeShares: string;
+  lockedDay: number;
+  stakedDays: number;
+  // Non-zero once the stake has been good-accounted
+  unlockedDay: number;
+  // lockedDay + stakedDays, the first day the stake can end without an early penalty
+  endDay: number;
+  isAutoStake: boolean;
+  lockDate: string;
+  endDate: string;
+  unlockDate: string | null;
+  isActive: boolean;
+  daysServed: number;
+  daysRemaining: number | null;
+  progressPercentage: number;
+  // Longer Pays Better + Bigger Pays Better bonus the stake was given at start, in hearts
+  bonusHearts: string;
+  // Interest accrued over the days served so far, in hearts
+  payoutHearts: string;
+  // Part of payoutHearts that came from the Big Pay Day on day 352, for stakes locked over it
+  bigPayDayHearts: string;
+  // Served days whose daily data isn't on-chain yet, so their payout is the contract's estimate
+  estimatedDays: number;
+  stakedHex: number;
+  interestHex: number;
+  valueUsd: number;
+  interestValueUsd: number;
+  totalValueUsd: number;
+}
+
+export interface HexStakesTotals {
+  stakeCount: number;
+  stakedHearts: string;
+  stakeShares: string;
+  payoutHearts: string;
+  stakedHex: number;
+  interestHex: number;
+  totalHex: number;
+  stakedValueUsd: number;
+  interestValueUsd: number;
+  totalValueUsd: number;
+  // stakeShares in T-shares (1e12 shares)
+  tShares: number;
+  // Days left until the end day of the active stakes, weighted by their principal. Null when
+  // nothing is still locked.
+  weightedAverageRemainingDays: number | null;
+  // Interest accrued so far per T-share
+  yieldPerTShare: number;
+}
+
+export interface HexStakesReport {
+  address: string;
+  currentDay: number;
+  hexPrice: number;
+  stakes: HexStake[];
+  totals: HexStakesTotals;
+  generatedAt: string;
+}
+
+export interface HexStakesWalletTotals {
+  address: string;
+  totals: HexStakesTotals;
+}
+
+// Stakes of a set of wallets rolled up, from GET /api/hex-stakes/summary and
+// GET /api/portfolios/:id/hex-stakes
+export interface HexStakesPortfolioSummary {
+  addresses: string[];
+  currentDay: number;
+  hexPrice: number;
+  wallets: HexStakesWalletTotals[];
+  totals: HexStakesTotals;
+  generatedAt: string;
+}
+
+// How a stake ending on a given day is treated by stakeEnd
+export type HexStakeEndKind = "not-started" | "early" | "on-time" | "late";
+
+// Outcome of ending a stake on a chosen day, from GET /api/wallet/:address/hex-stakes/:stakeId/simulate
+export interface HexStakeSimulation {
+  stakeId: string;
+  endDay: number;
+  endDate: string;
+  kind: HexStakeEndKind;
+  servedDays: number;
+  // stakeEnd refuses to end an auto-stake that hasn't started or has served fewer than 350 days
+  allowed: boolean;
+  // In hearts. The penalty is taken out of principal + payout and is capped at their sum.
+  payoutHearts: string;
+  penaltyHearts: string;
+  stakeReturnHearts: string;
+  // Days counted in the payout or penalty that aren't in dailyData yet - today and any later
+  // days - estimated from the current supply
+  projectedDays: number;
+  payoutHex: number;
+  penaltyHex: number;
+  stakeReturnHex: number;
+  stakeReturnUsd: number;
+}
+
+// Where a stake is relative to its end day: still locked, in the grace period where it can be
+// ended without penalty, past it and losing part of its return each day, or already
+// good-accounted, which fixes its unlock day so it can't get a late penalty
+export type HexMaturityStatus = "locked" | "due" | "late" | "unlocked";
+
+export interface HexMaturity {
+  walletAddress: string;
+  stakeId: string;
+  isAutoStake: boolean;
+  endDay: number;
+  endDate: string;
+  // Last day the stake can be ended without a late penalty
+  graceEndDay: number;
+  graceEndDate: string;
+  // Negative once the end day has passed
+  daysUntilEnd: number;
+  status: HexMaturityStatus;
+  // Share of the return a late end would lose today, 0-100
+  latePenaltyPercent: number;
+  stakedHex: number;
+  interestHex: number;
+  totalHex: number;
+  totalValueUsd: number;
+}
+
+// Maturities of every stake across a set of wallets, soonest first, from
+// GET /api/hex-stakes/calendar
+export interface HexMaturityCalendar {
+  addresses: string[];
+  currentDay: number;
+  hexPrice: number;
+  maturities: HexMaturity[];
+  generatedAt: string;
+}
+
+export interface HexYieldDay {
+  day: number;
+  date: string;
+  // HEX the day paid out per T-share staked
+  payoutPerTShare: number;
+  // What the wallets' stakes earned that day
+  yieldHex: number;
+  // HEX's daily close, null for days outside the price history
+  hexPrice: number | null;
+  yieldUsd: number | null;
+}
+
+export interface HexStakeAccrual {
+  day: number;
+  // Interest the stake had accrued by the end of the day
+  accruedHex: number;
+}
+
+export interface HexStakeYieldSeries {
+  walletAddress: string;
+  stakeId: string;
+  points: HexStakeAccrual[];
+}
+
+// Daily payouts over the last days the contract has written, from GET /api/hex-stakes/yield-history.
+// Days still to be written aren't included, so the last point can trail the stakes' interest by
+// the contract's estimate for them.
+export interface HexYieldHistory {
+  addresses: string[];
+  beginDay: number;
+  endDay: number;
+  days: HexYieldDay[];
+  stakes: HexStakeYieldSeries[];
+  generatedAt: string;
+}
+
+/**
+ * Start of a HEX day as a Date
+ */
+export function hexDayToDate(day: number): Date {
+  return new Date((HEX_LAUNCH_TS + day * HEX_DAY_SECONDS) * 1000);
+}
+
+/**
+ * The HEX day a moment falls in
+ */
+export function dateToHexDay(date: Date): number {
+  return Math.floor((date.getTime() / 1000 - HEX_LAUNCH_TS) / HEX_DAY_SECONDS);
+}
+
+/**
+ * Hearts as a HEX amount. Only for display - sums are done on the raw hearts.
+ */
+export function heartsToHex(hearts: bigint | string): number {
+  return Number(BigInt(hearts)) / 10 ** HEX_DECIMALS;
+}
+
+/**
+ * Totals over a set of stakes, which may come from several wallets' reports
+ */
+export function summarizeHexStakes(stakes: HexStake[], hexPrice: number): HexStakesTotals {
+  let stakedHearts = BigInt(0);
+  let stakeShares = BigInt(0);
+  let payoutHearts = BigInt(0);
+  let remainingWeight = 0;
+  let remainingPrincipal = 0;
+
+  for (const stake of stakes) {
+    stakedHearts += BigInt(stake.stakedHearts);
+    stakeShares += BigInt(stake.stakeShares);
+    payoutHearts += BigInt(stake.payoutHearts);
+
+    if (stake.isActive && stake.daysRemaining !== null) {
+      remainingWeight += stake.daysRemaining * stake.stakedHex;
+      remainingPrincipal += stake.stakedHex;
+    }
+  }
+
+  const stakedHex = heartsToHex(stakedHearts);
+  const interestHex = heartsToHex(payoutHearts);
+  const tShares = Number(stakeShares) / T_SHARE;
+
+  return {
+    stakeCount: stakes.length,
+    stakedHearts: stakedHearts.toString(),
+    stakeShares: stakeShares.toString(),
+    payoutHearts: payoutHearts.toString(),
+    stakedHex,
+    interestHex,
+    totalHex: stakedHex + interestHex,
+    stakedValueUsd: stakedHex * hexPrice,
+    interestValueUsd: interestHex * hexPrice,
+    totalValueUsd: (stakedHex + interestHex) * hexPrice,
+    tShares,
+    weightedAverageRemainingDays: remainingPrincipal > 0 ? remainingWeight / remainingPrincipal : null,
+    yieldPerTShare: tShares > 0 ? interestHex / tShares : 0,
+  };
+}
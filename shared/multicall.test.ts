@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ethers } from "ethers";
+import { MulticallAggregator, type EthCall } from "./multicall";
+
+const aggregate3 = new ethers.utils.Interface([
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+]);
+
+const TARGET = "0x2b591e99afe9f32eaa6214f7b7629768c40eeb39";
+
+// Answers every call in the batch successfully with its own call data
+function echo(data: string): string {
+  const [calls] = aggregate3.decodeFunctionData("aggregate3", data);
+  return aggregate3.encodeFunctionResult("aggregate3", [
+    calls.map((call: { callData: string }) => ({ success: true, returnData: call.callData })),
+  ]);
+}
+
+function callsIn(data: string): number {
+  return aggregate3.decodeFunctionData("aggregate3", data)[0].length;
+}
+
+describe("MulticallAggregator", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("sends calls made in the same tick as one batch", async () => {
+    const ethCall = vi.fn<EthCall>(async ({ data }) => echo(data));
+    const multicall = new MulticallAggregator(ethCall);
+
+    const results = await Promise.all([multicall.call(TARGET, "0x01"), multicall.call(TARGET, "0x02")]);
+
+    expect(ethCall).toHaveBeenCalledTimes(1);
+    expect(results).toEqual([{ success: true, returnData: "0x01" }, { success: true, returnData: "0x02" }]);
+  });
+
+  it("splits a batch that runs out of gas", async () => {
+    const ethCall = vi.fn<EthCall>(async ({ data }) => {
+      if (callsIn(data) > 1) throw new Error("out of gas");
+      return echo(data);
+    });
+    const multicall = new MulticallAggregator(ethCall);
+
+    const results = await Promise.all([multicall.call(TARGET, "0x01"), multicall.call(TARGET, "0x02")]);
+
+    expect(ethCall).toHaveBeenCalledTimes(3);
+    expect(results.map(result => result.success)).toEqual([true, true]);
+  });
+
+  it("fails a single call that reverts on its own", async () => {
+    const ethCall = vi.fn<EthCall>(async () => {
+      throw Object.assign(new Error("call revert exception"), { code: ethers.errors.CALL_EXCEPTION });
+    });
+    const multicall = new MulticallAggregator(ethCall);
+
+    await expect(multicall.call(TARGET, "0x01")).resolves.toEqual({ success: false, returnData: "0x" });
+  });
+
+  it("rejects the whole batch on a transport error instead of splitting it", async () => {
+    const ethCall = vi.fn<EthCall>(async () => {
+      throw new Error("RPC call timeout");
+    });
+    const multicall = new MulticallAggregator(ethCall);
+
+    const results = await Promise.allSettled([multicall.call(TARGET, "0x01"), multicall.call(TARGET, "0x02")]);
+
+    expect(ethCall).toHaveBeenCalledTimes(1);
+    expect(results.map(result => result.status)).toEqual(["rejected", "rejected"]);
+  });
+});
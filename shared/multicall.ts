@@ -0,0 +1,159 @@
+import { ethers } from "ethers";
+
+// Multicall3 is deployed at the same address on PulseChain as on Ethereum
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+];
+
+const multicall3Interface = new ethers.utils.Interface(MULTICALL3_ABI);
+
+// Keep batches well under node gas and response size limits
+const DEFAULT_MAX_BATCH_SIZE = 200;
+
+export interface MulticallResult {
+  success: boolean;
+  returnData: string;
+}
+
+// Performs a raw eth_call - the server routes this through its RPC failover, the client
+// calls its provider directly
+export type EthCall = (
+  tx: { to: string; data: string },
+  blockTag: ethers.providers.BlockTag
+) => Promise<string>;
+
+interface PendingCall {
+  target: string;
+  callData: string;
+  resolve: (result: MulticallResult) => void;
+  reject: (error: unknown) => void;
+}
+
+interface PendingBatch {
+  blockTag: ethers.providers.BlockTag;
+  calls: PendingCall[];
+}
+
+// A revert or running out of gas comes from the calls in the batch, so a smaller batch may get
+// through. A timeout, rate limit or dropped connection would fail just the same for the halves.
+function isBatchContentError(error: unknown): boolean {
+  const { code, message } = (error ?? {}) as { code?: string; message?: string };
+  if (code === ethers.errors.CALL_EXCEPTION) return true;
+  return /revert|out of gas|gas required exceeds|exceeds block gas limit/i.test(message ?? String(error));
+}
+
+/**
+ * Coalesces contract reads made in the same tick into Multicall3 `aggregate3` batches.
+ * Every call is made with allowFailure, so a reverting contract only fails its own call, which
+ * resolves with success: false. Calls reject only when their batch couldn't be read at all.
+ */
+export class MulticallAggregator {
+  private pending = new Map<string, PendingBatch>();
+  private flushScheduled = false;
+  private stats = { calls: 0, batches: 0, failedBatches: 0 };
+
+  constructor(
+    private ethCall: EthCall,
+    private maxBatchSize: number = DEFAULT_MAX_BATCH_SIZE
+  ) {}
+
+  /**
+   * Queue a raw call. Calls made before the next tick are sent together.
+   */
+  call(target: string, callData: string, blockTag: ethers.providers.BlockTag = "latest"): Promise<MulticallResult> {
+    return new Promise((resolve, reject) => {
+      const key = String(blockTag);
+      const batch = this.pending.get(key) ?? { blockTag, calls: [] };
+      batch.calls.push({ target, callData, resolve, reject });
+      this.pending.set(key, batch);
+      this.stats.calls++;
+      this.scheduleFlush();
+    });
+  }
+
+  /**
+   * Encode, queue and decode a contract function call. Returns null if the call reverted or
+   * returned something that couldn't be decoded, and rejects if the RPC request failed. Functions with a single output resolve to that
+   * value, others to the full ethers Result.
+   */
+  async callFunction<T = any>(
+    contractInterface: ethers.utils.Interface,
+    target: string,
+    functionName: string,
+    args: any[] = [],
+    blockTag: ethers.providers.BlockTag = "latest"
+  ): Promise<T | null> {
+    const result = await this.call(target, contractInterface.encodeFunctionData(functionName, args), blockTag);
+    if (!result.success || result.returnData === "0x") {
+      return null;
+    }
+
+    try {
+      const decoded = contractInterface.decodeFunctionResult(functionName, result.returnData);
+      return (decoded.length === 1 ? decoded[0] : decoded) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  getStats() {
+    return { ...this.stats };
+  }
+
+  private scheduleFlush() {
+    if (this.flushScheduled) return;
+    this.flushScheduled = true;
+    setTimeout(() => this.flush(), 0);
+  }
+
+  private flush() {
+    const pending = this.pending;
+    this.pending = new Map();
+    this.flushScheduled = false;
+
+    pending.forEach(({ blockTag, calls }) => {
+      for (let i = 0; i < calls.length; i += this.maxBatchSize) {
+        void this.executeBatch(calls.slice(i, i + this.maxBatchSize), blockTag);
+      }
+    });
+  }
+
+  private async executeBatch(calls: PendingCall[], blockTag: ethers.providers.BlockTag): Promise<void> {
+    this.stats.batches++;
+
+    try {
+      const data = multicall3Interface.encodeFunctionData("aggregate3", [
+        calls.map((call) => ({ target: call.target, allowFailure: true, callData: call.callData })),
+      ]);
+      const response = await this.ethCall({ to: MULTICALL3_ADDRESS, data }, blockTag);
+      const [results] = multicall3Interface.decodeFunctionResult("aggregate3", response);
+
+      calls.forEach((call, index) => {
+        call.resolve({ success: results[index].success, returnData: results[index].returnData });
+      });
+    } catch (error) {
+      this.stats.failedBatches++;
+
+      if (!isBatchContentError(error)) {
+        calls.forEach((call) => call.reject(error));
+        return;
+      }
+
+      if (calls.length === 1) {
+        calls[0].resolve({ success: false, returnData: "0x" });
+        return;
+      }
+
+      // The whole batch reverted, usually from hitting the gas limit - split it so one expensive
+      // call can't take the rest down with it
+      console.warn(`[Multicall] Batch of ${calls.length} calls failed, retrying in halves:`, error instanceof Error ? error.message : error);
+      const middle = Math.ceil(calls.length / 2);
+      await Promise.all([
+        this.executeBatch(calls.slice(0, middle), blockTag),
+        this.executeBatch(calls.slice(middle), blockTag),
+      ]);
+    }
+  }
+}
@@ -0,0 +1,31 @@
+// OHLC price candles served by GET /api/token/:address/candles, built from the Sync events of
+// the token's PulseX pool.
+
+export const candleIntervals = ["5m", "15m", "1h", "4h", "1d"] as const;
+export type CandleInterval = typeof candleIntervals[number];
+
+export const CANDLE_INTERVAL_SECONDS: Record<CandleInterval, number> = {
+  "5m": 5 * 60,
+  "15m": 15 * 60,
+  "1h": 60 * 60,
+  "4h": 4 * 60 * 60,
+  "1d": 24 * 60 * 60,
+};
+
+export interface PriceCandle {
+  // Start of the interval
+  timestamp: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  // Number of reserve updates in the interval; 0 means the price was carried over
+  updates: number;
+}
+
+export interface PriceCandles {
+  tokenAddress: string;
+  interval: CandleInterval;
+  pairAddress: string;
+  candles: PriceCandle[];
+}
@@ -1,7 +1,11 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp, date } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, date, numeric, doublePrecision, unique, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Roles a user can hold - admins can reach the operational routes
+export const userRoles = ["user", "admin"] as const;
+export type UserRole = typeof userRoles[number];
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
@@ -10,6 +14,7 @@ export const users = pgTable("users", {
   website: text("website"),
   twitterHandle: text("twitter_handle"),
   bio: text("bio"),
+  role: text("role").$type<UserRole>().notNull().default("user"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -239,10 +244,15 @@ export const insertApiCallRecordSchema = createInsertSchema(apiCallRecords).omit
 export type InsertApiCallRecord = z.infer<typeof insertApiCallRecordSchema>;
 export type ApiCallRecord = typeof apiCallRecords.$inferSelect;
 
-// API Rate Limits - To track and enforce rate limits if needed in the future
+// Kinds of callers the rate limiter tracks, from most to least specific
+export const rateLimitClientTypes = ["apiKey", "user", "ip"] as const;
+export type RateLimitClientType = typeof rateLimitClientTypes[number];
+
+// API Rate Limits - Daily request quota per caller for the expensive endpoints
 export const apiRateLimits = pgTable("api_rate_limits", {
   id: serial("id").primaryKey(),
-  walletAddress: text("wallet_address").notNull().unique(),
+  clientKey: text("client_key").notNull().unique(), // e.g. "user:12", "apiKey:3", "ip:1.2.3.4"
+  clientType: text("client_type").$type<RateLimitClientType>().notNull(),
   dailyLimit: integer("daily_limit").notNull().default(1000),
   dailyUsage: integer("daily_usage").notNull().default(0),
   lastReset: timestamp("last_reset").notNull().defaultNow(),
@@ -259,6 +269,35 @@ export const insertApiRateLimitSchema = createInsertSchema(apiRateLimits).omit({
 export type InsertApiRateLimit = z.infer<typeof insertApiRateLimitSchema>;
 export type ApiRateLimit = typeof apiRateLimits.$inferSelect;
 
+// What a personal API key is allowed to do
+export const apiKeyScopes = ["wallet:read", "portfolio:read", "portfolio:write"] as const;
+export type ApiKeyScope = typeof apiKeyScopes[number];
+
+// Personal API keys for scripts - only a SHA-256 hash of the key is stored
+export const apiKeys = pgTable("api_keys", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  name: text("name").notNull(),
+  keyPrefix: text("key_prefix").notNull(), // First characters of the key, shown so users can tell keys apart
+  keyHash: text("key_hash").notNull().unique(),
+  scopes: text("scopes").array().$type<ApiKeyScope[]>().notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertApiKeySchema = createInsertSchema(apiKeys).omit({
+  id: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+}).extend({
+  scopes: z.array(z.enum(apiKeyScopes)).min(1),
+});
+
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type ApiKey = typeof apiKeys.$inferSelect;
+
 // Special tokens that should use DexScreener API for pricing instead of Moralis
 export const dexScreenerPreferredTokens = pgTable("dexscreener_preferred_tokens", {
   id: serial("id").primaryKey(),
@@ -278,3 +317,79 @@ export const insertDexScreenerPreferredTokenSchema = createInsertSchema(dexScree
 
 export type InsertDexScreenerPreferredToken = z.infer<typeof insertDexScreenerPreferredTokenSchema>;
 export type DexScreenerPreferredToken = typeof dexScreenerPreferredTokens.$inferSelect;
+
+// ERC-20 Transfer logs involving an indexed wallet - one row per wallet and log, so a transfer
+// between two indexed wallets is stored for each of them
+export const transferEvents = pgTable("transfer_events", {
+  id: serial("id").primaryKey(),
+  walletAddress: text("wallet_address").notNull(),
+  tokenAddress: text("token_address").notNull(),
+  fromAddress: text("from_address").notNull(),
+  toAddress: text("to_address").notNull(),
+  value: numeric("value", { precision: 78, scale: 0 }).notNull(), // Raw uint256 amount
+  blockNumber: integer("block_number").notNull(),
+  transactionHash: text("transaction_hash").notNull(),
+  logIndex: integer("log_index").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("transfer_events_wallet_log_unique").on(table.walletAddress, table.transactionHash, table.logIndex),
+  index("transfer_events_wallet_block_idx").on(table.walletAddress, table.blockNumber),
+]);
+
+export type TransferEventRecord = typeof transferEvents.$inferSelect;
+export type InsertTransferEventRecord = typeof transferEvents.$inferInsert;
+
+// How far the transfer indexer has got for each wallet - every block up to and including
+// lastIndexedBlock has been scanned
+export const transferIndexCheckpoints = pgTable("transfer_index_checkpoints", {
+  id: serial("id").primaryKey(),
+  walletAddress: text("wallet_address").notNull().unique(),
+  lastIndexedBlock: integer("last_indexed_block").notNull().default(-1),
+  backfilledAt: timestamp("backfilled_at"), // Set once the backfill first reached the chain head
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type TransferIndexCheckpoint = typeof transferIndexCheckpoints.$inferSelect;
+
+// Value of a wallet's token holdings, recorded periodically by the snapshot job
+export const walletSnapshots = pgTable("wallet_snapshots", {
+  id: serial("id").primaryKey(),
+  walletAddress: text("wallet_address").notNull(),
+  totalValue: doublePrecision("total_value").notNull(), // USD
+  tokenCount: integer("token_count").notNull(),
+  takenAt: timestamp("taken_at").notNull().defaultNow(),
+}, (table) => [
+  index("wallet_snapshots_wallet_taken_idx").on(table.walletAddress, table.takenAt),
+]);
+
+export type WalletSnapshot = typeof walletSnapshots.$inferSelect;
+
+// The balances and prices behind a wallet snapshot
+export const walletSnapshotTokens = pgTable("wallet_snapshot_tokens", {
+  id: serial("id").primaryKey(),
+  snapshotId: integer("snapshot_id").references(() => walletSnapshots.id, { onDelete: "cascade" }).notNull(),
+  tokenAddress: text("token_address").notNull(),
+  symbol: text("symbol").notNull(),
+  balance: text("balance").notNull(), // Raw amount
+  balanceFormatted: doublePrecision("balance_formatted").notNull(),
+  price: doublePrecision("price"), // USD, null if the token had no price
+  value: doublePrecision("value").notNull(),
+}, (table) => [
+  index("wallet_snapshot_tokens_snapshot_idx").on(table.snapshotId),
+]);
+
+export type WalletSnapshotToken = typeof walletSnapshotTokens.$inferSelect;
+
+// Sum of a portfolio's wallet snapshots from the same run
+export const portfolioSnapshots = pgTable("portfolio_snapshots", {
+  id: serial("id").primaryKey(),
+  portfolioId: integer("portfolio_id").references(() => portfolios.id).notNull(),
+  totalValue: doublePrecision("total_value").notNull(), // USD
+  walletCount: integer("wallet_count").notNull(),
+  takenAt: timestamp("taken_at").notNull().defaultNow(),
+}, (table) => [
+  index("portfolio_snapshots_portfolio_taken_idx").on(table.portfolioId, table.takenAt),
+]);
+
+export type PortfolioSnapshot = typeof portfolioSnapshots.$inferSelect;
@@ -0,0 +1,86 @@
+// Sign-In With Ethereum (EIP-4361) message helpers shared by the client and server
+export interface SiweMessageFields {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+}
+
+export const SIWE_STATEMENT = 'Sign in to FrenKabal. This signature does not cost any gas or send a transaction.';
+
+// Sessions are for PulseChain accounts, whatever network the wallet happens to be on when it signs
+export const SIWE_CHAIN_ID = 369;
+
+// Build the plain-text message the wallet is asked to sign
+export function buildSiweMessage(fields: SiweMessageFields): string {
+  const lines = [
+    `${fields.domain} wants you to sign in with your Ethereum account:`,
+    fields.address,
+    '',
+  ];
+
+  if (fields.statement) {
+    lines.push(fields.statement, '');
+  }
+
+  lines.push(
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+  );
+
+  if (fields.expirationTime) {
+    lines.push(`Expiration Time: ${fields.expirationTime}`);
+  }
+
+  return lines.join('\n');
+}
+
+// Parse a signed message back into its fields, returning null if it is not a SIWE message
+export function parseSiweMessage(message: string): SiweMessageFields | null {
+  const lines = message.split('\n');
+  const header = lines[0]?.match(/^(\S+) wants you to sign in with your Ethereum account:$/);
+  const address = lines[1]?.trim();
+
+  if (!header || !address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    return null;
+  }
+
+  const field = (name: string): string | undefined => {
+    const line = lines.find(l => l.startsWith(`${name}: `));
+    return line ? line.substring(name.length + 2).trim() : undefined;
+  };
+
+  const uri = field('URI');
+  const version = field('Version');
+  const chainId = parseInt(field('Chain ID') || '', 10);
+  const nonce = field('Nonce');
+  const issuedAt = field('Issued At');
+
+  if (!uri || !version || isNaN(chainId) || !nonce || !issuedAt) {
+    return null;
+  }
+
+  // The statement is the optional block between the address and the URI line
+  const uriIndex = lines.findIndex(l => l.startsWith('URI: '));
+  const statement = lines.slice(2, uriIndex).join('\n').trim() || undefined;
+
+  return {
+    domain: header[1],
+    address,
+    statement,
+    uri,
+    version,
+    chainId,
+    nonce,
+    issuedAt,
+    expirationTime: field('Expiration Time'),
+  };
+}
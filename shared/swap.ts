@@ -0,0 +1,37 @@
+// Swaps decoded from PulseX router and aggregator transactions, attached to transactions in the
+// history as `swap`. Amounts are what the pools actually traded, read from the receipt's logs.
+
+// PulseX routers whose calldata the swap decoder reads, by lowercase address
+export const PULSEX_ROUTERS: Record<string, "pulsex-v1" | "pulsex-v2"> = {
+  "0x98bf93ebf5c380c0e6ae8e192a7e2ae08edacc02": "pulsex-v1",
+  "0x165c3410fc91ef562c50559f7d2289febed552d9": "pulsex-v2",
+};
+
+export interface SwapToken {
+  // Native PLS is 0xeeee...eeee
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface SwapRecord {
+  protocol: "pulsex-v1" | "pulsex-v2" | "aggregator";
+  // Router or aggregator contract the wallet called
+  router: string;
+  // Router function name when the calldata could be decoded
+  method: string | null;
+  tokenIn: SwapToken;
+  tokenOut: SwapToken;
+  // Human-readable amounts
+  amountIn: number;
+  amountOut: number;
+  // Token addresses from tokenIn to tokenOut, through any intermediate pools
+  path: string[];
+  // tokenOut received per tokenIn
+  executionPrice: number;
+  // tokenOut per tokenIn at the pools' reserves just before the swap, null when the trade
+  // was split across routes
+  spotPrice: number | null;
+  // How much worse the execution price was than spot, in percent (includes the pool fee)
+  slippagePercent: number | null;
+}
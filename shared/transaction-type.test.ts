@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { getTransactionType, isInternalMove, type ClassifiableTransaction } from "./transaction-type";
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+const OWN_WALLET = "0xabcdefabcdefabcdefabcdefabcdefabcdefabcd";
+const STRANGER = "0x3333333333333333333333333333333333333333";
+const TOKEN = "0x2b591e99afe9f32eaa6214f7b7629768c40eeb39";
+
+function tx(overrides: Partial<ClassifiableTransaction>): ClassifiableTransaction {
+  return { from_address: WALLET, to_address: TOKEN, value: "0", erc20_transfers: [], native_transfers: [], ...overrides };
+}
+
+describe("isInternalMove", () => {
+  it("is true for PLS sent to another own wallet", () => {
+    const send = tx({ to_address: OWN_WALLET, value: "1000" });
+    expect(isInternalMove(send, WALLET, [WALLET, OWN_WALLET])).toBe(true);
+  });
+
+  it("is true for tokens received from another own wallet, whatever the address case", () => {
+    const receive = tx({
+      from_address: OWN_WALLET,
+      erc20_transfers: [{ from_address: "0xABCDEFABCDEFABCDEFABCDEFABCDEFABCDEFABCD", to_address: WALLET, value: "5" }],
+    });
+    expect(isInternalMove(receive, WALLET, [OWN_WALLET])).toBe(true);
+  });
+
+  it("is false when anything went to or came from someone else", () => {
+    const split = tx({
+      erc20_transfers: [
+        { from_address: WALLET, to_address: OWN_WALLET, value: "5" },
+        { from_address: WALLET, to_address: STRANGER, value: "5" },
+      ],
+    });
+    expect(isInternalMove(split, WALLET, [OWN_WALLET])).toBe(false);
+  });
+
+  it("is false without any other own wallets", () => {
+    const send = tx({ to_address: OWN_WALLET, value: "1000" });
+    expect(isInternalMove(send, WALLET, [])).toBe(false);
+    expect(isInternalMove(send, WALLET, [WALLET])).toBe(false);
+  });
+
+  it("is false when nothing moved", () => {
+    const approval = tx({ method_label: "approve" });
+    expect(isInternalMove(approval, WALLET, [OWN_WALLET])).toBe(false);
+  });
+
+  it("ignores zero-value transfers and transfers the wallet wasn't part of", () => {
+    const move = tx({
+      erc20_transfers: [
+        { from_address: WALLET, to_address: OWN_WALLET, value: "5" },
+        { from_address: WALLET, to_address: STRANGER, value: "0" },
+        { from_address: STRANGER, to_address: TOKEN, value: "7" },
+      ],
+    });
+    expect(isInternalMove(move, WALLET, [OWN_WALLET])).toBe(true);
+  });
+
+  it("makes the transaction type internal", () => {
+    const send = tx({ to_address: OWN_WALLET, value: "1000" });
+    expect(getTransactionType(send, WALLET, [OWN_WALLET])).toBe("internal");
+    expect(getTransactionType(send, WALLET)).toBe("send");
+  });
+});
@@ -0,0 +1,125 @@
+// Transaction classification shared by the transaction history view and the server-side
+// cost-basis engine, so both agree on what counts as a swap.
+
+import { PULSEX_ROUTERS } from './swap';
+
+export type TransactionType = 'all' | 'swap' | 'send' | 'receive' | 'internal' | 'approval' | 'contract';
+
+export interface ClassifiableTransfer {
+  from_address: string;
+  to_address: string;
+  value?: string;
+  direction?: string;
+}
+
+export interface ClassifiableTransaction {
+  from_address: string;
+  to_address: string;
+  value: string;
+  method_label?: string;
+  erc20_transfers?: ClassifiableTransfer[];
+  native_transfers?: ClassifiableTransfer[];
+  swap?: object | null;
+}
+
+const SWAP_METHOD_SIGNATURES = [
+  'swap', 'trade', 'multicall', 'exactinput', 'exactoutput', 'swapexact', 'swaptokens',
+  'swapETHForExactTokens', 'swapExactETHForTokens', 'swapTokensForExactETH', 'swapExactTokensForETH',
+  'swapTokensForExactTokens', 'swapExactTokensForTokens', 'addLiquidity', 'removeLiquidity'
+];
+
+// Lowercase, to match against lowercased to_address
+const DEX_ROUTER_ADDRESSES = new Set([
+  ...Object.keys(PULSEX_ROUTERS),
+  '0x7a250d5630b4cf539739df2c5dacb4c659f2488d', // Uniswap V2 Router
+  '0xe592427a0aece92de3edee1f18e0157c05861564', // Uniswap V3 Router
+]);
+
+/**
+ * Direction of a token transfer relative to the wallet. Transfers picked up from recent blocks
+ * don't carry a direction, so it's worked out from the addresses.
+ */
+export function getTransferDirection(transfer: ClassifiableTransfer, walletAddress: string): 'send' | 'receive' | 'internal' {
+  if (transfer.direction === 'send' || transfer.direction === 'receive' || transfer.direction === 'internal') {
+    return transfer.direction;
+  }
+
+  const wallet = walletAddress.toLowerCase();
+  if (transfer.from_address?.toLowerCase() === wallet) return 'send';
+  if (transfer.to_address?.toLowerCase() === wallet) return 'receive';
+  return 'internal';
+}
+
+/**
+ * Whether everything the wallet sent or received in the transaction went to or came from one of
+ * the owner's other wallets, e.g. another address in the same portfolio
+ */
+export function isInternalMove(tx: ClassifiableTransaction, walletAddress: string, ownWallets: string[]): boolean {
+  const wallet = walletAddress.toLowerCase();
+  const others = new Set(ownWallets.map(address => address.toLowerCase()).filter(address => address !== wallet));
+  if (others.size === 0) return false;
+
+  const movements: ClassifiableTransfer[] = [...(tx.erc20_transfers || []), ...(tx.native_transfers || [])];
+  if (tx.value && tx.value !== '0') {
+    movements.push({ from_address: tx.from_address, to_address: tx.to_address, value: tx.value });
+  }
+
+  let moved = false;
+  for (const movement of movements) {
+    if (!movement || movement.value === '0') continue;
+
+    const direction = getTransferDirection(movement, wallet);
+    if (direction === 'internal') continue;
+
+    const counterparty = direction === 'send' ? movement.to_address : movement.from_address;
+    if (!others.has(counterparty?.toLowerCase())) return false;
+    moved = true;
+  }
+
+  return moved;
+}
+
+export function getTransactionType(tx: ClassifiableTransaction, walletAddress: string, ownWallets: string[] = []): TransactionType {
+  // Moves between the owner's own wallets aren't really sends or receives
+  if (isInternalMove(tx, walletAddress, ownWallets)) {
+    return 'internal';
+  }
+
+  // Swaps decoded from the router calldata and pool events need no guessing
+  if (tx.swap) {
+    return 'swap';
+  }
+
+  // Check for swaps - enhanced detection
+  const isSwapMethod = tx.method_label && SWAP_METHOD_SIGNATURES.some(sig => tx.method_label?.toLowerCase().includes(sig.toLowerCase()));
+  const isDexRouter = DEX_ROUTER_ADDRESSES.has(tx.to_address?.toLowerCase() || '');
+
+  const hasSendTransfers = tx.erc20_transfers?.some(t => t && getTransferDirection(t, walletAddress) === 'send');
+  const hasReceiveTransfers = tx.erc20_transfers?.some(t => t && getTransferDirection(t, walletAddress) === 'receive');
+
+  // Enhanced swap detection - if we have both sends and receives, it's likely a swap
+  if ((isSwapMethod || isDexRouter) || (hasSendTransfers && hasReceiveTransfers)) {
+    return 'swap';
+  }
+
+  // Check for approvals
+  if (tx.method_label?.toLowerCase().includes('approve')) {
+    return 'approval';
+  }
+
+  // Check for sends/receives
+  if (hasSendTransfers && !hasReceiveTransfers) return 'send';
+  if (hasReceiveTransfers && !hasSendTransfers) return 'receive';
+
+  // Check for contract interactions
+  if (tx.to_address && (tx.value === '0' || tx.value === '') && !tx.erc20_transfers?.length) {
+    return 'contract';
+  }
+
+  // Native PLS transfers
+  if (tx.value && tx.value !== '0' && !tx.erc20_transfers?.length) {
+    return tx.from_address.toLowerCase() === walletAddress.toLowerCase() ? 'send' : 'receive';
+  }
+
+  return 'all';
+}
@@ -0,0 +1,17 @@
+// Net worth history served by GET /api/wallet/:address/history and
+// GET /api/portfolios/:id/history, built from the periodic value snapshots.
+
+export const valueHistoryRanges = ["24h", "7d", "30d", "90d", "1y", "all"] as const;
+export type ValueHistoryRange = typeof valueHistoryRanges[number];
+
+export interface ValueHistoryPoint {
+  timestamp: string;
+  totalValue: number;
+}
+
+export interface ValueHistory {
+  range: ValueHistoryRange;
+  points: ValueHistoryPoint[];
+  // Change from the first to the last point in the range, null with fewer than two points
+  change: { absolute: number; percent: number | null } | null;
+}
@@ -0,0 +1,72 @@
+// Events pushed by GET /api/wallet/:address/stream. Each is sent as a named SSE event with an
+// increasing id, so a reconnecting EventSource resumes where it left off via Last-Event-ID.
+
+// A token's balance changed. `delta` is the change in formatted units since the last balance
+// the server knew about, or null if it had none. `reorg` balances were re-read after a chain
+// reorganization orphaned the block of the previous update.
+export interface BalanceStreamEvent {
+  token: string;
+  symbol?: string;
+  name?: string;
+  decimals?: number;
+  balance: string;
+  balanceFormatted: number;
+  previousBalance: string | null;
+  delta: number | null;
+  blockNumber: number | null;
+  source: 'transfer' | 'reconciliation' | 'reorg';
+}
+
+// Fresh USD prices for the wallet's tokens, keyed by lowercase token address. Only prices that
+// changed since the last refresh are included.
+export interface PriceStreamEvent {
+  prices: Record<string, number>;
+}
+
+// A transaction that moved one of the wallet's tracked tokens. Shaped like the entries of
+// /api/wallet/:address/scanner-transactions so it can be prepended to that list.
+export interface TransactionStreamEvent {
+  transaction: {
+    hash: string;
+    nonce: string;
+    transaction_index: string;
+    from_address: string;
+    to_address: string;
+    value: string;
+    gas: string;
+    gas_price: string;
+    receipt_gas_used: string;
+    receipt_status: string;
+    block_timestamp: string;
+    block_number: string;
+    transaction_fee: string;
+    erc20_transfers: Array<{
+      address: string;
+      token_name?: string;
+      token_symbol?: string;
+      token_decimals?: string;
+      from_address: string;
+      to_address: string;
+      log_index: number;
+      value: string;
+      value_formatted?: string;
+    }>;
+    native_transfers: [];
+  };
+}
+
+// The client asked to resume from an event that's no longer buffered - refetch everything
+export interface ResetStreamEvent {
+  reason: string;
+}
+
+export interface WalletStreamEventMap {
+  balance: BalanceStreamEvent;
+  price: PriceStreamEvent;
+  transaction: TransactionStreamEvent;
+  reset: ResetStreamEvent;
+}
+
+export type WalletStreamEventType = keyof WalletStreamEventMap;
+
+export const walletStreamEventTypes: WalletStreamEventType[] = ['balance', 'price', 'transaction', 'reset'];